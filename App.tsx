@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Layout } from './components/Layout';
 import { ZenUpload } from './components/ZenUpload';
 import { ScoreDashboard } from './components/ScoreDashboard';
@@ -8,10 +8,19 @@ import { BrandRules } from './components/BrandRules';
 import { KnowledgeBase } from './components/KnowledgeBase';
 import { UserManagement } from './components/UserManagement';
 import { AdminDashboard } from './components/AdminDashboard';
+import { BatchDashboard } from './components/BatchDashboard';
+import { Campaigns } from './components/Campaigns';
 import { ToastProvider, useToast } from './components/Toast';
 import { ErrorBoundary } from './components/ErrorBoundary';
-import { AppView, CommunicationContext, Region, UploadState, AnalysisResult, BrandSettings, AssetType, UserRole, HistoryItem, FixIntensity, AudienceScope } from './types';
+import { AppView, CommunicationContext, Region, UploadState, AnalysisResult, BrandSettings, AssetType, UserRole, HistoryItem, FixIntensity, AudienceScope, AnalysisRecord, BrandProfile, BatchJob, Campaign } from './types';
 import { analyzeContent } from './services/gemini';
+import { loadProfiles, saveProfiles, getActiveVersion, appendVersion, rollbackToVersion, settingsEqual, createProfile, updateProfileVersions, profileName } from './services/brandVersions';
+import { mergeCoBrandedResults } from './services/coBranding';
+import { toStoredEmail } from './services/email';
+import { ingestAsset, toUploadFields } from './services/ingestion';
+import { BatchRun, createBatchJobs, detectJobAssetType, startBatch } from './services/batch';
+import { loadHistory, saveHistoryItems, saveAnalysis, getAnalysisRecord, migrateLegacyHistory, countCategories, loadCampaigns, saveCampaign } from './services/historyStore';
+import { createCampaign, removeCampaign, runCampaignCheck, updateCampaignMembers } from './services/campaigns';
 
 // Sample initial history (used only if storage is empty)
 const INITIAL_HISTORY: HistoryItem[] = [
@@ -61,8 +70,32 @@ AERION deliberately adopts visual restraint as a strategic tool. The question 
     styleGuide: `2. VISUAL IDENTITY SYSTEM
 The visual system of AERION is built to be rigorous, repeatable, and scalable. It is intentionally minimal but not empty.`,
 
-    bannedTerms: `synergy, paradigm shift, leverage, bandwidth, rockstar, ninja, guru, disruptive (unless referring to tech)`,
-    inclusiveLanguage: true
+    bannedTerms: [
+        { id: 'synergy', term: 'synergy', variants: ['synergies', 'synergistic'], replacement: 'collaboration', severity: 'High' },
+        { id: 'paradigm-shift', term: 'paradigm shift', replacement: 'fundamental change', severity: 'High' },
+        { id: 'leverage', term: 'leverage', variants: ['leveraging', 'leveraged'], replacement: 'use', severity: 'High' },
+        { id: 'bandwidth', term: 'bandwidth', replacement: 'capacity', severity: 'Medium', exceptionReferent: 'networking' },
+        { id: 'rockstar', term: 'rockstar', replacement: 'expert', severity: 'High' },
+        { id: 'ninja', term: 'ninja', replacement: 'expert', severity: 'High' },
+        { id: 'guru', term: 'guru', replacement: 'expert', severity: 'High' },
+        { id: 'disruptive', term: 'disruptive', severity: 'High', exceptionReferent: 'tech' }
+    ],
+    inclusiveLanguage: true,
+    requiredDisclaimers: [
+        {
+            id: 'pricing',
+            label: 'Pricing disclaimer',
+            text: 'Prices are subject to change without notice.',
+            assetTypes: [AssetType.PRICE_LIST, AssetType.PROPOSAL]
+        },
+        {
+            id: 'results',
+            label: 'Results disclaimer',
+            text: 'Individual results may vary.',
+            contexts: [CommunicationContext.MARKETING, CommunicationContext.SALES],
+            triggers: ['guarantee', 'guaranteed', 'proven results']
+        }
+    ]
 };
 
 const DEFAULT_UPLOAD_STATE: UploadState = {
@@ -90,29 +123,57 @@ function AppContent() {
     }, []);
 
     // -- PERSISTENCE LAYER --
-    const [history, setHistory] = useState<HistoryItem[]>(() => {
-        const saved = localStorage.getItem('brandai_history');
-        if (saved) {
+    // History lives in IndexedDB (see services/historyStore); loaded once on mount
+    const [history, setHistory] = useState<HistoryItem[]>([]);
+    // Set when the results view shows a run reopened from history
+    const [reopenedRun, setReopenedRun] = useState<AnalysisRecord | null>(null);
+    // The list a reopened run was opened from: history or a batch
+    const [reopenedFrom, setReopenedFrom] = useState<AppView>(AppView.HISTORY);
+    const lastHistoryId = useRef(0);
+
+    useEffect(() => {
+        const load = async () => {
             try {
-                const parsed = JSON.parse(saved);
-                // Migration: Ensure safetyStatus exists
-                return parsed.map((item: any) => ({
-                    ...item,
-                    safetyStatus: item.safetyStatus || (item.score >= 90 ? 'Safe' : item.score >= 70 ? 'Caution' : 'Unsafe'),
-                    issuesCount: item.issuesCount || item.issues || 0
-                }));
+                await migrateLegacyHistory();
+                let items = await loadHistory();
+                if (items.length === 0) {
+                    await saveHistoryItems(INITIAL_HISTORY);
+                    items = INITIAL_HISTORY;
+                }
+                setHistory(items);
             } catch (e) {
-                console.error("Failed to parse history", e);
-                return INITIAL_HISTORY;
+                console.error("Failed to load history", e);
+                setHistory(INITIAL_HISTORY);
             }
-        }
-        return INITIAL_HISTORY;
-    });
+        };
+        load();
+    }, []);
 
-    const [brandSettings, setBrandSettings] = useState<BrandSettings>(() => {
-        const saved = localStorage.getItem('brandai_settings');
-        return saved ? JSON.parse(saved) : INITIAL_SETTINGS;
-    });
+    // Campaigns group history entries; stored alongside them
+    const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+
+    useEffect(() => {
+        loadCampaigns()
+            .then(setCampaigns)
+            .catch(e => console.error("Failed to load campaigns", e));
+    }, []);
+
+    // One versioned guideline set per brand; the workspace shows the active brand
+    const [brandProfiles, setBrandProfiles] = useState<BrandProfile[]>(() => loadProfiles(INITIAL_SETTINGS));
+    const [activeBrandId, setActiveBrandId] = useState<string>(() => localStorage.getItem('brandai_active_brand') || '');
+    const activeProfile = brandProfiles.find(p => p.id === activeBrandId) || brandProfiles[0];
+    const activeVersion = getActiveVersion(activeProfile.versions);
+    const brandSettings = activeVersion.settings;
+    const brandOptions = brandProfiles.map(p => ({ id: p.id, name: profileName(p) }));
+    const brandNames = Object.fromEntries(brandOptions.map(b => [b.id, b.name]));
+
+    // Entries from before workspaces existed belong to the first brand
+    const brandHistory = history.filter(h =>
+        (h.brandId || brandProfiles[0].id) === activeProfile.id || h.partnerBrandId === activeProfile.id
+    );
+    const brandCampaigns = campaigns.filter(c => c.brandId === activeProfile.id);
+    // Mirrors the profile name shown in Layout
+    const currentUserName = userRole === UserRole.ADMIN ? 'Admin User' : 'Jane Doe';
 
     const [uploadState, setUploadState] = useState<UploadState>(() => {
         // Always start fresh for wizard flow - ignore cached draft
@@ -122,12 +183,12 @@ function AppContent() {
 
     // Save to local storage whenever they change
     useEffect(() => {
-        localStorage.setItem('brandai_history', JSON.stringify(history));
-    }, [history]);
+        saveProfiles(brandProfiles);
+    }, [brandProfiles]);
 
     useEffect(() => {
-        localStorage.setItem('brandai_settings', JSON.stringify(brandSettings));
-    }, [brandSettings]);
+        localStorage.setItem('brandai_active_brand', activeProfile.id);
+    }, [activeProfile.id]);
 
     useEffect(() => {
         // Auto-save draft (excluding binary file data to avoid quota issues)
@@ -155,12 +216,118 @@ function AppContent() {
         }
     }, [userRole]);
 
-    const handleAnalyze = async () => {
-        // Determine content to analyze
-        let contentToAnalyze = uploadState.textInput;
+    // Runs the analysis of an upload against its brand (and partner brand, when co-branded)
+    const analyzeUpload = async (state: UploadState, onProgress: (p: number) => void) => {
+        const primaryProfile = brandProfiles.find(p => p.id === state.brandId) || activeProfile;
+        const primaryVersion = getActiveVersion(primaryProfile.versions);
+        // Co-branded assets are checked against both brands at once
+        const partnerProfile = state.assetType === AssetType.CO_BRANDED
+            ? brandProfiles.find(p => p.id === state.partnerBrandId && p.id !== primaryProfile.id)
+            : undefined;
+        const partnerVersion = partnerProfile && getActiveVersion(partnerProfile.versions);
+
+        const runAnalysis = (settings: BrandSettings, onRunProgress: (p: number) => void) => analyzeContent({
+            content: state.textInput,
+            context: state.context,
+            region: state.region,
+            assetType: state.assetType,
+            settings,
+            fixIntensity: 'Medium', // Default intensity
+            fileBase64: state.fileBase64,
+            mimeType: state.mimeType,
+            additionalContext: state.additionalContext,
+            visualSlides: state.ingestedAsset?.visualSlides, // Pass extracted PPTX slides for analysis
+            documentStyles: state.ingestedAsset?.documentStyles,
+            textLayout: state.ingestedAsset?.textLayout,
+            workbook: state.ingestedAsset?.workbook,
+            webPage: state.ingestedAsset?.webPage,
+            email: state.ingestedAsset?.email,
+            audienceScope: state.audienceScope,
+            transcript: state.ingestedAsset?.transcript
+        }, onRunProgress);
+
+        let result: AnalysisResult;
+        if (partnerProfile && partnerVersion) {
+            const primaryResult = await runAnalysis(primaryVersion.settings, (p) => onProgress(Math.round(p / 2)));
+            const partnerResult = await runAnalysis(partnerVersion.settings, (p) => onProgress(50 + Math.round(p / 2)));
+            result = mergeCoBrandedResults(
+                { brandId: primaryProfile.id, brandName: primaryVersion.settings.brandName, result: primaryResult },
+                { brandId: partnerProfile.id, brandName: partnerVersion.settings.brandName, result: partnerResult }
+            );
+        } else {
+            result = await runAnalysis(primaryVersion.settings, onProgress);
+        }
+        return { result, primaryProfile, primaryVersion, partnerProfile, partnerVersion };
+    };
+
+    // Adds a finished analysis to the history and stores it for reopening
+    const recordAnalysis = (state: UploadState, { result, primaryProfile, primaryVersion, partnerProfile, partnerVersion }: Awaited<ReturnType<typeof analyzeUpload>>): HistoryItem => {
+        // Add to history with detailed metrics
+        const newHistoryItem: HistoryItem = {
+            // Batch jobs can finish in the same millisecond
+            id: Math.max(Date.now(), lastHistoryId.current + 1),
+            filename: state.file?.name || "Text Content",
+            type: state.assetType,
+            date: new Date().toISOString(),
+            safetyStatus: result.safetyStatus,
+            context: state.context,
+            region: state.region,
+            issuesCount: result.issues.length,
+            topIssues: result.issues.slice(0, 3).map(i => i.description),
+            categoryCounts: countCategories(result.issues),
+            hasRecord: true,
+            brandId: primaryProfile.id,
+            partnerBrandId: partnerProfile?.id,
+            contextSnapshot: {
+                brandSettingsVersion: primaryVersion.id,
+                partnerSettingsVersion: partnerVersion?.id,
+                timestamp: Date.now()
+            }
+        };
+        lastHistoryId.current = newHistoryItem.id;
+        const record: AnalysisRecord = {
+            id: newHistoryItem.id,
+            createdAt: newHistoryItem.date,
+            result,
+            upload: {
+                fileName: state.file?.name,
+                textInput: state.textInput,
+                sharePointUrl: state.sharePointUrl,
+                context: state.context,
+                region: state.region,
+                assetType: state.assetType,
+                mimeType: state.mimeType,
+                additionalContext: state.additionalContext,
+                detectedConfidence: state.detectedConfidence,
+                audienceScope: state.audienceScope,
+                brandId: primaryProfile.id,
+                partnerBrandId: partnerProfile?.id
+            },
+            brandSettingsVersion: newHistoryItem.contextSnapshot.brandSettingsVersion,
+            preview: {
+                fileBase64: state.fileBase64,
+                htmlPreview: state.htmlPreview,
+                visualSlides: state.ingestedAsset?.visualSlides,
+                documentStyles: state.ingestedAsset?.documentStyles,
+                textLayout: state.ingestedAsset?.textLayout,
+                workbook: state.ingestedAsset?.workbook,
+                webPage: state.ingestedAsset?.webPage,
+                email: state.ingestedAsset?.email && toStoredEmail(state.ingestedAsset.email),
+                transcript: state.ingestedAsset?.transcript,
+                waveform: state.ingestedAsset?.waveform
+            }
+        };
+        setHistory(prev => [newHistoryItem, ...prev]);
+        saveAnalysis(newHistoryItem, record).catch(e => {
+            console.error("Failed to save analysis", e);
+            addToast("Analysis could not be saved to history.", "error");
+        });
+        return newHistoryItem;
+    };
 
-        // Allow empty text if file is present (PDF, Image, etc)
-        if (!contentToAnalyze && !uploadState.fileBase64) {
+    const handleAnalyze = async () => {
+        // Allow empty text if file is present (PDF, Image, etc) or its frames were sampled (video)
+        if (!uploadState.textInput && !uploadState.fileBase64 && !uploadState.ingestedAsset?.visualSlides?.length) {
             if (uploadState.file) {
                 addToast("Processing file. Please wait...", "info");
                 return;
@@ -171,38 +338,10 @@ function AppContent() {
 
         setIsAnalyzing(true);
         try {
-            const result = await analyzeContent(
-                contentToAnalyze,
-                uploadState.context,
-                uploadState.region,
-                uploadState.assetType,
-                brandSettings,
-                'Medium', // Default intensity
-                uploadState.fileBase64,
-                uploadState.mimeType,
-                uploadState.additionalContext,
-                uploadState.ingestedAsset?.visualSlides, // Pass extracted PPTX slides for analysis
-                (p) => setProgress(p)
-            );
-            setAnalysisResult(result);
-
-            // Add to history with detailed metrics
-            const newHistoryItem: HistoryItem = {
-                id: Date.now(),
-                filename: uploadState.file?.name || "Text Content",
-                type: uploadState.assetType,
-                date: new Date().toISOString(),
-                safetyStatus: result.safetyStatus,
-                context: uploadState.context,
-                region: uploadState.region,
-                issuesCount: result.issues.length,
-                topIssues: result.issues.slice(0, 3).map(i => i.description),
-                contextSnapshot: {
-                    brandSettingsVersion: "v2.1",
-                    timestamp: Date.now()
-                }
-            };
-            setHistory(prev => [newHistoryItem, ...prev]);
+            const analysis = await analyzeUpload(uploadState, (p) => setProgress(p));
+            setAnalysisResult(analysis.result);
+            recordAnalysis(uploadState, analysis);
+            setReopenedRun(null);
 
             setCurrentView(AppView.RESULTS);
             addToast("Analysis Complete.", "success");
@@ -215,10 +354,224 @@ function AppContent() {
         }
     };
 
+    // -- BATCH UPLOADS --
+    const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
+    const [batchPaused, setBatchPaused] = useState(false);
+    const batchRun = useRef<BatchRun | null>(null);
+
+    const updateBatchJob = (id: string, patch: Partial<BatchJob>) => {
+        setBatchJobs(prev => prev.map(job => job.id === id ? { ...job, ...patch } : job));
+    };
+
+    // One batch file: read, typed and analyzed like a single upload with the batch's scope, region and brand
+    const runBatchJob = async (job: BatchJob, shared: UploadState, signal: AbortSignal): Promise<Partial<BatchJob>> => {
+        updateBatchJob(job.id, { status: 'ingesting' });
+        const asset = await ingestAsset(job.file, job.sidecars);
+        signal.throwIfAborted();
+        const fields = toUploadFields(asset);
+        if (!fields.textInput && !fields.fileBase64 && !asset.visualSlides?.length) {
+            throw new Error("No content could be read from this file.");
+        }
+
+        const option = await detectJobAssetType(job.file.name, fields.textInput, shared.audienceScope);
+        signal.throwIfAborted();
+        updateBatchJob(job.id, { status: 'analyzing', assetType: option.value, context: option.context });
+        const state: UploadState = {
+            ...shared,
+            ...fields,
+            file: job.file,
+            ingestedAsset: asset,
+            assetType: option.value,
+            context: option.context,
+            partnerBrandId: undefined
+        };
+        const analysis = await analyzeUpload(state, (p) => updateBatchJob(job.id, { progress: p }));
+        // A cancelled job is not saved, even when its analysis came back
+        signal.throwIfAborted();
+        return { historyItem: recordAnalysis(state, analysis), brandScore: analysis.result.brandScore };
+    };
+
+    const handleAnalyzeBatch = async (files: File[]) => {
+        if (batchRun.current) {
+            addToast("A batch is already running.", "error");
+            return;
+        }
+        let jobs: BatchJob[];
+        try {
+            jobs = await createBatchJobs(files);
+        } catch (e) {
+            console.error("Failed to read batch", e);
+            addToast("The archive could not be read.", "error");
+            return;
+        }
+        if (jobs.length === 0) {
+            addToast("No files to analyze.", "error");
+            return;
+        }
+
+        const shared = { ...uploadState };
+        setBatchJobs(jobs);
+        setBatchPaused(false);
+        setCurrentView(AppView.BATCH);
+        const run = startBatch(jobs, (job, signal) => runBatchJob(job, shared, signal), updateBatchJob);
+        batchRun.current = run;
+        await run.finished;
+        batchRun.current = null;
+        setBatchPaused(false);
+        addToast(`Batch finished: ${jobs.length} files.`, "success");
+    };
+
+    const handlePauseBatch = () => {
+        batchRun.current?.pause();
+        setBatchPaused(true);
+    };
+
+    const handleResumeBatch = () => {
+        batchRun.current?.resume();
+        setBatchPaused(false);
+    };
+
+    const handleCancelBatch = () => batchRun.current?.cancel();
+
+    const handleNewBatch = () => {
+        setBatchJobs([]);
+        setUploadState(DEFAULT_UPLOAD_STATE);
+        setCurrentView(AppView.UPLOAD);
+    };
+
+    // -- CAMPAIGNS --
+    // Members whose stored run a campaign action changed
+    const replaceHistoryItems = (items: HistoryItem[]) => {
+        setHistory(prev => prev.map(h => items.find(i => i.id === h.id) || h));
+    };
+
+    const replaceCampaign = (campaign: Campaign) => {
+        setCampaigns(prev => prev.map(c => c.id === campaign.id ? campaign : c));
+    };
+
+    const handleCreateCampaign = async (name: string, memberIds: number[]) => {
+        const campaign = createCampaign(name, activeProfile.id, memberIds);
+        try {
+            await saveCampaign(campaign);
+            setCampaigns(prev => [campaign, ...prev]);
+            addToast(`Campaign "${campaign.name}" created.`, "success");
+        } catch (e) {
+            console.error("Failed to save campaign", e);
+            addToast("The campaign could not be saved.", "error");
+        }
+    };
+
+    const handleUpdateCampaignMembers = async (campaign: Campaign, memberIds: number[]) => {
+        try {
+            const updated = await updateCampaignMembers(campaign, memberIds, history);
+            replaceCampaign(updated.campaign);
+            replaceHistoryItems(updated.items);
+        } catch (e) {
+            console.error("Failed to update campaign", e);
+            addToast("The campaign could not be updated.", "error");
+        }
+    };
+
+    const handleDeleteCampaign = async (campaign: Campaign) => {
+        try {
+            replaceHistoryItems(await removeCampaign(campaign, history));
+            setCampaigns(prev => prev.filter(c => c.id !== campaign.id));
+            addToast(`Campaign "${campaign.name}" deleted.`, "success");
+        } catch (e) {
+            console.error("Failed to delete campaign", e);
+            addToast("The campaign could not be deleted.", "error");
+        }
+    };
+
+    const handleCheckCampaign = async (campaign: Campaign) => {
+        try {
+            const check = await runCampaignCheck(campaign, history);
+            replaceCampaign(check.campaign);
+            replaceHistoryItems(check.items);
+            const skipped = check.skipped.length ? ` ${check.skipped.length} assets had no text to compare.` : '';
+            addToast(check.findingsCount
+                ? `Found ${check.findingsCount} inconsistencies across the campaign.${skipped}`
+                : `The campaign's assets are consistent.${skipped}`, check.findingsCount ? "info" : "success");
+        } catch (e) {
+            console.error("Campaign check failed", e);
+            addToast("The consistency check failed.", "error");
+        }
+    };
+
+    // A finished batch is often one campaign's assets
+    const handleSaveBatchAsCampaign = () => {
+        const name = prompt("Name of the campaign:");
+        if (!name?.trim()) return;
+        const memberIds = batchJobs.flatMap(job => job.historyItem ? [job.historyItem.id] : []);
+        handleCreateCampaign(name, memberIds).then(() => setCurrentView(AppView.CAMPAIGNS));
+    };
+
+    const handleSaveSettings = (settings: BrandSettings, note: string) => {
+        if (settingsEqual(settings, brandSettings)) {
+            addToast("No changes to save.", "info");
+            return;
+        }
+        setBrandProfiles(prev => updateProfileVersions(prev, activeProfile.id, versions => appendVersion(versions, settings, currentUserName, note)));
+        addToast("Guidelines saved as a new version.", "success");
+    };
+
+    const handleRollbackSettings = (versionId: string) => {
+        setBrandProfiles(prev => updateProfileVersions(prev, activeProfile.id, versions => rollbackToVersion(versions, versionId, currentUserName)));
+        addToast(`Guidelines rolled back to ${versionId}.`, "success");
+    };
+
+    const handleBrandChange = (brandId: string) => {
+        setActiveBrandId(brandId);
+        setUploadState(prev => ({ ...prev, brandId: undefined, partnerBrandId: undefined }));
+        if (currentView === AppView.RESULTS) handleReset();
+    };
+
+    const handleCreateBrand = (name: string) => {
+        // New brands start from the active brand's guidelines as a template
+        const next = createProfile(brandProfiles, name, brandSettings, currentUserName);
+        setBrandProfiles(next);
+        setActiveBrandId(next[next.length - 1].id);
+        addToast(`Brand "${name}" created.`, "success");
+    };
+
     const handleReset = () => {
         setAnalysisResult(null);
         setUploadState(DEFAULT_UPLOAD_STATE);
-        setCurrentView(AppView.UPLOAD);
+        // A reopened run returns to the list it came from
+        setCurrentView(reopenedRun ? reopenedFrom : AppView.UPLOAD);
+        setReopenedRun(null);
+    };
+
+    const handleOpenRun = async (id: number, from: AppView = AppView.HISTORY) => {
+        try {
+            const record = await getAnalysisRecord(id);
+            if (!record) {
+                addToast("Full results were not stored for this entry.", "error");
+                return;
+            }
+
+            const { upload, preview } = record;
+            // Rebuild a File from the stored preview so the dashboard can render it
+            const file = preview?.fileBase64 && upload.mimeType
+                ? new File([Uint8Array.from(atob(preview.fileBase64), c => c.charCodeAt(0))], upload.fileName || 'asset', { type: upload.mimeType })
+                : null;
+
+            setUploadState({
+                ...DEFAULT_UPLOAD_STATE,
+                ...upload,
+                file,
+                fileBase64: preview?.fileBase64,
+                htmlPreview: preview?.htmlPreview,
+                ingestedAsset: undefined
+            });
+            setAnalysisResult(record.result);
+            setReopenedRun(record);
+            setReopenedFrom(from);
+            setCurrentView(AppView.RESULTS);
+        } catch (e) {
+            console.error("Failed to open analysis", e);
+            addToast("Could not open this analysis.", "error");
+        }
     };
 
     const filePreviewUrl = React.useMemo(() => {
@@ -238,6 +591,11 @@ function AppContent() {
             setView={setCurrentView}
             userRole={userRole}
             setUserRole={setUserRole}
+            brands={brandOptions}
+            activeBrandId={activeProfile.id}
+            onBrandChange={handleBrandChange}
+            onCreateBrand={handleCreateBrand}
+            hasBatch={batchJobs.length > 0}
         >
             {/* GENERAL USER VIEWS */}
             {userRole === UserRole.GENERAL_USER && currentView === AppView.UPLOAD && (
@@ -245,29 +603,61 @@ function AppContent() {
                     uploadState={uploadState}
                     setUploadState={setUploadState}
                     onAnalyze={handleAnalyze}
+                    onAnalyzeBatch={handleAnalyzeBatch}
                     isAnalyzing={isAnalyzing}
-                    history={history}
+                    history={brandHistory}
                     progress={progress}
+                    brands={brandOptions}
+                    activeBrandId={activeProfile.id}
                 />
             )}
 
-            {userRole === UserRole.GENERAL_USER && currentView === AppView.RESULTS && analysisResult && (
+            {(userRole === UserRole.GENERAL_USER || reopenedRun) && currentView === AppView.RESULTS && analysisResult && (
                 <ScoreDashboard
                     result={analysisResult}
                     onReset={handleReset}
                     brandSettings={brandSettings}
                     originalText={uploadState.textInput}
+                    fileName={uploadState.file?.name || reopenedRun?.upload.fileName}
                     assetType={uploadState.assetType}
                     context={uploadState.context}
                     fileUrl={filePreviewUrl}
                     htmlContent={uploadState.htmlPreview}
                     mimeType={uploadState.mimeType}
-                    visualSlides={uploadState.ingestedAsset?.visualSlides}
+                    visualSlides={uploadState.ingestedAsset?.visualSlides || reopenedRun?.preview?.visualSlides}
+                    transcript={uploadState.ingestedAsset?.transcript || reopenedRun?.preview?.transcript}
+                    waveform={uploadState.ingestedAsset?.waveform || reopenedRun?.preview?.waveform}
+                    brandNames={brandNames}
+                />
+            )}
+
+            {userRole === UserRole.GENERAL_USER && currentView === AppView.BATCH && (
+                <BatchDashboard
+                    jobs={batchJobs}
+                    isPaused={batchPaused}
+                    onPause={handlePauseBatch}
+                    onResume={handleResumeBatch}
+                    onCancel={handleCancelBatch}
+                    onOpen={(id) => handleOpenRun(id, AppView.BATCH)}
+                    onNewBatch={handleNewBatch}
+                    onSaveAsCampaign={handleSaveBatchAsCampaign}
+                />
+            )}
+
+            {currentView === AppView.CAMPAIGNS && (
+                <Campaigns
+                    campaigns={brandCampaigns}
+                    history={brandHistory}
+                    onCreate={handleCreateCampaign}
+                    onUpdateMembers={handleUpdateCampaignMembers}
+                    onDelete={handleDeleteCampaign}
+                    onCheck={handleCheckCampaign}
+                    onOpen={(id) => handleOpenRun(id, AppView.CAMPAIGNS)}
                 />
             )}
 
             {currentView === AppView.HISTORY && (
-                <ActivityHistory history={history} />
+                <ActivityHistory history={brandHistory} onOpen={handleOpenRun} />
             )}
 
             {currentView === AppView.KNOWLEDGE_BASE && (
@@ -276,11 +666,19 @@ function AppContent() {
 
             {/* ADMIN VIEWS */}
             {userRole === UserRole.ADMIN && currentView === AppView.ANALYTICS && (
-                <AdminDashboard history={history} />
+                <AdminDashboard history={brandHistory} brandName={brandNames[activeProfile.id]} />
             )}
 
             {userRole === UserRole.ADMIN && currentView === AppView.BRAND_GUIDELINES && (
-                <BrandRules settings={brandSettings} onSave={setBrandSettings} />
+                <BrandRules
+                    key={activeProfile.id}
+                    settings={brandSettings}
+                    versions={activeProfile.versions}
+                    onSave={handleSaveSettings}
+                    onRollback={handleRollbackSettings}
+                    brandId={activeProfile.id}
+                    history={brandHistory}
+                />
             )}
 
             {userRole === UserRole.ADMIN && currentView === AppView.USER_MANAGEMENT && (
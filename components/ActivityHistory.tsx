@@ -5,9 +5,10 @@ import { clsx } from 'clsx';
 
 interface ActivityHistoryProps {
     history: HistoryItem[];
+    onOpen?: (id: number) => void; // Reopen a stored run in the results view
 }
 
-export const ActivityHistory: React.FC<ActivityHistoryProps> = ({ history }) => {
+export const ActivityHistory: React.FC<ActivityHistoryProps> = ({ history, onOpen }) => {
     const [searchTerm, setSearchTerm] = useState('');
 
     const filteredHistory = history.filter(item =>
@@ -23,7 +24,7 @@ export const ActivityHistory: React.FC<ActivityHistoryProps> = ({ history }) =>
             return;
         }
 
-        const headers = ["ID", "Filename", "Type", "Context", "Region", "Safety Status", "Issues Found", "Date"].join(",");
+        const headers = ["ID", "Filename", "Type", "Context", "Region", "Safety Status", "Issues Found", "Guidelines Version", "Date"].join(",");
         const rows = filteredHistory.map(item => {
             return [
                 item.id,
@@ -33,6 +34,7 @@ export const ActivityHistory: React.FC<ActivityHistoryProps> = ({ history }) =>
                 item.region,
                 item.safetyStatus,
                 item.issuesCount,
+                item.contextSnapshot?.brandSettingsVersion || '',
                 `"${new Date(item.date).toLocaleString()}"`
             ].join(",");
         });
@@ -114,6 +116,11 @@ export const ActivityHistory: React.FC<ActivityHistoryProps> = ({ history }) =>
                                                 {item.region}
                                             </span>
                                         )}
+                                        {item.contextSnapshot?.brandSettingsVersion && (
+                                            <span className="text-[10px] font-mono text-slate-400" title="Brand guidelines version used">
+                                                Guidelines {item.contextSnapshot.brandSettingsVersion}
+                                            </span>
+                                        )}
                                     </div>
                                 </td>
                                 <td className="p-4 text-sm text-slate-500 flex items-center gap-2">
@@ -139,7 +146,12 @@ export const ActivityHistory: React.FC<ActivityHistoryProps> = ({ history }) =>
                                     </span>
                                 </td>
                                 <td className="p-4 text-right">
-                                    <button className="text-slate-400 hover:text-indigo-600 p-2 rounded-full hover:bg-indigo-50 transition-all">
+                                    <button
+                                        onClick={() => onOpen?.(item.id)}
+                                        disabled={!item.hasRecord || !onOpen}
+                                        title={item.hasRecord ? "Open results" : "Full results were not stored for this entry"}
+                                        className="text-slate-400 hover:text-indigo-600 p-2 rounded-full hover:bg-indigo-50 transition-all disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:text-slate-400"
+                                    >
                                         <ArrowUpRight className="h-4 w-4" />
                                     </button>
                                 </td>
@@ -12,9 +12,10 @@ import { HistoryItem } from '../types';
 
 interface AdminDashboardProps {
     history: HistoryItem[];
+    brandName?: string; // Brand workspace the history is scoped to
 }
 
-export const AdminDashboard: React.FC<AdminDashboardProps> = ({ history }) => {
+export const AdminDashboard: React.FC<AdminDashboardProps> = ({ history, brandName }) => {
     const [timeRange, setTimeRange] = useState<'7d' | '30d' | '90d'>('30d');
 
     // --- ANALYTICS ENGINE ---
@@ -63,6 +64,14 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ history }) => {
     const categoryBreakdown = useMemo(() => {
         const categories = { Brand: 0, Compliance: 0, Cultural: 0 };
         rawData.forEach(h => {
+            // Stored runs carry exact counts
+            if (h.categoryCounts) {
+                categories.Brand += h.categoryCounts.Brand || 0;
+                categories.Compliance += h.categoryCounts.Compliance || 0;
+                categories.Cultural += h.categoryCounts.Cultural || 0;
+                return;
+            }
+            // Legacy entries only kept issue descriptions, so guess from keywords
             h.topIssues?.forEach(issue => {
                 const lower = issue.toLowerCase();
                 if (lower.includes('tone') || lower.includes('voice') || lower.includes('font') || lower.includes('logo') || lower.includes('style')) {
@@ -125,7 +134,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({ history }) => {
                         <div className="p-2 bg-indigo-500/20 rounded-lg text-indigo-400"><Cpu className="h-6 w-6" /></div>
                         <h2 className="text-3xl font-black tracking-tight text-transparent bg-clip-text bg-gradient-to-r from-indigo-400 to-cyan-400">ANALYTICS</h2>
                     </div>
-                    <p className="text-slate-500 font-medium tracking-wide">Brand Governance Intelligence</p>
+                    <p className="text-slate-500 font-medium tracking-wide">Brand Governance Intelligence{brandName && <> · <span className="text-indigo-300">{brandName}</span></>}</p>
                 </div>
                 <div className="flex items-center gap-2 bg-slate-900 p-1 rounded-xl border border-white/10 mt-4 md:mt-0">
                     {['7d', '30d', '90d'].map(range => (
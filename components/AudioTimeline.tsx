@@ -0,0 +1,146 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Play, Pause } from 'lucide-react';
+import { Issue, TimedSegment, Waveform } from '../types';
+import { formatTimestamp } from '../services/captions';
+import { cn } from '../utils';
+
+interface AudioTimelineProps {
+    src?: string; // Without it (e.g. a reopened run) the timeline is shown without playback
+    waveform?: Waveform;
+    issues: Issue[];
+    selectedIssueId?: string;
+    onIssueSelect: (id: string) => void;
+    transcript?: TimedSegment[];
+}
+
+/**
+ * Audio preview: the waveform as a timeline with a marker per timed finding, and the
+ * transcript cue being played underneath. Selecting a finding jumps to its time.
+ */
+export const AudioTimeline: React.FC<AudioTimelineProps> = ({ src, waveform, issues, selectedIssueId, onIssueSelect, transcript }) => {
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [loadedDuration, setLoadedDuration] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [hoveredMarkerId, setHoveredMarkerId] = useState<string | null>(null);
+
+    const duration = waveform?.duration || loadedDuration;
+    const peaks = waveform?.peaks || [];
+    const timed = issues.filter(i => i.timestamp !== undefined);
+    const currentCue = transcript?.find(cue => currentTime >= cue.start && currentTime < cue.end);
+    const progress = duration ? Math.min(1, currentTime / duration) : 0;
+
+    const seek = (time: number) => {
+        if (audioRef.current) audioRef.current.currentTime = time;
+        setCurrentTime(time);
+    };
+
+    // Selecting a finding elsewhere (the issue list) jumps to it
+    const selectedTime = issues.find(i => i.id === selectedIssueId)?.timestamp;
+    useEffect(() => {
+        if (selectedTime === undefined) return;
+        audioRef.current?.pause();
+        seek(selectedTime);
+    }, [selectedIssueId, selectedTime]);
+
+    const togglePlay = () => {
+        if (!audioRef.current) return;
+        if (audioRef.current.paused) audioRef.current.play();
+        else audioRef.current.pause();
+    };
+
+    return (
+        <div className="w-full h-full flex flex-col justify-center gap-6 px-10 py-8">
+            {src && (
+                <audio
+                    ref={audioRef}
+                    src={src}
+                    preload="metadata"
+                    onTimeUpdate={() => setCurrentTime(audioRef.current?.currentTime || 0)}
+                    onLoadedMetadata={() => setLoadedDuration(audioRef.current?.duration || 0)}
+                    onPlay={() => setIsPlaying(true)}
+                    onPause={() => setIsPlaying(false)}
+                    onEnded={() => setIsPlaying(false)}
+                />
+            )}
+
+            <div className="flex items-center gap-4">
+                <button
+                    onClick={togglePlay}
+                    disabled={!src}
+                    className="p-3 rounded-full bg-purple-500 text-white hover:bg-purple-400 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                >
+                    {isPlaying ? <Pause className="w-5 h-5 fill-white" /> : <Play className="w-5 h-5 fill-white" />}
+                </button>
+                <span className="font-mono text-sm text-slate-400">
+                    {formatTimestamp(currentTime)} / {formatTimestamp(duration)}
+                </span>
+                {!src && <span className="text-xs text-slate-500">Recording not stored; showing the timeline only</span>}
+            </div>
+
+            {/* WAVEFORM TIMELINE */}
+            <div
+                className="relative h-40 w-full cursor-pointer"
+                onClick={(e) => {
+                    if (!duration) return;
+                    const rect = e.currentTarget.getBoundingClientRect();
+                    seek(Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)) * duration);
+                }}
+            >
+                {peaks.length > 0 ? (
+                    <div className="absolute inset-0 flex items-center gap-px">
+                        {peaks.map((peak, index) => (
+                            <div
+                                key={index}
+                                className={cn("flex-1 rounded-full", (index + 0.5) / peaks.length <= progress ? "bg-purple-500" : "bg-slate-600")}
+                                style={{ height: `${Math.max(2, peak * 100)}%` }}
+                            />
+                        ))}
+                    </div>
+                ) : (
+                    <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 h-1.5 bg-white/20 rounded-full">
+                        <div className="h-full bg-purple-500 rounded-full" style={{ width: `${progress * 100}%` }} />
+                    </div>
+                )}
+
+                {/* Timeline Markers */}
+                {duration > 0 && timed.map(issue => (
+                    <div key={issue.id}
+                        className={cn(
+                            "absolute top-0 bottom-0 -translate-x-1/2 w-[3px] rounded-full cursor-pointer transition-all z-20",
+                            issue.severity === 'High' ? "bg-red-500" : "bg-blue-500",
+                            selectedIssueId === issue.id ? "w-[5px] ring-2 ring-white/70" : "opacity-80 hover:opacity-100"
+                        )}
+                        style={{ left: `${(issue.timestamp! / duration) * 100}%` }}
+                        onClick={(e) => { e.stopPropagation(); seek(issue.timestamp!); onIssueSelect(issue.id); }}
+                        onMouseEnter={() => setHoveredMarkerId(issue.id)}
+                        onMouseLeave={() => setHoveredMarkerId(null)}
+                    >
+                        <AnimatePresence>
+                            {hoveredMarkerId === issue.id && (
+                                <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: 10 }} className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 w-56 bg-slate-900/90 backdrop-blur border border-white/10 rounded-md p-2 shadow-xl pointer-events-none">
+                                    <p className="text-[10px] font-mono text-slate-400">{formatTimestamp(issue.timestamp!)}</p>
+                                    <p className="text-[10px] text-white line-clamp-2">{issue.description}</p>
+                                </motion.div>
+                            )}
+                        </AnimatePresence>
+                    </div>
+                ))}
+
+                {/* Playhead */}
+                <div className="absolute top-0 bottom-0 w-px bg-white pointer-events-none" style={{ left: `${progress * 100}%` }} />
+            </div>
+
+            {/* CAPTION OF THE CURRENT CUE */}
+            <div className="min-h-[3rem] text-center text-sm text-slate-200">
+                {currentCue && (
+                    <p>
+                        {currentCue.speaker && <span className="text-slate-400">{currentCue.speaker}: </span>}
+                        {currentCue.text}
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { AlertCircle, Plus, Shield, Trash2, Upload } from 'lucide-react';
+import { BannedTerm, CommunicationContext } from '../types';
+import { cn } from '../utils';
+import { compileTermPattern, parseBannedTerms } from '../services/rules';
+
+interface BannedTermsEditorProps {
+    terms: BannedTerm[];
+    isEditing: boolean;
+    onChange: (terms: BannedTerm[]) => void;
+}
+
+const SEVERITY_STYLES: Record<BannedTerm['severity'], string> = {
+    'High': 'bg-red-100 text-red-700',
+    'Medium': 'bg-amber-100 text-amber-700',
+    'Low': 'bg-slate-100 text-slate-600'
+};
+
+const ALL_CONTEXTS = Object.values(CommunicationContext).filter(c => c !== CommunicationContext.NOT_SURE);
+
+const splitList = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+
+const inputClass = "text-xs text-slate-700 bg-white px-2 py-1.5 rounded-md border border-red-100 outline-none focus:ring-2 focus:ring-red-500/20";
+
+export const BannedTermsEditor: React.FC<BannedTermsEditorProps> = ({ terms, isEditing, onChange }) => {
+    const [importText, setImportText] = useState('');
+
+    const update = (index: number, patch: Partial<BannedTerm>) => {
+        const next = [...terms];
+        next[index] = { ...terms[index], ...patch };
+        onChange(next);
+    };
+
+    const toggleContext = (index: number, context: CommunicationContext) => {
+        const current = terms[index].contexts || [];
+        update(index, { contexts: current.includes(context) ? current.filter(c => c !== context) : [...current, context] });
+    };
+
+    const addTerm = () => onChange([...terms, { id: `term-${Date.now()}`, term: '', severity: 'High' }]);
+
+    // Paste a legacy comma list ("leverage, disruptive (unless referring to tech)")
+    const handleImport = () => {
+        const existing = new Set(terms.map(t => t.term.toLowerCase()));
+        const imported = parseBannedTerms(importText)
+            .filter(t => !existing.has(t.term))
+            .map((t, i) => ({ ...t, id: `${t.id}-${Date.now()}-${i}` }));
+        onChange([...terms, ...imported]);
+        setImportText('');
+    };
+
+    return (
+        <div className="bg-red-50 rounded-xl p-6 border border-red-100 flex flex-col gap-4">
+            <div className="flex items-center justify-between gap-3 border-b border-red-200/50 pb-4">
+                <div className="flex items-center gap-3">
+                    <AlertCircle className="h-5 w-5 text-red-600" />
+                    <h3 className="font-bold text-red-900">Restricted Terminology Dictionary</h3>
+                    <span className="text-xs font-mono text-red-400">{terms.length} terms</span>
+                </div>
+                {isEditing && (
+                    <button
+                        onClick={addTerm}
+                        className="px-3 py-1.5 bg-white border border-red-200 rounded-lg text-xs font-bold text-red-700 hover:bg-red-100 flex items-center gap-1"
+                    >
+                        <Plus className="h-3 w-3" /> Add Term
+                    </button>
+                )}
+            </div>
+
+            {terms.length === 0 && <p className="text-xs text-red-400">No restricted terms configured.</p>}
+
+            <div className="flex flex-col gap-2">
+                {terms.map((entry, index) => {
+                    const invalidPattern = entry.isRegex && !compileTermPattern(entry);
+                    return isEditing ? (
+                        <div key={entry.id} className="p-3 bg-white/70 rounded-lg border border-red-100 flex flex-col gap-2">
+                            <div className="flex items-center gap-2">
+                                <input
+                                    value={entry.term}
+                                    onChange={(e) => update(index, { term: e.target.value })}
+                                    placeholder={entry.isRegex ? 'Pattern, e.g. \\bguarantee[ds]?\\b' : 'Term or phrase'}
+                                    className={cn(inputClass, "flex-1 font-mono font-bold text-red-800", invalidPattern && "border-red-400")}
+                                />
+                                <label className="flex items-center gap-1 text-[10px] font-bold text-slate-500 uppercase tracking-wide">
+                                    <input type="checkbox" checked={!!entry.isRegex} onChange={(e) => update(index, { isRegex: e.target.checked })} className="accent-red-600" />
+                                    Regex
+                                </label>
+                                <select
+                                    value={entry.severity}
+                                    onChange={(e) => update(index, { severity: e.target.value as BannedTerm['severity'] })}
+                                    className={inputClass}
+                                >
+                                    <option value="High">High (blocking)</option>
+                                    <option value="Medium">Medium</option>
+                                    <option value="Low">Low</option>
+                                </select>
+                                <button
+                                    onClick={() => onChange(terms.filter(t => t.id !== entry.id))}
+                                    title="Remove term"
+                                    className="p-1.5 text-red-400 hover:text-red-600"
+                                >
+                                    <Trash2 className="h-3.5 w-3.5" />
+                                </button>
+                            </div>
+                            {invalidPattern && <p className="text-[10px] font-bold text-red-600">Not a valid regular expression.</p>}
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                                <input
+                                    value={(entry.variants || []).join(', ')}
+                                    onChange={(e) => update(index, { variants: splitList(e.target.value) })}
+                                    disabled={entry.isRegex}
+                                    placeholder="Variants (comma separated)"
+                                    className={cn(inputClass, "disabled:opacity-40")}
+                                />
+                                <input
+                                    value={entry.replacement || ''}
+                                    onChange={(e) => update(index, { replacement: e.target.value || undefined })}
+                                    placeholder="Preferred replacement"
+                                    className={inputClass}
+                                />
+                                <input
+                                    value={entry.exceptionReferent || ''}
+                                    onChange={(e) => update(index, { exceptionReferent: e.target.value || undefined })}
+                                    placeholder="Allowed when referring to (e.g. tech)"
+                                    className={inputClass}
+                                />
+                                <input
+                                    value={(entry.regions || []).join(', ')}
+                                    onChange={(e) => update(index, { regions: splitList(e.target.value) })}
+                                    placeholder="Regions (empty = all)"
+                                    className={inputClass}
+                                />
+                            </div>
+                            <input
+                                value={entry.note || ''}
+                                onChange={(e) => update(index, { note: e.target.value || undefined })}
+                                placeholder="Exception notes / guidance"
+                                className={inputClass}
+                            />
+                            <div className="flex flex-wrap items-center gap-1.5">
+                                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wide mr-1">Contexts</span>
+                                {ALL_CONTEXTS.map(context => (
+                                    <button
+                                        key={context}
+                                        onClick={() => toggleContext(index, context)}
+                                        className={cn(
+                                            "px-2 py-0.5 rounded-md text-[10px] font-bold border transition-colors",
+                                            entry.contexts?.includes(context) ? "bg-indigo-50 text-indigo-600 border-indigo-200" : "bg-white text-slate-400 border-slate-200 hover:text-slate-600"
+                                        )}
+                                    >
+                                        {context}
+                                    </button>
+                                ))}
+                                {!entry.contexts?.length && <span className="text-[10px] text-slate-400">All contexts</span>}
+                            </div>
+                        </div>
+                    ) : (
+                        <div key={entry.id} className="px-3 py-2 bg-white/50 rounded-lg border border-red-100 flex flex-wrap items-center gap-2 text-xs">
+                            <span className="font-mono font-bold text-red-800">{entry.isRegex ? `/${entry.term}/` : entry.term}</span>
+                            {entry.variants && entry.variants.length > 0 && <span className="text-slate-400">({entry.variants.join(', ')})</span>}
+                            {entry.replacement && <span className="text-emerald-700">→ {entry.replacement}</span>}
+                            <span className={cn("px-1.5 py-0.5 rounded text-[10px] font-bold uppercase", SEVERITY_STYLES[entry.severity])}>{entry.severity}</span>
+                            {entry.exceptionReferent && <span className="px-1.5 py-0.5 rounded bg-amber-50 text-amber-700 text-[10px] font-bold">Unless referring to {entry.exceptionReferent}</span>}
+                            {[...(entry.regions || []), ...(entry.contexts || [])].map(scope => (
+                                <span key={scope} className="px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-600 text-[10px] font-bold">{scope}</span>
+                            ))}
+                            {entry.note && <span className="text-slate-500 italic">{entry.note}</span>}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {isEditing && (
+                <div className="flex gap-2">
+                    <input
+                        value={importText}
+                        onChange={(e) => setImportText(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && importText.trim() && handleImport()}
+                        placeholder="Paste a list: leverage, disruptive (unless referring to tech), eco-friendly (use 'sustainable' instead)"
+                        className={cn(inputClass, "flex-1 font-mono")}
+                    />
+                    <button
+                        onClick={handleImport}
+                        disabled={!importText.trim()}
+                        className="px-3 py-1.5 bg-white border border-red-200 rounded-lg text-xs font-bold text-red-700 hover:bg-red-100 disabled:opacity-40 flex items-center gap-1"
+                    >
+                        <Upload className="h-3 w-3" /> Import
+                    </button>
+                </div>
+            )}
+
+            <p className="text-xs text-red-600 font-medium flex items-center gap-1">
+                <Shield className="h-3 w-3" />
+                Matches are flagged locally by the rule engine; High severity terms block the asset. Scoped terms only apply to the listed regions and contexts.
+            </p>
+        </div>
+    );
+};
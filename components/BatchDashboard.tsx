@@ -0,0 +1,194 @@
+import React from 'react';
+import { FileText, Pause, Play, XCircle, ArrowUpRight, Loader2, Upload, Megaphone } from 'lucide-react';
+import { BatchJob, BatchJobStatus } from '../types';
+import { summarizeBatch } from '../services/batch';
+import { clsx } from 'clsx';
+
+interface BatchDashboardProps {
+    jobs: BatchJob[];
+    isPaused: boolean;
+    onPause: () => void;
+    onResume: () => void;
+    onCancel: () => void;
+    onOpen: (historyId: number) => void; // Open an analyzed file in the results view
+    onNewBatch: () => void;
+    onSaveAsCampaign: () => void; // Group the analyzed files for a cross-asset check
+}
+
+const STATUS_LABELS: Record<BatchJobStatus, string> = {
+    queued: 'Queued',
+    ingesting: 'Reading',
+    analyzing: 'Analyzing',
+    done: 'Done',
+    failed: 'Failed',
+    cancelled: 'Cancelled'
+};
+
+const SummaryTile = ({ label, value, tone = 'text-slate-800' }: { label: string; value: React.ReactNode; tone?: string }) => (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+        <div className="text-xs font-bold text-slate-500 uppercase tracking-wider">{label}</div>
+        <div className={clsx("text-2xl font-bold mt-1", tone)}>{value}</div>
+    </div>
+);
+
+export const BatchDashboard: React.FC<BatchDashboardProps> = ({ jobs, isPaused, onPause, onResume, onCancel, onOpen, onNewBatch, onSaveAsCampaign }) => {
+    const summary = summarizeBatch(jobs);
+    const finished = summary.byStatus.done + summary.byStatus.failed + summary.byStatus.cancelled;
+    const isRunning = finished < summary.total;
+
+    return (
+        <div className="space-y-6 animate-in fade-in slide-in-from-bottom-2 duration-500">
+            {/* Header Actions */}
+            <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 flex flex-col md:flex-row justify-between items-center gap-4">
+                <div className="w-full md:w-96">
+                    <div className="flex justify-between text-sm mb-2">
+                        <span className="font-bold text-slate-800">
+                            {isRunning ? (isPaused ? 'Paused' : 'Analyzing batch') : 'Batch complete'}
+                        </span>
+                        <span className="text-slate-500">{finished} of {summary.total} files</span>
+                    </div>
+                    <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-indigo-600 transition-all duration-300" style={{ width: `${summary.total ? finished / summary.total * 100 : 0}%` }} />
+                    </div>
+                </div>
+                <div className="flex gap-3 w-full md:w-auto">
+                    {isRunning ? (
+                        <>
+                            <button
+                                onClick={isPaused ? onResume : onPause}
+                                className="flex-1 md:flex-none px-4 py-2 bg-white border border-slate-300 text-slate-700 font-medium text-sm rounded-lg hover:bg-slate-50 flex items-center justify-center gap-2"
+                            >
+                                {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                                {isPaused ? 'Resume' : 'Pause'}
+                            </button>
+                            <button
+                                onClick={onCancel}
+                                className="flex-1 md:flex-none px-4 py-2 bg-white border border-red-200 text-red-600 font-medium text-sm rounded-lg hover:bg-red-50 flex items-center justify-center gap-2"
+                            >
+                                <XCircle className="h-4 w-4" />
+                                Cancel
+                            </button>
+                        </>
+                    ) : (
+                        <>
+                            {summary.byStatus.done > 1 && (
+                                <button
+                                    onClick={onSaveAsCampaign}
+                                    className="flex-1 md:flex-none px-4 py-2 bg-white border border-slate-300 text-slate-700 font-medium text-sm rounded-lg hover:bg-slate-50 flex items-center justify-center gap-2"
+                                >
+                                    <Megaphone className="h-4 w-4" />
+                                    Save as Campaign
+                                </button>
+                            )}
+                            <button
+                                onClick={onNewBatch}
+                                className="flex-1 md:flex-none px-4 py-2 bg-indigo-600 text-white font-medium text-sm rounded-lg hover:bg-indigo-700 flex items-center justify-center gap-2 shadow-sm"
+                            >
+                                <Upload className="h-4 w-4" />
+                                New Analysis
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            {/* Batch Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                <SummaryTile label="Analyzed" value={`${summary.byStatus.done}/${summary.total}`} />
+                <SummaryTile label="Avg. Score" value={summary.averageScore ?? '–'} tone="text-indigo-600" />
+                <SummaryTile label="Safe" value={summary.bySafety['Safe']} tone="text-emerald-600" />
+                <SummaryTile label="Caution" value={summary.bySafety['Caution']} tone="text-amber-600" />
+                <SummaryTile label="Unsafe" value={summary.bySafety['Unsafe']} tone="text-red-600" />
+            </div>
+            {(summary.issuesCount > 0 || summary.byStatus.failed > 0 || summary.byStatus.cancelled > 0) && (
+                <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 text-sm text-slate-600 flex flex-wrap gap-x-6 gap-y-2">
+                    <span><strong className="text-slate-800">{summary.issuesCount}</strong> issues found</span>
+                    {summary.topCategories.length > 0 && (
+                        <span>Most common: {summary.topCategories.map(c => `${c.category} (${c.count})`).join(', ')}</span>
+                    )}
+                    {summary.byStatus.failed > 0 && <span className="text-red-600">{summary.byStatus.failed} failed</span>}
+                    {summary.byStatus.cancelled > 0 && <span className="text-slate-400">{summary.byStatus.cancelled} cancelled</span>}
+                </div>
+            )}
+
+            {/* Job Table */}
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                <table className="w-full text-left border-collapse">
+                    <thead>
+                        <tr className="bg-slate-50 border-b border-slate-200">
+                            <th className="p-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Asset</th>
+                            <th className="p-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Status</th>
+                            <th className="p-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-center">Issues</th>
+                            <th className="p-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-center">Safety Status</th>
+                            <th className="p-4 text-xs font-bold text-slate-500 uppercase tracking-wider"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                        {jobs.map(job => {
+                            const active = job.status === 'ingesting' || job.status === 'analyzing';
+                            return (
+                                <tr key={job.id} className="hover:bg-slate-50/80 transition-colors group">
+                                    <td className="p-4">
+                                        <div className="flex items-center gap-3">
+                                            <div className="p-2 bg-slate-100 rounded-lg text-slate-500">
+                                                <FileText className="h-5 w-5" />
+                                            </div>
+                                            <div>
+                                                <div className="font-bold text-slate-800 text-sm">{job.file.name}</div>
+                                                <div className="text-xs text-slate-400">
+                                                    {job.assetType ? `${job.assetType} · ${job.context}` : 'Type detected when read'}
+                                                    {job.sidecars.length > 0 && ` · with ${job.sidecars.map(s => s.name).join(', ')}`}
+                                                </div>
+                                            </div>
+                                        </div>
+                                    </td>
+                                    <td className="p-4 w-56">
+                                        <div className={clsx("flex items-center gap-2 text-xs font-bold",
+                                            job.status === 'failed' ? "text-red-600" : job.status === 'done' ? "text-emerald-600" : "text-slate-500")}>
+                                            {active && <Loader2 className="h-3 w-3 animate-spin" />}
+                                            {STATUS_LABELS[job.status]}
+                                            {job.status === 'analyzing' && ` ${job.progress}%`}
+                                        </div>
+                                        {active && (
+                                            <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden mt-2">
+                                                <div className="h-full bg-indigo-500 transition-all duration-300" style={{ width: `${job.progress}%` }} />
+                                            </div>
+                                        )}
+                                        {job.error && <div className="text-[11px] text-red-500 mt-1 line-clamp-2">{job.error}</div>}
+                                    </td>
+                                    <td className="p-4 text-center">
+                                        <span className="font-bold text-slate-700">{job.historyItem?.issuesCount ?? '–'}</span>
+                                    </td>
+                                    <td className="p-4 text-center">
+                                        {job.historyItem && (
+                                            <span className={clsx(
+                                                "inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-bold border",
+                                                job.historyItem.safetyStatus === 'Safe' ? "bg-emerald-100 text-emerald-700 border-emerald-200" :
+                                                    job.historyItem.safetyStatus === 'Caution' ? "bg-amber-100 text-amber-700 border-amber-200" :
+                                                        "bg-red-100 text-red-700 border-red-200"
+                                            )}>
+                                                {job.historyItem.safetyStatus}
+                                                {job.brandScore !== undefined && <span className="font-medium opacity-70">· {job.brandScore}</span>}
+                                            </span>
+                                        )}
+                                    </td>
+                                    <td className="p-4 text-right">
+                                        {job.historyItem && (
+                                            <button
+                                                onClick={() => onOpen(job.historyItem!.id)}
+                                                className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                                                title="Open results"
+                                            >
+                                                <ArrowUpRight className="h-4 w-4" />
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
@@ -1,21 +1,34 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
     Shield, Lock, Info, Upload, RefreshCw, Link2, FileCheck,
     BookOpen, Mic, PenTool, Globe, ChevronRight, Copy, Check,
     Download, ExternalLink, Search, History, AlertCircle, AlertTriangle, Layout, Edit2, Save
 } from 'lucide-react';
-import { BrandSettings } from '../types';
-import { extractBrandSettings } from '../services/gemini';
+import { BrandSettings, BrandSettingsVersion, HistoryItem } from '../types';
+import { extractGuidelinesFromManual, mergeGuidelineProposals, GuidelineExtraction, ProposedGuideline } from '../services/guidelineExtraction';
+import { detectGuidelineConflicts, GuidelineConflict } from '../services/rules';
+import { simulateGuidelineImpact, ImpactReport } from '../services/impactSimulation';
+import { settingsEqual } from '../services/brandVersions';
+import { VersionHistory } from './VersionHistory';
+import { GuidelineImpactPanel } from './GuidelineImpactPanel';
+import { GuidelineExtractionReview } from './GuidelineExtractionReview';
+import { BannedTermsEditor } from './BannedTermsEditor';
+import { GlossaryEditor } from './GlossaryEditor';
+import { DesignTokensEditor } from './DesignTokensEditor';
 
 interface BrandRulesProps {
     settings: BrandSettings;
-    onSave: (settings: BrandSettings) => void;
+    versions: BrandSettingsVersion[]; // Oldest first; the last one is in force
+    onSave: (settings: BrandSettings, note: string) => void;
+    onRollback: (versionId: string) => void;
+    brandId: string;
+    history: HistoryItem[]; // This brand's analyses, re-checked by the impact analysis
 }
 
-export const BrandRules: React.FC<BrandRulesProps> = ({ settings, onSave }) => {
+export const BrandRules: React.FC<BrandRulesProps> = ({ settings, versions, onSave, onRollback, brandId, history }) => {
     const [formData, setFormData] = useState<BrandSettings>(settings);
-    const [activeTab, setActiveTab] = useState<'identity' | 'voice' | 'style' | 'compliance' | 'templates'>('identity');
+    const [activeTab, setActiveTab] = useState<'identity' | 'voice' | 'style' | 'compliance' | 'templates' | 'history'>('identity');
     const [portalUrl, setPortalUrl] = useState('');
     const [isSyncing, setIsSyncing] = useState(false);
     const [lastSynced, setLastSynced] = useState('Oct 24, 2024 • 14:30 PM');
@@ -23,12 +36,51 @@ export const BrandRules: React.FC<BrandRulesProps> = ({ settings, onSave }) => {
 
     // New: Editing Mode
     const [isEditing, setIsEditing] = useState(false);
+    const [showSaveDialog, setShowSaveDialog] = useState(false);
+    const [changeNote, setChangeNote] = useState('');
+
+    const activeVersion = versions[versions.length - 1];
+
+    // Follow the version in force (e.g. after a rollback) unless mid-edit
+    useEffect(() => {
+        if (!isEditing) setFormData(settings);
+    }, [settings]);
 
     // New: Conflict & Impact Detection
     const [isCheckingConflicts, setIsCheckingConflicts] = useState(false);
-    const [conflicts, setConflicts] = useState<string[]>([]);
+    const [conflicts, setConflicts] = useState<GuidelineConflict[]>([]);
+    const [impact, setImpact] = useState<ImpactReport | null>(null);
+    const [impactError, setImpactError] = useState<string | null>(null);
+    const [modelProgress, setModelProgress] = useState<number | null>(null);
     const [showImpactModal, setShowImpactModal] = useState(false);
 
+    // Manual upload: extraction runs first, nothing changes until the review is merged
+    const [extractionProgress, setExtractionProgress] = useState<number | null>(null);
+    const [extraction, setExtraction] = useState<GuidelineExtraction | null>(null);
+    const [extractionError, setExtractionError] = useState<string | null>(null);
+
+    const handleManualUpload = async (file: File) => {
+        setExtraction(null);
+        setExtractionError(null);
+        setExtractionProgress(0);
+        try {
+            setExtraction(await extractGuidelinesFromManual(file, setExtractionProgress));
+        } catch (e) {
+            console.error("Guideline extraction failed", e);
+            setExtractionError(e instanceof Error ? e.message : 'Could not read guidelines from this document.');
+        } finally {
+            setExtractionProgress(null);
+        }
+    };
+
+    const handleMergeExtraction = (accepted: ProposedGuideline[]) => {
+        if (!extraction) return;
+        setFormData(mergeGuidelineProposals(formData, accepted));
+        setIsEditing(true);
+        setChangeNote(`Imported from ${extraction.fileName}`);
+        setExtraction(null);
+    };
+
     const handlePortalSync = async () => {
         if (!portalUrl) return;
         setIsSyncing(true);
@@ -38,31 +90,58 @@ export const BrandRules: React.FC<BrandRulesProps> = ({ settings, onSave }) => {
                 ...formData,
                 brandName: "Brand Portal (v2.2)",
                 mission: formData.mission + "\n\n[SYNCED FROM PORTAL]: Updated sustainability pillars included.",
-                bannedTerms: formData.bannedTerms + ", eco-friendly (use 'sustainable' instead)"
+                bannedTerms: [...formData.bannedTerms, { id: `eco-friendly-${Date.now()}`, term: 'eco-friendly', replacement: 'sustainable', severity: 'High' as const }]
             };
             setFormData(newSettings);
             setLastSynced(new Date().toLocaleString());
-            onSave(newSettings);
+            onSave(newSettings, `Synced from portal: ${portalUrl}`);
             setIsSyncing(false);
         }, 2000);
     };
 
     const handleCreateSave = () => {
-        onSave(formData);
+        onSave(formData, changeNote.trim() || 'Updated guidelines');
         setIsEditing(false);
+        setShowSaveDialog(false);
+        setChangeNote('');
     };
 
-    const handleCheckConflicts = () => {
+    const hasDraftChanges = !settingsEqual(formData, settings);
+
+    // Checks the edited guidelines, then re-checks history against them
+    const handleCheckConflicts = async () => {
         setIsCheckingConflicts(true);
-        setConflicts([]);
-        setTimeout(() => {
-            setConflicts([
-                "Visual Rule 'Minimalist' conflicts with 'High Density Information' in Compliance section.",
-                "Banned term 'leverage' appears in Mission Statement text."
-            ]);
+        setConflicts(detectGuidelineConflicts(formData));
+        setImpact(null);
+        setImpactError(null);
+        setShowImpactModal(true);
+        try {
+            if (hasDraftChanges) setImpact(await simulateGuidelineImpact(history, brandId, settings, formData));
+        } catch (e) {
+            console.error("Impact analysis failed", e);
+            setImpactError('Could not re-check stored analyses.');
+        } finally {
             setIsCheckingConflicts(false);
-            setShowImpactModal(true);
-        }, 1500);
+        }
+    };
+
+    const handleRunModelImpact = async () => {
+        setModelProgress(0);
+        setImpactError(null);
+        try {
+            setImpact(await simulateGuidelineImpact(history, brandId, settings, formData, { useModel: true, onProgress: setModelProgress }));
+        } catch (e) {
+            console.error("Model impact analysis failed", e);
+            setImpactError('Re-analysis with the model failed. Run the check again for deterministic results.');
+        } finally {
+            setModelProgress(null);
+        }
+    };
+
+    // Publishing shows the impact of the edit next to the change note
+    const handleOpenSaveDialog = () => {
+        setShowSaveDialog(true);
+        handleCheckConflicts();
     };
 
     const copyToClipboard = (text: string, section: string) => {
@@ -139,7 +218,9 @@ export const BrandRules: React.FC<BrandRulesProps> = ({ settings, onSave }) => {
                             Enforced
                         </span>
                         <span className="text-slate-300">•</span>
-                        <span>Master Manual v2.1</span>
+                        <span title={`${activeVersion.note} — ${activeVersion.author}, ${new Date(activeVersion.createdAt).toLocaleString()}`}>
+                            Master Manual {activeVersion.id}
+                        </span>
                         <span className="text-slate-300">•</span>
                         <span className="text-slate-400">Last Synced: {lastSynced}</span>
                     </p>
@@ -157,7 +238,7 @@ export const BrandRules: React.FC<BrandRulesProps> = ({ settings, onSave }) => {
 
                     {isEditing ? (
                         <button
-                            onClick={handleCreateSave}
+                            onClick={handleOpenSaveDialog}
                             className="px-4 py-2 bg-emerald-600 text-white text-sm font-bold rounded-lg shadow-lg shadow-emerald-500/20 hover:bg-emerald-500 transition-all flex items-center gap-2"
                         >
                             <Save className="h-4 w-4" />
@@ -175,35 +256,51 @@ export const BrandRules: React.FC<BrandRulesProps> = ({ settings, onSave }) => {
                 </div>
             </div>
 
-            {showImpactModal && (
-                <div className="bg-amber-50 border border-amber-200 rounded-xl p-6 animate-in fade-in slide-in-from-top-4">
-                    <div className="flex justify-between items-start mb-4">
-                        <h4 className="text-sm font-bold text-amber-800 flex items-center gap-2">
-                            <AlertTriangle className="h-4 w-4" />
-                            Rule Conflict & Impact Analysis
-                        </h4>
-                        <button onClick={() => setShowImpactModal(false)} className="text-amber-500 hover:text-amber-700"><Check className="h-4 w-4" /></button>
-                    </div>
-                    <ul className="list-disc list-inside text-xs text-amber-700 space-y-1 mb-4">
-                        {conflicts.map((c, i) => <li key={i}>{c}</li>)}
-                    </ul>
-
-                    <div className="bg-white/50 p-3 rounded-lg border border-amber-100">
-                        <div className="text-xs font-bold text-amber-800 uppercase tracking-wide mb-2">Simulated Impact on Last 100 Assets</div>
-                        <div className="flex items-center gap-4">
-                            <div className="flex flex-col">
-                                <span className="text-lg font-bold text-slate-700">12</span>
-                                <span className="text-[10px] text-slate-500">New Critical Issues</span>
-                            </div>
-                            <div className="flex flex-col">
-                                <span className="text-lg font-bold text-slate-700">-4%</span>
-                                <span className="text-[10px] text-slate-500">Avg Score Drop</span>
-                            </div>
-                        </div>
+            {showSaveDialog && (
+                <div className="bg-emerald-50 border border-emerald-200 rounded-xl p-6 animate-in fade-in slide-in-from-top-4">
+                    <h4 className="text-sm font-bold text-emerald-800 flex items-center gap-2 mb-1">
+                        <History className="h-4 w-4" />
+                        Save as v{activeVersion.number + 1}
+                    </h4>
+                    <p className="text-xs text-emerald-700 mb-4">Versions are immutable. Describe what changed so the audit trail stays readable.</p>
+                    <div className="flex gap-2">
+                        <input
+                            autoFocus
+                            value={changeNote}
+                            onChange={(e) => setChangeNote(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleCreateSave()}
+                            placeholder="Change note (e.g. Added pricing disclaimer for proposals)"
+                            className="flex-1 px-4 py-2 bg-white border border-emerald-200 rounded-lg text-sm text-slate-700 outline-none focus:ring-2 focus:ring-emerald-500/20"
+                        />
+                        <button
+                            onClick={handleCreateSave}
+                            className="px-4 py-2 bg-emerald-600 text-white text-sm font-bold rounded-lg hover:bg-emerald-500 transition-all flex items-center gap-2"
+                        >
+                            <Save className="h-4 w-4" />
+                            Save Version
+                        </button>
+                        <button
+                            onClick={() => setShowSaveDialog(false)}
+                            className="px-4 py-2 bg-white border border-slate-200 text-slate-600 text-sm font-bold rounded-lg hover:bg-slate-50"
+                        >
+                            Cancel
+                        </button>
                     </div>
                 </div>
             )}
 
+            {showImpactModal && (
+                <GuidelineImpactPanel
+                    conflicts={conflicts}
+                    impact={impact}
+                    impactError={impactError}
+                    hasDraftChanges={hasDraftChanges}
+                    modelProgress={modelProgress}
+                    onRunModel={handleRunModelImpact}
+                    onClose={() => setShowImpactModal(false)}
+                />
+            )}
+
             {/* Sync Control Bar */}
             <div className="bg-white p-2 rounded-2xl border border-slate-200 shadow-sm flex flex-col md:flex-row gap-2">
                 <div className="flex-1 flex items-center bg-slate-50 rounded-xl border border-slate-200 px-4 focus-within:ring-2 focus-within:ring-indigo-500/20 focus-within:border-indigo-500 transition-all">
@@ -240,26 +337,43 @@ export const BrandRules: React.FC<BrandRulesProps> = ({ settings, onSave }) => {
                     <div className="w-px bg-slate-200 my-2 mx-1"></div>
                     <button
                         onClick={() => document.getElementById('manual-upload')?.click()}
-                        className="px-6 py-3 bg-white border border-slate-200 text-slate-700 hover:bg-slate-50 hover:border-slate-300 rounded-xl font-bold text-sm flex items-center gap-2 transition-all"
+                        disabled={extractionProgress !== null}
+                        className="px-6 py-3 bg-white border border-slate-200 text-slate-700 hover:bg-slate-50 hover:border-slate-300 disabled:cursor-wait disabled:text-slate-400 rounded-xl font-bold text-sm flex items-center gap-2 transition-all"
                     >
-                        <Upload className="h-4 w-4" />
-                        Upload Manual
+                        <Upload className={`h-4 w-4 ${extractionProgress !== null ? 'animate-pulse' : ''}`} />
+                        {extractionProgress !== null ? `Reading Manual ${extractionProgress}%` : 'Upload Manual'}
                     </button>
                     <input
                         id="manual-upload"
                         type="file"
                         className="hidden"
                         accept=".pdf,.docx,.txt"
-                        onChange={async (e) => {
-                            if (e.target.files?.[0]) {
-                                const settings = await extractBrandSettings("Simulated extraction...");
-                                setFormData(settings);
-                            }
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) handleManualUpload(file);
+                            // Allow re-selecting the same file
+                            e.target.value = '';
                         }}
                     />
                 </div>
             </div>
 
+            {extractionError && (
+                <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-center justify-between gap-3 text-sm text-red-700">
+                    <span className="flex items-center gap-2"><AlertCircle className="h-4 w-4" />{extractionError}</span>
+                    <button onClick={() => setExtractionError(null)} className="text-red-400 hover:text-red-600 text-xs font-bold">Dismiss</button>
+                </div>
+            )}
+
+            {extraction && (
+                <GuidelineExtractionReview
+                    extraction={extraction}
+                    current={formData}
+                    onMerge={handleMergeExtraction}
+                    onDiscard={() => setExtraction(null)}
+                />
+            )}
+
             <div className="grid grid-cols-1 lg:grid-cols-12 gap-8 items-start">
 
                 {/* Navigation Sidebar */}
@@ -301,6 +415,15 @@ export const BrandRules: React.FC<BrandRulesProps> = ({ settings, onSave }) => {
                             label="Master Templates"
                             description="Approved PPTX and DOCX layouts."
                         />
+                        <div className="px-4 py-2">
+                            <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Audit</span>
+                        </div>
+                        <TabButton
+                            id="history"
+                            icon={History}
+                            label="Version History"
+                            description="Past versions, diffs, and rollback."
+                        />
                     </nav>
 
                     <div className="bg-indigo-900 rounded-2xl p-6 text-white relative overflow-hidden group">
@@ -334,6 +457,13 @@ export const BrandRules: React.FC<BrandRulesProps> = ({ settings, onSave }) => {
                                 fieldKey="brandName"
                             />
 
+                            <GlossaryEditor
+                                entries={formData.glossary || []}
+                                brandName={formData.brandName}
+                                isEditing={isEditing}
+                                onChange={(glossary) => setFormData({ ...formData, glossary })}
+                            />
+
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                                 <ContentViewer
                                     title="Mission Statement"
@@ -393,6 +523,12 @@ export const BrandRules: React.FC<BrandRulesProps> = ({ settings, onSave }) => {
                                 ))}
                             </div>
 
+                            <DesignTokensEditor
+                                tokens={formData.designTokens}
+                                isEditing={isEditing}
+                                onChange={(designTokens) => setFormData({ ...formData, designTokens })}
+                            />
+
                             <ContentViewer
                                 title="Master Visual Guidelines"
                                 content={formData.styleGuide}
@@ -409,26 +545,81 @@ export const BrandRules: React.FC<BrandRulesProps> = ({ settings, onSave }) => {
                                 <p className="text-slate-500">Negative constraints, legal guardrails, and prohibited terminology.</p>
                             </div>
 
-                            <div className="bg-red-50 rounded-xl p-6 border border-red-100 flex flex-col gap-4">
-                                <div className="flex items-center gap-3 border-b border-red-200/50 pb-4">
-                                    <AlertCircle className="h-5 w-5 text-red-600" />
-                                    <h3 className="font-bold text-red-900">Restricted Terminology Blocklist</h3>
-                                </div>
-                                {isEditing ? (
-                                    <textarea
-                                        value={formData.bannedTerms}
-                                        onChange={(e) => setFormData({ ...formData, bannedTerms: e.target.value })}
-                                        className="font-mono text-sm text-red-800 bg-white p-4 rounded-lg border border-red-100 outline-none focus:ring-2 focus:ring-red-500/20"
-                                    />
-                                ) : (
-                                    <div className="font-mono text-sm text-red-800 bg-white/50 p-4 rounded-lg border border-red-100">
-                                        {formData.bannedTerms}
+                            <BannedTermsEditor
+                                terms={formData.bannedTerms}
+                                isEditing={isEditing}
+                                onChange={(bannedTerms) => setFormData({ ...formData, bannedTerms })}
+                            />
+
+                            <div className="bg-white rounded-xl border border-slate-200 p-6 flex flex-col gap-4">
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <h4 className="font-bold text-slate-900 text-sm">Required Disclaimers</h4>
+                                        <p className="text-sm text-slate-500 mt-1">Checked by the rule engine on every analysis. Missing text is a blocking issue.</p>
                                     </div>
+                                    {isEditing && (
+                                        <button
+                                            onClick={() => setFormData({
+                                                ...formData,
+                                                requiredDisclaimers: [...(formData.requiredDisclaimers || []), { id: `disclaimer-${Date.now()}`, label: 'New disclaimer', text: '' }]
+                                            })}
+                                            className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-bold text-slate-700 hover:bg-slate-50"
+                                        >
+                                            Add Disclaimer
+                                        </button>
+                                    )}
+                                </div>
+                                {(formData.requiredDisclaimers || []).length === 0 && (
+                                    <p className="text-xs text-slate-400">No required disclaimers configured.</p>
                                 )}
-                                <p className="text-xs text-red-600 font-medium flex items-center gap-1">
-                                    <Shield className="h-3 w-3" />
-                                    Matches against these terms trigger High Severity alerts.
-                                </p>
+                                {(formData.requiredDisclaimers || []).map((disclaimer, index) => (
+                                    <div key={disclaimer.id} className="p-4 rounded-lg border border-slate-100 bg-slate-50/50">
+                                        {isEditing ? (
+                                            <div className="flex flex-col gap-2">
+                                                <div className="flex gap-2">
+                                                    <input
+                                                        value={disclaimer.label}
+                                                        onChange={(e) => {
+                                                            const next = [...(formData.requiredDisclaimers || [])];
+                                                            next[index] = { ...disclaimer, label: e.target.value };
+                                                            setFormData({ ...formData, requiredDisclaimers: next });
+                                                        }}
+                                                        className="flex-1 text-sm font-bold text-slate-800 bg-white px-3 py-2 rounded-lg border border-slate-200 outline-none focus:ring-2 focus:ring-indigo-500/20"
+                                                    />
+                                                    <button
+                                                        onClick={() => setFormData({ ...formData, requiredDisclaimers: (formData.requiredDisclaimers || []).filter(d => d.id !== disclaimer.id) })}
+                                                        className="text-xs text-red-500 font-bold hover:underline px-2"
+                                                    >
+                                                        Remove
+                                                    </button>
+                                                </div>
+                                                <textarea
+                                                    value={disclaimer.text}
+                                                    onChange={(e) => {
+                                                        const next = [...(formData.requiredDisclaimers || [])];
+                                                        next[index] = { ...disclaimer, text: e.target.value };
+                                                        setFormData({ ...formData, requiredDisclaimers: next });
+                                                    }}
+                                                    placeholder="Exact text that must appear..."
+                                                    className="font-mono text-xs text-slate-600 bg-white p-3 rounded-lg border border-slate-200 outline-none focus:ring-2 focus:ring-indigo-500/20"
+                                                />
+                                            </div>
+                                        ) : (
+                                            <>
+                                                <div className="text-sm font-bold text-slate-800">{disclaimer.label}</div>
+                                                <div className="font-mono text-xs text-slate-600 mt-1">"{disclaimer.text}"</div>
+                                            </>
+                                        )}
+                                        <div className="flex flex-wrap gap-1.5 mt-2">
+                                            {[...(disclaimer.contexts || []), ...(disclaimer.assetTypes || [])].map(scope => (
+                                                <span key={scope} className="px-2 py-0.5 rounded-md bg-indigo-50 text-indigo-600 text-[10px] font-bold">{scope}</span>
+                                            ))}
+                                            {disclaimer.triggers && disclaimer.triggers.length > 0 && (
+                                                <span className="px-2 py-0.5 rounded-md bg-amber-50 text-amber-700 text-[10px] font-bold">When mentioning: {disclaimer.triggers.join(', ')}</span>
+                                            )}
+                                        </div>
+                                    </div>
+                                ))}
                             </div>
 
                             <div className="bg-white rounded-xl border border-slate-200 p-6 flex justify-between items-center">
@@ -493,6 +684,11 @@ export const BrandRules: React.FC<BrandRulesProps> = ({ settings, onSave }) => {
                         </>
                     )}
 
+                    {/* Tab: Version History */}
+                    {activeTab === 'history' && (
+                        <VersionHistory versions={versions} onRollback={onRollback} />
+                    )}
+
                 </div>
             </div>
         </div>
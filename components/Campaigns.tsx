@@ -0,0 +1,280 @@
+import React, { useEffect, useState } from 'react';
+import { Megaphone, Plus, Trash2, GitCompare, ArrowUpRight, Loader2, X, FileText } from 'lucide-react';
+import { Campaign, HistoryItem, Issue } from '../types';
+import { loadCampaignFindings } from '../services/campaigns';
+import { clsx } from 'clsx';
+
+interface CampaignsProps {
+    campaigns: Campaign[]; // Campaigns of the active brand
+    history: HistoryItem[];
+    onCreate: (name: string, memberIds: number[]) => void;
+    onUpdateMembers: (campaign: Campaign, memberIds: number[]) => void;
+    onDelete: (campaign: Campaign) => void;
+    onCheck: (campaign: Campaign) => Promise<void>;
+    onOpen: (historyId: number) => void; // Open a member in the results view
+}
+
+// Picks history entries that can be compared: only stored runs have their text
+const AssetPicker = ({ items, selected, onToggle }: { items: HistoryItem[]; selected: number[]; onToggle: (id: number) => void }) => (
+    <div className="max-h-64 overflow-y-auto divide-y divide-slate-100 border border-slate-200 rounded-lg">
+        {items.map(item => (
+            <label key={item.id} className={clsx("flex items-center gap-3 p-3 text-sm", item.hasRecord ? "cursor-pointer hover:bg-slate-50" : "opacity-40 cursor-not-allowed")}>
+                <input
+                    type="checkbox"
+                    checked={selected.includes(item.id)}
+                    disabled={!item.hasRecord}
+                    onChange={() => onToggle(item.id)}
+                    className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span className="font-medium text-slate-800 truncate">{item.filename}</span>
+                <span className="text-xs text-slate-400 ml-auto flex-shrink-0">{item.type} · {new Date(item.date).toLocaleDateString()}</span>
+            </label>
+        ))}
+        {items.length === 0 && <div className="p-6 text-center text-sm text-slate-500">No analyses to add.</div>}
+    </div>
+);
+
+export const Campaigns: React.FC<CampaignsProps> = ({ campaigns, history, onCreate, onUpdateMembers, onDelete, onCheck, onOpen }) => {
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [isCreating, setIsCreating] = useState(false);
+    const [isAdding, setIsAdding] = useState(false);
+    const [name, setName] = useState('');
+    const [picked, setPicked] = useState<number[]>([]);
+    const [findings, setFindings] = useState<Record<number, Issue[]>>({});
+    const [isChecking, setIsChecking] = useState(false);
+
+    const selected = campaigns.find(c => c.id === selectedId) || (isCreating ? undefined : campaigns[0]);
+    const members = selected ? selected.memberIds.map(id => history.find(h => h.id === id)).filter((h): h is HistoryItem => !!h) : [];
+
+    // Findings live on the members' stored runs; reloaded after every check or member change
+    useEffect(() => {
+        if (!selected) return;
+        let cancelled = false;
+        loadCampaignFindings(selected)
+            .then(loaded => { if (!cancelled) setFindings(loaded); })
+            .catch(e => console.error("Failed to load campaign findings", e));
+        return () => { cancelled = true; };
+    }, [selected]);
+
+    const togglePicked = (id: number) => setPicked(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]);
+
+    const startCreating = () => {
+        setIsCreating(true);
+        setIsAdding(false);
+        setName('');
+        setPicked([]);
+    };
+
+    const handleCreate = () => {
+        onCreate(name, picked);
+        setIsCreating(false);
+        setSelectedId(null);
+    };
+
+    const handleAdd = () => {
+        if (selected) onUpdateMembers(selected, [...selected.memberIds, ...picked]);
+        setIsAdding(false);
+        setPicked([]);
+    };
+
+    const handleCheck = async () => {
+        if (!selected) return;
+        setIsChecking(true);
+        try {
+            await onCheck(selected);
+        } finally {
+            setIsChecking(false);
+        }
+    };
+
+    const totalFindings = members.reduce((sum, m) => sum + (findings[m.id]?.length || 0), 0);
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 animate-in fade-in slide-in-from-bottom-2 duration-500">
+            {/* Campaign List */}
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden h-fit">
+                <div className="p-4 border-b border-slate-200 flex items-center justify-between">
+                    <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Campaigns</span>
+                    <button
+                        onClick={startCreating}
+                        className="px-3 py-1.5 bg-indigo-600 text-white font-medium text-xs rounded-lg hover:bg-indigo-700 flex items-center gap-1.5 shadow-sm"
+                    >
+                        <Plus className="h-3.5 w-3.5" />
+                        New Campaign
+                    </button>
+                </div>
+                <div className="divide-y divide-slate-100">
+                    {campaigns.map(campaign => (
+                        <button
+                            key={campaign.id}
+                            onClick={() => { setSelectedId(campaign.id); setIsCreating(false); setIsAdding(false); }}
+                            className={clsx("w-full text-left p-4 flex items-center gap-3 transition-colors",
+                                !isCreating && selected?.id === campaign.id ? "bg-indigo-50" : "hover:bg-slate-50")}
+                        >
+                            <div className="p-2 bg-slate-100 rounded-lg text-slate-500">
+                                <Megaphone className="h-4 w-4" />
+                            </div>
+                            <div className="min-w-0">
+                                <div className="font-bold text-slate-800 text-sm truncate">{campaign.name}</div>
+                                <div className="text-xs text-slate-400">
+                                    {campaign.memberIds.length} assets · {campaign.checkedAt ? `checked ${new Date(campaign.checkedAt).toLocaleDateString()}` : 'not checked yet'}
+                                </div>
+                            </div>
+                        </button>
+                    ))}
+                    {campaigns.length === 0 && (
+                        <div className="p-8 text-center text-sm text-slate-500">
+                            Group the banner, landing page and email of a launch to check they say the same thing.
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <div className="lg:col-span-2 space-y-6">
+                {/* New Campaign */}
+                {isCreating && (
+                    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-4">
+                        <div className="flex items-center justify-between">
+                            <h3 className="font-bold text-slate-800">New Campaign</h3>
+                            <button onClick={() => setIsCreating(false)} className="p-1 text-slate-400 hover:text-slate-600"><X className="h-4 w-4" /></button>
+                        </div>
+                        <input
+                            type="text"
+                            placeholder="Campaign name, e.g. Spring Launch 2026"
+                            className="w-full px-4 py-2 border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                        />
+                        <AssetPicker items={history} selected={picked} onToggle={togglePicked} />
+                        <div className="flex justify-end">
+                            <button
+                                onClick={handleCreate}
+                                disabled={!name.trim() || picked.length < 2}
+                                title={picked.length < 2 ? "Pick at least two assets to compare" : undefined}
+                                className="px-4 py-2 bg-indigo-600 text-white font-medium text-sm rounded-lg hover:bg-indigo-700 shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                Create Campaign ({picked.length} assets)
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {!isCreating && selected && (
+                    <>
+                        {/* Header Actions */}
+                        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 flex flex-col md:flex-row justify-between items-center gap-4">
+                            <div>
+                                <div className="font-bold text-slate-800">{selected.name}</div>
+                                <div className="text-xs text-slate-500">
+                                    {selected.checkedAt
+                                        ? `${totalFindings} inconsistencies at the last check (${new Date(selected.checkedAt).toLocaleString()})`
+                                        : 'Run a consistency check to compare the assets.'}
+                                </div>
+                            </div>
+                            <div className="flex gap-3 w-full md:w-auto">
+                                <button
+                                    onClick={() => { setIsAdding(!isAdding); setPicked([]); }}
+                                    className="flex-1 md:flex-none px-4 py-2 bg-white border border-slate-300 text-slate-700 font-medium text-sm rounded-lg hover:bg-slate-50 flex items-center justify-center gap-2"
+                                >
+                                    <Plus className="h-4 w-4" />
+                                    Add Assets
+                                </button>
+                                <button
+                                    onClick={() => { if (confirm(`Delete the campaign "${selected.name}"? Its analyses stay in your history.`)) onDelete(selected); }}
+                                    className="flex-1 md:flex-none px-4 py-2 bg-white border border-red-200 text-red-600 font-medium text-sm rounded-lg hover:bg-red-50 flex items-center justify-center gap-2"
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                    Delete
+                                </button>
+                                <button
+                                    onClick={handleCheck}
+                                    disabled={isChecking || selected.memberIds.length < 2}
+                                    className="flex-1 md:flex-none px-4 py-2 bg-indigo-600 text-white font-medium text-sm rounded-lg hover:bg-indigo-700 flex items-center justify-center gap-2 shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    {isChecking ? <Loader2 className="h-4 w-4 animate-spin" /> : <GitCompare className="h-4 w-4" />}
+                                    Check Consistency
+                                </button>
+                            </div>
+                        </div>
+
+                        {isAdding && (
+                            <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-4">
+                                <AssetPicker items={history.filter(h => !selected.memberIds.includes(h.id))} selected={picked} onToggle={togglePicked} />
+                                <div className="flex justify-end">
+                                    <button
+                                        onClick={handleAdd}
+                                        disabled={picked.length === 0}
+                                        className="px-4 py-2 bg-indigo-600 text-white font-medium text-sm rounded-lg hover:bg-indigo-700 shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        Add {picked.length} Assets
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Members and their findings */}
+                        <div className="bg-white rounded-xl shadow-sm border border-slate-200 divide-y divide-slate-100">
+                            {members.map(item => {
+                                const issues = findings[item.id] || [];
+                                return (
+                                    <div key={item.id} className="p-4 group">
+                                        <div className="flex items-center gap-3">
+                                            <div className="p-2 bg-slate-100 rounded-lg text-slate-500">
+                                                <FileText className="h-5 w-5" />
+                                            </div>
+                                            <div className="min-w-0">
+                                                <div className="font-bold text-slate-800 text-sm truncate">{item.filename}</div>
+                                                <div className="text-xs text-slate-400">{item.type} · {item.issuesCount} issues in total</div>
+                                            </div>
+                                            {selected.checkedAt && (
+                                                <span className={clsx("ml-auto px-2.5 py-1 rounded-full text-xs font-bold border",
+                                                    issues.length ? "bg-amber-100 text-amber-700 border-amber-200" : "bg-emerald-100 text-emerald-700 border-emerald-200")}>
+                                                    {issues.length ? `${issues.length} inconsistent` : 'Consistent'}
+                                                </span>
+                                            )}
+                                            <div className={clsx("flex gap-1", !selected.checkedAt && "ml-auto")}>
+                                                <button
+                                                    onClick={() => onOpen(item.id)}
+                                                    className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                                                    title="Open results"
+                                                >
+                                                    <ArrowUpRight className="h-4 w-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() => onUpdateMembers(selected, selected.memberIds.filter(id => id !== item.id))}
+                                                    className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                                    title="Remove from campaign"
+                                                >
+                                                    <X className="h-4 w-4" />
+                                                </button>
+                                            </div>
+                                        </div>
+                                        {issues.length > 0 && (
+                                            <ul className="mt-3 ml-12 space-y-2">
+                                                {issues.map(issue => (
+                                                    <li key={issue.id} className="text-sm">
+                                                        <span className={clsx("text-[10px] font-bold uppercase mr-2",
+                                                            issue.severity === 'High' ? "text-red-600" : issue.severity === 'Medium' ? "text-amber-600" : "text-slate-400")}>
+                                                            {issue.subcategory}
+                                                        </span>
+                                                        <span className="text-slate-700">{issue.description}</span>
+                                                        <div className="text-xs text-slate-500 mt-0.5">{issue.fix}</div>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                            {members.length === 0 && (
+                                <div className="p-12 text-center text-slate-500">
+                                    <p>This campaign has no assets yet.</p>
+                                </div>
+                            )}
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,193 @@
+import React from 'react';
+import { Palette, Plus, Trash2, Type } from 'lucide-react';
+import { DesignTokens, PaletteColor } from '../types';
+import { cn } from '../utils';
+import { DEFAULT_TOLERANCE, normalizeHex } from '../services/rules';
+
+interface DesignTokensEditorProps {
+    tokens?: DesignTokens;
+    isEditing: boolean;
+    onChange: (tokens: DesignTokens) => void;
+}
+
+const EMPTY_TOKENS: DesignTokens = { palette: [], allowNeutrals: true, fonts: [] };
+
+const parseWeights = (value: string) => value.split(',').map(v => parseInt(v.trim(), 10)).filter(w => w >= 100 && w <= 900);
+
+const inputClass = "text-xs text-slate-700 bg-white px-2 py-1.5 rounded-md border border-slate-200 outline-none focus:ring-2 focus:ring-indigo-500/20";
+
+export const DesignTokensEditor: React.FC<DesignTokensEditorProps> = ({ tokens = EMPTY_TOKENS, isEditing, onChange }) => {
+    const updateColor = (index: number, patch: Partial<PaletteColor>) => {
+        const palette = [...tokens.palette];
+        palette[index] = { ...tokens.palette[index], ...patch };
+        onChange({ ...tokens, palette });
+    };
+
+    const updateFont = (index: number, patch: Partial<DesignTokens['fonts'][number]>) => {
+        const fonts = [...tokens.fonts];
+        fonts[index] = { ...tokens.fonts[index], ...patch };
+        onChange({ ...tokens, fonts });
+    };
+
+    const addColor = () => onChange({
+        ...tokens,
+        palette: [...tokens.palette, { id: `color-${Date.now()}`, name: '', hex: '#000000', tolerance: DEFAULT_TOLERANCE }]
+    });
+
+    const addFont = () => onChange({ ...tokens, fonts: [...tokens.fonts, { family: '', weights: [] }] });
+
+    return (
+        <div className="bg-white rounded-xl border border-slate-200 p-6 flex flex-col gap-6">
+            <div>
+                <div className="flex items-center justify-between mb-3">
+                    <div>
+                        <h4 className="font-bold text-slate-900 text-sm flex items-center gap-2">
+                            <Palette className="h-4 w-4 text-indigo-500" />
+                            Brand Palette
+                        </h4>
+                        <p className="text-sm text-slate-500 mt-1">Images, PDF pages and slides are measured against these colors. Tolerance is the accepted color difference (ΔE).</p>
+                    </div>
+                    {isEditing && (
+                        <button
+                            onClick={addColor}
+                            className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-bold text-slate-700 hover:bg-slate-50 flex items-center gap-1"
+                        >
+                            <Plus className="h-3 w-3" /> Add Color
+                        </button>
+                    )}
+                </div>
+
+                {tokens.palette.length === 0 && <p className="text-xs text-slate-400">No palette configured; colors are not checked.</p>}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    {tokens.palette.map((color, index) => {
+                        const hex = normalizeHex(color.hex);
+                        return isEditing ? (
+                            <div key={color.id} className="p-2 rounded-lg border border-slate-100 bg-slate-50/50 flex items-center gap-2">
+                                <input
+                                    type="color"
+                                    value={hex || '#000000'}
+                                    onChange={(e) => updateColor(index, { hex: e.target.value.toUpperCase() })}
+                                    className="h-8 w-8 rounded cursor-pointer border border-slate-200"
+                                />
+                                <input
+                                    value={color.hex}
+                                    onChange={(e) => updateColor(index, { hex: e.target.value })}
+                                    className={cn(inputClass, "w-20 font-mono", !hex && "border-red-400")}
+                                />
+                                <input
+                                    value={color.name}
+                                    onChange={(e) => updateColor(index, { name: e.target.value })}
+                                    placeholder="Name, e.g. Deep Indigo"
+                                    className={cn(inputClass, "flex-1 min-w-0")}
+                                />
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={50}
+                                    value={color.tolerance}
+                                    onChange={(e) => updateColor(index, { tolerance: Number(e.target.value) || DEFAULT_TOLERANCE })}
+                                    title="Tolerance (ΔE)"
+                                    className={cn(inputClass, "w-14")}
+                                />
+                                <button
+                                    onClick={() => onChange({ ...tokens, palette: tokens.palette.filter(c => c.id !== color.id) })}
+                                    title="Remove color"
+                                    className="p-1.5 text-slate-400 hover:text-red-500"
+                                >
+                                    <Trash2 className="h-3.5 w-3.5" />
+                                </button>
+                            </div>
+                        ) : (
+                            <div key={color.id} className="px-3 py-2 rounded-lg border border-slate-100 bg-slate-50/50 flex items-center gap-3 text-xs">
+                                <span className="h-6 w-6 rounded border border-slate-200 shrink-0" style={{ backgroundColor: hex }} />
+                                <span className="font-bold text-slate-800">{color.name || 'Unnamed'}</span>
+                                <span className="font-mono text-slate-500">{color.hex}</span>
+                                <span className="ml-auto text-slate-400">±ΔE {color.tolerance || DEFAULT_TOLERANCE}</span>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <label className="flex items-center gap-2 mt-3 text-xs text-slate-600">
+                    <input
+                        type="checkbox"
+                        checked={tokens.allowNeutrals}
+                        disabled={!isEditing}
+                        onChange={(e) => onChange({ ...tokens, allowNeutrals: e.target.checked })}
+                        className="accent-indigo-600"
+                    />
+                    Always accept neutrals (white, black and greys)
+                </label>
+            </div>
+
+            <div className="border-t border-slate-100 pt-5">
+                <div className="flex items-center justify-between mb-3">
+                    <h4 className="font-bold text-slate-900 text-sm flex items-center gap-2">
+                        <Type className="h-4 w-4 text-indigo-500" />
+                        Approved Typography
+                    </h4>
+                    {isEditing && (
+                        <button
+                            onClick={addFont}
+                            className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-bold text-slate-700 hover:bg-slate-50 flex items-center gap-1"
+                        >
+                            <Plus className="h-3 w-3" /> Add Font
+                        </button>
+                    )}
+                </div>
+
+                {tokens.fonts.length === 0 && <p className="text-xs text-slate-400">No approved fonts configured.</p>}
+
+                <div className="flex flex-col gap-2">
+                    {tokens.fonts.map((font, index) => isEditing ? (
+                        <div key={index} className="flex items-center gap-2">
+                            <input
+                                value={font.family}
+                                onChange={(e) => updateFont(index, { family: e.target.value })}
+                                placeholder="Family, e.g. Inter"
+                                className={cn(inputClass, "flex-1 font-bold")}
+                            />
+                            <input
+                                defaultValue={font.weights.join(', ')}
+                                onBlur={(e) => updateFont(index, { weights: parseWeights(e.target.value) })}
+                                placeholder="Weights, e.g. 400, 700 (empty = any)"
+                                className={cn(inputClass, "flex-1")}
+                            />
+                            <button
+                                onClick={() => onChange({ ...tokens, fonts: tokens.fonts.filter((_, i) => i !== index) })}
+                                title="Remove font"
+                                className="p-1.5 text-slate-400 hover:text-red-500"
+                            >
+                                <Trash2 className="h-3.5 w-3.5" />
+                            </button>
+                        </div>
+                    ) : (
+                        <div key={index} className="px-3 py-2 rounded-lg border border-slate-100 bg-slate-50/50 flex items-center gap-2 text-xs">
+                            <span className="font-bold text-slate-800">{font.family}</span>
+                            <span className="text-slate-400">{font.weights.length ? font.weights.join(' / ') : 'Any weight'}</span>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <div className="border-t border-slate-100 pt-5 flex items-center gap-3">
+                <span className="font-bold text-slate-900 text-sm">Minimum Logo Clear Space</span>
+                {isEditing ? (
+                    <input
+                        type="number"
+                        min={0}
+                        step={0.05}
+                        value={tokens.logoClearSpace ?? ''}
+                        onChange={(e) => onChange({ ...tokens, logoClearSpace: e.target.value ? Number(e.target.value) : undefined })}
+                        placeholder="0.5"
+                        className={cn(inputClass, "w-20")}
+                    />
+                ) : (
+                    <span className="text-sm text-slate-600">{tokens.logoClearSpace ?? '—'}</span>
+                )}
+                <span className="text-xs text-slate-400">× logo height on every side</span>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import { Check, X, Download, CheckCheck, Undo2 } from 'lucide-react';
+import { Issue } from '../types';
+import { cn } from '../utils';
+import { diffWords, buildFinalText, DiffHunk, HunkDecision } from '../utils/wordDiff';
+import { downloadText } from '../utils/textPatches';
+
+interface DiffViewerProps {
+    originalText: string;
+    correctedText: string;
+    issues: Issue[];
+    selectedIssueId?: string;
+    onIssueSelect?: (issueId: string) => void;
+    fileName?: string;
+}
+
+export const DiffViewer: React.FC<DiffViewerProps> = ({ originalText, correctedText, issues, selectedIssueId, onIssueSelect, fileName }) => {
+    const segments = useMemo(() => diffWords(originalText, correctedText, issues), [originalText, correctedText, issues]);
+    const hunks = useMemo(() => segments.flatMap(s => s.type === 'change' ? [s.hunk] : []), [segments]);
+
+    const [decisions, setDecisions] = useState<Record<string, HunkDecision>>({});
+    const [activeHunk, setActiveHunk] = useState<string | null>(null);
+    const [showFinal, setShowFinal] = useState(false);
+
+    const issuesById = useMemo(() => new Map(issues.map(i => [i.id, i])), [issues]);
+    const finalText = useMemo(() => buildFinalText(segments, decisions), [segments, decisions]);
+
+    const accepted = hunks.filter(h => decisions[h.id] === 'accept').length;
+    const rejected = hunks.filter(h => decisions[h.id] === 'reject').length;
+
+    const decide = (hunkId: string, decision: HunkDecision) => {
+        setDecisions(prev => {
+            const next = { ...prev };
+            // Clicking the active decision again returns the hunk to pending
+            if (next[hunkId] === decision) delete next[hunkId];
+            else next[hunkId] = decision;
+            return next;
+        });
+    };
+
+    const decideAll = (decision: HunkDecision | null) => {
+        setDecisions(decision ? Object.fromEntries(hunks.map(h => [h.id, decision])) : {});
+    };
+
+    const selectHunk = (hunk: DiffHunk) => {
+        setActiveHunk(hunk.id);
+        if (hunk.issueIds[0]) onIssueSelect?.(hunk.issueIds[0]);
+    };
+
+    const handleDownload = () => {
+        const baseName = (fileName || 'content').replace(/\.[^.]+$/, '');
+        downloadText(finalText, `${baseName}-final.txt`);
+    };
+
+    const isHighlighted = (hunk: DiffHunk) =>
+        activeHunk === hunk.id || (!!selectedIssueId && hunk.issueIds.includes(selectedIssueId));
+
+    const hunkTitle = (hunk: DiffHunk) => {
+        const linked = hunk.issueIds.map(id => issuesById.get(id)?.description).filter(Boolean);
+        return linked.length ? linked.join('\n') : 'Style rewrite (no linked issue)';
+    };
+
+    if (hunks.length === 0) {
+        return (
+            <div className="h-full flex items-center justify-center text-slate-500 text-xs font-bold uppercase tracking-widest">
+                Rewrite is identical to the original
+            </div>
+        );
+    }
+
+    return (
+        <div className="h-full flex flex-col">
+            {/* TOOLBAR */}
+            <div className="px-4 py-2 border-b border-white/5 bg-black/30 flex items-center justify-between gap-3">
+                <span className="text-[10px] font-mono text-slate-400">
+                    {hunks.length} changes · <span className="text-emerald-400">{accepted} accepted</span> · <span className="text-red-400">{rejected} rejected</span> · {hunks.length - accepted - rejected} pending
+                </span>
+                <div className="flex items-center gap-2">
+                    <button onClick={() => decideAll('accept')} className="px-2 py-0.5 rounded border border-emerald-500/30 text-emerald-400 hover:bg-emerald-500/10 text-[10px] font-bold uppercase tracking-wider flex items-center gap-1 transition-colors">
+                        <CheckCheck className="h-3 w-3" /> Accept All
+                    </button>
+                    <button onClick={() => decideAll('reject')} className="px-2 py-0.5 rounded border border-red-500/30 text-red-400 hover:bg-red-500/10 text-[10px] font-bold uppercase tracking-wider flex items-center gap-1 transition-colors">
+                        <X className="h-3 w-3" /> Reject All
+                    </button>
+                    <button onClick={() => decideAll(null)} title="Reset decisions" className="p-1 rounded border border-white/10 text-slate-400 hover:text-white transition-colors">
+                        <Undo2 className="h-3 w-3" />
+                    </button>
+                    <button onClick={handleDownload} title="Download final version" className="p-1 rounded border border-white/10 text-slate-400 hover:text-white transition-colors">
+                        <Download className="h-3 w-3" />
+                    </button>
+                </div>
+            </div>
+
+            {/* SIDE BY SIDE */}
+            <div className="flex-1 grid grid-cols-2 divide-x divide-white/5 overflow-hidden">
+                <div className="overflow-y-auto p-6 font-mono text-sm leading-relaxed text-slate-300 scrollbar-hide">
+                    <span className="block mb-3 text-[10px] font-bold text-slate-500 uppercase tracking-widest">Original</span>
+                    <p className="whitespace-pre-wrap">
+                        {segments.map((segment, idx) => segment.type === 'equal' ? (
+                            <React.Fragment key={idx}>{segment.text}</React.Fragment>
+                        ) : segment.hunk.removed && (
+                            <mark
+                                key={idx}
+                                title={hunkTitle(segment.hunk)}
+                                onClick={() => selectHunk(segment.hunk)}
+                                className={cn(
+                                    "rounded px-0.5 cursor-pointer transition-colors",
+                                    decisions[segment.hunk.id] === 'accept' ? "bg-red-500/20 text-red-300 line-through" :
+                                        decisions[segment.hunk.id] === 'reject' ? "bg-transparent text-slate-300" :
+                                            "bg-red-500/20 text-red-200",
+                                    isHighlighted(segment.hunk) && "ring-1 ring-indigo-400"
+                                )}
+                            >
+                                {segment.hunk.removed}
+                            </mark>
+                        ))}
+                    </p>
+                </div>
+
+                <div className="overflow-y-auto p-6 font-mono text-sm leading-relaxed text-slate-300 scrollbar-hide">
+                    <div className="flex gap-3 mb-3">
+                        {[false, true].map(final => (
+                            <button
+                                key={String(final)}
+                                onClick={() => setShowFinal(final)}
+                                className={cn("text-[10px] font-bold uppercase tracking-widest transition-colors", showFinal === final ? "text-white" : "text-slate-500 hover:text-slate-300")}
+                            >
+                                {final ? 'Final Version' : 'Suggested Rewrite'}
+                            </button>
+                        ))}
+                    </div>
+                    {showFinal ? (
+                        <p className="whitespace-pre-wrap">{finalText}</p>
+                    ) : (
+                        <p className="whitespace-pre-wrap">
+                            {segments.map((segment, idx) => {
+                                if (segment.type === 'equal') return <React.Fragment key={idx}>{segment.text}</React.Fragment>;
+                                const { hunk } = segment;
+                                const decision = decisions[hunk.id];
+                                return (
+                                    <span key={idx} className="inline">
+                                        {hunk.added && (
+                                            <mark
+                                                title={hunkTitle(hunk)}
+                                                onClick={() => selectHunk(hunk)}
+                                                className={cn(
+                                                    "rounded px-0.5 cursor-pointer transition-colors",
+                                                    decision === 'accept' ? "bg-emerald-500/30 text-emerald-100" :
+                                                        decision === 'reject' ? "bg-transparent text-slate-500 line-through" :
+                                                            "bg-emerald-500/15 text-emerald-200",
+                                                    isHighlighted(hunk) && "ring-1 ring-indigo-400"
+                                                )}
+                                            >
+                                                {hunk.added}
+                                            </mark>
+                                        )}
+                                        <span className="inline-flex align-middle gap-0.5 mx-0.5">
+                                            <button
+                                                onClick={() => decide(hunk.id, 'accept')}
+                                                title="Accept change"
+                                                className={cn("p-0.5 rounded transition-colors", decision === 'accept' ? "bg-emerald-500 text-white" : "text-emerald-400 hover:bg-emerald-500/20")}
+                                            >
+                                                <Check className="h-2.5 w-2.5" />
+                                            </button>
+                                            <button
+                                                onClick={() => decide(hunk.id, 'reject')}
+                                                title="Reject change"
+                                                className={cn("p-0.5 rounded transition-colors", decision === 'reject' ? "bg-red-500 text-white" : "text-red-400 hover:bg-red-500/20")}
+                                            >
+                                                <X className="h-2.5 w-2.5" />
+                                            </button>
+                                        </span>
+                                    </span>
+                                );
+                            })}
+                        </p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,122 @@
+import React from 'react';
+import { BookOpen, Plus, Trash2 } from 'lucide-react';
+import { GlossaryEntry } from '../types';
+import { cn } from '../utils';
+
+interface GlossaryEditorProps {
+    entries: GlossaryEntry[];
+    brandName: string;
+    isEditing: boolean;
+    onChange: (entries: GlossaryEntry[]) => void;
+}
+
+const KIND_LABELS: Record<GlossaryEntry['kind'], string> = {
+    brand: 'Brand',
+    product: 'Product',
+    term: 'Term'
+};
+
+const splitList = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+
+const inputClass = "text-xs text-slate-700 bg-white px-2 py-1.5 rounded-md border border-slate-200 outline-none focus:ring-2 focus:ring-indigo-500/20";
+
+export const GlossaryEditor: React.FC<GlossaryEditorProps> = ({ entries, brandName, isEditing, onChange }) => {
+    const update = (index: number, patch: Partial<GlossaryEntry>) => {
+        const next = [...entries];
+        next[index] = { ...entries[index], ...patch };
+        onChange(next);
+    };
+
+    const addEntry = () => onChange([...entries, { id: `glossary-${Date.now()}`, term: '', kind: 'product' }]);
+
+    const brandListed = entries.some(e => e.term.toLowerCase() === brandName.trim().toLowerCase());
+
+    return (
+        <div className="bg-white rounded-xl border border-slate-200 p-6 flex flex-col gap-4">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h4 className="font-bold text-slate-900 text-sm flex items-center gap-2">
+                        <BookOpen className="h-4 w-4 text-indigo-500" />
+                        Approved Terminology & Product Names
+                    </h4>
+                    <p className="text-sm text-slate-500 mt-1">Exact casing, trademark symbols on first use, and retired names. Checked by the rule engine on every analysis.</p>
+                </div>
+                {isEditing && (
+                    <button
+                        onClick={addEntry}
+                        className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-bold text-slate-700 hover:bg-slate-50 flex items-center gap-1"
+                    >
+                        <Plus className="h-3 w-3" /> Add Entry
+                    </button>
+                )}
+            </div>
+
+            {!brandListed && brandName.trim() && (
+                <p className="text-xs text-slate-400">The brand name "{brandName}" is always checked for exact casing.</p>
+            )}
+
+            {entries.length === 0 && <p className="text-xs text-slate-400">No glossary entries configured.</p>}
+
+            <div className="flex flex-col gap-2">
+                {entries.map((entry, index) => isEditing ? (
+                    <div key={entry.id} className="p-3 rounded-lg border border-slate-100 bg-slate-50/50 flex flex-col gap-2">
+                        <div className="flex items-center gap-2">
+                            <input
+                                value={entry.term}
+                                onChange={(e) => update(index, { term: e.target.value })}
+                                placeholder="Exact form, e.g. AERION Cloud"
+                                className={cn(inputClass, "flex-1 font-bold")}
+                            />
+                            <select
+                                value={entry.kind}
+                                onChange={(e) => update(index, { kind: e.target.value as GlossaryEntry['kind'] })}
+                                className={inputClass}
+                            >
+                                {Object.entries(KIND_LABELS).map(([kind, label]) => <option key={kind} value={kind}>{label}</option>)}
+                            </select>
+                            <select
+                                value={entry.trademark || ''}
+                                onChange={(e) => update(index, { trademark: (e.target.value || undefined) as GlossaryEntry['trademark'] })}
+                                className={inputClass}
+                            >
+                                <option value="">No mark</option>
+                                <option value="™">™ on first use</option>
+                                <option value="®">® on first use</option>
+                            </select>
+                            <button
+                                onClick={() => onChange(entries.filter(e => e.id !== entry.id))}
+                                title="Remove entry"
+                                className="p-1.5 text-slate-400 hover:text-red-500"
+                            >
+                                <Trash2 className="h-3.5 w-3.5" />
+                            </button>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                            <input
+                                value={(entry.variants || []).join(', ')}
+                                onChange={(e) => update(index, { variants: splitList(e.target.value) })}
+                                placeholder="Misspellings (comma separated)"
+                                className={inputClass}
+                            />
+                            <input
+                                value={(entry.deprecatedNames || []).join(', ')}
+                                onChange={(e) => update(index, { deprecatedNames: splitList(e.target.value) })}
+                                placeholder="Retired names (comma separated)"
+                                className={inputClass}
+                            />
+                        </div>
+                    </div>
+                ) : (
+                    <div key={entry.id} className="px-3 py-2 rounded-lg border border-slate-100 bg-slate-50/50 flex flex-wrap items-center gap-2 text-xs">
+                        <span className="font-bold text-slate-800">{entry.term}{entry.trademark}</span>
+                        <span className="px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-600 text-[10px] font-bold uppercase">{KIND_LABELS[entry.kind]}</span>
+                        {entry.variants && entry.variants.length > 0 && <span className="text-slate-400">Not: {entry.variants.join(', ')}</span>}
+                        {entry.deprecatedNames && entry.deprecatedNames.length > 0 && (
+                            <span className="px-1.5 py-0.5 rounded bg-amber-50 text-amber-700 text-[10px] font-bold">Replaces {entry.deprecatedNames.join(', ')}</span>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
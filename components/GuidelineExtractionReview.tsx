@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { FileSearch, Quote, CheckCircle2, AlertCircle, GitMerge, X } from 'lucide-react';
+import { BrandSettings } from '../types';
+import { cn } from '../utils';
+import { FIELD_LABELS } from '../services/brandVersions';
+import { GuidelineExtraction, ProposedGuideline } from '../services/guidelineExtraction';
+import { formatBannedTerms } from '../services/rules';
+
+interface GuidelineExtractionReviewProps {
+    extraction: GuidelineExtraction;
+    current: BrandSettings;
+    onMerge: (accepted: ProposedGuideline[]) => void;
+    onDiscard: () => void;
+}
+
+const displayValue = (value: ProposedGuideline['value'] | undefined) => {
+    if (typeof value === 'boolean') return value ? 'Enabled' : 'Disabled';
+    if (Array.isArray(value)) return formatBannedTerms(value) || '—';
+    return value || '—';
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export const GuidelineExtractionReview: React.FC<GuidelineExtractionReviewProps> = ({ extraction, current, onMerge, onDiscard }) => {
+    // Everything that differs from the current guidelines starts selected
+    const [selected, setSelected] = useState<Set<string>>(() => new Set(
+        extraction.proposals.filter(p => !sameValue(p.value, current[p.field])).map(p => p.field)
+    ));
+
+    const toggle = (field: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(field)) next.delete(field);
+            else next.add(field);
+            return next;
+        });
+    };
+
+    return (
+        <div className="bg-indigo-50 border border-indigo-200 rounded-xl p-6 animate-in fade-in slide-in-from-top-4">
+            <div className="flex justify-between items-start mb-1">
+                <h4 className="text-sm font-bold text-indigo-800 flex items-center gap-2">
+                    <FileSearch className="h-4 w-4" />
+                    Review Extracted Guidelines
+                </h4>
+                <button onClick={onDiscard} className="text-indigo-400 hover:text-indigo-700"><X className="h-4 w-4" /></button>
+            </div>
+            <p className="text-xs text-indigo-700 mb-4">
+                {extraction.fileName} · {extraction.chunkCount} {extraction.chunkCount === 1 ? 'section' : 'sections'} read. Check each value against its source before merging.
+            </p>
+
+            {extraction.proposals.length === 0 ? (
+                <div className="p-6 text-center text-sm text-indigo-400 bg-white/60 rounded-lg border border-indigo-100">
+                    No guidelines were found in this document.
+                </div>
+            ) : (
+                <div className="space-y-3 max-h-[32rem] overflow-y-auto pr-1">
+                    {extraction.proposals.map(proposal => {
+                        const unchanged = sameValue(proposal.value, current[proposal.field]);
+                        return (
+                            <div
+                                key={proposal.field}
+                                className={cn(
+                                    "bg-white rounded-lg border p-4 transition-colors",
+                                    selected.has(proposal.field) ? "border-indigo-300" : "border-slate-200 opacity-70"
+                                )}
+                            >
+                                <label className="flex items-center gap-3 cursor-pointer mb-3">
+                                    <input
+                                        type="checkbox"
+                                        checked={selected.has(proposal.field)}
+                                        onChange={() => toggle(proposal.field)}
+                                        className="h-4 w-4 accent-indigo-600"
+                                    />
+                                    <span className="text-xs font-bold text-slate-700 uppercase tracking-widest">{FIELD_LABELS[proposal.field]}</span>
+                                    {unchanged && <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">Matches current</span>}
+                                </label>
+
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">
+                                    <div>
+                                        <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Current</div>
+                                        <p className="text-sm text-slate-500 whitespace-pre-wrap line-clamp-6">{displayValue(current[proposal.field])}</p>
+                                    </div>
+                                    <div>
+                                        <div className="text-[10px] font-bold text-indigo-500 uppercase tracking-widest mb-1">Proposed</div>
+                                        <p className="text-sm text-slate-800 whitespace-pre-wrap line-clamp-6">{displayValue(proposal.value)}</p>
+                                    </div>
+                                </div>
+
+                                <div className="space-y-2">
+                                    {proposal.sources.map((source, idx) => (
+                                        <div key={idx} className="flex gap-2 p-2 bg-slate-50 rounded border border-slate-100">
+                                            <Quote className="h-3 w-3 text-slate-300 shrink-0 mt-1" />
+                                            <p className="flex-1 text-xs text-slate-600 italic whitespace-pre-wrap line-clamp-4">{source.passage || 'No source passage returned'}</p>
+                                            <div className="shrink-0 flex flex-col items-end gap-1">
+                                                <span className="text-[10px] font-mono text-slate-400">Section {source.chunkIndex + 1}</span>
+                                                {source.verified ? (
+                                                    <span className="flex items-center gap-1 text-[10px] font-bold text-emerald-600" title="Passage found verbatim in the document">
+                                                        <CheckCircle2 className="h-3 w-3" /> Verified
+                                                    </span>
+                                                ) : (
+                                                    <span className="flex items-center gap-1 text-[10px] font-bold text-amber-600" title="Passage not found verbatim in the document; check it manually">
+                                                        <AlertCircle className="h-3 w-3" /> Unverified
+                                                    </span>
+                                                )}
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            <div className="flex justify-end gap-2 mt-4">
+                <button
+                    onClick={onDiscard}
+                    className="px-4 py-2 bg-white border border-slate-200 text-slate-600 text-sm font-bold rounded-lg hover:bg-slate-50"
+                >
+                    Discard
+                </button>
+                <button
+                    onClick={() => onMerge(extraction.proposals.filter(p => selected.has(p.field)))}
+                    disabled={selected.size === 0}
+                    className="px-4 py-2 bg-indigo-600 text-white text-sm font-bold rounded-lg hover:bg-indigo-500 disabled:opacity-40 disabled:cursor-not-allowed transition-all flex items-center gap-2"
+                >
+                    <GitMerge className="h-4 w-4" />
+                    Merge {selected.size} {selected.size === 1 ? 'Field' : 'Fields'}
+                </button>
+            </div>
+        </div>
+    );
+};
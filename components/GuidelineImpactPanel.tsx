@@ -0,0 +1,167 @@
+import React from 'react';
+import { AlertTriangle, ArrowRight, CheckCircle2, Sparkles, X } from 'lucide-react';
+import { SafetyStatus } from '../types';
+import { cn } from '../utils';
+import { GuidelineConflict } from '../services/rules';
+import { ImpactBreakdown, ImpactReport } from '../services/impactSimulation';
+
+interface GuidelineImpactPanelProps {
+    conflicts: GuidelineConflict[];
+    impact: ImpactReport | null; // Null while history is being re-checked
+    impactError?: string | null;
+    hasDraftChanges: boolean;
+    modelProgress: number | null; // Set while the model re-run is in progress
+    onRunModel: () => void;
+    onClose: () => void;
+}
+
+const SEVERITY_STYLES = {
+    'High': 'bg-red-50 text-red-700 border-red-100',
+    'Medium': 'bg-amber-50 text-amber-700 border-amber-100',
+    'Low': 'bg-slate-50 text-slate-600 border-slate-200'
+};
+
+const KIND_LABELS: Record<GuidelineConflict['kind'], string> = {
+    'banned-in-guidelines': 'Self-violation',
+    'contradictory-rules': 'Contradiction',
+    'overlapping-terms': 'Overlap',
+    'unsatisfiable': 'Unsatisfiable'
+};
+
+const STATUS_STYLES: Record<SafetyStatus, string> = {
+    'Safe': 'text-emerald-600',
+    'Caution': 'text-amber-600',
+    'Unsafe': 'text-red-600'
+};
+
+const BreakdownTable = ({ title, rows }: { title: string, rows: ImpactBreakdown[] }) => (
+    <div>
+        <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">{title}</div>
+        <table className="w-full text-xs">
+            <tbody>
+                {rows.map(row => (
+                    <tr key={row.key} className="border-t border-amber-100">
+                        <td className="py-1 pr-2 text-slate-700 truncate max-w-[12rem]">{row.key}</td>
+                        <td className="py-1 px-2 text-right text-slate-400">{row.checked}</td>
+                        <td className={cn("py-1 px-2 text-right font-bold", row.worse ? "text-red-600" : "text-slate-300")}>▼ {row.worse}</td>
+                        <td className={cn("py-1 pl-2 text-right font-bold", row.better ? "text-emerald-600" : "text-slate-300")}>▲ {row.better}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
+
+export const GuidelineImpactPanel: React.FC<GuidelineImpactPanelProps> = ({ conflicts, impact, impactError, hasDraftChanges, modelProgress, onRunModel, onClose }) => (
+    <div className="bg-amber-50 border border-amber-200 rounded-xl p-6 animate-in fade-in slide-in-from-top-4">
+        <div className="flex justify-between items-start mb-4">
+            <h4 className="text-sm font-bold text-amber-800 flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4" />
+                Rule Conflict & Impact Analysis
+            </h4>
+            <button onClick={onClose} className="text-amber-500 hover:text-amber-700"><X className="h-4 w-4" /></button>
+        </div>
+
+        {conflicts.length === 0 ? (
+            <p className="flex items-center gap-2 text-xs font-bold text-emerald-700 mb-4">
+                <CheckCircle2 className="h-4 w-4" /> No conflicts found in these guidelines.
+            </p>
+        ) : (
+            <ul className="space-y-2 mb-4">
+                {conflicts.map(conflict => (
+                    <li key={conflict.id} className="flex items-start gap-2 text-xs text-slate-700">
+                        <span className={cn("shrink-0 px-1.5 py-0.5 rounded border text-[10px] font-bold uppercase tracking-wide", SEVERITY_STYLES[conflict.severity])}>
+                            {KIND_LABELS[conflict.kind]}
+                        </span>
+                        <span className="leading-relaxed">{conflict.message}</span>
+                    </li>
+                ))}
+            </ul>
+        )}
+
+        <div className="bg-white/50 p-3 rounded-lg border border-amber-100">
+            <div className="flex items-center justify-between gap-3 mb-2">
+                <div className="text-xs font-bold text-amber-800 uppercase tracking-wide">
+                    Impact on Stored Analyses{impact && (impact.usedModel ? ' · Full Re-analysis' : ' · Deterministic Checks')}
+                </div>
+                {hasDraftChanges && impact && !impact.usedModel && (
+                    <button
+                        onClick={onRunModel}
+                        disabled={modelProgress !== null}
+                        title="Analyze every stored asset again with the draft guidelines. Uses the model provider."
+                        className="px-2 py-1 bg-white border border-amber-200 rounded text-[10px] font-bold text-amber-800 uppercase tracking-wide hover:bg-amber-100 disabled:cursor-wait disabled:opacity-60 flex items-center gap-1"
+                    >
+                        <Sparkles className="h-3 w-3" />
+                        {modelProgress !== null ? `Re-analyzing ${modelProgress}%` : 'Re-run with Model'}
+                    </button>
+                )}
+            </div>
+            {!hasDraftChanges ? (
+                <p className="text-xs text-slate-500">No unsaved edits. Edit the standards to see which past assets would change verdict.</p>
+            ) : impactError ? (
+                <p className="text-xs text-red-600">{impactError}</p>
+            ) : !impact ? (
+                <p className="text-xs text-slate-500 animate-pulse">Re-checking history against the edited rules...</p>
+            ) : (
+                <>
+                    <div className="flex items-center gap-6 mb-3">
+                        <div className="flex flex-col">
+                            <span className="text-lg font-bold text-slate-700">{impact.changes.length}</span>
+                            <span className="text-[10px] text-slate-500">Verdict Changes</span>
+                        </div>
+                        <div className="flex flex-col">
+                            <span className="text-lg font-bold text-slate-700">{impact.checked}</span>
+                            <span className="text-[10px] text-slate-500">Assets Re-checked</span>
+                        </div>
+                        {impact.skipped > 0 && (
+                            <div className="flex flex-col">
+                                <span className="text-lg font-bold text-slate-400">{impact.skipped}</span>
+                                <span className="text-[10px] text-slate-500">Not Re-checkable</span>
+                            </div>
+                        )}
+                    </div>
+                    {impact.transitions.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mb-3">
+                            {impact.transitions.map(t => (
+                                <span key={`${t.from}-${t.to}`} className="px-2 py-1 bg-white rounded border border-amber-100 text-xs font-bold flex items-center gap-1">
+                                    <span className={STATUS_STYLES[t.from]}>{t.from}</span>
+                                    <ArrowRight className="h-3 w-3 text-slate-400" />
+                                    <span className={STATUS_STYLES[t.to]}>{t.to}</span>
+                                    <span className="text-slate-500 ml-1">× {t.count}</span>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    {impact.checked > 0 && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-3">
+                            <BreakdownTable title="By Asset Type" rows={impact.byAssetType} />
+                            <BreakdownTable title="By Context" rows={impact.byContext} />
+                        </div>
+                    )}
+                    {impact.changes.length > 0 && (
+                        <ul className="divide-y divide-amber-100 border-t border-amber-100">
+                            {impact.changes.map(change => (
+                                <li key={change.id} className="py-2 text-xs">
+                                    <div className="flex items-center justify-between gap-3">
+                                        <span className="font-bold text-slate-700 truncate">{change.fileName}</span>
+                                        <span className="flex items-center gap-1.5 shrink-0 font-bold">
+                                            <span className={STATUS_STYLES[change.before]}>{change.before} {change.scoreBefore}</span>
+                                            <ArrowRight className="h-3 w-3 text-slate-400" />
+                                            <span className={STATUS_STYLES[change.after]}>{change.after} {change.scoreAfter}</span>
+                                        </span>
+                                    </div>
+                                    <div className="text-slate-400 mt-0.5">
+                                        {change.assetType} · {change.context} · {new Date(change.date).toLocaleDateString()}
+                                    </div>
+                                    {[...change.newFindings.map(f => `+ ${f}`), ...change.clearedFindings.map(f => `− ${f}`)].slice(0, 3).map((line, idx) => (
+                                        <div key={idx} className="text-slate-500 font-mono mt-0.5">{line}</div>
+                                    ))}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </>
+            )}
+        </div>
+    </div>
+);
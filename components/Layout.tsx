@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { ShieldCheck, FileText, BookOpen, History, Globe, Settings, Users, Lock, LogOut, SwitchCamera, LayoutDashboard } from 'lucide-react';
+import { ShieldCheck, FileText, BookOpen, History, Globe, Settings, Users, Lock, LogOut, SwitchCamera, LayoutDashboard, Layers, Plus, Megaphone } from 'lucide-react';
 import { AppView, UserRole } from '../types';
 
 interface LayoutProps {
@@ -9,9 +9,14 @@ interface LayoutProps {
   setView: (view: AppView) => void;
   userRole: UserRole;
   setUserRole: (role: UserRole) => void;
+  brands: { id: string; name: string }[];
+  activeBrandId: string;
+  onBrandChange: (brandId: string) => void;
+  onCreateBrand?: (name: string) => void; // Admin only
+  hasBatch?: boolean; // Shows the batch queue in the navigation while there is one
 }
 
-export const Layout: React.FC<LayoutProps> = ({ children, currentView, setView, userRole, setUserRole }) => {
+export const Layout: React.FC<LayoutProps> = ({ children, currentView, setView, userRole, setUserRole, brands, activeBrandId, onBrandChange, onCreateBrand, hasBatch }) => {
   const NavButton = ({ view, icon: Icon, label }: { view: AppView, icon: any, label: string }) => (
     <button
       onClick={() => setView(view)}
@@ -28,6 +33,11 @@ export const Layout: React.FC<LayoutProps> = ({ children, currentView, setView,
     </button>
   );
 
+  const handleCreateBrand = () => {
+      const name = prompt("Name of the new brand profile:");
+      if (name?.trim()) onCreateBrand?.(name.trim());
+  };
+
   const toggleRole = () => {
       const newRole = userRole === UserRole.GENERAL_USER ? UserRole.ADMIN : UserRole.GENERAL_USER;
       setUserRole(newRole);
@@ -48,7 +58,37 @@ export const Layout: React.FC<LayoutProps> = ({ children, currentView, setView,
             </span>
           </div>
         </div>
-        
+
+        {/* Brand Workspace Switcher */}
+        <div className="px-4 pt-6">
+          <div className="px-4 mb-2 text-[11px] font-bold text-slate-500 uppercase tracking-widest">
+            Brand Workspace
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="flex-1 flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 focus-within:border-indigo-500 transition-colors">
+              <Layers className="h-4 w-4 text-indigo-400 flex-shrink-0" />
+              <select
+                value={activeBrandId}
+                onChange={(e) => onBrandChange(e.target.value)}
+                className="flex-1 min-w-0 bg-transparent text-sm font-semibold text-white outline-none cursor-pointer"
+              >
+                {brands.map(brand => (
+                  <option key={brand.id} value={brand.id} className="bg-slate-900">{brand.name}</option>
+                ))}
+              </select>
+            </div>
+            {userRole === UserRole.ADMIN && onCreateBrand && (
+              <button
+                onClick={handleCreateBrand}
+                title="Add brand profile"
+                className="p-2 rounded-lg bg-slate-800 border border-slate-700 text-slate-400 hover:text-white hover:border-indigo-500 transition-colors"
+              >
+                <Plus className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        </div>
+
         <nav className="flex-1 overflow-y-auto py-8 px-4 space-y-8">
           
           {userRole === UserRole.GENERAL_USER && (
@@ -59,7 +99,9 @@ export const Layout: React.FC<LayoutProps> = ({ children, currentView, setView,
                     </div>
                     <div className="space-y-1">
                         <NavButton view={AppView.UPLOAD} icon={FileText} label="New Analysis" />
+                        {hasBatch && <NavButton view={AppView.BATCH} icon={Layers} label="Batch Queue" />}
                         <NavButton view={AppView.HISTORY} icon={History} label="My Activity History" />
+                        <NavButton view={AppView.CAMPAIGNS} icon={Megaphone} label="Campaigns" />
                     </div>
                 </div>
 
@@ -142,6 +184,8 @@ export const Layout: React.FC<LayoutProps> = ({ children, currentView, setView,
                   {currentView === AppView.USER_MANAGEMENT && 'User Management'}
                   {(currentView === AppView.UPLOAD || currentView === AppView.RESULTS) && 'Content Analysis'}
                   {currentView === AppView.KNOWLEDGE_BASE && 'Knowledge Hub'}
+                  {currentView === AppView.BATCH && 'Batch Analysis'}
+                  {currentView === AppView.CAMPAIGNS && 'Campaigns'}
               </h1>
               <p className="text-slate-500 mt-2 text-sm font-medium">
                 {currentView === AppView.HISTORY && (userRole === UserRole.ADMIN ? 'Review system-wide compliance events and actions.' : 'Review your past analyses and scores.')}
@@ -150,6 +194,8 @@ export const Layout: React.FC<LayoutProps> = ({ children, currentView, setView,
                 {currentView === AppView.USER_MANAGEMENT && 'Manage roles, permissions, and regional access.'}
                 {(currentView === AppView.UPLOAD || currentView === AppView.RESULTS) && 'AI-powered verification against your organization\'s standards.'}
                 {currentView === AppView.KNOWLEDGE_BASE && 'Explore guidelines, tutorials, and regional policy documents.'}
+                {currentView === AppView.BATCH && 'Every file is checked against your standards and saved to your history.'}
+                {currentView === AppView.CAMPAIGNS && 'Check that the assets of a campaign agree on claims, prices, product names and calls to action.'}
               </p>
             </div>
             <div className="flex items-center gap-3">
@@ -3,12 +3,15 @@ import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
     CheckCircle2, AlertTriangle, XCircle, ChevronRight,
-    Copy, Check, Layout, Globe, Shield, RefreshCw, Zap, Maximize2, ArrowLeft
+    Copy, Check, Layout, Globe, Shield, RefreshCw, Zap, Maximize2, ArrowLeft, Download, Wand2
 } from 'lucide-react';
-import { AnalysisResult, BrandSettings, Issue, AssetType, CommunicationContext } from '../types';
+import { AnalysisResult, BrandSettings, Issue, AssetType, CommunicationContext, Transcript, Waveform } from '../types';
 import { translateContent } from '../services/gemini';
+import { formatTimestamp } from '../services/captions';
 import { VisualAnnotationLayer } from './VisualAnnotationLayer';
+import { DiffViewer } from './DiffViewer';
 import { cn } from '../utils';
+import { applyPatchesToSegments, downloadText } from '../utils/textPatches';
 
 // Category Color Mapping
 const getCategoryColor = (category: string) => {
@@ -25,14 +28,20 @@ interface ScoreDashboardProps {
     onReset: () => void;
     brandSettings: BrandSettings;
     originalText?: string;
+    fileName?: string; // Used to name the corrected download
     assetType?: AssetType;
     context: CommunicationContext;
     fileUrl?: string;
     htmlContent?: string; // New prop for DOCX
     mimeType?: string;    // New prop for robust rendering
     visualSlides?: { data: string; mimeType: string }[]; // Extracted slide/page images
+    transcript?: Transcript; // Timed speech of video and audio
+    waveform?: Waveform; // Audio only
+    brandNames?: Record<string, string>; // Brand profile names, for co-branded results
 }
 
+type ContentView = 'asset' | 'corrected' | 'rewrite';
+
 // Score Ring Component
 const ScoreRing = ({ score }: { score: number }) => {
     const radius = 30;
@@ -81,11 +90,12 @@ const ScoreRing = ({ score }: { score: number }) => {
     );
 };
 
-export const ScoreDashboard: React.FC<ScoreDashboardProps> = ({ result, onReset, brandSettings, originalText = "", assetType = AssetType.DOCUMENT, context, fileUrl, htmlContent, mimeType, visualSlides }) => {
+export const ScoreDashboard: React.FC<ScoreDashboardProps> = ({ result, onReset, brandSettings, originalText = "", fileName, assetType = AssetType.DOCUMENT, context, fileUrl, htmlContent, mimeType, visualSlides, transcript, waveform, brandNames = {} }) => {
     // ... existing hooks ...
     const [activeFilter, setActiveFilter] = useState<'Brand' | 'Compliance' | 'Cultural'>('Brand');
     const [fixedIssues, setFixedIssues] = useState<Set<string>>(new Set());
     const [hoveredIssue, setHoveredIssue] = useState<string | null>(null);
+    const [contentView, setContentView] = useState<ContentView>('asset');
 
     const handleFix = (issueId: string) => {
         setFixedIssues(prev => {
@@ -96,6 +106,41 @@ export const ScoreDashboard: React.FC<ScoreDashboardProps> = ({ result, onReset,
         });
     };
 
+    // Patches are offsets into originalText, so they only apply when we have it
+    const patchableIssues = React.useMemo(
+        () => originalText ? result.issues.filter(i => i.patch && i.fixType === 'Deterministic') : [],
+        [result.issues, originalText]
+    );
+    const appliedPatches = React.useMemo(
+        () => patchableIssues.filter(i => fixedIssues.has(i.id)),
+        [patchableIssues, fixedIssues]
+    );
+    const correctedSegments = React.useMemo(
+        () => applyPatchesToSegments(originalText, appliedPatches),
+        [originalText, appliedPatches]
+    );
+
+    // The model's full rewrite, reviewed hunk by hunk in the diff view
+    const hasRewrite = !!(originalText.trim() && result.correctedText?.trim() && result.correctedText.trim() !== originalText.trim());
+    const contentViews: ContentView[] = [
+        'asset',
+        ...(patchableIssues.length > 0 ? ['corrected' as const] : []),
+        ...(hasRewrite ? ['rewrite' as const] : [])
+    ];
+
+    // Coverage counts the rendered pages, or the sampled frames of a video
+    const coverageUnit = mimeType?.startsWith('video/') ? 'frame' : 'page';
+
+    const handleApplyAllFixes = () => {
+        setFixedIssues(prev => new Set([...prev, ...patchableIssues.map(i => i.id)]));
+        setContentView('corrected');
+    };
+
+    const handleDownloadCorrected = () => {
+        const baseName = (fileName || 'content').replace(/\.[^.]+$/, '');
+        downloadText(correctedSegments.map(s => s.text).join(''), `${baseName}-corrected.txt`);
+    };
+
     // Deductive Scoring Model (100% = No Issues)
     const PENALTY_VALUES = { 'High': 20, 'Medium': 10, 'Low': 5 };
 
@@ -131,6 +176,9 @@ export const ScoreDashboard: React.FC<ScoreDashboardProps> = ({ result, onReset,
 
     const filteredIssues = result.issues.filter(i => i.category === activeFilter);
 
+    // Only label issues by brand when the run covered more than one profile
+    const isCoBranded = new Set(result.issues.map(i => i.brandId).filter(Boolean)).size > 1;
+
     // Sort: Blocking first, then High severity
     const sortedIssues = [...filteredIssues].sort((a, b) => {
         if (a.blocking && !b.blocking) return -1;
@@ -138,10 +186,10 @@ export const ScoreDashboard: React.FC<ScoreDashboardProps> = ({ result, onReset,
         return 0; // Keep stable otherwise
     });
 
-    // Helper to determine if we should show visual layer
+    // Helper to determine if we should show visual layer; audio shows its waveform even without the file
     const showVisualLayer = React.useMemo(() => {
-        return !!(fileUrl || htmlContent);
-    }, [fileUrl, htmlContent]);
+        return !!(fileUrl || htmlContent || waveform);
+    }, [fileUrl, htmlContent, waveform]);
 
     return (
         <div className="min-h-screen bg-slate-950 text-white p-6 flex flex-col items-center">
@@ -205,8 +253,55 @@ export const ScoreDashboard: React.FC<ScoreDashboardProps> = ({ result, onReset,
                     <div className="p-4 border-b border-white/5 flex justify-between items-center bg-black/40">
                         <span className="text-xs font-bold text-slate-500 uppercase tracking-widest flex items-center gap-2">
                             <Maximize2 className="h-3 w-3" /> {assetType} Analysis View
+                            {result.coverage && (
+                                <span
+                                    title={result.coverage.failedPages?.length ? `Not analyzed: ${coverageUnit} ${result.coverage.failedPages.join(', ')}` : `Every ${coverageUnit} was analyzed`}
+                                    className={cn(
+                                        "ml-2 px-2 py-0.5 rounded border normal-case tracking-normal font-mono",
+                                        result.coverage.analyzedPages < result.coverage.totalPages
+                                            ? "bg-amber-500/10 border-amber-500/30 text-amber-300"
+                                            : "bg-white/5 border-white/10 text-slate-400"
+                                    )}
+                                >
+                                    analyzed {result.coverage.analyzedPages}/{result.coverage.totalPages} {coverageUnit}s
+                                </span>
+                            )}
                         </span>
                         <div className="flex items-center gap-2">
+                            {appliedPatches.length < patchableIssues.length && (
+                                <button
+                                    onClick={handleApplyAllFixes}
+                                    className="px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider border bg-emerald-500/10 border-emerald-500/30 text-emerald-400 hover:bg-emerald-500/20 flex items-center gap-1 transition-colors"
+                                >
+                                    <Wand2 className="h-3 w-3" /> Apply {patchableIssues.length - appliedPatches.length} Auto-Fixes
+                                </button>
+                            )}
+                            {contentViews.length > 1 && (
+                                <div className="flex rounded border border-white/10 overflow-hidden">
+                                    {contentViews.map(view => (
+                                        <button
+                                            key={view}
+                                            onClick={() => setContentView(view)}
+                                            className={cn(
+                                                "px-2 py-0.5 text-[10px] font-bold uppercase tracking-wider transition-colors",
+                                                contentView === view ? "bg-white/10 text-white" : "text-slate-500 hover:text-slate-300"
+                                            )}
+                                        >
+                                            {view === 'asset' ? 'Original' : view === 'corrected' ? `Corrected (${appliedPatches.length})` : 'Rewrite Diff'}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                            {patchableIssues.length > 0 && (
+                                <button
+                                    onClick={handleDownloadCorrected}
+                                    disabled={appliedPatches.length === 0}
+                                    title="Download corrected text"
+                                    className="p-1 rounded border border-white/10 text-slate-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                                >
+                                    <Download className="h-3 w-3" />
+                                </button>
+                            )}
                             <span className={cn(
                                 "px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider border",
                                 context === CommunicationContext.NOT_SURE ? "bg-red-500/10 border-red-500/30 text-red-400" : "bg-indigo-500/10 border-indigo-500/30 text-indigo-400"
@@ -217,9 +312,42 @@ export const ScoreDashboard: React.FC<ScoreDashboardProps> = ({ result, onReset,
                     </div>
 
                     <div className="flex-1 overflow-hidden relative bg-black/20">
-                        {/* VISUAL MODE CHECK - Now permissive based on content presence */}
-                        {showVisualLayer ? (
-                            fileUrl || htmlContent ? (
+                        {contentView === 'rewrite' && hasRewrite ? (
+                            <DiffViewer
+                                originalText={originalText}
+                                correctedText={result.correctedText!}
+                                issues={result.issues}
+                                selectedIssueId={hoveredIssue || undefined}
+                                onIssueSelect={(id) => {
+                                    const issue = result.issues.find(i => i.id === id);
+                                    if (issue && ['Brand', 'Compliance', 'Cultural'].includes(issue.category)) setActiveFilter(issue.category as typeof activeFilter);
+                                    setHoveredIssue(id);
+                                }}
+                                fileName={fileName}
+                            />
+                        ) : contentView === 'corrected' && patchableIssues.length > 0 ? (
+                            /* CORRECTED TEXT: original with applied patches highlighted */
+                            <div className="h-full overflow-y-auto p-8 font-mono text-sm leading-relaxed scrollbar-hide text-slate-300">
+                                <p className="whitespace-pre-wrap max-w-2xl mx-auto">
+                                    {correctedSegments.map((segment, idx) => segment.issueId ? (
+                                        <mark
+                                            key={idx}
+                                            onMouseEnter={() => setHoveredIssue(segment.issueId!)}
+                                            className={cn(
+                                                "rounded px-0.5 text-emerald-200 transition-colors",
+                                                hoveredIssue === segment.issueId ? "bg-emerald-500/40" : "bg-emerald-500/15"
+                                            )}
+                                        >
+                                            {segment.text}
+                                        </mark>
+                                    ) : (
+                                        <React.Fragment key={idx}>{segment.text}</React.Fragment>
+                                    ))}
+                                </p>
+                            </div>
+                        ) : showVisualLayer ? (
+                        /* VISUAL MODE CHECK - Now permissive based on content presence */
+                            fileUrl || htmlContent || waveform ? (
                                 <VisualAnnotationLayer
                                     assetType={assetType as AssetType}
                                     src={fileUrl || ""}
@@ -231,6 +359,8 @@ export const ScoreDashboard: React.FC<ScoreDashboardProps> = ({ result, onReset,
                                     htmlContent={htmlContent}
                                     mimeType={mimeType}
                                     visualSlides={visualSlides}
+                                    transcript={transcript?.segments}
+                                    waveform={waveform}
                                 />
                             ) : (
                                 <div className="absolute inset-0 flex items-center justify-center text-slate-500">
@@ -316,6 +446,23 @@ export const ScoreDashboard: React.FC<ScoreDashboardProps> = ({ result, onReset,
                                             ) : (
                                                 <span className="px-1.5 py-0.5 rounded-sm bg-amber-500/20 text-amber-300 border border-amber-500/20 text-[9px] font-bold uppercase tracking-wider">ADVISORY</span>
                                             )}
+                                            {issue.source === 'rule' && (
+                                                <span className="px-1.5 py-0.5 rounded-sm bg-emerald-500/20 text-emerald-300 border border-emerald-500/20 text-[9px] font-bold uppercase tracking-wider" title="Raised by the deterministic rule engine">RULE</span>
+                                            )}
+                                            {isCoBranded && issue.brandId && (
+                                                <span className="px-1.5 py-0.5 rounded-sm bg-sky-500/20 text-sky-300 border border-sky-500/20 text-[9px] font-bold uppercase tracking-wider truncate max-w-[100px]" title="Brand profile this issue was checked against">
+                                                    {brandNames[issue.brandId] || issue.brandId}
+                                                </span>
+                                            )}
+                                            {issue.attachment && (
+                                                <span className="px-1.5 py-0.5 rounded-sm bg-white/10 text-slate-300 text-[9px] truncate max-w-[120px]" title="Email attachment">{issue.attachment}</span>
+                                            )}
+                                            {issue.timestamp !== undefined && (
+                                                <span className="px-1.5 py-0.5 rounded-sm bg-white/10 text-slate-300 font-mono text-[9px]" title="Time in the recording">{formatTimestamp(issue.timestamp)}</span>
+                                            )}
+                                            {issue.cellRef && (
+                                                <span className="px-1.5 py-0.5 rounded-sm bg-white/10 text-slate-300 font-mono text-[9px] truncate max-w-[120px]" title="Spreadsheet cell">{issue.cellRef}</span>
+                                            )}
                                             <span className="text-[10px] font-bold text-slate-500 uppercase truncate">{issue.category}</span>
                                         </div>
                                         <h4 className="font-bold text-white text-sm leading-tight truncate">{issue.description}</h4>
@@ -346,6 +493,16 @@ export const ScoreDashboard: React.FC<ScoreDashboardProps> = ({ result, onReset,
                                         <p className="text-xs text-slate-200 leading-relaxed font-medium pl-1">
                                             {issue.fix}
                                         </p>
+
+                                        {issue.patch && patchableIssues.includes(issue) && issue.patch.span.end > issue.patch.span.start && (
+                                            <div className="mt-2 pl-1 flex flex-wrap items-center gap-1.5 font-mono text-[11px]">
+                                                <span className="px-1 rounded bg-red-500/15 text-red-300 line-through">
+                                                    {originalText.slice(issue.patch.span.start, issue.patch.span.end)}
+                                                </span>
+                                                <ChevronRight className="h-3 w-3 text-slate-500" />
+                                                <span className="px-1 rounded bg-emerald-500/15 text-emerald-300">{issue.patch.replacement.trim()}</span>
+                                            </div>
+                                        )}
                                     </div>
                                 </div>
 
@@ -358,7 +515,9 @@ export const ScoreDashboard: React.FC<ScoreDashboardProps> = ({ result, onReset,
                                             fixedIssues.has(issue.id) ? "text-emerald-400" : "text-indigo-300 hover:text-white"
                                         )}
                                     >
-                                        {fixedIssues.has(issue.id) ? <><Check className="h-3 w-3" /> Resolved</> : "Resolve"}
+                                        {patchableIssues.includes(issue)
+                                            ? (fixedIssues.has(issue.id) ? <><Check className="h-3 w-3" /> Applied</> : <><Wand2 className="h-3 w-3" /> Apply Fix</>)
+                                            : (fixedIssues.has(issue.id) ? <><Check className="h-3 w-3" /> Resolved</> : "Resolve")}
                                     </button>
                                 </div>
                             </motion.div>
@@ -117,7 +117,7 @@ export const UploadSection: React.FC<UploadSectionProps> = ({
         if (['jpg', 'jpeg', 'png', 'webp', 'gif'].includes(ext)) newAssetType = AssetType.IMAGE;
         else if (['mp4', 'mov', 'avi', 'webm'].includes(ext)) newAssetType = AssetType.VIDEO;
         else if (['ppt', 'pptx', 'key'].includes(ext)) newAssetType = AssetType.PRESENTATION;
-        else if (['mp3', 'wav', 'm4a'].includes(ext)) newAssetType = AssetType.PODCAST;
+        else if (['mp3', 'wav', 'm4a', 'ogg', 'aac'].includes(ext)) newAssetType = AssetType.AUDIO;
         else if (['pdf'].includes(ext)) newAssetType = AssetType.DOCUMENT;
 
         setDetectedFields(['assetType']);
@@ -153,7 +153,7 @@ export const UploadSection: React.FC<UploadSectionProps> = ({
             reader.readAsArrayBuffer(file);
         }
         // 2. Binary Files (PDF, Image, Video) -> Base64 for Gemini
-        else if (['pdf', 'jpg', 'jpeg', 'png', 'webp', 'mp4', 'mov', 'avi', 'webm', 'mp3', 'wav'].includes(ext)) {
+        else if (['pdf', 'jpg', 'jpeg', 'png', 'webp', 'mp4', 'mov', 'avi', 'webm', 'mp3', 'wav', 'm4a', 'ogg', 'aac'].includes(ext)) {
             const reader = new FileReader();
             reader.onload = (e) => {
                 const result = e.target?.result as string;
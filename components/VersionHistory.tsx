@@ -0,0 +1,129 @@
+import React, { useMemo, useState } from 'react';
+import { History, RotateCcw, GitCompare, User, Clock } from 'lucide-react';
+import { BrandSettingsVersion } from '../types';
+import { diffSettings } from '../services/brandVersions';
+
+interface VersionHistoryProps {
+    versions: BrandSettingsVersion[]; // Oldest first
+    onRollback: (versionId: string) => void;
+}
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({ versions, onRollback }) => {
+    const newestFirst = useMemo(() => [...versions].reverse(), [versions]);
+    const active = newestFirst[0];
+
+    // Default comparison: previous version -> current
+    const [fromId, setFromId] = useState<string>(newestFirst[1]?.id || active.id);
+    const [toId, setToId] = useState<string>(active.id);
+
+    const from = versions.find(v => v.id === fromId) || active;
+    const to = versions.find(v => v.id === toId) || active;
+    const fieldDiffs = useMemo(() => diffSettings(from.settings, to.settings), [from, to]);
+
+    const handleRollback = (version: BrandSettingsVersion) => {
+        if (confirm(`Roll back to ${version.id}? This creates a new version with the guidelines from ${version.id}.`)) {
+            onRollback(version.id);
+        }
+    };
+
+    const VersionSelect = ({ value, onChange }: { value: string, onChange: (id: string) => void }) => (
+        <select
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className="px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm font-bold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500/20"
+        >
+            {newestFirst.map(v => (
+                <option key={v.id} value={v.id}>{v.id} — {v.note || 'No note'}</option>
+            ))}
+        </select>
+    );
+
+    return (
+        <>
+            <div className="prose prose-slate max-w-none">
+                <h2 className="text-2xl font-bold text-slate-900 mb-2">Version History</h2>
+                <p className="text-slate-500">Every save creates an immutable version. Analyses are stamped with the version in force.</p>
+            </div>
+
+            {/* Version list */}
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm divide-y divide-slate-100">
+                {newestFirst.map(version => (
+                    <div key={version.id} className="p-4 flex items-center justify-between gap-4">
+                        <div className="flex items-start gap-3 min-w-0">
+                            <div className={`p-2 rounded-lg ${version === active ? 'bg-emerald-50 text-emerald-600' : 'bg-slate-100 text-slate-500'}`}>
+                                <History className="h-4 w-4" />
+                            </div>
+                            <div className="min-w-0">
+                                <div className="flex items-center gap-2">
+                                    <span className="text-sm font-bold text-slate-800">{version.id}</span>
+                                    {version === active && (
+                                        <span className="px-2 py-0.5 rounded-full bg-emerald-50 text-emerald-700 border border-emerald-100 text-[10px] font-bold uppercase tracking-wide">In Force</span>
+                                    )}
+                                    {version.restoredFrom && (
+                                        <span className="px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 border border-amber-100 text-[10px] font-bold uppercase tracking-wide">Restored {version.restoredFrom}</span>
+                                    )}
+                                </div>
+                                <p className="text-sm text-slate-600 truncate">{version.note || 'No change note'}</p>
+                                <div className="flex items-center gap-3 text-xs text-slate-400 mt-1">
+                                    <span className="flex items-center gap-1"><User className="h-3 w-3" />{version.author}</span>
+                                    <span className="flex items-center gap-1"><Clock className="h-3 w-3" />{new Date(version.createdAt).toLocaleString()}</span>
+                                </div>
+                            </div>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                            <button
+                                onClick={() => { setFromId(version.id); setToId(active.id); }}
+                                disabled={version === active}
+                                className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-bold text-slate-700 hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-1"
+                            >
+                                <GitCompare className="h-3 w-3" /> Compare
+                            </button>
+                            <button
+                                onClick={() => handleRollback(version)}
+                                disabled={version === active}
+                                className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-bold text-amber-700 hover:bg-amber-50 disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-1"
+                            >
+                                <RotateCcw className="h-3 w-3" /> Roll Back
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {/* Diff between two versions */}
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+                <div className="bg-slate-50/80 border-b border-slate-200 px-6 py-4 flex flex-wrap items-center gap-3">
+                    <h3 className="font-bold text-slate-700 text-sm uppercase tracking-wider flex items-center gap-2 mr-auto">
+                        <GitCompare className="h-4 w-4 text-slate-400" />
+                        Compare Versions
+                    </h3>
+                    <VersionSelect value={fromId} onChange={setFromId} />
+                    <span className="text-slate-400 text-sm">→</span>
+                    <VersionSelect value={toId} onChange={setToId} />
+                </div>
+
+                {fieldDiffs.length === 0 ? (
+                    <div className="p-8 text-center text-sm text-slate-400">No differences between {from.id} and {to.id}.</div>
+                ) : (
+                    <div className="divide-y divide-slate-100">
+                        {fieldDiffs.map(diff => (
+                            <div key={diff.field} className="p-6">
+                                <div className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3">{diff.label}</div>
+                                <p className="font-mono text-sm leading-relaxed text-slate-600 whitespace-pre-wrap">
+                                    {diff.segments.map((segment, idx) => segment.type === 'equal' ? (
+                                        <React.Fragment key={idx}>{segment.text}</React.Fragment>
+                                    ) : (
+                                        <React.Fragment key={idx}>
+                                            {segment.hunk.removed && <del className="bg-red-50 text-red-700 px-0.5 rounded">{segment.hunk.removed}</del>}
+                                            {segment.hunk.added && <ins className="bg-emerald-50 text-emerald-700 px-0.5 rounded no-underline">{segment.hunk.added}</ins>}
+                                        </React.Fragment>
+                                    ))}
+                                </p>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </>
+    );
+};
@@ -1,6 +1,8 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Issue, AssetType } from '../types';
+import { Issue, AssetType, TimedSegment, Waveform } from '../types';
+import { formatTimestamp } from '../services/captions';
+import { AudioTimeline } from './AudioTimeline';
 import { Play, Zap, ChevronLeft, ChevronRight } from 'lucide-react';
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
@@ -28,6 +30,8 @@ interface VisualAnnotationLayerProps {
     htmlContent?: string;
     mimeType?: string;
     visualSlides?: { data: string; mimeType: string }[];
+    transcript?: TimedSegment[]; // Shown as captions under the video or waveform
+    waveform?: Waveform; // Audio only
 }
 
 export const VisualAnnotationLayer: React.FC<VisualAnnotationLayerProps> = ({
@@ -39,7 +43,9 @@ export const VisualAnnotationLayer: React.FC<VisualAnnotationLayerProps> = ({
     className,
     htmlContent,
     mimeType,
-    visualSlides
+    visualSlides,
+    transcript,
+    waveform
 }) => {
     const videoRef = useRef<HTMLVideoElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
@@ -55,17 +61,54 @@ export const VisualAnnotationLayer: React.FC<VisualAnnotationLayerProps> = ({
     // PDF State
     const [numPages, setNumPages] = useState<number>(0);
 
+    // Web page State: the frame grows to the page height; markers follow the checked elements
+    const webFrameRef = useRef<HTMLIFrameElement>(null);
+    const webScrollRef = useRef<HTMLDivElement>(null);
+    const [webFrameHeight, setWebFrameHeight] = useState(0);
+    const [elementBoxes, setElementBoxes] = useState<Record<string, NonNullable<Issue['boundingBox']>>>({});
+
     function onDocumentLoadSuccess({ numPages }: { numPages: number }) {
         setNumPages(numPages);
     }
 
     // Determine Render Mode
     const isVideo = assetType === AssetType.VIDEO || mimeType?.startsWith('video/');
+    const isAudio = !!waveform || !!mimeType?.startsWith('audio/');
+    const currentCue = transcript?.find(cue => currentTime >= cue.start && currentTime < cue.end);
     const isPDF = mimeType === 'application/pdf';
     const hasVisualSlides = visualSlides && visualSlides.length > 0;
     // Use carousel for PDF and PPTX with visual slides
     const useCarousel = isPDF || hasVisualSlides;
     const isDoc = htmlContent || assetType === AssetType.DOCUMENT || assetType === AssetType.PRESENTATION || isPDF;
+    // Emails are previewed as their HTML body under the header fields
+    const isWebPage = (mimeType === 'text/html' || mimeType === 'message/rfc822') && !!htmlContent;
+
+    // Element positions in percent of the page, measured inside the frame
+    const measureWebPage = useCallback(() => {
+        const doc = webFrameRef.current?.contentDocument;
+        if (!doc?.documentElement) return;
+        const width = doc.documentElement.clientWidth || 1;
+        const height = doc.documentElement.scrollHeight || 1;
+        const boxes: Record<string, NonNullable<Issue['boundingBox']>> = {};
+        issues.forEach(issue => {
+            if (!issue.elementRef) return;
+            const rect = doc.querySelector(`[data-check-ref="${issue.elementRef}"]`)?.getBoundingClientRect();
+            if (!rect || (!rect.width && !rect.height)) return;
+            boxes[issue.id] = { x: rect.left / width * 100, y: rect.top / height * 100, width: rect.width / width * 100, height: rect.height / height * 100 };
+        });
+        setWebFrameHeight(height);
+        setElementBoxes(boxes);
+    }, [issues]);
+
+    const handleWebFrameLoad = () => {
+        // Images change the layout as they arrive
+        webFrameRef.current?.contentDocument?.addEventListener('load', measureWebPage, true);
+        measureWebPage();
+    };
+
+    useEffect(() => {
+        if (isWebPage) measureWebPage();
+    }, [isWebPage, measureWebPage]);
 
     // DIAGNOSTIC LOGGING
     useEffect(() => {
@@ -99,7 +142,7 @@ export const VisualAnnotationLayer: React.FC<VisualAnnotationLayerProps> = ({
     // --- ZOOM & PAN HANDLERS ---
     const handleWheel = (e: React.WheelEvent) => {
         // Only zoom if NOT a document
-        if (isDoc) return;
+        if (isDoc || isAudio) return;
 
         e.stopPropagation();
         const delta = -e.deltaY / 1000;
@@ -126,7 +169,7 @@ export const VisualAnnotationLayer: React.FC<VisualAnnotationLayerProps> = ({
     };
 
     const handleSeekToIssue = async (issue: Issue) => {
-        if (isVideo && issue.timestamp && videoRef.current) {
+        if (isVideo && issue.timestamp !== undefined && videoRef.current) {
             const vid = videoRef.current;
             vid.currentTime = issue.timestamp;
             vid.pause();
@@ -150,10 +193,13 @@ export const VisualAnnotationLayer: React.FC<VisualAnnotationLayerProps> = ({
                         pageEl.scrollIntoView({ behavior: 'smooth', inline: 'center', block: 'center' });
                         console.log(`Scrolling to slide/page ${pageNum}`);
                     }
+                } else if (isWebPage && elementBoxes[issue.id] && webScrollRef.current) {
+                    const top = elementBoxes[issue.id].y / 100 * webFrameHeight;
+                    webScrollRef.current.scrollTo({ top: Math.max(0, top - webScrollRef.current.clientHeight / 3), behavior: 'smooth' });
                 }
             }
         }
-    }, [selectedIssueId, assetType, isVideo, issues, useCarousel]);
+    }, [selectedIssueId, assetType, isVideo, issues, useCarousel, isWebPage, elementBoxes, webFrameHeight]);
 
     // --- RENDER ---
     return (
@@ -163,7 +209,17 @@ export const VisualAnnotationLayer: React.FC<VisualAnnotationLayerProps> = ({
             onWheel={handleWheel}
         >
 
-            {isDoc ? (
+            {isAudio ? (
+                /* AUDIO MODE: waveform timeline */
+                <AudioTimeline
+                    src={src || undefined}
+                    waveform={waveform}
+                    issues={issues}
+                    selectedIssueId={selectedIssueId}
+                    onIssueSelect={onIssueSelect}
+                    transcript={transcript}
+                />
+            ) : isDoc ? (
                 <div className="w-full h-full flex justify-center bg-slate-900/50 relative z-10 overflow-hidden">
                     {useCarousel ? (
                         // CAROUSEL MODE (PDF native / PPTX visual slides)
@@ -353,6 +409,43 @@ export const VisualAnnotationLayer: React.FC<VisualAnnotationLayerProps> = ({
                                 </div>
                             )}
                         </div>
+                    ) : isWebPage ? (
+                        // WEB PAGE - sandboxed frame without scripts, markers pinned to the checked elements
+                        <div ref={webScrollRef} className="relative w-full h-full overflow-y-auto flex flex-col items-center p-4 gap-4">
+                            <div className="relative w-full max-w-4xl bg-white shadow-2xl rounded-lg overflow-hidden">
+                                <iframe
+                                    ref={webFrameRef}
+                                    title="Web page preview"
+                                    srcDoc={htmlContent}
+                                    sandbox="allow-same-origin"
+                                    className="block w-full border-0"
+                                    style={{ height: webFrameHeight || '70vh' }}
+                                    onLoad={handleWebFrameLoad}
+                                />
+                                <div className="absolute inset-0 w-full h-full pointer-events-none z-50">
+                                    {issues.filter(i => elementBoxes[i.id]).map((issue) => {
+                                        const box = elementBoxes[issue.id];
+                                        const globalIndex = issues.findIndex(x => x.id === issue.id);
+                                        const isSelected = selectedIssueId === issue.id;
+                                        return (
+                                            <div
+                                                key={issue.id}
+                                                style={{ left: `${box.x}%`, top: `${box.y}%`, width: `${box.width}%`, height: `${box.height}%` }}
+                                                className={cn("absolute rounded border-2 transition-colors", isSelected ? "border-blue-500 bg-blue-500/10" : "border-transparent")}
+                                            >
+                                                <div
+                                                    className={cn("absolute -left-3 -top-3 w-6 h-6 rounded-full flex items-center justify-center shadow-lg cursor-pointer pointer-events-auto transition-transform hover:scale-110", isSelected ? "ring-2 ring-offset-1 ring-blue-500 scale-125" : "", issue.severity === 'High' ? "bg-red-500 text-white" : issue.severity === 'Medium' ? "bg-amber-500 text-white" : "bg-blue-500 text-white")}
+                                                    onClick={(e) => { e.stopPropagation(); onIssueSelect(issue.id); }}
+                                                    title={`${issue.severity} Severity: ${issue.description}`}
+                                                >
+                                                    <span className="text-[10px] font-bold">{globalIndex + 1}</span>
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        </div>
                     ) : htmlContent ? (
                         // HTML DOC (DOCX/PPTX) - Vertical Scroll
                         <div className="relative w-full h-full overflow-y-auto flex flex-col items-center p-4 gap-4">
@@ -476,7 +569,7 @@ export const VisualAnnotationLayer: React.FC<VisualAnnotationLayerProps> = ({
                                                                 </span>
                                                                 {issue.timestamp !== undefined && (
                                                                     <span className="text-[10px] bg-white/5 text-slate-400 px-2 py-0.5 rounded-full font-medium">
-                                                                        {Math.floor(issue.timestamp / 60)}:{(issue.timestamp % 60).toString().padStart(2, '0')}
+                                                                        {formatTimestamp(issue.timestamp)}
                                                                     </span>
                                                                 )}
                                                             </div>
@@ -488,6 +581,13 @@ export const VisualAnnotationLayer: React.FC<VisualAnnotationLayerProps> = ({
                                     })}
                                 </AnimatePresence>
                             </div>
+                            {/* CAPTION OF THE CURRENT CUE */}
+                            {currentCue && (
+                                <div className="absolute bottom-16 left-1/2 -translate-x-1/2 max-w-[80%] px-3 py-1 rounded bg-black/75 text-white text-sm text-center pointer-events-none z-20">
+                                    {currentCue.speaker && <span className="text-slate-400">{currentCue.speaker}: </span>}
+                                    {currentCue.text}
+                                </div>
+                            )}
                             {/* Controls Overlay */}
                             <div className="absolute bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-black/90 via-black/50 to-transparent opacity-0 group-hover/video:opacity-100 transition-opacity duration-300 flex flex-col gap-4 rounded-b-lg">
                                 {/* (Condensed Controls Logic) */}
@@ -1,7 +1,9 @@
 import React, { useState, useRef, useMemo } from 'react';
 import { Upload, FileText, FileVideo, ShieldCheck, Globe, Zap, X, Check, MapPin, ChevronDown, Loader2, ArrowLeft } from 'lucide-react';
-import { UploadState, HistoryItem, AudienceScope, AssetType, Modality } from '../types';
-import { ingestAsset } from '../services/ingestion';
+import { UploadState, HistoryItem, AudienceScope, AssetType } from '../types';
+import { ingestAsset, toUploadFields } from '../services/ingestion';
+import { isCaptionFile } from '../services/captions';
+import { isZipFile } from '../services/batch';
 import { InputMethod, getAvailableAssets } from '../utils/ingestionLogic';
 import { cn } from '../utils';
 
@@ -9,9 +11,12 @@ interface ZenUploadProps {
     uploadState: UploadState;
     setUploadState: (state: UploadState) => void;
     onAnalyze: () => void;
+    onAnalyzeBatch: (files: File[]) => void; // Several files or a ZIP, analyzed as a queue
     isAnalyzing: boolean;
     history: HistoryItem[];
     progress?: number;
+    brands: { id: string; name: string }[];
+    activeBrandId: string; // Default brand when the user has not picked one
 }
 
 // --- PRIMITIVES ---
@@ -59,9 +64,12 @@ const REGION_OPTIONS = [
     { label: "Middle East & Africa", value: "Middle East & Africa" },
 ];
 
-export const ZenUpload: React.FC<ZenUploadProps> = ({ uploadState, setUploadState, onAnalyze, isAnalyzing, progress = 0 }) => {
+export const ZenUpload: React.FC<ZenUploadProps> = ({ uploadState, setUploadState, onAnalyze, onAnalyzeBatch, isAnalyzing, progress = 0, brands, activeBrandId }) => {
     const [inputMethod, setInputMethod] = useState<InputMethod>(InputMethod.FILE);
     const [isHoveringDrop, setIsHoveringDrop] = useState(false);
+    // Files of a batch upload; their asset types are detected per file, so step 3 is skipped
+    const [batchFiles, setBatchFiles] = useState<File[]>([]);
+    const isBatch = batchFiles.length > 0;
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     // Explicit step state
@@ -69,36 +77,36 @@ export const ZenUpload: React.FC<ZenUploadProps> = ({ uploadState, setUploadStat
 
     const availableAssets = useMemo(() => getAvailableAssets(uploadState.audienceScope, inputMethod, uploadState.file?.name), [uploadState.audienceScope, inputMethod, uploadState.file?.name]);
 
-    const handleFile = async (file: File) => {
+    // Several files at once: caption files (SRT/VTT) go with the video they were dropped with;
+    // more than one other file, or a ZIP, is a batch
+    const handleFiles = (files: File[]) => {
+        const primaries = files.filter(f => !isCaptionFile(f.name));
+        if (primaries.length > 1 || primaries.some(isZipFile)) {
+            setBatchFiles(files);
+            setUploadState({ ...uploadState, file: null, ingestedAsset: undefined, textInput: '', fileBase64: undefined, htmlPreview: undefined });
+            setActiveStep(2);
+            return;
+        }
+        setBatchFiles([]);
+        const primary = primaries[0] || files[0];
+        if (primary) handleFile(primary, files.filter(f => f !== primary));
+    };
+
+    const handleFile = async (file: File, sidecars: File[] = []) => {
         try {
-            const asset = await ingestAsset(file);
-
-            // Map ingested content to appropriate state fields so App.tsx validation passes
-            let newText = '';
-            let newBase64 = '';
-            const ext = file.name.split('.').pop()?.toLowerCase();
-
-            // PDF, Images, Videos -> Base64
-            if (asset.modality === Modality.VISUAL_DOMINANT || asset.modality === Modality.VIDEO || ext === 'pdf') {
-                newBase64 = asset.content as string;
-            }
-            // DOCX, PPTX, Text -> TextInput (Extracted Text)
-            else {
-                newText = asset.content as string;
-            }
+            const asset = await ingestAsset(file, sidecars);
+
             // Log visual slides for debugging
             console.log("INGESTION: File processed:", file.name);
             console.log("INGESTION: Visual Slides:", asset.visualSlides?.length || 0);
             console.log("INGESTION: HTML Preview:", asset.htmlPreview ? "Present" : "None");
 
+            // Map ingested content to the state fields App.tsx validates and analyzes
             setUploadState({
                 ...uploadState,
                 file,
                 ingestedAsset: asset,
-                textInput: newText,
-                fileBase64: newBase64,
-                htmlPreview: asset.htmlPreview,
-                mimeType: file.type // Store mimeType for robust rendering logic
+                ...toUploadFields(asset)
             });
             setActiveStep(2);
         } catch (e) {
@@ -108,7 +116,7 @@ export const ZenUpload: React.FC<ZenUploadProps> = ({ uploadState, setUploadStat
 
     const handleScopeSelect = (scope: AudienceScope) => {
         setUploadState({ ...uploadState, audienceScope: scope, assetType: '' as AssetType });
-        setActiveStep(3);
+        setActiveStep(isBatch ? 4 : 3);
     };
 
     const handleAssetSelect = (type: AssetType) => {
@@ -129,8 +137,11 @@ export const ZenUpload: React.FC<ZenUploadProps> = ({ uploadState, setUploadStat
         // Intentionally stay on step 4 to allow dropdown selection
     };
 
+    const selectedBrandId = uploadState.brandId || activeBrandId;
+    const partnerOptions = brands.filter(b => b.id !== selectedBrandId).map(b => ({ label: b.name, value: b.id }));
+
     const goBack = () => {
-        setActiveStep(prev => Math.max(1, prev - 1));
+        setActiveStep(prev => isBatch && prev === 4 ? 2 : Math.max(1, prev - 1));
     };
 
     const stepLabels = ["Content", "Scope", "Asset Type", "Region", "Review"];
@@ -180,12 +191,14 @@ export const ZenUpload: React.FC<ZenUploadProps> = ({ uploadState, setUploadStat
                                     className={cn("h-[180px] rounded-xl border-2 border-dashed bg-[#0e0e10] transition-colors flex flex-col items-center justify-center gap-3 cursor-pointer", isHoveringDrop ? "border-violet-500/50 bg-violet-500/5" : "border-white/[0.08] hover:border-white/[0.15]")}
                                     onDragOver={(e) => { e.preventDefault(); setIsHoveringDrop(true); }}
                                     onDragLeave={() => setIsHoveringDrop(false)}
-                                    onDrop={(e) => { e.preventDefault(); setIsHoveringDrop(false); if (e.dataTransfer.files?.[0]) handleFile(e.dataTransfer.files[0]); }}
+                                    onDrop={(e) => { e.preventDefault(); setIsHoveringDrop(false); handleFiles(Array.from(e.dataTransfer.files || [])); }}
                                     onClick={() => fileInputRef.current?.click()}
                                 >
-                                    <input type="file" ref={fileInputRef} className="hidden" onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])} />
+                                    <input type="file" multiple ref={fileInputRef} className="hidden" onChange={(e) => handleFiles(Array.from(e.target.files || []))} />
                                     <Upload className="w-8 h-8 text-zinc-500" />
                                     <p className="text-zinc-400 text-sm">Drop file or click to upload</p>
+                                    <p className="text-zinc-600 text-xs">Add an .srt or .vtt file with a video or recording to time its findings</p>
+                                    <p className="text-zinc-600 text-xs">Drop several files or a ZIP to analyze them as a batch</p>
                                 </div>
                             ) : (
                                 <div className="space-y-4">
@@ -196,7 +209,7 @@ export const ZenUpload: React.FC<ZenUploadProps> = ({ uploadState, setUploadStat
                                         onChange={(e) => setUploadState({ ...uploadState, textInput: e.target.value })}
                                     />
                                     {uploadState.textInput && (
-                                        <button onClick={() => setActiveStep(2)} className="w-full py-3 rounded-xl bg-white text-black font-bold text-sm uppercase tracking-wider hover:bg-zinc-200 transition-colors">
+                                        <button onClick={() => { setBatchFiles([]); setActiveStep(2); }} className="w-full py-3 rounded-xl bg-white text-black font-bold text-sm uppercase tracking-wider hover:bg-zinc-200 transition-colors">
                                             Continue
                                         </button>
                                     )}
@@ -278,7 +291,9 @@ export const ZenUpload: React.FC<ZenUploadProps> = ({ uploadState, setUploadStat
                             <div className="space-y-3">
                                 <div className="flex items-center justify-between py-2 border-b border-white/5">
                                     <span className="text-zinc-500 text-sm">Content</span>
-                                    <span className="text-white text-sm font-medium truncate max-w-[200px]">{uploadState.file?.name || "Text input"}</span>
+                                    <span className="text-white text-sm font-medium truncate max-w-[200px]">
+                                        {isBatch ? (batchFiles.length === 1 ? batchFiles[0].name : `${batchFiles.length} files`) : uploadState.file?.name || "Text input"}
+                                    </span>
                                 </div>
                                 <div className="flex items-center justify-between py-2 border-b border-white/5">
                                     <span className="text-zinc-500 text-sm">Scope</span>
@@ -286,12 +301,39 @@ export const ZenUpload: React.FC<ZenUploadProps> = ({ uploadState, setUploadStat
                                 </div>
                                 <div className="flex items-center justify-between py-2 border-b border-white/5">
                                     <span className="text-zinc-500 text-sm">Asset Type</span>
-                                    <span className="text-white text-sm font-medium">{uploadState.assetType}</span>
+                                    <span className="text-white text-sm font-medium">{isBatch ? "Detected per file" : uploadState.assetType}</span>
                                 </div>
-                                <div className="flex items-center justify-between py-2">
+                                <div className="flex items-center justify-between py-2 border-b border-white/5">
                                     <span className="text-zinc-500 text-sm">Region</span>
                                     <span className="text-white text-sm font-medium">{uploadState.region}</span>
                                 </div>
+                                <div className="flex items-center justify-between gap-4 py-2">
+                                    <span className="text-zinc-500 text-sm">Brand</span>
+                                    <div className="w-[220px]">
+                                        <Select
+                                            options={brands.map(b => ({ label: b.name, value: b.id }))}
+                                            value={selectedBrandId}
+                                            onChange={(val) => setUploadState({ ...uploadState, brandId: val, partnerBrandId: uploadState.partnerBrandId === val ? undefined : uploadState.partnerBrandId })}
+                                        />
+                                    </div>
+                                </div>
+                                {uploadState.assetType === AssetType.CO_BRANDED && (
+                                    <div className="flex items-center justify-between gap-4 py-2 border-t border-white/5">
+                                        <span className="text-zinc-500 text-sm">Partner Brand</span>
+                                        {partnerOptions.length > 0 ? (
+                                            <div className="w-[220px]">
+                                                <Select
+                                                    options={partnerOptions}
+                                                    value={uploadState.partnerBrandId || ''}
+                                                    onChange={(val) => setUploadState({ ...uploadState, partnerBrandId: val })}
+                                                    placeholder="Select partner..."
+                                                />
+                                            </div>
+                                        ) : (
+                                            <span className="text-amber-400 text-xs font-medium text-right">Add a partner profile to check both brands</span>
+                                        )}
+                                    </div>
+                                )}
                             </div>
 
                             {isAnalyzing ? (
@@ -313,9 +355,9 @@ export const ZenUpload: React.FC<ZenUploadProps> = ({ uploadState, setUploadStat
                                     </p>
                                 </div>
                             ) : (
-                                <button onClick={onAnalyze} className="w-full py-4 rounded-xl font-bold text-sm uppercase tracking-widest transition-all shadow-lg flex items-center justify-center gap-2 bg-white text-black hover:bg-zinc-200">
+                                <button onClick={isBatch ? () => onAnalyzeBatch(batchFiles) : onAnalyze} className="w-full py-4 rounded-xl font-bold text-sm uppercase tracking-widest transition-all shadow-lg flex items-center justify-center gap-2 bg-white text-black hover:bg-zinc-200">
                                     <Zap className="w-5 h-5" />
-                                    Analyze Content
+                                    {isBatch ? "Analyze Batch" : "Analyze Content"}
                                 </button>
                             )}
                         </div>
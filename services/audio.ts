@@ -0,0 +1,66 @@
+// Audio is checked through its transcript (see services/captions); this reads what
+// the results view shows of the recording itself: its length and a waveform.
+import { Waveform } from '../types';
+
+export const AUDIO_MIME_TYPES: Record<string, string> = {
+    mp3: 'audio/mpeg',
+    wav: 'audio/wav',
+    m4a: 'audio/mp4',
+    ogg: 'audio/ogg',
+    aac: 'audio/aac'
+};
+
+export const AUDIO_EXTENSIONS = Object.keys(AUDIO_MIME_TYPES);
+
+export const isAudioFile = (file: File) =>
+    file.type.startsWith('audio/') || AUDIO_EXTENSIONS.includes(file.name.split('.').pop()?.toLowerCase() || '');
+
+const WAVEFORM_BARS = 200;
+// Decoding holds the whole recording in memory; larger files only get their duration
+const MAX_DECODE_SIZE = 50 * 1024 * 1024;
+// Decoded at a low sample rate: plenty for an outline, at a fraction of the memory
+const DECODE_SAMPLE_RATE = 8000;
+
+// Length from the file's metadata, without decoding it; 0 when the browser cannot read it
+const readDuration = (file: File) => new Promise<number>(resolve => {
+    const url = URL.createObjectURL(file);
+    const audio = document.createElement('audio');
+    const done = (duration: number) => {
+        URL.revokeObjectURL(url);
+        resolve(Number.isFinite(duration) ? duration : 0);
+    };
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => done(audio.duration);
+    audio.onerror = () => done(0);
+    audio.src = url;
+});
+
+// Loudest sample of any channel per bar, scaled so the loudest bar is full height
+const toPeaks = (buffer: AudioBuffer): number[] => {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+    const size = Math.ceil(buffer.length / WAVEFORM_BARS);
+    const peaks: number[] = [];
+    for (let start = 0; start < buffer.length; start += size) {
+        let peak = 0;
+        for (const data of channels) {
+            for (let i = start; i < Math.min(start + size, buffer.length); i++) peak = Math.max(peak, Math.abs(data[i]));
+        }
+        peaks.push(peak);
+    }
+    const loudest = Math.max(...peaks) || 1;
+    return peaks.map(p => Math.round(p / loudest * 1000) / 1000);
+};
+
+/** Duration and waveform of an audio file; recordings that cannot be decoded get no peaks. */
+export const readWaveform = async (file: File): Promise<Waveform> => {
+    if (file.size <= MAX_DECODE_SIZE) {
+        try {
+            const context = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+            const buffer = await context.decodeAudioData(await file.arrayBuffer());
+            return { duration: buffer.duration, peaks: toPeaks(buffer) };
+        } catch (e) {
+            console.warn("Waveform: audio could not be decoded", e);
+        }
+    }
+    return { duration: await readDuration(file), peaks: [] };
+};
@@ -0,0 +1,168 @@
+import { describe, expect, it, vi } from 'vitest';
+import JSZip from 'jszip';
+import { AssetType, BatchJob, CommunicationContext, HistoryItem, IssueCategory, SafetyStatus } from '../types';
+import { createBatchJobs, startBatch, summarizeBatch } from './batch';
+
+const file = (name: string, type = '') => new File(['content'], name, { type });
+
+const job = (id: string, fields: Partial<BatchJob> = {}): BatchJob =>
+    ({ id, file: file(`${id}.txt`), sidecars: [], status: 'queued', progress: 0, ...fields });
+
+// A run that waits until the test lets it finish
+const deferred = () => {
+    let resolve = () => {};
+    const promise = new Promise<void>(r => { resolve = r; });
+    return { promise, resolve };
+};
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createBatchJobs', () => {
+    it('pairs captions with the media file of the same name, also with a language tag', async () => {
+        const video = file('Promo.mp4', 'video/mp4');
+        const plain = file('promo.vtt');
+        const english = file('promo.en.vtt');
+        const brazilian = file('promo.pt-BR.srt');
+        const jobs = await createBatchJobs([english, video, plain, brazilian]);
+
+        expect(jobs).toHaveLength(1);
+        expect(jobs[0].file).toBe(video);
+        expect(jobs[0].sidecars).toEqual([english, plain, brazilian]);
+    });
+
+    it('checks captions without a media file as jobs of their own', async () => {
+        const jobs = await createBatchJobs([file('promo.mp4'), file('teaser.en.vtt'), file('promo.final.vtt')]);
+        expect(jobs.map(j => [j.id, j.file.name])).toEqual([['job-1', 'promo.mp4'], ['job-2', 'teaser.en.vtt'], ['job-3', 'promo.final.vtt']]);
+    });
+
+    it('unpacks archives in place and skips junk entries', async () => {
+        const zip = new JSZip();
+        zip.file('assets/flyer.pdf', 'pdf');
+        zip.file('assets/.DS_Store', '');
+        zip.file('__MACOSX/assets/._flyer.pdf', '');
+        const archive = new File([await zip.generateAsync({ type: 'uint8array' })], 'assets.zip', { type: 'application/zip' });
+
+        const jobs = await createBatchJobs([file('first.txt'), archive, file('last.txt')]);
+
+        expect(jobs.map(j => j.file.name)).toEqual(['first.txt', 'flyer.pdf', 'last.txt']);
+        expect(jobs[1].file.type).toBe('application/pdf');
+    });
+});
+
+describe('startBatch', () => {
+    it('runs at most `limit` jobs at a time and marks them done', async () => {
+        const gates = [deferred(), deferred(), deferred()];
+        const changes: [string, Partial<BatchJob>][] = [];
+        const started: string[] = [];
+        const run = startBatch([job('a'), job('b'), job('c')], async (j) => {
+            started.push(j.id);
+            await gates[started.length - 1].promise;
+            return { brandScore: 90 };
+        }, (id, patch) => changes.push([id, patch]), 2);
+
+        await tick();
+        expect(started).toEqual(['a', 'b']);
+        gates[0].resolve();
+        await tick();
+        expect(started).toEqual(['a', 'b', 'c']);
+        gates[1].resolve();
+        gates[2].resolve();
+        await run.finished;
+
+        expect(changes).toEqual([
+            ['a', { brandScore: 90, status: 'done', progress: 100 }],
+            ['b', { brandScore: 90, status: 'done', progress: 100 }],
+            ['c', { brandScore: 90, status: 'done', progress: 100 }]
+        ]);
+    });
+
+    it('holds queued jobs while paused and lets running ones finish', async () => {
+        const gate = deferred();
+        const started: string[] = [];
+        const run = startBatch([job('a'), job('b')], async (j) => {
+            started.push(j.id);
+            if (j.id === 'a') await gate.promise;
+            return {};
+        }, () => {}, 1);
+
+        await tick();
+        run.pause();
+        gate.resolve();
+        await tick();
+        expect(started).toEqual(['a']);
+
+        run.resume();
+        await run.finished;
+        expect(started).toEqual(['a', 'b']);
+    });
+
+    it('cancels queued and running jobs, also while paused', async () => {
+        const gate = deferred();
+        const statuses: Record<string, string | undefined> = {};
+        const run = startBatch([job('a'), job('b'), job('c')], async (_j, signal) => {
+            await gate.promise;
+            if (signal.aborted) throw new Error('Cancelled');
+            return {};
+        }, (id, patch) => { statuses[id] = patch.status; }, 1);
+
+        await tick();
+        run.pause();
+        run.cancel();
+        gate.resolve();
+        await run.finished;
+
+        expect(statuses).toEqual({ a: 'cancelled', b: 'cancelled', c: 'cancelled' });
+    });
+
+    it('marks a job that throws as failed and carries on', async () => {
+        const changes: Record<string, Partial<BatchJob>> = {};
+        const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+        try {
+            await startBatch([job('a'), job('b')], async (j) => {
+                if (j.id === 'a') throw new Error('Unreadable file');
+                return {};
+            }, (id, patch) => { changes[id] = patch; }).finished;
+        } finally {
+            error.mockRestore();
+        }
+
+        expect(changes.a).toEqual({ status: 'failed', error: 'Unreadable file' });
+        expect(changes.b.status).toBe('done');
+    });
+});
+
+describe('summarizeBatch', () => {
+    const historyItem = (safetyStatus: SafetyStatus, issuesCount: number, categoryCounts: Partial<Record<IssueCategory, number>>): HistoryItem => ({
+        id: 1,
+        filename: 'file.txt',
+        type: AssetType.BLOG_POST,
+        date: '',
+        safetyStatus,
+        context: CommunicationContext.MARKETING,
+        region: 'Global',
+        issuesCount,
+        categoryCounts
+    });
+
+    it('counts statuses, safety and categories of the analyzed jobs', () => {
+        const summary = summarizeBatch([
+            job('a', { status: 'done', brandScore: 90, historyItem: historyItem('Caution', 2, { Brand: 1, Compliance: 1 }) }),
+            job('b', { status: 'done', brandScore: 75, historyItem: historyItem('Unsafe', 3, { Compliance: 3 }) }),
+            job('c', { status: 'failed', error: 'Unreadable file' }),
+            job('d')
+        ]);
+
+        expect(summary.total).toBe(4);
+        expect(summary.byStatus).toMatchObject({ done: 2, failed: 1, queued: 1, cancelled: 0 });
+        expect(summary.bySafety).toEqual({ Safe: 0, Caution: 1, Unsafe: 1 });
+        expect(summary.averageScore).toBe(83);
+        expect(summary.issuesCount).toBe(5);
+        expect(summary.topCategories).toEqual([{ category: 'Compliance', count: 4 }, { category: 'Brand', count: 1 }]);
+    });
+
+    it('has no average score before any job is analyzed', () => {
+        const summary = summarizeBatch([job('a')]);
+        expect(summary.averageScore).toBeUndefined();
+        expect(summary.topCategories).toEqual([]);
+    });
+});
@@ -0,0 +1,212 @@
+// Batch uploads: several files or ZIP archives become a queue of jobs, each read,
+// typed and analyzed like a single upload, a few at a time.
+import JSZip from 'jszip';
+import { AudienceScope, BatchJob, BatchJobStatus, IssueCategory, SafetyStatus } from '../types';
+import { AssetOption, detectAssetOption } from '../utils/ingestionLogic';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { isCaptionFile } from './captions';
+import { AUDIO_MIME_TYPES } from './audio';
+import { detectContext } from './gemini';
+
+// Jobs analyzed at the same time; each may itself run several model calls
+export const BATCH_CONCURRENCY = 2;
+
+// ZIP entries carry no MIME type; ingestion needs it for images and media
+const MIME_TYPES: Record<string, string> = {
+    ...AUDIO_MIME_TYPES,
+    pdf: 'application/pdf',
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    svg: 'image/svg+xml',
+    mp4: 'video/mp4',
+    mov: 'video/quicktime',
+    webm: 'video/webm',
+    html: 'text/html',
+    htm: 'text/html',
+    eml: 'message/rfc822',
+    txt: 'text/plain',
+    md: 'text/markdown',
+    csv: 'text/csv'
+};
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() || '';
+const baseName = (name: string) => name.replace(/\.[^./]+$/, '').toLowerCase();
+
+// Caption files often name their language before the extension: "promo.en.vtt", "promo.pt-BR.srt"
+const LANGUAGE_TAG = /\.[a-z]{2,3}(?:[-_][a-z0-9]{2,4})?$/i;
+
+// A caption goes with a file of its own name, with or without the language tag
+const captionFits = (caption: File, file: File) => {
+    const name = baseName(caption.name);
+    return baseName(file.name) === name || baseName(file.name) === name.replace(LANGUAGE_TAG, '');
+};
+
+export const isZipFile = (file: File) => extensionOf(file.name) === 'zip' || file.type === 'application/zip';
+
+// Folders, macOS resource forks and hidden files are not assets
+const isJunkEntry = (path: string) => path.split('/').some(part => part.startsWith('.') || part === '__MACOSX') || /(?:^|\/)Thumbs\.db$/i.test(path);
+
+const unzip = async (archive: File): Promise<File[]> => {
+    const zip = await JSZip.loadAsync(await archive.arrayBuffer());
+    const entries = Object.values(zip.files).filter(entry => !entry.dir && !isJunkEntry(entry.name));
+    const files: File[] = [];
+    for (const entry of entries) {
+        const name = entry.name.split('/').pop() || entry.name;
+        const blob = await entry.async('blob');
+        files.push(new File([blob], name, { type: MIME_TYPES[extensionOf(name)] || '' }));
+    }
+    return files;
+};
+
+/**
+ * Jobs for the dropped files, with ZIP archives (also nested ones) unpacked. Caption
+ * files go with the video or recording of the same name, also when they add a language
+ * tag ("promo.en.vtt" with "promo.mp4"); captions without one are
+ * checked as transcripts of their own.
+ */
+export const createBatchJobs = async (dropped: File[]): Promise<BatchJob[]> => {
+    // Archives are unpacked in place, so jobs keep the order the files were dropped in
+    const files: File[] = [];
+    const pending = [...dropped];
+    while (pending.length) {
+        const file = pending.shift()!;
+        if (isZipFile(file)) pending.unshift(...await unzip(file));
+        else files.push(file);
+    }
+
+    const captions = files.filter(f => isCaptionFile(f.name));
+    const primaries = files.filter(f => !isCaptionFile(f.name));
+    const paired = new Set<File>();
+    const jobs = primaries.map((file, index): BatchJob => {
+        const sidecars = captions.filter(c => captionFits(c, file));
+        sidecars.forEach(c => paired.add(c));
+        return { id: `job-${index + 1}`, file, sidecars, status: 'queued', progress: 0 };
+    });
+    captions.filter(c => !paired.has(c)).forEach(file => {
+        jobs.push({ id: `job-${jobs.length + 1}`, file, sidecars: [], status: 'queued', progress: 0 });
+    });
+    return jobs;
+};
+
+// Enough of the text to tell what kind of asset it is
+const DETECTION_SAMPLE = 4000;
+
+/**
+ * Asset type of a batch file: what the provider reads from its text, when the
+ * file's format allows that type, otherwise the format's generic type.
+ */
+export const detectJobAssetType = async (fileName: string, text: string, scope: AudienceScope): Promise<AssetOption> => {
+    if (text.trim().length < 10) return detectAssetOption(scope, fileName);
+    try {
+        const detected = await detectContext(text.slice(0, DETECTION_SAMPLE));
+        const option = detectAssetOption(scope, fileName, detected.assetType);
+        // The provider's context only counts for the type it suggested
+        return option.value === detected.assetType ? { ...option, context: detected.context } : option;
+    } catch (e) {
+        console.warn(`Asset type detection failed for ${fileName}`, e);
+        return detectAssetOption(scope, fileName);
+    }
+};
+
+export interface BatchRun {
+    pause: () => void; // Running jobs finish; queued ones wait
+    resume: () => void;
+    cancel: () => void; // Queued jobs are dropped; running ones stop at their next step
+    finished: Promise<void>;
+}
+
+/**
+ * Runs `run` for every job, at most `limit` at a time. `run` reports its own
+ * progress through `onChange` and returns the job's final fields; the queue sets
+ * the status. Jobs check `signal` between steps so a cancel takes effect early.
+ */
+export function startBatch(
+    jobs: BatchJob[],
+    run: (job: BatchJob, signal: AbortSignal) => Promise<Partial<BatchJob>>,
+    onChange: (id: string, patch: Partial<BatchJob>) => void,
+    limit = BATCH_CONCURRENCY
+): BatchRun {
+    const controller = new AbortController();
+    let paused: Promise<void> | undefined;
+    let release = () => {};
+
+    const resume = () => {
+        paused = undefined;
+        release();
+    };
+
+    const finished = mapWithConcurrency(jobs, limit, async (job) => {
+        while (paused) await paused;
+        if (controller.signal.aborted) {
+            onChange(job.id, { status: 'cancelled' });
+            return;
+        }
+        try {
+            const patch = await run(job, controller.signal);
+            onChange(job.id, { ...patch, status: 'done', progress: 100 });
+        } catch (error) {
+            if (controller.signal.aborted) {
+                onChange(job.id, { status: 'cancelled' });
+            } else {
+                console.error(`Batch job ${job.file.name} failed`, error);
+                onChange(job.id, { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+            }
+        }
+    }).then(() => undefined);
+
+    return {
+        pause: () => {
+            if (!paused) paused = new Promise(resolve => { release = resolve; });
+        },
+        resume,
+        cancel: () => {
+            controller.abort();
+            resume();
+        },
+        finished
+    };
+}
+
+export interface BatchSummary {
+    total: number;
+    byStatus: Record<BatchJobStatus, number>;
+    bySafety: Record<SafetyStatus, number>;
+    averageScore?: number; // Of the analyzed jobs
+    issuesCount: number;
+    topCategories: { category: IssueCategory; count: number }[]; // Most frequent first
+}
+
+export function summarizeBatch(jobs: BatchJob[]): BatchSummary {
+    const byStatus: Record<BatchJobStatus, number> = { queued: 0, ingesting: 0, analyzing: 0, done: 0, failed: 0, cancelled: 0 };
+    const bySafety: Record<SafetyStatus, number> = { 'Safe': 0, 'Caution': 0, 'Unsafe': 0 };
+    const categories = new Map<IssueCategory, number>();
+    const scores: number[] = [];
+    let issuesCount = 0;
+
+    jobs.forEach(job => {
+        byStatus[job.status]++;
+        const item = job.historyItem;
+        if (!item) return;
+        bySafety[item.safetyStatus]++;
+        issuesCount += item.issuesCount;
+        if (job.brandScore !== undefined) scores.push(job.brandScore);
+        Object.entries(item.categoryCounts || {}).forEach(([category, count]) => {
+            categories.set(category as IssueCategory, (categories.get(category as IssueCategory) || 0) + (count || 0));
+        });
+    });
+
+    return {
+        total: jobs.length,
+        byStatus,
+        bySafety,
+        averageScore: scores.length ? Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length) : undefined,
+        issuesCount,
+        topCategories: [...categories.entries()]
+            .map(([category, count]) => ({ category, count }))
+            .sort((a, b) => b.count - a.count)
+            .slice(0, 3)
+    };
+}
@@ -0,0 +1,106 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { BrandSettings, BrandSettingsVersion } from '../types';
+import { appendVersion, diffSettings, getActiveVersion, loadProfiles, rollbackToVersion } from './brandVersions';
+
+const settings = (fields: Partial<BrandSettings> = {}): BrandSettings => ({
+    brandName: 'Acme',
+    mission: 'Help teams ship.',
+    audience: '',
+    toneVoice: '',
+    styleGuide: '',
+    bannedTerms: [],
+    inclusiveLanguage: false,
+    ...fields
+});
+
+const versions = (...list: BrandSettings[]): BrandSettingsVersion[] =>
+    list.reduce<BrandSettingsVersion[]>((all, s, i) => appendVersion(all, s, 'Jordan', `Save ${i + 1}`), []);
+
+describe('versions', () => {
+    it('numbers every save after the highest version so far', () => {
+        const saved = versions(settings(), settings({ mission: 'Ship faster.' }));
+        expect(saved.map(v => [v.id, v.number, v.note])).toEqual([['v1', 1, 'Save 1'], ['v2', 2, 'Save 2']]);
+        expect(getActiveVersion(saved).settings.mission).toBe('Ship faster.');
+
+        // Numbers are never reused, even when the list has gaps
+        const next = appendVersion([saved[1]], settings(), 'Jordan', 'Edit');
+        expect(next.map(v => v.id)).toEqual(['v2', 'v3']);
+    });
+
+    it('rolls back by appending a copy of the old version', () => {
+        const saved = versions(settings(), settings({ mission: 'Ship faster.' }));
+        const rolledBack = rollbackToVersion(saved, 'v1', 'Sam');
+
+        expect(rolledBack.slice(0, 2)).toEqual(saved);
+        expect(getActiveVersion(rolledBack)).toMatchObject({ id: 'v3', author: 'Sam', note: 'Rolled back to v1', restoredFrom: 'v1' });
+        expect(getActiveVersion(rolledBack).settings).toEqual(saved[0].settings);
+        expect(() => rollbackToVersion(saved, 'v9', 'Sam')).toThrow('Unknown guidelines version v9');
+    });
+});
+
+describe('loadProfiles', () => {
+    beforeEach(() => localStorage.clear());
+
+    it('starts from the defaults on first run', () => {
+        const [profile, ...rest] = loadProfiles(settings({ brandName: 'Acme Labs' }));
+        expect(rest).toEqual([]);
+        expect(profile.id).toBe('acme-labs');
+        expect(profile.versions.map(v => [v.id, v.author, v.note])).toEqual([['v1', 'System', 'Initial guidelines']]);
+        expect(JSON.parse(localStorage.getItem('brandai_brand_profiles')!)).toEqual([profile]);
+    });
+
+    it('imports single-brand guidelines and parses a legacy banned-term string', () => {
+        localStorage.setItem('brandai_settings', JSON.stringify({ ...settings(), bannedTerms: "leverage (use 'use' instead), synergy" }));
+
+        const [profile] = loadProfiles(settings({ brandName: 'Default' }));
+
+        expect(profile.id).toBe('acme');
+        expect(profile.versions[0].note).toBe('Imported existing guidelines');
+        expect(profile.versions[0].settings.bannedTerms).toEqual([
+            { id: 'leverage-0', term: 'leverage', severity: 'High', replacement: 'use' },
+            { id: 'synergy-1', term: 'synergy', severity: 'High' }
+        ]);
+        expect(localStorage.getItem('brandai_settings')).toBeNull();
+    });
+
+    it('imports a pre-workspace version list', () => {
+        localStorage.setItem('brandai_settings_versions', JSON.stringify(versions(settings(), settings({ mission: 'Ship faster.' }))));
+
+        const [profile] = loadProfiles(settings());
+
+        expect(profile.versions.map(v => v.id)).toEqual(['v1', 'v2']);
+        expect(localStorage.getItem('brandai_settings_versions')).toBeNull();
+    });
+
+    it('parses legacy banned-term strings in saved profiles', () => {
+        const legacy = { ...settings(), bannedTerms: 'guru' };
+        localStorage.setItem('brandai_brand_profiles', JSON.stringify([{ id: 'acme', versions: [{ ...versions(settings())[0], settings: legacy }] }]));
+
+        const [profile] = loadProfiles(settings());
+
+        expect(profile.versions[0].settings.bannedTerms).toEqual([{ id: 'guru-0', term: 'guru', severity: 'High' }]);
+    });
+});
+
+describe('diffSettings', () => {
+    it('diffs only the changed fields, under their labels', () => {
+        const from = settings({ bannedTerms: [{ id: 'leverage', term: 'leverage', severity: 'High' }] });
+        const to = settings({
+            bannedTerms: [{ id: 'leverage', term: 'leverage', severity: 'High', replacement: 'use' }],
+            inclusiveLanguage: true
+        });
+
+        const diffs = diffSettings(from, to);
+
+        expect(diffs.map(d => [d.field, d.label])).toEqual([['bannedTerms', 'Banned Terms'], ['inclusiveLanguage', 'Inclusive Language Protocol']]);
+        const added = diffs[0].segments.flatMap(s => s.type === 'change' ? [s.hunk.added] : []).join('');
+        expect(added).toContain("use 'use' instead");
+        expect(diffs[1].segments.flatMap(s => s.type === 'change' ? [[s.hunk.removed, s.hunk.added]] : [])).toEqual([['Disabled', 'Enabled']]);
+    });
+
+    it('includes fields present on one side only', () => {
+        const diffs = diffSettings(settings(), settings({ requiredDisclaimers: [{ id: 'results', label: 'Results', text: 'Results may vary.' }] }));
+        expect(diffs.map(d => d.label)).toEqual(['Required Disclaimers']);
+    });
+});
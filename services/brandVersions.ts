@@ -0,0 +1,186 @@
+// Versioned brand guidelines, one version list per brand profile. Every save appends
+// an immutable numbered version; the newest version is the one in force. Rollback
+// appends a copy of an old version.
+import { BrandProfile, BrandSettings, BrandSettingsVersion, DesignTokens } from '../types';
+import { diffWords, DiffSegment } from '../utils/wordDiff';
+import { parseBannedTerms, formatBannedTerm, formatGlossaryEntry, formatDesignTokens } from './rules';
+
+const PROFILES_KEY = 'brandai_brand_profiles';
+// Single-brand version list used before multi-brand workspaces
+const LEGACY_VERSIONS_KEY = 'brandai_settings_versions';
+// Single-settings key used before versioning
+const LEGACY_SETTINGS_KEY = 'brandai_settings';
+
+export interface SettingsFieldDiff {
+    field: keyof BrandSettings;
+    label: string;
+    segments: DiffSegment[];
+}
+
+export const FIELD_LABELS: Record<string, string> = {
+    brandName: 'Brand Name',
+    mission: 'Identity & Mission',
+    audience: 'Audience',
+    toneVoice: 'Voice & Tone',
+    styleGuide: 'Visual System',
+    bannedTerms: 'Banned Terms',
+    glossary: 'Approved Terminology',
+    designTokens: 'Design Tokens',
+    inclusiveLanguage: 'Inclusive Language Protocol',
+    requiredDisclaimers: 'Required Disclaimers'
+};
+
+const makeVersion = (
+    number: number,
+    settings: BrandSettings,
+    author: string,
+    note: string,
+    restoredFrom?: string
+): BrandSettingsVersion => ({
+    id: `v${number}`,
+    number,
+    settings,
+    author,
+    createdAt: new Date().toISOString(),
+    note,
+    restoredFrom
+});
+
+// Guidelines saved before the banned-term dictionary stored the blocklist as one string
+const normalizeSettings = (settings: BrandSettings): BrandSettings => {
+    const bannedTerms: unknown = settings.bannedTerms;
+    return typeof bannedTerms === 'string' ? { ...settings, bannedTerms: parseBannedTerms(bannedTerms) } : settings;
+};
+
+const normalizeProfile = (profile: BrandProfile): BrandProfile => ({
+    ...profile,
+    versions: profile.versions.map(v => ({ ...v, settings: normalizeSettings(v.settings) }))
+});
+
+const slugify = (name: string) =>
+    name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'brand';
+
+const uniqueProfileId = (profiles: BrandProfile[], name: string): string => {
+    const base = slugify(name);
+    let id = base;
+    for (let i = 2; profiles.some(p => p.id === id); i++) id = `${base}-${i}`;
+    return id;
+};
+
+// Version list from the pre-workspace keys, if any
+const loadLegacyVersions = (): BrandSettingsVersion[] | null => {
+    const savedVersions = localStorage.getItem(LEGACY_VERSIONS_KEY);
+    if (savedVersions) {
+        try {
+            const parsed = JSON.parse(savedVersions);
+            if (Array.isArray(parsed) && parsed.length > 0) return parsed;
+        } catch (e) {
+            console.error("Failed to parse brand settings versions", e);
+        }
+    }
+
+    const legacy = localStorage.getItem(LEGACY_SETTINGS_KEY);
+    if (legacy) {
+        try {
+            return [makeVersion(1, JSON.parse(legacy), 'System', 'Imported existing guidelines')];
+        } catch (e) {
+            console.error("Failed to parse legacy brand settings", e);
+        }
+    }
+    return null;
+};
+
+/**
+ * Reads all brand profiles. On first run the single-brand guidelines (or
+ * `defaults`) become the first profile.
+ */
+export const loadProfiles = (defaults: BrandSettings): BrandProfile[] => {
+    const saved = localStorage.getItem(PROFILES_KEY);
+    if (saved) {
+        try {
+            const parsed = JSON.parse(saved);
+            if (Array.isArray(parsed) && parsed.length > 0) return parsed.map(normalizeProfile);
+        } catch (e) {
+            console.error("Failed to parse brand profiles", e);
+        }
+    }
+
+    const versions = loadLegacyVersions() || [makeVersion(1, defaults, 'System', 'Initial guidelines')];
+    const profiles = [normalizeProfile({ id: slugify(versions[versions.length - 1].settings.brandName), versions })];
+    saveProfiles(profiles);
+    localStorage.removeItem(LEGACY_VERSIONS_KEY);
+    localStorage.removeItem(LEGACY_SETTINGS_KEY);
+    return profiles;
+};
+
+export const saveProfiles = (profiles: BrandProfile[]) => {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const profileName = (profile: BrandProfile): string =>
+    getActiveVersion(profile.versions).settings.brandName;
+
+/** Adds a profile whose v1 starts from `template` with the new brand name. */
+export const createProfile = (profiles: BrandProfile[], name: string, template: BrandSettings, author: string): BrandProfile[] => {
+    const settings: BrandSettings = { ...template, brandName: name };
+    return [...profiles, { id: uniqueProfileId(profiles, name), versions: [makeVersion(1, settings, author, 'Created brand profile')] }];
+};
+
+export const updateProfileVersions = (
+    profiles: BrandProfile[],
+    profileId: string,
+    update: (versions: BrandSettingsVersion[]) => BrandSettingsVersion[]
+): BrandProfile[] =>
+    profiles.map(p => p.id === profileId ? { ...p, versions: update(p.versions) } : p);
+
+export const getActiveVersion = (versions: BrandSettingsVersion[]): BrandSettingsVersion =>
+    versions[versions.length - 1];
+
+export const appendVersion = (
+    versions: BrandSettingsVersion[],
+    settings: BrandSettings,
+    author: string,
+    note: string,
+    restoredFrom?: string
+): BrandSettingsVersion[] => {
+    const next = Math.max(0, ...versions.map(v => v.number)) + 1;
+    return [...versions, makeVersion(next, settings, author, note, restoredFrom)];
+};
+
+export const rollbackToVersion = (versions: BrandSettingsVersion[], versionId: string, author: string): BrandSettingsVersion[] => {
+    const target = versions.find(v => v.id === versionId);
+    if (!target) throw new Error(`Unknown guidelines version ${versionId}`);
+    return appendVersion(versions, target.settings, author, `Rolled back to ${target.id}`, target.id);
+};
+
+export const settingsEqual = (a: BrandSettings, b: BrandSettings): boolean =>
+    JSON.stringify(a) === JSON.stringify(b);
+
+// Flatten any settings value into text so every field can be word-diffed
+const fieldText = (value: unknown): string => {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'string') return value;
+    if (typeof value === 'boolean') return value ? 'Enabled' : 'Disabled';
+    if (Array.isArray(value)) {
+        return value.map(item => {
+            if (item && typeof item === 'object' && 'label' in item && 'text' in item) return `${item.label}: ${item.text}`;
+            if (item && typeof item === 'object' && 'kind' in item && 'term' in item) return formatGlossaryEntry(item);
+            if (item && typeof item === 'object' && 'term' in item) return formatBannedTerm(item);
+            return JSON.stringify(item);
+        }).join('\n');
+    }
+    if (typeof value === 'object' && 'palette' in value && 'fonts' in value) return formatDesignTokens(value as DesignTokens);
+    return JSON.stringify(value, null, 2);
+};
+
+/** Per-field word diff between two versions; unchanged fields are omitted. */
+export const diffSettings = (from: BrandSettings, to: BrandSettings): SettingsFieldDiff[] => {
+    const fields = [...new Set([...Object.keys(from), ...Object.keys(to)])] as (keyof BrandSettings)[];
+    return fields
+        .filter(field => JSON.stringify(from[field]) !== JSON.stringify(to[field]))
+        .map(field => ({
+            field,
+            label: FIELD_LABELS[field] || field,
+            segments: diffWords(fieldText(from[field]), fieldText(to[field]))
+        }));
+};
@@ -0,0 +1,109 @@
+// Campaigns group the analyses of assets launched together. The cross-asset check
+// (see services/rules/campaign) compares their stored text and writes its findings
+// into each member's stored run, so they are listed whenever the asset is reopened.
+import { AnalysisRecord, Campaign, HistoryItem, Issue } from '../types';
+import { checkCampaign } from './rules';
+import { countCategories, deleteCampaign, getAnalysisRecords, saveAnalysis, saveCampaign } from './historyStore';
+import { locateCellIssues, locateElementIssues, locateTextIssues, locateTimedIssues } from './textLayout';
+
+export const createCampaign = (name: string, brandId: string, memberIds: number[]): Campaign => ({
+    id: String(Date.now()),
+    name: name.trim(),
+    brandId,
+    memberIds: [...new Set(memberIds)],
+    createdAt: new Date().toISOString()
+});
+
+const isFindingOf = (issue: Issue, campaignId: string) => issue.id.startsWith(`rule-campaign-${campaignId}-`);
+
+/** The findings of a campaign among the issues of one of its members. */
+export const campaignFindings = (issues: Issue[], campaignId: string): Issue[] =>
+    issues.filter(issue => isFindingOf(issue, campaignId));
+
+/**
+ * Replaces a campaign's earlier findings on a stored run, placing the new ones
+ * like the run's own text findings. The score is left alone: it rates the asset
+ * against the guidelines, and the contradiction may well lie in the other asset.
+ */
+const withFindings = (record: AnalysisRecord, campaignId: string, findings: Issue[]): AnalysisRecord => {
+    const { upload, preview } = record;
+    const located = locateTimedIssues(locateTextIssues(findings, upload.textInput, preview?.textLayout), upload.textInput, preview?.transcript);
+    const issues = locateElementIssues(locateCellIssues(located, preview?.workbook), preview?.webPage || preview?.email);
+    return {
+        ...record,
+        result: { ...record.result, issues: [...record.result.issues.filter(i => !isFindingOf(i, campaignId)), ...issues] }
+    };
+};
+
+// Stores the findings (by member id) on the members' runs; returns the history entries that changed
+const storeFindings = async (campaignId: string, records: AnalysisRecord[], findings: Map<number, Issue[]>, history: HistoryItem[]): Promise<HistoryItem[]> => {
+    const updated: HistoryItem[] = [];
+    for (const record of records) {
+        const item = history.find(h => h.id === record.id);
+        const next = findings.get(record.id) || [];
+        if (!item || (!next.length && !campaignFindings(record.result.issues, campaignId).length)) continue;
+
+        const nextRecord = withFindings(record, campaignId, next);
+        const nextItem: HistoryItem = {
+            ...item,
+            issuesCount: nextRecord.result.issues.length,
+            categoryCounts: countCategories(nextRecord.result.issues)
+        };
+        await saveAnalysis(nextItem, nextRecord);
+        updated.push(nextItem);
+    }
+    return updated;
+};
+
+export interface CampaignCheck {
+    campaign: Campaign; // With the time of this check
+    items: HistoryItem[]; // Members whose stored run changed
+    findingsCount: number;
+    skipped: number[]; // Members without a stored run or text to compare
+}
+
+/** Compares the members of a campaign and stores the findings on each of them. */
+export const runCampaignCheck = async (campaign: Campaign, history: HistoryItem[]): Promise<CampaignCheck> => {
+    const records = await getAnalysisRecords(campaign.memberIds);
+    const comparable = records.filter(r => r.upload.textInput?.trim());
+    const findings = checkCampaign(comparable.map(record => ({
+        id: record.id,
+        name: history.find(h => h.id === record.id)?.filename || record.upload.fileName || 'Text Content',
+        text: record.upload.textInput
+    })), campaign.id);
+
+    const items = await storeFindings(campaign.id, records, findings, history);
+    const checked: Campaign = { ...campaign, checkedAt: new Date().toISOString() };
+    await saveCampaign(checked);
+    return {
+        campaign: checked,
+        items,
+        findingsCount: [...findings.values()].reduce((sum, issues) => sum + issues.length, 0),
+        skipped: campaign.memberIds.filter(id => !comparable.some(r => r.id === id))
+    };
+};
+
+/** Findings of the last check, by member id. */
+export const loadCampaignFindings = async (campaign: Campaign): Promise<Record<number, Issue[]>> => {
+    const records = await getAnalysisRecords(campaign.memberIds);
+    return Object.fromEntries(records.map(record => [record.id, campaignFindings(record.result.issues, campaign.id)]));
+};
+
+/**
+ * Saves a new member list. Members that leave the campaign lose its findings;
+ * the others keep theirs until the next check.
+ */
+export const updateCampaignMembers = async (campaign: Campaign, memberIds: number[], history: HistoryItem[]): Promise<{ campaign: Campaign; items: HistoryItem[] }> => {
+    const next: Campaign = { ...campaign, memberIds: [...new Set(memberIds)] };
+    const removed = campaign.memberIds.filter(id => !next.memberIds.includes(id));
+    const items = removed.length ? await storeFindings(campaign.id, await getAnalysisRecords(removed), new Map(), history) : [];
+    await saveCampaign(next);
+    return { campaign: next, items };
+};
+
+/** Deletes a campaign and its findings; the member analyses stay in the history. */
+export const removeCampaign = async (campaign: Campaign, history: HistoryItem[]): Promise<HistoryItem[]> => {
+    const items = await storeFindings(campaign.id, await getAnalysisRecords(campaign.memberIds), new Map(), history);
+    await deleteCampaign(campaign.id);
+    return items;
+};
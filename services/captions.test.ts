@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { formatTimestamp, parseCaptions, renderTranscript } from './captions';
+
+const srt = `1
+00:00:01,500 --> 00:00:04,000
+Welcome to Acme.
+
+2
+01:02:03,045 --> 01:02:05,000
+Thanks for watching.
+`;
+
+const vtt = `WEBVTT
+
+NOTE Reviewed by legal
+on 2 May
+
+STYLE
+::cue { color: yellow }
+
+intro
+00:01.250 --> 00:04.000 align:start position:10%
+<v.host Dana Ruiz>Save <b>20%</b> today</v>
+
+00:00:04.000 --> 00:00:06.500
+{\\an8}Terms &amp; conditions &lt;apply&gt;
+`;
+
+describe('parseCaptions', () => {
+    it('reads SRT times with comma fractions and hours', () => {
+        expect(parseCaptions(srt)).toEqual([
+            { start: 1.5, end: 4, text: 'Welcome to Acme.', speaker: undefined },
+            { start: 3723.045, end: 3725, text: 'Thanks for watching.', speaker: undefined }
+        ]);
+    });
+
+    it('reads VTT times with and without hours, ignoring cue settings', () => {
+        expect(parseCaptions(vtt).map(({ start, end }) => [start, end])).toEqual([[1.25, 4], [4, 6.5]]);
+    });
+
+    it('skips the header and NOTE and STYLE blocks', () => {
+        expect(parseCaptions(vtt)).toHaveLength(2);
+        expect(parseCaptions('WEBVTT\n\nNOTE 00:01.000 --> 00:02.000 is not a cue\n')).toEqual([]);
+    });
+
+    it('takes the speaker from a voice span and drops markup', () => {
+        const [cue] = parseCaptions(vtt);
+        expect(cue.speaker).toBe('Dana Ruiz');
+        expect(cue.text).toBe('Save 20% today');
+    });
+
+    it('decodes entities and drops positioning codes', () => {
+        expect(parseCaptions(vtt)[1].text).toBe('Terms & conditions <apply>');
+    });
+
+    it('handles CRLF line endings and a byte order mark, and sorts by start', () => {
+        const source = '\ufeffWEBVTT\r\n\r\n00:05.000 --> 00:06.000\r\nSecond\r\n\r\n00:01.000 --> 00:02.000\r\nFirst\r\n';
+        expect(parseCaptions(source).map(s => s.text)).toEqual(['First', 'Second']);
+    });
+
+    it('drops cues with bad times or no text', () => {
+        expect(parseCaptions('1\n00:01 --> soon\nText\n\n2\n00:00:02,000 --> 00:00:03,000\n<i></i>\n')).toEqual([]);
+    });
+});
+
+describe('renderTranscript', () => {
+    it('writes one timed line per segment and records where each text sits', () => {
+        const { text, segments } = renderTranscript(parseCaptions(vtt));
+        expect(text).toBe('[0:01] Dana Ruiz: Save 20% today\n[0:04] Terms & conditions <apply>');
+        segments.forEach(s => expect(text.slice(s.span!.start, s.span!.end)).toBe(s.text));
+    });
+
+    it('escapes the HTML preview', () => {
+        const { html } = renderTranscript([{ start: 3725, end: 3726, text: 'Terms & <apply>', speaker: 'A "host"' }]);
+        expect(html).toContain('1:02:05');
+        expect(html).toContain('<strong>A &quot;host&quot;:</strong> Terms &amp; &lt;apply&gt;');
+    });
+
+    it('returns empty output for no segments', () => {
+        expect(renderTranscript([]).text).toBe('');
+    });
+});
+
+describe('formatTimestamp', () => {
+    it('shows hours only when needed', () => {
+        expect(formatTimestamp(65.9)).toBe('1:05');
+        expect(formatTimestamp(3723)).toBe('1:02:03');
+        expect(formatTimestamp(-2)).toBe('0:00');
+    });
+});
@@ -0,0 +1,79 @@
+// Reads caption files (SRT, WebVTT) into timed segments, and writes segments out
+// as text for the text checks: one "[1:05] Speaker: words" line per segment, with
+// every segment keeping its span, so findings can be timed to the cue they are in.
+import { TimedSegment } from '../types';
+
+export const CAPTION_EXTENSIONS = ['srt', 'vtt'];
+
+export const isCaptionFile = (fileName: string) => CAPTION_EXTENSIONS.includes(fileName.split('.').pop()?.toLowerCase() || '');
+
+// "01:02:03,456" (SRT), "01:02:03.456" or "02:03.456" (VTT) -> seconds
+const parseTime = (value: string): number | undefined => {
+    const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/);
+    if (!match) return undefined;
+    const [, hours = '0', minutes, seconds, fraction = '0'] = match;
+    return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseInt(seconds, 10) + parseInt(fraction.padEnd(3, '0'), 10) / 1000;
+};
+
+/** Seconds as "1:05" or "1:02:03" */
+export const formatTimestamp = (seconds: number): string => {
+    const total = Math.max(0, Math.floor(seconds));
+    const h = Math.floor(total / 3600);
+    const m = Math.floor(total / 60) % 60;
+    const s = (total % 60).toString().padStart(2, '0');
+    return h ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+const decodeEntities = (value: string) => value
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&nbsp;/g, ' ').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&');
+
+// Cue text without markup: VTT voice spans name the speaker, other tags and
+// SSA positioning codes ({\an8}) are dropped
+const cleanCue = (lines: string[]): { text: string; speaker?: string } => {
+    const raw = lines.join(' ');
+    const speaker = raw.match(/<v(?:\.[^\s>]*)?\s+([^>]+)>/)?.[1].trim();
+    const text = decodeEntities(raw.replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, '')).replace(/\s+/g, ' ').trim();
+    return { text, speaker };
+};
+
+/**
+ * Parses SRT or WebVTT captions. Both are blocks separated by blank lines with a
+ * "start --> end" timing line; VTT NOTE, STYLE and REGION blocks are skipped.
+ */
+export const parseCaptions = (source: string): TimedSegment[] => {
+    const segments: TimedSegment[] = [];
+    source.replace(/^\ufeff/, '').split(/\r?\n[ \t]*\r?\n/).forEach(block => {
+        const lines = block.split(/\r?\n/);
+        const timing = lines.findIndex(line => line.includes('-->'));
+        if (timing < 0 || /^(?:NOTE|STYLE|REGION)\b/.test(lines[0])) return;
+        const [from, rest = ''] = lines[timing].split('-->');
+        const start = parseTime(from);
+        // VTT cue settings follow the end time ("00:04.000 align:start")
+        const end = parseTime(rest.trim().split(/\s+/)[0]);
+        if (start === undefined || end === undefined) return;
+        const cue = cleanCue(lines.slice(timing + 1));
+        if (cue.text) segments.push({ start, end, ...cue });
+    });
+    return segments.sort((a, b) => a.start - b.start);
+};
+
+const escapeHtml = (value: string) => value
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Writes segments out as text and returns them with their spans set, and an HTML
+ * preview for transcripts uploaded without their recording.
+ */
+export const renderTranscript = (segments: TimedSegment[]): { text: string; html: string; segments: TimedSegment[] } => {
+    let text = '';
+    const placed = segments.map(segment => {
+        if (text) text += '\n';
+        text += `[${formatTimestamp(segment.start)}] ${segment.speaker ? `${segment.speaker}: ` : ''}`;
+        const start = text.length;
+        text += segment.text;
+        return { ...segment, span: { start, end: text.length } };
+    });
+    const html = `<div class="transcript-preview bg-white border border-slate-200 p-6 rounded shadow-sm text-black space-y-2">${placed.map(s =>
+        `<p class="text-sm"><span class="font-mono text-xs text-slate-400 mr-2">${formatTimestamp(s.start)}</span>${s.speaker ? `<strong>${escapeHtml(s.speaker)}:</strong> ` : ''}${escapeHtml(s.text)}</p>`).join('')}</div>`;
+    return { text, html, segments: placed };
+};
@@ -0,0 +1,42 @@
+// Co-branded assets are analyzed once per brand profile; this folds the two
+// results into one, tagging every issue with the profile that raised it.
+import { AnalysisCoverage, AnalysisResult, Issue, SafetyStatus } from '../types';
+
+export interface BrandedResult {
+    brandId: string;
+    brandName: string;
+    result: AnalysisResult;
+}
+
+const STATUS_RANK: Record<SafetyStatus, number> = { 'Safe': 0, 'Caution': 1, 'Unsafe': 2 };
+
+// Both profiles often share rules (e.g. the same banned term); report those once
+const isSameFinding = (a: Issue, b: Issue): boolean => {
+    if (a.ruleId && a.ruleId === b.ruleId) return a.span?.start === b.span?.start;
+    return a.description.trim().toLowerCase() === b.description.trim().toLowerCase();
+};
+
+export function mergeCoBrandedResults(primary: BrandedResult, partner: BrandedResult): AnalysisResult {
+    const primaryIssues = primary.result.issues.map(issue => ({ ...issue, brandId: primary.brandId }));
+    const partnerIssues = partner.result.issues
+        .filter(issue => !primaryIssues.some(p => isSameFinding(p, issue)))
+        .map(issue => ({ ...issue, id: `${partner.brandId}:${issue.id}`, brandId: partner.brandId }));
+
+    const safetyStatus = STATUS_RANK[partner.result.safetyStatus] > STATUS_RANK[primary.result.safetyStatus]
+        ? partner.result.safetyStatus
+        : primary.result.safetyStatus;
+
+    return {
+        safetyStatus,
+        // An asset is only as aligned as its weakest brand
+        brandScore: Math.min(primary.result.brandScore, partner.result.brandScore),
+        summary: `${primary.brandName}: ${primary.result.summary}\n${partner.brandName}: ${partner.result.summary}`,
+        issues: [...primaryIssues, ...partnerIssues],
+        // The rewrite follows the lead brand's voice
+        correctedText: primary.result.correctedText,
+        // Both runs read the same pages; report the weaker coverage
+        coverage: [primary.result.coverage, partner.result.coverage]
+            .filter((c): c is AnalysisCoverage => !!c)
+            .sort((a, b) => a.analyzedPages - b.analyzedPages)[0]
+    };
+}
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BrandSettings } from '../types';
+import { analyzePaletteUsage, collectVisualPages } from './colorAnalysis';
+import { PixelData } from './rules';
+
+const solid = (width: number, height: number, paint: (x: number, y: number) => [number, number, number]): PixelData => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) data.set([...paint(x, y), 255], (y * width + x) * 4);
+    }
+    return { width, height, data };
+};
+
+// Synthetic images by their base64 payload: a red square in the top-left quarter
+// of an otherwise white page, and an all-white page
+const IMAGES: Record<string, PixelData> = {
+    'red-square': solid(40, 40, (x, y) => x < 20 && y < 20 ? [220, 30, 40] : [255, 255, 255]),
+    blank: solid(40, 40, () => [255, 255, 255])
+};
+
+// Decoding needs a browser; these stand in for Image and the 2D canvas
+let lastImage: FakeImage | undefined;
+const canvasSizes: [number, number][] = [];
+
+class FakeImage {
+    naturalWidth = 400;
+    naturalHeight = 400;
+    payload = '';
+    onload?: () => void;
+    onerror?: () => void;
+
+    constructor() {
+        lastImage = this;
+    }
+
+    set src(url: string) {
+        this.payload = url.slice(url.indexOf(',') + 1);
+        setTimeout(() => IMAGES[this.payload] ? this.onload?.() : this.onerror?.());
+    }
+}
+
+const settings: BrandSettings = {
+    brandName: 'Acme', mission: '', audience: '', toneVoice: '', styleGuide: '', bannedTerms: [], inclusiveLanguage: false,
+    designTokens: { palette: [{ id: 'blue', name: 'Acme Blue', hex: '#0055FF', tolerance: 5 }], allowNeutrals: true, fonts: [] }
+};
+
+describe('collectVisualPages', () => {
+    it('prefers rendered pages, then falls back to an uploaded image', () => {
+        const slides = [{ data: 'page-1', mimeType: 'image/png' }];
+        expect(collectVisualPages('abc', 'image/jpeg', slides)).toBe(slides);
+        expect(collectVisualPages('abc', 'image/jpeg')).toEqual([{ data: 'abc', mimeType: 'image/jpeg' }]);
+        expect(collectVisualPages('abc', 'application/pdf')).toEqual([]);
+        expect(collectVisualPages()).toEqual([]);
+    });
+});
+
+describe('analyzePaletteUsage', () => {
+    beforeEach(() => {
+        lastImage = undefined;
+        canvasSizes.length = 0;
+        vi.stubGlobal('Image', FakeImage);
+        vi.stubGlobal('document', {
+            createElement: () => {
+                const canvas = {
+                    width: 0,
+                    height: 0,
+                    getContext: () => ({
+                        drawImage: () => canvasSizes.push([canvas.width, canvas.height]),
+                        getImageData: () => IMAGES[lastImage!.payload]
+                    })
+                };
+                return canvas;
+            }
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('checks every page and numbers findings by page', async () => {
+        const issues = await analyzePaletteUsage([
+            { data: 'blank', mimeType: 'image/png' },
+            { data: 'red-square', mimeType: 'image/png' }
+        ], settings);
+
+        expect(issues.map(i => [i.id, i.page_number, i.boundingBox])).toEqual([
+            ['rule-palette-2-0', 2, { x: 0, y: 0, width: 50, height: 50 }]
+        ]);
+    });
+
+    it('downscales large images before measuring them', async () => {
+        await analyzePaletteUsage([{ data: 'blank', mimeType: 'image/png' }], settings);
+        expect(canvasSizes).toEqual([[160, 160]]);
+    });
+
+    it('skips pages that fail to decode', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const issues = await analyzePaletteUsage([
+            { data: 'corrupt', mimeType: 'image/png' },
+            { data: 'red-square', mimeType: 'image/png' }
+        ], settings);
+
+        expect(issues.map(i => i.page_number)).toEqual([2]);
+        expect(warn).toHaveBeenCalledWith('Palette check skipped for page 1:', expect.any(Error));
+    });
+
+    it('does nothing without a palette', async () => {
+        const issues = await analyzePaletteUsage([{ data: 'red-square', mimeType: 'image/png' }], { ...settings, designTokens: undefined });
+        expect(issues).toEqual([]);
+        expect(lastImage).toBeUndefined();
+    });
+});
@@ -0,0 +1,46 @@
+// Decodes visuals in the browser and measures them against the brand palette
+// (see rules/palette). Images are downscaled first: palette checks need color
+// areas, not detail, and a small raster keeps the pass well under a frame per page.
+import { BrandSettings, Issue } from '../types';
+import { checkPaletteUsage, PixelData } from './rules';
+
+const MAX_SIDE = 160;
+
+export type VisualPage = { data: string; mimeType: string };
+
+const decodePixels = (page: VisualPage): Promise<PixelData> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+        const scale = Math.min(1, MAX_SIDE / Math.max(img.naturalWidth, img.naturalHeight));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+        canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return reject(new Error('Canvas is not available'));
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    };
+    img.onerror = () => reject(new Error('Could not decode image'));
+    img.src = `data:${page.mimeType};base64,${page.data}`;
+});
+
+/** The visuals of an asset, in page order: rendered pages/slides, or the uploaded image itself. */
+export const collectVisualPages = (fileBase64?: string, mimeType?: string, visualSlides?: VisualPage[]): VisualPage[] => {
+    if (visualSlides?.length) return visualSlides;
+    return fileBase64 && mimeType?.startsWith('image/') ? [{ data: fileBase64, mimeType }] : [];
+};
+
+/** Off-palette findings for every page; pages that fail to decode are skipped. */
+export const analyzePaletteUsage = async (pages: VisualPage[], settings: BrandSettings): Promise<Issue[]> => {
+    if (!settings.designTokens?.palette.length || pages.length === 0) return [];
+
+    const issues: Issue[] = [];
+    for (let i = 0; i < pages.length; i++) {
+        try {
+            issues.push(...checkPaletteUsage(await decodePixels(pages[i]), settings.designTokens, i + 1));
+        } catch (error) {
+            console.warn(`Palette check skipped for page ${i + 1}:`, error);
+        }
+    }
+    return issues;
+};
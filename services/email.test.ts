@@ -0,0 +1,159 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { parseEML, toStoredEmail } from './email';
+
+const eml = (...lines: string[]) => new TextEncoder().encode(lines.join('\r\n')).buffer as ArrayBuffer;
+const base64 = (text: string) => Buffer.from(text, 'utf-8').toString('base64');
+
+// jsdom's File has no arrayBuffer()
+const readFile = (file: File) => new Promise<ArrayBuffer>(resolve => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.readAsArrayBuffer(file);
+});
+
+const PDF = '%PDF-1.4 price list';
+const PNG = '\x89PNG logo';
+
+const forwarded = [
+    'From: Partner Team <team@partner.example>',
+    'Subject: =?iso-8859-1?Q?R=E9sum=E9_of_the_offer?=',
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    'The offer runs until June.'
+];
+
+const newsletterHtml = `<html><head><title>Newsletter</title></head><body>
+<span style="display:none;max-height:0">Twenty percent off every plan this week.</span>
+<h1>Spring sale</h1>
+<p>Save on every plan until Sunday.</p>
+<img src="cid:logo@acme" alt="Acme logo">
+<p>© 2025 Acme Inc. <a href="https://acme.example/unsubscribe">Unsubscribe</a></p>
+</body></html>`;
+
+// multipart/mixed > multipart/related > multipart/alternative, with a cid image,
+// a PDF named by RFC 2231 continuations and a forwarded message
+const newsletter = eml(
+    'From: =?iso-8859-1?Q?Caf=E9?= Acme <news@acme.example>',
+    'To: reader@example.com',
+    'Subject: =?UTF-8?B?U3ByaW5nIHNhbGUg4oCT?=',
+    ' =?UTF-8?B?IDIwJSBvZmY=?=',
+    'List-Unsubscribe: <https://acme.example/unsubscribe>',
+    'MIME-Version: 1.0',
+    'Content-Type: multipart/mixed; boundary="mixed"',
+    '',
+    'This is a multi-part message in MIME format.',
+    '--mixed',
+    'Content-Type: multipart/related; boundary="related"',
+    '',
+    '--related',
+    'Content-Type: multipart/alternative; boundary="alt"',
+    '',
+    '--alt',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: quoted-printable',
+    '',
+    'Spring sale =E2=80=93 save on every plan.',
+    '--alt',
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64(newsletterHtml),
+    '--alt--',
+    '--related',
+    'Content-Type: image/png',
+    'Content-Transfer-Encoding: base64',
+    'Content-ID: <logo@acme>',
+    '',
+    btoa(PNG),
+    '--related--',
+    '--mixed',
+    'Content-Type: application/pdf',
+    'Content-Disposition: attachment;',
+    " filename*0*=utf-8''Preisliste%20%E2%82%AC;",
+    ' filename*1=".pdf"',
+    'Content-Transfer-Encoding: base64',
+    '',
+    btoa(PDF),
+    '--mixed',
+    'Content-Type: message/rfc822',
+    'Content-Disposition: attachment; filename="Forwarded.eml"',
+    '',
+    ...forwarded,
+    '--mixed--',
+    ''
+);
+
+const plain = eml(
+    'From: support@acme.example',
+    'Subject: Your order',
+    'Content-Type: text/plain; charset=iso-8859-1',
+    'Content-Transfer-Encoding: quoted-printable',
+    '',
+    'Caf=E9 au lait is on its =',
+    'way.',
+    '',
+    'Thanks for ordering.'
+);
+
+describe('parseEML', () => {
+    const parsed = parseEML(newsletter);
+
+    it('decodes encoded words in the subject and sender', () => {
+        expect(parsed.email.subject).toBe('Spring sale – 20% off');
+        expect(parsed.email.senderName).toBe('Café Acme');
+        expect(parsed.email.senderAddress).toBe('news@acme.example');
+        expect(parsed.email.listUnsubscribe).toBe('<https://acme.example/unsubscribe>');
+    });
+
+    it('reads the HTML body and takes the hidden preheader out of it', () => {
+        expect(parsed.email.htmlBody).toBe(true);
+        expect(parsed.email.preheader).toBe('Twenty percent off every plan this week.');
+        expect(parsed.text).toContain('Spring sale\n');
+        expect(parsed.text.match(/Twenty percent/g)).toHaveLength(1);
+        expect(parsed.text).not.toContain('Newsletter');
+    });
+
+    it('writes the header fields first, with spans into the text', () => {
+        expect(parsed.text.split('\n').slice(0, 5)).toEqual([
+            '[Subject] Spring sale – 20% off',
+            '[Preheader] Twenty percent off every plan this week.',
+            '[From] Café Acme <news@acme.example>',
+            '[Attachment] Preisliste €.pdf',
+            '[Attachment] Forwarded.eml'
+        ]);
+        parsed.email.elements.filter(e => e.span).forEach(e => expect(parsed.text.slice(e.span!.start, e.span!.end)).toBe(e.text));
+    });
+
+    it('lists attachments, joining RFC 2231 continuations, and leaves inline images out', () => {
+        expect(parsed.email.attachments).toEqual([
+            { fileName: 'Preisliste €.pdf', mimeType: 'application/pdf', size: PDF.length },
+            { fileName: 'Forwarded.eml', mimeType: 'message/rfc822', size: expect.any(Number) }
+        ]);
+        expect(parsed.files.map(f => [f.name, f.type])).toEqual([['Preisliste €.pdf', 'application/pdf'], ['Forwarded.eml', 'message/rfc822']]);
+    });
+
+    it('keeps a forwarded message readable as an email of its own', async () => {
+        const inner = parseEML(await readFile(parsed.files[1]));
+        expect(inner.email.subject).toBe('Résumé of the offer');
+        expect(inner.text).toContain('The offer runs until June.');
+    });
+
+    it('shows cid images inline in the preview', () => {
+        expect(parsed.html).toContain(`src="data:image/png;base64,${btoa(PNG)}"`);
+        expect(parsed.html).toContain('Preisliste €.pdf');
+    });
+
+    it('splits a quoted-printable plain-text body into paragraphs in its charset', () => {
+        const { text, email } = parseEML(plain);
+        expect(email.htmlBody).toBe(false);
+        expect(email.senderName).toBeUndefined();
+        expect(text).toBe('[Subject] Your order\n[From] support@acme.example\n\nCafé au lait is on its way.\n\nThanks for ordering.');
+        expect(email.elements.filter(e => e.ref.startsWith('b')).map(e => e.text)).toEqual(['Café au lait is on its way.', 'Thanks for ordering.']);
+    });
+
+    it('keeps attachments without their ingested files in history', () => {
+        const stored = toStoredEmail({ ...parsed.email, attachments: [{ fileName: 'a.pdf', mimeType: 'application/pdf', size: 3, asset: {} as never }] });
+        expect(stored.attachments).toEqual([{ fileName: 'a.pdf', mimeType: 'application/pdf', size: 3 }]);
+    });
+});
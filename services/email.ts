@@ -0,0 +1,304 @@
+// Reads emails (EML: RFC 5322 headers and MIME parts) into what a recipient sees:
+// subject, preheader and sender in the inbox, the HTML or plain-text body, and the
+// attached files. HTML bodies are read like web pages, so findings can be pinned to
+// their elements; the header fields are tagged the same way in the preview.
+import { EmailMessage, WebElement } from '../types';
+import { parseHTMLPage, REF_ATTRIBUTE } from './webPages';
+
+// Refs of the header fields in `EmailMessage.elements` and the preview
+export const HEADER_REFS = { subject: 'subject', preheader: 'preheader', sender: 'sender' } as const;
+
+/** The email as kept in history: attachments are listed without their ingested files. */
+export const toStoredEmail = (email: EmailMessage): EmailMessage => ({
+    ...email,
+    attachments: email.attachments.map(({ fileName, mimeType, size }) => ({ fileName, mimeType, size }))
+});
+
+// Deeper multipart nesting than this is not followed
+const MAX_DEPTH = 10;
+
+interface MimePart {
+    headers: Map<string, string>;
+    body: string; // Binary string, still transfer-encoded
+}
+
+interface MimeFile {
+    fileName: string;
+    mimeType: string;
+    binary: string;
+    contentId?: string;
+    inline: boolean; // Images the HTML body shows through cid: links
+}
+
+interface Collected {
+    text?: string;
+    html?: string;
+    files: MimeFile[];
+}
+
+const collapse = (value: string | null | undefined) => (value || '').replace(/[\s\u200b-\u200d\u034f\ufeff]+/g, ' ').trim();
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// One char per byte, so the MIME structure can be read before any charset is known
+const toBinary = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return binary;
+};
+
+const toBytes = (binary: string): Uint8Array => Uint8Array.from(binary, c => c.charCodeAt(0) & 0xff);
+
+const decodeCharset = (binary: string, charset = 'utf-8'): string => {
+    try {
+        return new TextDecoder(charset.trim().toLowerCase()).decode(toBytes(binary));
+    } catch {
+        return new TextDecoder().decode(toBytes(binary));
+    }
+};
+
+const decodeHex = (value: string, marker: string) =>
+    value.replace(new RegExp(`${escapeRegExp(marker)}([0-9A-Fa-f]{2})`, 'g'), (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+
+const decodeTransfer = (body: string, encoding = ''): string => {
+    const kind = encoding.trim().toLowerCase();
+    if (kind === 'base64') {
+        try {
+            return atob(body.replace(/[^A-Za-z0-9+/=]/g, ''));
+        } catch {
+            return '';
+        }
+    }
+    if (kind === 'quoted-printable') return decodeHex(body.replace(/=\r?\n/g, ''), '=');
+    return body;
+};
+
+// RFC 2047 encoded words: "=?UTF-8?B?...?=" or "=?iso-8859-1?Q?Caf=E9?="
+const decodeWords = (value: string): string => value
+    // Whitespace between two encoded words is not part of the text
+    .replace(/(\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, kind: string, data: string) => decodeCharset(
+        kind.toUpperCase() === 'B' ? decodeTransfer(data, 'base64') : decodeHex(data.replace(/_/g, ' '), '='),
+        charset.split('*')[0]
+    ));
+
+const parseHeaders = (block: string): Map<string, string> => {
+    const headers = new Map<string, string>();
+    block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).forEach(line => {
+        const colon = line.indexOf(':');
+        if (colon <= 0) return;
+        const name = line.slice(0, colon).trim().toLowerCase();
+        // Raw 8-bit header text is UTF-8 in practice
+        if (!headers.has(name)) headers.set(name, decodeCharset(line.slice(colon + 1).trim()));
+    });
+    return headers;
+};
+
+const parsePart = (raw: string): MimePart => {
+    // A part without headers starts with the blank line
+    if (/^\r?\n/.test(raw)) return { headers: new Map(), body: raw.replace(/^\r?\n/, '') };
+    const blank = raw.match(/\r?\n\r?\n/);
+    if (!blank || blank.index === undefined) return { headers: parseHeaders(raw), body: '' };
+    return { headers: parseHeaders(raw.slice(0, blank.index)), body: raw.slice(blank.index + blank[0].length) };
+};
+
+/**
+ * "text/html; charset=utf-8" -> value and parameters. Parameters split by RFC 2231
+ * (filename*0*=utf-8''%E2%82%AC; filename*1=.pdf) are joined and decoded.
+ */
+const parseParams = (header = ''): { value: string; params: Map<string, string> } => {
+    const [value, ...rest] = header.split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+    const segments = new Map<string, { index: number; value: string; encoded: boolean }[]>();
+    rest.forEach(param => {
+        const eq = param.indexOf('=');
+        const name = param.slice(0, eq).trim().toLowerCase().match(/^([^*]+)(?:\*(\d+))?(\*)?$/);
+        if (eq < 0 || !name) return;
+        const list = segments.get(name[1]) || [];
+        list.push({ index: parseInt(name[2] || '0', 10), value: param.slice(eq + 1).trim().replace(/^"([\s\S]*)"$/, '$1'), encoded: !!name[3] });
+        segments.set(name[1], list);
+    });
+
+    const params = new Map<string, string>();
+    segments.forEach((list, name) => {
+        let charset = '';
+        const binary = list.sort((a, b) => a.index - b.index).map(({ value: segment, encoded }) => {
+            if (!encoded) return segment;
+            const prefixed = segment.match(/^([^']*)'[^']*'([\s\S]*)$/);
+            if (prefixed) charset = charset || prefixed[1];
+            return decodeHex(prefixed ? prefixed[2] : segment, '%');
+        }).join('');
+        params.set(name, charset ? decodeCharset(binary, charset) : decodeWords(binary));
+    });
+    return { value: value.trim().toLowerCase(), params };
+};
+
+const splitMultipart = (body: string, boundary: string): string[] => {
+    const delimiter = new RegExp(`(?:^|\\r?\\n)--${escapeRegExp(boundary)}(--)?[ \\t]*(?:\\r?\\n|$)`, 'g');
+    const parts: string[] = [];
+    let start = -1;
+    for (const match of body.matchAll(delimiter)) {
+        if (start >= 0) parts.push(body.slice(start, match.index));
+        if (match[1]) return parts;
+        start = (match.index ?? 0) + match[0].length;
+    }
+    // No closing delimiter: the last part runs to the end
+    if (start >= 0) parts.push(body.slice(start));
+    return parts;
+};
+
+// The first text/plain and text/html parts are the body; the rest are files
+const collect = (part: MimePart, found: Collected, depth = 0) => {
+    const { value: type, params } = parseParams(part.headers.get('content-type') || 'text/plain');
+    const disposition = parseParams(part.headers.get('content-disposition'));
+    const boundary = params.get('boundary');
+    if (type.startsWith('multipart/') && boundary && depth < MAX_DEPTH) {
+        splitMultipart(part.body, boundary).forEach(raw => collect(parsePart(raw), found, depth + 1));
+        return;
+    }
+
+    const binary = decodeTransfer(part.body, part.headers.get('content-transfer-encoding'));
+    const fileName = disposition.params.get('filename') || params.get('name');
+    if (disposition.value !== 'attachment' && !fileName && (type === 'text/plain' || type === 'text/html')) {
+        const key = type === 'text/html' ? 'html' : 'text';
+        if (found[key] === undefined) {
+            found[key] = decodeCharset(binary, params.get('charset'));
+            return;
+        }
+    }
+
+    const contentId = part.headers.get('content-id')?.replace(/^<|>$/g, '');
+    found.files.push({
+        fileName: fileName || (type === 'message/rfc822' ? 'message.eml' : `attachment-${found.files.length + 1}`),
+        mimeType: type,
+        binary,
+        contentId,
+        inline: !!contentId && disposition.value !== 'attachment' && type.startsWith('image/')
+    });
+};
+
+// "Acme News" <news@acme.com>, Acme <news@acme.com> or news@acme.com
+const parseAddress = (value: string): { senderName?: string; senderAddress?: string } => {
+    const angle = value.match(/^([\s\S]*?)<([^>]*)>/);
+    if (!angle) return { senderAddress: value.trim() || undefined };
+    const name = angle[1].trim().replace(/^"([\s\S]*)"$/, '$1').replace(/\\(.)/g, '$1').trim();
+    return { senderName: name || undefined, senderAddress: angle[2].trim() || undefined };
+};
+
+// Preheaders are hidden in the body, so only mail clients show them next to the subject
+const PREHEADER_STYLE = /display\s*:\s*none|max-height\s*:\s*0|opacity\s*:\s*0|font-size\s*:\s*0|mso-hide\s*:\s*all/i;
+
+const findPreheader = (doc: Document): Element | undefined =>
+    Array.from(doc.body?.querySelectorAll('div, span, p, td') || []).find(el =>
+        (PREHEADER_STYLE.test(el.getAttribute('style') || '') || /preheader|preview/i.test(el.getAttribute('class') || ''))
+        && !el.querySelector('img, table') && collapse(el.textContent) !== '');
+
+// Shown above the body in the preview; inline styles, as the page's own CSS applies around it
+const headerBlock = (doc: Document, rows: [string | undefined, string, string | undefined][]) => {
+    const block = doc.createElement('div');
+    block.setAttribute('style', 'font: 13px/1.5 system-ui, sans-serif; color: #334155; background: #f8fafc; border-bottom: 1px solid #e2e8f0; padding: 12px 16px; margin: 0 0 16px;');
+    rows.forEach(([ref, label, value]) => {
+        if (!value) return;
+        const row = doc.createElement('div');
+        if (ref) row.setAttribute(REF_ATTRIBUTE, ref);
+        const name = doc.createElement('strong');
+        name.textContent = `${label}: `;
+        row.append(name, value);
+        block.append(row);
+    });
+    return block;
+};
+
+/**
+ * Parses an EML file. Returns the email as text for the text checks ("[Subject] ...",
+ * "[Preheader] ...", "[From] ...", then the body), the preview HTML with scripts
+ * removed and inline images resolved, and the attached files for ingestion.
+ */
+export const parseEML = (arrayBuffer: ArrayBuffer): { text: string; html: string; email: EmailMessage; files: File[] } => {
+    const root = parsePart(toBinary(new Uint8Array(arrayBuffer)));
+    const found: Collected = { files: [] };
+    collect(root, found);
+
+    const subject = collapse(decodeWords(root.headers.get('subject') || '')) || undefined;
+    const { senderName, senderAddress } = parseAddress(decodeWords(root.headers.get('from') || ''));
+    const sender = senderName && senderAddress ? `${senderName} <${senderAddress}>` : senderName || senderAddress;
+    const attachments = found.files.filter(f => !f.inline);
+
+    let preheader: string | undefined;
+    let body: { text: string; elements: WebElement[]; doc: Document };
+    if (found.html !== undefined) {
+        const source = new DOMParser().parseFromString(found.html, 'text/html');
+        const hidden = findPreheader(source);
+        preheader = collapse(hidden?.textContent) || undefined;
+        hidden?.remove();
+        // The <title> of an email is never shown
+        source.querySelectorAll('title, meta').forEach(el => el.remove());
+        const page = parseHTMLPage(`<!DOCTYPE html>\n${source.documentElement.outerHTML}`);
+        body = { text: page.text, elements: page.webPage.elements, doc: new DOMParser().parseFromString(page.html, 'text/html') };
+    } else {
+        const doc = new DOMParser().parseFromString('<!DOCTYPE html><html><body style="font: 14px/1.6 system-ui, sans-serif; margin: 0;"></body></html>', 'text/html');
+        let text = '';
+        const elements = (found.text || '').split(/\r?\n[ \t]*\r?\n/).map(p => p.trim()).filter(Boolean).map((paragraph, i): WebElement => {
+            if (text) text += '\n\n';
+            const span = { start: text.length, end: text.length + paragraph.length };
+            text += paragraph;
+            const el = doc.createElement('p');
+            el.setAttribute(REF_ATTRIBUTE, `b${i + 1}`);
+            el.setAttribute('style', 'white-space: pre-wrap; margin: 0 16px 1em;');
+            el.textContent = paragraph;
+            doc.body.append(el);
+            return { ref: `b${i + 1}`, kind: 'copy', text: paragraph, span };
+        });
+        body = { text, elements, doc };
+    }
+
+    let text = '';
+    const elements: WebElement[] = [];
+    const field = (ref: string | undefined, label: string, value: string | undefined) => {
+        if (!value) return;
+        if (text) text += '\n';
+        text += `${label} `;
+        const start = text.length;
+        text += value;
+        if (ref) elements.push({ ref, kind: 'copy', text: value, span: { start, end: text.length } });
+    };
+    field(HEADER_REFS.subject, '[Subject]', subject);
+    field(HEADER_REFS.preheader, '[Preheader]', preheader);
+    field(HEADER_REFS.sender, '[From]', sender);
+    attachments.forEach(file => field(undefined, '[Attachment]', file.fileName));
+
+    if (body.text) {
+        if (text) text += '\n\n';
+        const offset = text.length;
+        text += body.text;
+        elements.push(...body.elements.map(e => e.span ? { ...e, span: { start: e.span.start + offset, end: e.span.end + offset } } : e));
+    }
+
+    const { doc } = body;
+    doc.body.prepend(headerBlock(doc, [
+        [HEADER_REFS.sender, 'From', sender],
+        [HEADER_REFS.subject, 'Subject', subject],
+        [HEADER_REFS.preheader, 'Preheader', preheader],
+        [undefined, 'Attachments', attachments.map(f => f.fileName).join(', ')]
+    ]));
+    doc.querySelectorAll('img[src^="cid:" i]').forEach(img => {
+        const id = img.getAttribute('src')?.slice(4);
+        const file = found.files.find(f => f.contentId === id);
+        if (file) img.setAttribute('src', `data:${file.mimeType};base64,${btoa(file.binary)}`);
+    });
+
+    return {
+        text,
+        html: `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`,
+        email: {
+            subject,
+            preheader,
+            senderName,
+            senderAddress,
+            listUnsubscribe: root.headers.get('list-unsubscribe') || undefined,
+            htmlBody: found.html !== undefined,
+            elements,
+            attachments: attachments.map(f => ({ fileName: f.fileName, mimeType: f.mimeType, size: f.binary.length }))
+        },
+        files: attachments.map(f => new File([toBytes(f.binary)], f.fileName, { type: f.mimeType }))
+    };
+};
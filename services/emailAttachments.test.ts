@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisResult, Issue } from '../types';
+import { mergeAttachmentResults } from './emailAttachments';
+
+const issue = (id: string, fields: Partial<Issue> = {}): Issue => ({
+    id,
+    category: 'Brand',
+    subcategory: 'Tone',
+    description: '',
+    rationale: '',
+    fix: '',
+    severity: 'Low',
+    blocking: false,
+    fixType: 'Manual',
+    ...fields
+});
+
+const result = (fields: Partial<AnalysisResult>): AnalysisResult => ({ safetyStatus: 'Safe', summary: '', brandScore: 100, issues: [], ...fields });
+
+describe('mergeAttachmentResults', () => {
+    it('returns the email result when there are no attachments', () => {
+        const email = result({ summary: 'Fine.' });
+        expect(mergeAttachmentResults(email, [])).toBe(email);
+    });
+
+    it('takes the worst status and lowest score of the email and its attachments', () => {
+        const merged = mergeAttachmentResults(result({ safetyStatus: 'Caution', brandScore: 90, summary: 'Email.' }), [
+            { fileName: 'a.pdf', result: result({ safetyStatus: 'Unsafe', brandScore: 95, summary: 'Risky claim.' }) },
+            { fileName: 'b.png', result: result({ brandScore: 70, summary: 'Off-brand.' }) }
+        ]);
+        expect(merged.safetyStatus).toBe('Unsafe');
+        expect(merged.brandScore).toBe(70);
+        expect(merged.summary).toBe('Email.\na.pdf: Risky claim.\nb.png: Off-brand.');
+    });
+
+    it('tags attachment issues with their file and drops locations that point into the attachment', () => {
+        const found = issue('rule-banned-leverage-4', {
+            fixType: 'Deterministic',
+            span: { start: 4, end: 12 },
+            patch: { span: { start: 4, end: 12 }, replacement: 'use' },
+            page_number: 2,
+            boundingBox: { x: 0, y: 0, width: 10, height: 10 }
+        });
+        const merged = mergeAttachmentResults(result({ issues: [issue('email-1')] }), [{ fileName: 'deck.pdf', result: result({ issues: [found] }) }]);
+
+        expect(merged.issues.map(i => i.id)).toEqual(['email-1', 'attachment-0:rule-banned-leverage-4']);
+        expect(merged.issues[1]).toMatchObject({ attachment: 'deck.pdf', fixType: 'Manual' });
+        expect(merged.issues[1]).not.toHaveProperty('span');
+        expect(merged.issues[1]).not.toHaveProperty('patch');
+        expect(merged.issues[1]).not.toHaveProperty('page_number');
+    });
+
+    it('reports attachments that could not be checked without changing the score', () => {
+        const merged = mergeAttachmentResults(result({ brandScore: 85 }), [{ fileName: 'archive.rar' }]);
+        expect(merged.brandScore).toBe(85);
+        expect(merged.issues).toMatchObject([{ id: 'attachment-0:unchecked', ruleId: 'attachment:unchecked', attachment: 'archive.rar' }]);
+    });
+});
@@ -0,0 +1,57 @@
+// Email attachments are analyzed one by one like uploads; this folds their results
+// into the email's result, tagging every issue with the file that raised it.
+import { AnalysisResult, Issue, SafetyStatus } from '../types';
+
+export interface AttachmentResult {
+    fileName: string;
+    result?: AnalysisResult; // Unset when the attachment could not be read
+}
+
+const STATUS_RANK: Record<SafetyStatus, number> = { 'Safe': 0, 'Caution': 1, 'Unsafe': 2 };
+
+// Locations refer to the attachment, not to the email preview, and its text
+// cannot be patched from here
+const fromAttachment = (issue: Issue, index: number, fileName: string): Issue => {
+    const { span, patch, boundingBox, page_number, timestamp, elementRef, ...rest } = issue;
+    return {
+        ...rest,
+        id: `attachment-${index}:${issue.id}`,
+        fixType: patch ? 'Manual' : issue.fixType,
+        attachment: fileName
+    };
+};
+
+const unchecked = (index: number, fileName: string): Issue => ({
+    id: `attachment-${index}:unchecked`,
+    category: 'Compliance',
+    subcategory: 'Attachment',
+    description: `Attachment "${fileName}" could not be checked.`,
+    rationale: 'It could not be read or analyzed, so it was not reviewed with the email.',
+    fix: 'Review the attachment separately, or attach it as a PDF, Office file or image.',
+    severity: 'Low',
+    blocking: false,
+    fixType: 'Manual',
+    source: 'rule',
+    ruleId: 'attachment:unchecked',
+    attachment: fileName
+});
+
+export function mergeAttachmentResults(email: AnalysisResult, attachments: AttachmentResult[]): AnalysisResult {
+    if (attachments.length === 0) return email;
+    const analyzed = attachments.filter((a): a is Required<AttachmentResult> => !!a.result);
+
+    return {
+        ...email,
+        safetyStatus: analyzed.reduce<SafetyStatus>((worst, { result }) =>
+            STATUS_RANK[result.safetyStatus] > STATUS_RANK[worst] ? result.safetyStatus : worst, email.safetyStatus),
+        // An email is only as aligned as its weakest attachment
+        brandScore: Math.min(email.brandScore, ...analyzed.map(({ result }) => result.brandScore)),
+        summary: [email.summary, ...analyzed.map(({ fileName, result }) => `${fileName}: ${result.summary}`)].join('\n'),
+        issues: [
+            ...email.issues,
+            ...attachments.flatMap(({ fileName, result }, index) => result
+                ? result.issues.map(issue => fromAttachment(issue, index, fileName))
+                : [unchecked(index, fileName)])
+        ]
+    };
+}
@@ -0,0 +1,135 @@
+// Reads a brand manual (PDF, DOCX, TXT) into BrandSettings proposals. The full text
+// is split into chunks, each chunk is extracted separately, and every proposed value
+// keeps the passage it came from so a reviewer can check it before merging.
+import { BannedTerm, BrandSettings, IngestedAsset } from '../types';
+import { ingestAsset } from './ingestion';
+import { extractGuidelines } from './gemini';
+import { GuidelineField } from './providers';
+import { parseBannedTerms } from './rules';
+
+// Large enough to keep a manual section together, small enough for one model call
+const CHUNK_SIZE = 8000;
+
+export interface GuidelineSource {
+    passage: string;
+    chunkIndex: number;
+    verified: boolean; // The passage was found in the manual text
+}
+
+export interface ProposedGuideline {
+    field: GuidelineField;
+    value: string | boolean | BannedTerm[];
+    sources: GuidelineSource[];
+}
+
+export interface GuidelineExtraction {
+    fileName: string;
+    chunkCount: number;
+    proposals: ProposedGuideline[];
+}
+
+const FIELD_ORDER: GuidelineField[] = ['brandName', 'mission', 'audience', 'toneVoice', 'styleGuide', 'bannedTerms', 'inclusiveLanguage'];
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/** Plain text of an ingested asset; for PDFs this is the extracted text layer. */
+export const getIngestedText = (asset: IngestedAsset): string => {
+    return typeof asset.content === 'string' ? asset.content : '';
+};
+
+/** Splits on paragraph boundaries; a single oversized paragraph is cut hard. */
+export const chunkText = (text: string, size = CHUNK_SIZE): string[] => {
+    const chunks: string[] = [];
+    let current = '';
+
+    text.split(/\n\s*\n/).forEach(paragraph => {
+        if (current && current.length + paragraph.length + 2 > size) {
+            chunks.push(current);
+            current = '';
+        }
+        for (let start = 0; start < paragraph.length; start += size) {
+            const piece = paragraph.slice(start, start + size);
+            if (current.length + piece.length + 2 > size && current) {
+                chunks.push(current);
+                current = '';
+            }
+            current = current ? `${current}\n\n${piece}` : piece;
+        }
+    });
+    if (current.trim()) chunks.push(current);
+    return chunks;
+};
+
+const uniqueJoin = (values: string[], separator: string) => {
+    const seen = new Set<string>();
+    return values.filter(v => {
+        const key = normalize(v);
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    }).join(separator);
+};
+
+// Folds the values proposed for one field across all chunks into a single value
+const combineValues = (field: GuidelineField, values: string[]): ProposedGuideline['value'] => {
+    switch (field) {
+        case 'brandName':
+            return values[0].trim();
+        case 'inclusiveLanguage':
+            return values.some(v => v.trim().toLowerCase() === 'true');
+        case 'bannedTerms': {
+            // Ids are slug-based, so they stay unique once duplicate terms are dropped
+            const terms = values.flatMap(v => parseBannedTerms(v));
+            return terms.filter((t, i) => terms.findIndex(o => o.term === t.term) === i);
+        }
+        default:
+            return uniqueJoin(values.map(v => v.trim()), '\n\n');
+    }
+};
+
+export const extractGuidelinesFromManual = async (
+    file: File,
+    onProgress?: (progress: number) => void
+): Promise<GuidelineExtraction> => {
+    const asset = await ingestAsset(file);
+    const text = getIngestedText(asset);
+    if (!text.trim()) throw new Error(`No readable text found in ${file.name}`);
+
+    const chunks = chunkText(text);
+    const byField = new Map<GuidelineField, { values: string[]; sources: GuidelineSource[] }>();
+
+    // Sequential on purpose: keeps within provider rate limits and gives honest progress
+    for (let i = 0; i < chunks.length; i++) {
+        const proposals = await extractGuidelines(chunks[i]);
+        const haystack = normalize(chunks[i]);
+
+        proposals.forEach(proposal => {
+            if (!FIELD_ORDER.includes(proposal.field) || !proposal.value?.trim()) return;
+            const entry = byField.get(proposal.field) || { values: [], sources: [] };
+            entry.values.push(proposal.value);
+            entry.sources.push({
+                passage: proposal.sourcePassage,
+                chunkIndex: i,
+                verified: !!proposal.sourcePassage && haystack.includes(normalize(proposal.sourcePassage))
+            });
+            byField.set(proposal.field, entry);
+        });
+
+        onProgress?.(Math.round(((i + 1) / chunks.length) * 100));
+    }
+
+    return {
+        fileName: file.name,
+        chunkCount: chunks.length,
+        proposals: FIELD_ORDER
+            .filter(field => byField.has(field))
+            .map(field => {
+                const { values, sources } = byField.get(field)!;
+                return { field, value: combineValues(field, values), sources };
+            })
+    };
+};
+
+/** Applies the accepted proposals on top of the current settings. */
+export const mergeGuidelineProposals = (settings: BrandSettings, proposals: ProposedGuideline[]): BrandSettings =>
+    proposals.reduce<BrandSettings>((merged, proposal) => ({ ...merged, [proposal.field]: proposal.value }), settings);
@@ -0,0 +1,41 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { LEGACY_HISTORY_KEY, loadHistory, migrateLegacyHistory } from './historyStore';
+
+describe('migrateLegacyHistory', () => {
+    beforeEach(() => localStorage.clear());
+
+    it('moves legacy entries into the database, even without an id or a readable date', async () => {
+        localStorage.setItem(LEGACY_HISTORY_KEY, JSON.stringify([
+            { id: 1714000000000, filename: 'launch.pdf', date: '2024-04-25T00:00:00.000Z', safetyStatus: 'Safe', issuesCount: 0 },
+            { filename: 'memo.txt', date: '2024-03-01T00:00:00.000Z', score: 75, issues: 3 },
+            { filename: 'notes.txt', date: 'last Tuesday', score: 40 }
+        ]));
+
+        expect(await migrateLegacyHistory()).toBe(3);
+
+        // By id: the undated entry has no place in the newest-first order
+        const history = (await loadHistory()).sort((a, b) => b.id - a.id);
+        expect(history.map(h => [h.id, h.filename, h.safetyStatus, h.issuesCount, h.hasRecord])).toEqual([
+            [1714000000000, 'launch.pdf', 'Safe', 0, false],
+            [Date.parse('2024-03-01T00:00:00.000Z') + 1, 'memo.txt', 'Caution', 3, false],
+            [3, 'notes.txt', 'Unsafe', 0, false]
+        ]);
+        expect(localStorage.getItem(LEGACY_HISTORY_KEY)).toBeNull();
+    });
+
+    it('clears unreadable legacy history instead of failing on every load', async () => {
+        const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+        localStorage.setItem(LEGACY_HISTORY_KEY, '[{"filename": ');
+
+        expect(await migrateLegacyHistory()).toBe(0);
+        expect(localStorage.getItem(LEGACY_HISTORY_KEY)).toBeNull();
+        expect(error).toHaveBeenCalledWith('Failed to parse legacy history', expect.any(SyntaxError));
+        error.mockRestore();
+    });
+
+    it('does nothing once migrated', async () => {
+        expect(await migrateLegacyHistory()).toBe(0);
+    });
+});
@@ -0,0 +1,168 @@
+// IndexedDB persistence for analysis history.
+// Two stores: lightweight HistoryItem summaries for lists and analytics, and full
+// AnalysisRecords (result, upload metadata, previews) loaded only when a run is reopened.
+// A third holds campaigns, which group history entries.
+import { AnalysisRecord, Campaign, HistoryItem, Issue, IssueCategory } from '../types';
+
+const DB_NAME = 'brandai';
+const DB_VERSION = 2; // v2 added the campaign store
+const HISTORY_STORE = 'history';
+const RECORD_STORE = 'analyses';
+const CAMPAIGN_STORE = 'campaigns';
+
+// localStorage key used before history moved to IndexedDB
+export const LEGACY_HISTORY_KEY = 'brandai_history';
+
+// Previews above this size are dropped to keep the database small
+const MAX_PREVIEW_BYTES = 25 * 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+                    db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(RECORD_STORE)) {
+                    db.createObjectStore(RECORD_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(CAMPAIGN_STORE)) {
+                    db.createObjectStore(CAMPAIGN_STORE, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+
+// Rough size of the preview payload (base64 strings dominate)
+const previewSize = (record: AnalysisRecord): number => {
+    const p = record.preview;
+    if (!p) return 0;
+    return (p.fileBase64?.length || 0) + (p.htmlPreview?.length || 0) +
+        (p.visualSlides || []).reduce((sum, s) => sum + s.data.length, 0);
+};
+
+export const countCategories = (issues: Issue[]): Partial<Record<IssueCategory, number>> => {
+    const counts: Partial<Record<IssueCategory, number>> = {};
+    issues.forEach(issue => {
+        counts[issue.category] = (counts[issue.category] || 0) + 1;
+    });
+    return counts;
+};
+
+/** Newest first. */
+export const loadHistory = async (): Promise<HistoryItem[]> => {
+    const db = await openDatabase();
+    const items = await promisify(db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).getAll() as IDBRequest<HistoryItem[]>);
+    return items.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+};
+
+export const saveHistoryItems = async (items: HistoryItem[]): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(HISTORY_STORE, 'readwrite');
+    items.forEach(item => tx.objectStore(HISTORY_STORE).put(item));
+    await transactionDone(tx);
+};
+
+/** Stores the summary and the full record together so they never drift apart. */
+export const saveAnalysis = async (item: HistoryItem, record: AnalysisRecord): Promise<void> => {
+    const toStore = previewSize(record) > MAX_PREVIEW_BYTES ? { ...record, preview: undefined } : record;
+
+    const db = await openDatabase();
+    const tx = db.transaction([HISTORY_STORE, RECORD_STORE], 'readwrite');
+    tx.objectStore(HISTORY_STORE).put({ ...item, hasRecord: true });
+    tx.objectStore(RECORD_STORE).put(toStore);
+    await transactionDone(tx);
+};
+
+export const getAnalysisRecord = async (id: number): Promise<AnalysisRecord | undefined> => {
+    const db = await openDatabase();
+    return promisify(db.transaction(RECORD_STORE).objectStore(RECORD_STORE).get(id) as IDBRequest<AnalysisRecord | undefined>);
+};
+
+/** Records for the given ids, read in one transaction; ids without a record are skipped. */
+export const getAnalysisRecords = async (ids: number[]): Promise<AnalysisRecord[]> => {
+    const db = await openDatabase();
+    const store = db.transaction(RECORD_STORE).objectStore(RECORD_STORE);
+    const records = await Promise.all(ids.map(id => promisify(store.get(id) as IDBRequest<AnalysisRecord | undefined>)));
+    return records.filter((r): r is AnalysisRecord => !!r);
+};
+
+/** Newest first. */
+export const loadCampaigns = async (): Promise<Campaign[]> => {
+    const db = await openDatabase();
+    const campaigns = await promisify(db.transaction(CAMPAIGN_STORE).objectStore(CAMPAIGN_STORE).getAll() as IDBRequest<Campaign[]>);
+    return campaigns.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+};
+
+export const saveCampaign = async (campaign: Campaign): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(CAMPAIGN_STORE, 'readwrite');
+    tx.objectStore(CAMPAIGN_STORE).put(campaign);
+    await transactionDone(tx);
+};
+
+/** Removes the grouping only; the member analyses stay in the history. */
+export const deleteCampaign = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(CAMPAIGN_STORE, 'readwrite');
+    tx.objectStore(CAMPAIGN_STORE).delete(id);
+    await transactionDone(tx);
+};
+
+/**
+ * Moves summaries from the old localStorage key into IndexedDB. Legacy entries
+ * have no stored result, so they stay listable but cannot be reopened.
+ * Returns the number of migrated entries.
+ */
+export const migrateLegacyHistory = async (): Promise<number> => {
+    const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+    if (!saved) return 0;
+
+    let parsed: any[] = [];
+    try {
+        parsed = JSON.parse(saved);
+    } catch (e) {
+        console.error("Failed to parse legacy history", e);
+    }
+
+    const items: HistoryItem[] = (Array.isArray(parsed) ? parsed : []).map((item: any, index: number) => {
+        const date = Date.parse(item.date);
+        return {
+            ...item,
+            // Ids are timestamps; entries without a readable date get one far below them
+            id: item.id ?? (Number.isNaN(date) ? index + 1 : date + index),
+            // Older entries stored a numeric score instead of a status
+            safetyStatus: item.safetyStatus || (item.score >= 90 ? 'Safe' : item.score >= 70 ? 'Caution' : 'Unsafe'),
+            issuesCount: item.issuesCount || item.issues || 0,
+            hasRecord: false
+        };
+    });
+
+    await saveHistoryItems(items);
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+    return items.length;
+};
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisRecord, AnalysisResult, AssetType, AudienceScope, BannedTerm, BrandSettings, CommunicationContext, HistoryItem, Issue } from '../types';
+import { GovernanceProvider, createLocalProvider, setGovernanceProvider } from './providers';
+import { getAnalysisRecords } from './historyStore';
+import { simulateGuidelineImpact } from './impactSimulation';
+
+vi.mock('./historyStore', () => ({ getAnalysisRecords: vi.fn() }));
+
+const banned = (term: string, severity: BannedTerm['severity'] = 'High'): BannedTerm => ({ id: term, term, severity });
+
+const settings = (bannedTerms: BannedTerm[]): BrandSettings => ({
+    brandName: 'Acme', mission: '', audience: '', toneVoice: '', styleGuide: '', bannedTerms, inclusiveLanguage: false
+});
+
+const modelIssue: Issue = {
+    id: 'model-1', category: 'Brand', subcategory: 'Tone', description: 'Too formal.', rationale: '', fix: '',
+    severity: 'Low', blocking: false, fixType: 'Manual', source: 'model'
+};
+
+const record = (id: number, textInput: string, assetType: AssetType, context: CommunicationContext, result: Partial<AnalysisResult> = {}): AnalysisRecord => ({
+    id,
+    createdAt: '2025-05-01T00:00:00.000Z',
+    result: { safetyStatus: 'Safe', brandScore: 100, summary: '', issues: [], ...result },
+    upload: {
+        fileName: `asset-${id}.txt`, textInput, context, region: 'Global', assetType, additionalContext: '',
+        detectedConfidence: 1, audienceScope: AudienceScope.EXTERNAL
+    },
+    brandSettingsVersion: 'v1'
+});
+
+const historyItem = (id: number, hasRecord = true): HistoryItem => ({
+    id, filename: `asset-${id}.txt`, type: AssetType.BLOG_POST, date: '', safetyStatus: 'Safe',
+    context: CommunicationContext.MARKETING, region: 'Global', issuesCount: 0, hasRecord
+});
+
+const records = [
+    // Newly banned term: Caution (the model's tone finding) -> Unsafe
+    record(1, 'We leverage data.', AssetType.BLOG_POST, CommunicationContext.MARKETING, { safetyStatus: 'Caution', brandScore: 95, issues: [modelIssue] }),
+    // Unaffected by the edit
+    record(2, 'Plain words only.', AssetType.BLOG_POST, CommunicationContext.SALES),
+    // Term no longer banned: Caution -> Safe
+    record(3, 'Our synergy plan.', AssetType.MEMO, CommunicationContext.SALES, { safetyStatus: 'Caution', brandScore: 90 }),
+    // Nothing to re-check without a model
+    record(4, '  ', AssetType.BLOG_POST, CommunicationContext.MARKETING)
+];
+
+const current = settings([banned('synergy', 'Medium')]);
+const draft = settings([banned('leverage')]);
+
+describe('simulateGuidelineImpact', () => {
+    beforeEach(() => {
+        vi.mocked(getAnalysisRecords).mockImplementation(async ids => records.filter(r => ids.includes(r.id)));
+    });
+
+    afterEach(() => {
+        setGovernanceProvider(null);
+    });
+
+    it('re-runs the rule checks with both guideline sets and reports verdict changes', async () => {
+        const progress: number[] = [];
+        const report = await simulateGuidelineImpact([1, 2, 3, 4].map(id => historyItem(id)), 'acme', current, draft, { onProgress: p => progress.push(p) });
+
+        expect(report).toMatchObject({ checked: 3, skipped: 1, usedModel: false });
+        expect(report.changes.map(c => [c.id, c.before, c.after, c.scoreBefore, c.scoreAfter])).toEqual([
+            [1, 'Caution', 'Unsafe', 95, 75],
+            [3, 'Caution', 'Safe', 90, 100]
+        ]);
+        expect(report.changes[0].newFindings).toEqual(['Banned term "leverage" used.']);
+        expect(report.changes[1].clearedFindings).toEqual(['Banned term "synergy" used.']);
+        expect(progress).toEqual([25, 50, 75, 100]);
+    });
+
+    it('counts transitions and breaks them down by asset type and context', async () => {
+        const report = await simulateGuidelineImpact([1, 2, 3].map(id => historyItem(id)), 'acme', current, draft);
+
+        expect(report.transitions).toEqual([{ from: 'Caution', to: 'Unsafe', count: 1 }, { from: 'Caution', to: 'Safe', count: 1 }]);
+        expect(report.byAssetType).toEqual([
+            { key: AssetType.BLOG_POST, checked: 2, worse: 1, better: 0 },
+            { key: AssetType.MEMO, checked: 1, worse: 0, better: 1 }
+        ]);
+        expect(report.byContext).toEqual([
+            { key: CommunicationContext.SALES, checked: 2, worse: 0, better: 1 },
+            { key: CommunicationContext.MARKETING, checked: 1, worse: 1, better: 0 }
+        ]);
+    });
+
+    it('skips legacy entries without a stored record', async () => {
+        const report = await simulateGuidelineImpact([historyItem(1), historyItem(99, false)], 'acme', current, draft);
+        expect(getAnalysisRecords).toHaveBeenLastCalledWith([1]);
+        expect(report).toMatchObject({ checked: 1, skipped: 1 });
+    });
+
+    it('compares a full re-analysis with the stored verdict when asked to', async () => {
+        const provider: GovernanceProvider = {
+            ...createLocalProvider(),
+            id: 'stub',
+            label: 'Stub',
+            analyze: async () => ({ safetyStatus: 'Safe', brandScore: 100, summary: '', issues: [] })
+        };
+        setGovernanceProvider(provider);
+
+        const report = await simulateGuidelineImpact([historyItem(1), historyItem(4)], 'acme', current, draft, { useModel: true });
+
+        // The empty run has no text and no stored preview to send
+        expect(report).toMatchObject({ checked: 1, skipped: 1, usedModel: true });
+        // The model finds nothing; the draft's rule finding still makes the run unsafe
+        expect(report.changes.map(c => [c.id, c.before, c.after, c.scoreAfter])).toEqual([[1, 'Caution', 'Unsafe', 80]]);
+    });
+});
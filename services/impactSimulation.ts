@@ -0,0 +1,179 @@
+// Re-checks stored analyses against draft guidelines before they are published.
+// By default model findings are kept as they were and only the deterministic rule
+// findings of the edited brand are re-run, once with the guidelines in force and once
+// with the draft, so any verdict change is caused by the edit alone. With `useModel`
+// each run is analyzed again in full and compared with its stored verdict.
+import { AnalysisRecord, AssetType, BrandSettings, CommunicationContext, HistoryItem, Issue, SafetyStatus } from '../types';
+import { scoreIssues } from './rules';
+import { getAnalysisRecords } from './historyStore';
+import { analyzeContent, ContentAnalysisRequest, runDeterministicChecks } from './gemini';
+import { locateTextIssues } from './textLayout';
+import { locateFrameIssues } from './videoFrames';
+
+export interface VerdictChange {
+    id: number;
+    fileName: string;
+    date: string;
+    assetType: AssetType;
+    context: CommunicationContext;
+    before: SafetyStatus;
+    after: SafetyStatus;
+    scoreBefore: number;
+    scoreAfter: number;
+    newFindings: string[]; // Findings only the draft raises
+    clearedFindings: string[]; // Findings the draft no longer raises
+}
+
+export interface ImpactBreakdown {
+    key: string; // AssetType or CommunicationContext value
+    checked: number;
+    worse: number; // Verdict moves towards Unsafe
+    better: number; // Verdict moves towards Safe
+}
+
+export interface VerdictTransition {
+    from: SafetyStatus;
+    to: SafetyStatus;
+    count: number;
+}
+
+export interface ImpactReport {
+    checked: number; // Stored runs that could be re-checked
+    skipped: number; // Legacy entries without a record, and runs with nothing to re-check
+    usedModel: boolean;
+    changes: VerdictChange[];
+    transitions: VerdictTransition[];
+    byAssetType: ImpactBreakdown[];
+    byContext: ImpactBreakdown[];
+}
+
+export interface ImpactOptions {
+    useModel?: boolean;
+    onProgress?: (progress: number) => void;
+}
+
+interface Recheck {
+    record: AnalysisRecord;
+    before: { safetyStatus: SafetyStatus; brandScore: number; findings: Issue[] };
+    after: { safetyStatus: SafetyStatus; brandScore: number; findings: Issue[] };
+}
+
+const STATUS_RANK: Record<SafetyStatus, number> = { 'Safe': 0, 'Caution': 1, 'Unsafe': 2 };
+
+const findingKey = (issue: Issue) => issue.ruleId ? `${issue.ruleId}@${issue.span?.start ?? ''}` : issue.description.trim().toLowerCase();
+
+// The stored run as an analysis request, with the guidelines to check it against
+const requestFor = ({ upload, preview }: AnalysisRecord, settings: BrandSettings): ContentAnalysisRequest => ({
+    content: upload.textInput,
+    context: upload.context,
+    region: upload.region,
+    assetType: upload.assetType,
+    settings,
+    fixIntensity: 'Medium',
+    fileBase64: preview?.fileBase64,
+    mimeType: upload.mimeType,
+    additionalContext: upload.additionalContext,
+    visualSlides: preview?.visualSlides,
+    documentStyles: preview?.documentStyles,
+    textLayout: preview?.textLayout,
+    workbook: preview?.workbook,
+    webPage: preview?.webPage,
+    email: preview?.email,
+    audienceScope: upload.audienceScope,
+    transcript: preview?.transcript
+});
+
+const rescoreWithRules = async (record: AnalysisRecord, brandId: string, settings: BrandSettings) => {
+    // Co-branded runs keep the other brand's findings untouched, emails those of their attachments
+    const kept = record.result.issues.filter(i => i.source !== 'rule' || i.attachment || (i.brandId && i.brandId !== brandId));
+    const findings = locateFrameIssues(
+        locateTextIssues(await runDeterministicChecks(requestFor(record, settings)), record.upload.textInput, record.preview?.textLayout),
+        record.preview?.visualSlides
+    );
+    return { findings, ...scoreIssues([...kept, ...findings]) };
+};
+
+const reanalyze = async (record: AnalysisRecord, settings: BrandSettings) => {
+    const result = await analyzeContent(requestFor(record, settings));
+    return { findings: result.issues, safetyStatus: result.safetyStatus, brandScore: result.brandScore };
+};
+
+const breakdown = (rechecks: Recheck[], keyOf: (r: AnalysisRecord) => string): ImpactBreakdown[] => {
+    const groups = new Map<string, ImpactBreakdown>();
+    rechecks.forEach(({ record, before, after }) => {
+        const key = keyOf(record);
+        const group = groups.get(key) || { key, checked: 0, worse: 0, better: 0 };
+        group.checked++;
+        if (STATUS_RANK[after.safetyStatus] > STATUS_RANK[before.safetyStatus]) group.worse++;
+        if (STATUS_RANK[after.safetyStatus] < STATUS_RANK[before.safetyStatus]) group.better++;
+        groups.set(key, group);
+    });
+    return [...groups.values()].sort((a, b) => (b.worse + b.better) - (a.worse + a.better) || b.checked - a.checked);
+};
+
+const toChange = ({ record, before, after }: Recheck): VerdictChange => {
+    const beforeKeys = new Set(before.findings.map(findingKey));
+    const afterKeys = new Set(after.findings.map(findingKey));
+    return {
+        id: record.id,
+        fileName: record.upload.fileName || 'Text Snippet',
+        date: record.createdAt,
+        assetType: record.upload.assetType,
+        context: record.upload.context,
+        before: before.safetyStatus,
+        after: after.safetyStatus,
+        scoreBefore: before.brandScore,
+        scoreAfter: after.brandScore,
+        newFindings: after.findings.filter(i => !beforeKeys.has(findingKey(i))).map(i => i.description),
+        clearedFindings: before.findings.filter(i => !afterKeys.has(findingKey(i))).map(i => i.description)
+    };
+};
+
+export const simulateGuidelineImpact = async (
+    history: HistoryItem[],
+    brandId: string,
+    current: BrandSettings,
+    draft: BrandSettings,
+    options: ImpactOptions = {}
+): Promise<ImpactReport> => {
+    const { useModel = false, onProgress } = options;
+    const records = await getAnalysisRecords(history.filter(h => h.hasRecord).map(h => h.id));
+    const rechecks: Recheck[] = [];
+
+    // Sequential so model re-runs stay within provider rate limits
+    for (let i = 0; i < records.length; i++) {
+        const record = records[i];
+        const hasText = !!record.upload.textInput?.trim();
+        // Co-branded runs need both brands' settings for a model pass, and emails their
+        // attachments, which are not stored; those stay rule-only
+        const modelEligible = useModel && !record.upload.partnerBrandId && !record.preview?.email?.attachments.length
+            && (hasText || !!record.preview);
+
+        if (modelEligible) {
+            const before = { findings: record.result.issues, safetyStatus: record.result.safetyStatus, brandScore: record.result.brandScore };
+            rechecks.push({ record, before, after: await reanalyze(record, draft) });
+        } else if (hasText) {
+            rechecks.push({ record, before: await rescoreWithRules(record, brandId, current), after: await rescoreWithRules(record, brandId, draft) });
+        }
+        onProgress?.(Math.round(((i + 1) / records.length) * 100));
+    }
+
+    const flipped = rechecks.filter(r => r.before.safetyStatus !== r.after.safetyStatus);
+    const transitions = new Map<string, VerdictTransition>();
+    flipped.forEach(({ before, after }) => {
+        const key = `${before.safetyStatus}->${after.safetyStatus}`;
+        const transition = transitions.get(key) || { from: before.safetyStatus, to: after.safetyStatus, count: 0 };
+        transition.count++;
+        transitions.set(key, transition);
+    });
+
+    return {
+        checked: rechecks.length,
+        skipped: history.length - rechecks.length,
+        usedModel: useModel,
+        changes: flipped.map(toChange),
+        transitions: [...transitions.values()].sort((a, b) => b.count - a.count),
+        byAssetType: breakdown(rechecks, r => r.upload.assetType),
+        byContext: breakdown(rechecks, r => r.upload.context)
+    };
+};
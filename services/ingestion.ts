@@ -1,8 +1,18 @@
 
-import { AssetType, IngestedAsset, Modality } from '../types';
+import { AssetType, DocumentStyles, IngestedAsset, Modality, PositionedText, Transcript, UploadState } from '../types';
 import * as mammoth from 'mammoth';
 import JSZip from 'jszip';
 import * as pdfjs from 'pdfjs-dist';
+import { extractDOCXStyles, extractPPTXStyles } from './officeStyles';
+import { renderPPTXSlides } from './slideRenderer';
+import { parseDelimited, parseODS, parseXLSX, renderWorkbook } from './spreadsheets';
+import { parseHTMLPage } from './webPages';
+import { parseEML } from './email';
+import { isCaptionFile, parseCaptions, renderTranscript } from './captions';
+import { textItemBox } from './textLayout';
+import { transcribeMedia } from './gemini';
+import { sampleKeyframes } from './videoFrames';
+import { AUDIO_MIME_TYPES, isAudioFile, readWaveform } from './audio';
 
 // Configure PDF Worker
 pdfjs.GlobalWorkerOptions.workerSrc = new URL(
@@ -10,6 +20,10 @@ pdfjs.GlobalWorkerOptions.workerSrc = new URL(
     import.meta.url,
 ).toString();
 
+const LARGE_PDF_PAGES = 20;
+// Media is sent inline only below this size: requests are capped at 20 MB, and base64 adds a third
+const INLINE_MEDIA_LIMIT = 15 * 1024 * 1024;
+
 // Extract PDF pages as images for AI visual analysis
 export const extractPDFPages = async (arrayBuffer: ArrayBuffer): Promise<{ data: string; mimeType: string }[]> => {
     const visualPages: { data: string; mimeType: string }[] = [];
@@ -17,11 +31,12 @@ export const extractPDFPages = async (arrayBuffer: ArrayBuffer): Promise<{ data:
     try {
         const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise;
 
-        // Limit to first 5 pages for performance and API limits
-        const maxPages = Math.min(pdf.numPages, 5);
-        console.log(`PDF Extraction: Processing ${maxPages} of ${pdf.numPages} pages`);
+        // Every page is rendered; analysis batches them (see services/pagedAnalysis)
+        console.log(`PDF Extraction: Processing ${pdf.numPages} pages`);
+        // Long documents render smaller to keep memory in check
+        const scale = pdf.numPages > LARGE_PDF_PAGES ? 1 : 1.5;
 
-        for (let i = 1; i <= maxPages; i++) {
+        for (let i = 1; i <= pdf.numPages; i++) {
             const page = await pdf.getPage(i);
             const canvas = document.createElement('canvas');
             const ctx = canvas.getContext('2d');
@@ -31,8 +46,7 @@ export const extractPDFPages = async (arrayBuffer: ArrayBuffer): Promise<{ data:
                 continue;
             }
 
-            // Render at 1.5x scale for good quality without being too large
-            const viewport = page.getViewport({ scale: 1.5 });
+            const viewport = page.getViewport({ scale });
             canvas.width = viewport.width;
             canvas.height = viewport.height;
 
@@ -51,6 +65,49 @@ export const extractPDFPages = async (arrayBuffer: ArrayBuffer): Promise<{ data:
     return visualPages;
 };
 
+// Extract the text layer of every PDF page (empty for scanned documents), with
+// the position of every text item so findings can be drawn on the page
+export const extractPDFText = async (arrayBuffer: ArrayBuffer): Promise<{ text: string; textLayout: PositionedText[] }> => {
+    let text = '';
+    const textLayout: PositionedText[] = [];
+
+    try {
+        const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise;
+
+        for (let i = 1; i <= pdf.numPages; i++) {
+            const page = await pdf.getPage(i);
+            const viewport = page.getViewport({ scale: 1 });
+            const textContent = await page.getTextContent();
+            let pageText = '';
+            const pageItems: PositionedText[] = [];
+
+            for (const item of textContent.items) {
+                if (!('str' in item)) continue;
+                if (item.str.trim()) {
+                    pageItems.push({
+                        page: i,
+                        span: { start: pageText.length, end: pageText.length + item.str.length },
+                        box: textItemBox(item, viewport)
+                    });
+                }
+                pageText += item.str + (item.hasEOL ? '\n' : ' ');
+            }
+            if (!pageText.trim()) continue;
+
+            if (text) text += '\n\n';
+            text += `[Page ${i}]\n`;
+            // Item offsets were taken before the page text was trimmed
+            const offset = text.length - (pageText.length - pageText.trimStart().length);
+            text += pageText.trim();
+            pageItems.forEach(item => textLayout.push({ ...item, span: { start: item.span.start + offset, end: item.span.end + offset } }));
+        }
+    } catch (e) {
+        console.error("PDF Text Extraction Failed:", e);
+    }
+
+    return { text, textLayout };
+};
+
 // Helper to generate UUID
 const generateId = () => crypto.randomUUID();
 
@@ -64,11 +121,13 @@ const blobToDataURL = (blob: Blob): Promise<string> => {
     });
 };
 
-export const extractPPTX = async (arrayBuffer: ArrayBuffer): Promise<{ text: string, html: string, visualSlides: { data: string; mimeType: string }[] }> => {
+export const extractPPTX = async (arrayBuffer: ArrayBuffer): Promise<{ text: string, html: string, visualSlides: { data: string; mimeType: string }[], documentStyles?: DocumentStyles }> => {
     const zip = new JSZip();
     const result = { text: '', html: '<div class="pptx-preview space-y-8">' };
     let totalImageSize = 0;
-    const visualSlides: { data: string; mimeType: string }[] = []; // Store base64 with mimeType
+    let visualSlides: { data: string; mimeType: string }[] = []; // Store base64 with mimeType
+    const mediaImages: { data: string; mimeType: string }[] = []; // Embedded pictures, if slides cannot be rendered
+    let documentStyles: DocumentStyles | undefined;
 
     try {
         const content = await zip.loadAsync(arrayBuffer);
@@ -153,12 +212,12 @@ export const extractPPTX = async (arrayBuffer: ArrayBuffer): Promise<{ text: str
                                     // PERFORMANCE: Use ObjectURL instead of Base64 string to prevent DOM crash
                                     const dataUrl = URL.createObjectURL(blob);
 
-                                    // VISUAL ANALYSIS: Capture first 5 distinct images (slides) for AI analysis
+                                    // Fallback for visual analysis when the slides cannot be rendered
                                     // Only include PNG/JPEG - skip other formats that Gemini may reject
-                                    if (visualSlides.length < 5 && imgBuffer.byteLength < 2 * 1024 * 1024 && (mime === 'image/png' || mime === 'image/jpeg')) {
+                                    if (imgBuffer.byteLength < 2 * 1024 * 1024 && (mime === 'image/png' || mime === 'image/jpeg')) {
                                         const base64 = await blobToDataURL(blob);
                                         // Remove data:image/...;base64, prefix
-                                        visualSlides.push({ data: base64.split(',')[1], mimeType: mime });
+                                        mediaImages.push({ data: base64.split(',')[1], mimeType: mime });
                                     }
 
                                     imagesHtml += `
@@ -188,16 +247,54 @@ export const extractPPTX = async (arrayBuffer: ArrayBuffer): Promise<{ text: str
         }
 
         result.html += '</div>';
+
+        // VISUAL ANALYSIS: one rendered image per slide, so box_2d coordinates land on the slide itself
+        try {
+            visualSlides = await renderPPTXSlides(content, slideFiles);
+        } catch (renderErr) {
+            console.warn("Slide rendering failed, analyzing embedded images instead", renderErr);
+            visualSlides = mediaImages;
+        }
+
+        // Typography and colors are a bonus; a theme we cannot read must not lose the text
+        try {
+            documentStyles = await extractPPTXStyles(content, slideFiles);
+        } catch (styleErr) {
+            console.warn("Failed to read PPTX fonts and colors", styleErr);
+        }
     } catch (e) {
         console.error("PPTX Extraction Failed:", e);
         result.text = "Error extracting PPTX content.";
         result.html = "<div class='text-red-500'>Error parsing presentation slides.</div>";
     }
 
-    return { text: result.text, html: result.html, visualSlides };
+    return { text: result.text, html: result.html, visualSlides, documentStyles };
 };
 
-export const ingestAsset = async (file: File): Promise<IngestedAsset> => {
+/**
+ * Timed speech of a video or audio file: its sidecar caption file when one was uploaded with it,
+ * otherwise a transcription by the provider. Undefined when neither is available;
+ * files too large to send inline are not transcribed.
+ */
+const readTranscript = async (file: File, sidecars: File[]): Promise<Transcript | undefined> => {
+    const captions = sidecars.find(s => isCaptionFile(s.name));
+    if (captions) return { source: 'captions', segments: parseCaptions(await readFileAsText(captions)) };
+    if (file.size > INLINE_MEDIA_LIMIT) {
+        console.log(`Ingestion: ${file.name} is too large to transcribe inline; upload captions to check its speech`);
+        return undefined;
+    }
+    try {
+        const ext = file.name.split('.').pop()?.toLowerCase() || '';
+        const segments = await transcribeMedia(await readFileAsBase64(file), file.type || AUDIO_MIME_TYPES[ext] || 'video/mp4');
+        return segments?.length ? { source: 'transcription', segments } : undefined;
+    } catch (e) {
+        console.warn("Ingestion: transcription failed, continuing without a transcript", e);
+        return undefined;
+    }
+};
+
+// Sidecars are companion files uploaded together with `file`, e.g. the SRT/VTT captions of a video
+export const ingestAsset = async (file: File, sidecars: File[] = []): Promise<IngestedAsset> => {
     const id = generateId();
     const metadata = {
         uploadTime: Date.now(),
@@ -208,6 +305,7 @@ export const ingestAsset = async (file: File): Promise<IngestedAsset> => {
     let modality: Modality = Modality.MIXED;
     let content: string | ArrayBuffer = '';
     let htmlPreview: string | undefined = undefined;
+    let documentStyles: DocumentStyles | undefined = undefined;
     const flags = { isScreenshot: false };
 
     const ext = file.name.split('.').pop()?.toLowerCase() || '';
@@ -216,26 +314,129 @@ export const ingestAsset = async (file: File): Promise<IngestedAsset> => {
     if (file.type.startsWith('image/')) {
         modality = Modality.VISUAL_DOMINANT;
         content = await readFileAsBase64(file);
+    } else if (isAudioFile(file)) {
+        modality = Modality.AUDIO;
+        const waveform = await readWaveform(file);
+        const transcript = await readTranscript(file, sidecars);
+        const rendered = transcript && renderTranscript(transcript.segments);
+        return {
+            id,
+            metadata: { ...metadata, duration: waveform.duration },
+            modality,
+            content: rendered ? rendered.text : '',
+            rawFile: file,
+            // Without a transcript the recording itself is sent, if small enough
+            fileBase64: !rendered && file.size <= INLINE_MEDIA_LIMIT ? await readFileAsBase64(file) : undefined,
+            transcript: transcript && rendered && { ...transcript, segments: rendered.segments },
+            waveform,
+            flags
+        };
     } else if (file.type.startsWith('video/') || ['mp4', 'mov', 'avi', 'webm', 'mkv'].includes(ext)) {
         modality = Modality.VIDEO;
-        content = await readFileAsBase64(file);
-    } else if (file.type.startsWith('text/') || ['txt', 'md', 'csv', 'json'].includes(ext)) {
+        // Sampled frames are reviewed instead of the whole file; the preview plays the file itself
+        const frames = await sampleKeyframes(file);
+        const transcript = await readTranscript(file, sidecars);
+        // The spoken words are checked as text, timed to their cues
+        const rendered = transcript && renderTranscript(transcript.segments);
+        return {
+            id,
+            metadata,
+            modality,
+            content: rendered ? rendered.text : '',
+            rawFile: file,
+            // Videos the browser cannot decode are sent whole, if small enough
+            fileBase64: frames.length === 0 && file.size <= INLINE_MEDIA_LIMIT ? await readFileAsBase64(file) : undefined,
+            visualSlides: frames.length ? frames : undefined,
+            transcript: transcript && rendered && { ...transcript, segments: rendered.segments },
+            flags
+        };
+    } else if (isCaptionFile(file.name)) {
+        modality = Modality.TEXT_DOMINANT;
+        const { text, html, segments } = renderTranscript(parseCaptions(await readFileAsText(file)));
+        return {
+            id,
+            metadata,
+            modality,
+            content: text,
+            rawFile: file,
+            htmlPreview: html,
+            transcript: { source: 'captions', segments },
+            flags
+        };
+    } else if (['xlsx', 'xlsm', 'ods', 'csv', 'tsv'].includes(ext)) {
+        modality = Modality.TEXT_DOMINANT;
+        console.log("Spreadsheet Detected. Reading sheets...");
+        const parsed = ext === 'csv' || ext === 'tsv'
+            ? parseDelimited(await readFileAsText(file), file.name.replace(/\.[^.]+$/, ''), ext === 'tsv' ? '\t' : undefined)
+            : ext === 'ods'
+                ? await parseODS(await readFileAsArrayBuffer(file))
+                : await parseXLSX(await readFileAsArrayBuffer(file));
+        const { text, html, workbook } = renderWorkbook(parsed);
+        return {
+            id,
+            metadata,
+            modality,
+            content: text,
+            rawFile: file,
+            htmlPreview: html,
+            workbook, // Cells with their spans, for the pricing checks and cell references
+            flags
+        };
+    } else if (['html', 'htm'].includes(ext) || file.type === 'text/html') {
+        modality = Modality.TEXT_DOMINANT;
+        const { text, html, webPage } = parseHTMLPage(await readFileAsText(file));
+        return {
+            id,
+            metadata,
+            modality,
+            content: text,
+            rawFile: file,
+            htmlPreview: html, // The page itself, with its elements tagged for annotation
+            webPage,
+            flags
+        };
+    } else if (ext === 'eml' || file.type === 'message/rfc822') {
+        modality = Modality.TEXT_DOMINANT;
+        const { text, html, email, files } = parseEML(await readFileAsArrayBuffer(file));
+        // Attachments are ingested like uploads, one at a time (PDFs and decks are rendered page by page)
+        for (const [index, attachment] of files.entries()) {
+            try {
+                email.attachments[index].asset = await ingestAsset(attachment);
+            } catch (e) {
+                console.error(`Ingestion: attachment ${attachment.name} could not be read`, e);
+            }
+        }
+        return {
+            id,
+            metadata,
+            modality,
+            content: text,
+            rawFile: file,
+            htmlPreview: html, // Header fields and body, tagged for annotation like web pages
+            email,
+            flags
+        };
+    } else if (file.type.startsWith('text/') || ['txt', 'md', 'json'].includes(ext)) {
         modality = Modality.TEXT_DOMINANT;
         content = await readFileAsText(file);
     } else if (ext === 'pdf') {
         modality = Modality.MIXED;
-        console.log("PDF Detected. Extracting pages as images...");
+        console.log("PDF Detected. Extracting text layer and pages as images...");
         const arrayBuffer = await readFileAsArrayBuffer(file);
-        content = await readFileAsBase64(file); // Keep base64 for preview rendering
-        const visualSlides = await extractPDFPages(arrayBuffer);
+        const fileBase64 = await readFileAsBase64(file); // Keep base64 for preview rendering
+        // pdf.js transfers the buffer to its worker, so give each pass its own copy
+        const visualSlides = await extractPDFPages(arrayBuffer.slice(0));
+        const { text, textLayout } = await extractPDFText(arrayBuffer.slice(0));
 
         // Return early with visualSlides for AI analysis
         return {
             id,
             metadata,
             modality,
-            content,
+            content: text,
             rawFile: file,
+            fileBase64,
+            textLayout,
             visualSlides, // Include extracted page images for AI visual analysis
             flags
         };
@@ -249,6 +450,7 @@ export const ingestAsset = async (file: File): Promise<IngestedAsset> => {
 
             content = result.value;
             htmlPreview = htmlResult.value;
+            documentStyles = await extractDOCXStyles(arrayBuffer);
 
             // Optional: Simple refined modality check based on text length
             if (content.length > 500) {
@@ -264,7 +466,7 @@ export const ingestAsset = async (file: File): Promise<IngestedAsset> => {
         modality = Modality.MIXED;
         console.log("PPTX Detected. Processing slides...");
         const buffer = await readFileAsArrayBuffer(file);
-        const { text, html, visualSlides } = await extractPPTX(buffer);
+        const { text, html, visualSlides, documentStyles } = await extractPPTX(buffer);
         content = text;
         htmlPreview = html;
         // Store visualSlides for AI analysis
@@ -276,6 +478,7 @@ export const ingestAsset = async (file: File): Promise<IngestedAsset> => {
             rawFile: file,
             htmlPreview,
             visualSlides, // Include extracted slide images
+            documentStyles,
             flags
         };
     }
@@ -301,10 +504,43 @@ export const ingestAsset = async (file: File): Promise<IngestedAsset> => {
         content,
         rawFile: file,
         htmlPreview,
+        documentStyles,
         flags
     };
 };
 
+/**
+ * Upload form fields for an ingested file: what is analyzed as text, what is sent
+ * as base64, and the MIME type the preview is rendered by.
+ */
+export const toUploadFields = (asset: IngestedAsset): Pick<UploadState, 'textInput' | 'fileBase64' | 'htmlPreview' | 'mimeType'> => {
+    const file = asset.rawFile;
+    const ext = file.name.split('.').pop()?.toLowerCase() || '';
+    let textInput = '';
+    let fileBase64 = '';
+
+    // PDF, unsampled video, untranscribed audio -> Base64 for the preview, extracted text for the text checks
+    if (asset.fileBase64) {
+        fileBase64 = asset.fileBase64;
+        textInput = asset.content as string;
+    }
+    // Images -> Base64
+    else if (asset.modality === Modality.VISUAL_DOMINANT) {
+        fileBase64 = asset.content as string;
+    }
+    // DOCX, PPTX, Text, transcripts -> Extracted Text; video frames go as visual slides
+    else {
+        textInput = asset.content as string;
+    }
+
+    return {
+        textInput,
+        fileBase64,
+        htmlPreview: asset.htmlPreview,
+        mimeType: file.type || (ext === 'html' || ext === 'htm' ? 'text/html' : ext === 'eml' ? 'message/rfc822' : AUDIO_MIME_TYPES[ext] || '') // Store mimeType for robust rendering logic
+    };
+};
+
 // --- Helpers ---
 
 const readFileAsBase64 = (file: File): Promise<string> => {
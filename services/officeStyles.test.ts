@@ -0,0 +1,156 @@
+// @vitest-environment jsdom
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { extractDOCXStyles, extractPPTXStyles, resolveTarget } from './officeStyles';
+
+const A = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"';
+const P = 'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const THEME = `<a:theme ${A}><a:themeElements>
+<a:clrScheme name="Acme">
+  <a:dk1><a:sysClr val="windowText" lastClr="111111"/></a:dk1>
+  <a:lt1><a:sysClr val="window" lastClr="FFFFFF"/></a:lt1>
+  <a:accent1><a:srgbClr val="0055ff"/></a:accent1>
+</a:clrScheme>
+<a:fontScheme name="Acme">
+  <a:majorFont><a:latin typeface="Acme Display"/></a:majorFont>
+  <a:minorFont><a:latin typeface="Acme Text"/></a:minorFont>
+</a:fontScheme>
+</a:themeElements></a:theme>`;
+
+const rels = (...relations: [string, string][]) => `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${
+    relations.map(([type, target], i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/${type}" Target="${target}"/>`).join('')
+}</Relationships>`;
+
+const shape = (ph: string, body: string) => `<p:sp><p:nvSpPr><p:nvPr>${ph}</p:nvPr></p:nvSpPr><p:txBody>${body}</p:txBody></p:sp>`;
+
+const zipOf = async (files: Record<string, string>) => {
+    const zip = new JSZip();
+    Object.entries(files).forEach(([name, xml]) => zip.file(name, xml));
+    return zip;
+};
+
+describe('resolveTarget', () => {
+    it('resolves relative and absolute relationship targets', () => {
+        expect(resolveTarget('ppt/slides/slide1.xml', '../slideLayouts/slideLayout2.xml')).toBe('ppt/slideLayouts/slideLayout2.xml');
+        expect(resolveTarget('word/document.xml', './media/image1.png')).toBe('word/media/image1.png');
+        expect(resolveTarget('ppt/slides/slide1.xml', '/ppt/media/image1.png')).toBe('ppt/media/image1.png');
+    });
+});
+
+describe('extractPPTXStyles', () => {
+    const master = `<p:sldMaster ${P} ${A}><p:txStyles>
+        <p:titleStyle><a:lvl1pPr><a:defRPr sz="4400"><a:solidFill><a:schemeClr val="tx1"/></a:solidFill></a:defRPr></a:lvl1pPr></p:titleStyle>
+        <p:bodyStyle>
+            <a:lvl1pPr><a:defRPr sz="2000"/></a:lvl1pPr>
+            <a:lvl2pPr><a:defRPr sz="1800"><a:solidFill><a:schemeClr val="accent1"/></a:solidFill></a:defRPr></a:lvl2pPr>
+        </p:bodyStyle>
+        <p:otherStyle><a:lvl1pPr><a:defRPr sz="1200"/></a:lvl1pPr></p:otherStyle>
+    </p:txStyles></p:sldMaster>`;
+
+    // The body placeholder of the layout overrides the master's first-level size
+    const layout = `<p:sldLayout ${P} ${A}><p:cSld><p:spTree>
+        ${shape('<p:ph type="body" idx="1"/>', '<a:lstStyle><a:lvl1pPr><a:defRPr sz="2400"/></a:lvl1pPr></a:lstStyle>')}
+    </p:spTree></p:cSld></p:sldLayout>`;
+
+    const slide = `<p:sld ${P} ${A}><p:cSld><p:spTree>
+        ${shape('<p:ph type="title"/>', '<a:p><a:r><a:t>Spring launch</a:t></a:r></a:p>')}
+        ${shape('<p:ph idx="1"/>', `
+            <a:p><a:r><a:rPr b="1"><a:solidFill><a:srgbClr val="DC1E28"/></a:solidFill></a:rPr><a:t>Now shipping</a:t></a:r></a:p>
+            <a:p><a:pPr lvl="1"/><a:r><a:t>In every region</a:t></a:r><a:r><a:t> </a:t></a:r></a:p>`)}
+        ${shape('', '<a:p><a:r><a:rPr sz="1000"><a:latin typeface="+mj-lt"/></a:rPr><a:t>Footnote</a:t></a:r></a:p>')}
+    </p:spTree></p:cSld></p:sld>`;
+
+    const files = {
+        'ppt/slides/slide1.xml': slide,
+        'ppt/slides/_rels/slide1.xml.rels': rels(['slideLayout', '../slideLayouts/slideLayout2.xml']),
+        'ppt/slideLayouts/slideLayout2.xml': layout,
+        'ppt/slideLayouts/_rels/slideLayout2.xml.rels': rels(['slideMaster', '../slideMasters/slideMaster1.xml']),
+        'ppt/slideMasters/slideMaster1.xml': master,
+        'ppt/slideMasters/_rels/slideMaster1.xml.rels': rels(['theme', '../theme/theme2.xml']),
+        'ppt/theme/theme2.xml': THEME
+    };
+
+    it('reads the theme fonts and colors', async () => {
+        const styles = await extractPPTXStyles(await zipOf(files), ['ppt/slides/slide1.xml']);
+        expect(styles.themeFonts).toEqual({ major: 'Acme Display', minor: 'Acme Text' });
+        expect(styles.themeColors).toEqual({ dk1: '#111111', lt1: '#FFFFFF', accent1: '#0055FF' });
+    });
+
+    it('resolves every run through its text box, layout, master and theme', async () => {
+        const { runs } = await extractPPTXStyles(await zipOf(files), ['ppt/slides/slide1.xml']);
+        expect(runs).toEqual([
+            // Master title style, theme heading font, scheme color through the tx1 alias
+            { slide: 1, text: 'Spring launch', font: 'Acme Display', size: 44, color: '#111111' },
+            // Run formatting on top of the layout placeholder's size
+            { slide: 1, text: 'Now shipping', font: 'Acme Text', size: 24, bold: true, color: '#DC1E28' },
+            // Second level comes from the master body style
+            { slide: 1, text: 'In every region', font: 'Acme Text', size: 18, color: '#0055FF' },
+            // A plain text box: theme font reference on the run, master's other style otherwise
+            { slide: 1, text: 'Footnote', font: 'Acme Display', size: 10 }
+        ]);
+    });
+
+    it('skips missing slides and falls back to the default theme part', async () => {
+        const zip = await zipOf({ 'ppt/slides/slide1.xml': slide, 'ppt/theme/theme1.xml': THEME });
+        const { runs } = await extractPPTXStyles(zip, ['ppt/slides/slide1.xml', 'ppt/slides/slide9.xml']);
+        expect(runs.map(r => [r.text, r.font, r.size])).toEqual([
+            ['Spring launch', 'Acme Display', undefined],
+            ['Now shipping', 'Acme Text', undefined],
+            ['In every region', 'Acme Text', undefined],
+            ['Footnote', 'Acme Display', 10]
+        ]);
+    });
+});
+
+describe('extractDOCXStyles', () => {
+    const styles = `<w:styles ${W}>
+        <w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:asciiTheme="minorHAnsi"/><w:sz w:val="22"/></w:rPr></w:rPrDefault></w:docDefaults>
+        <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:rPr><w:color w:val="333333"/></w:rPr></w:style>
+        <w:style w:type="paragraph" w:styleId="Heading1">
+            <w:basedOn w:val="Normal"/>
+            <w:rPr><w:rFonts w:asciiTheme="majorHAnsi"/><w:b/><w:sz w:val="32"/><w:color w:val="auto" w:themeColor="accent1"/></w:rPr>
+        </w:style>
+        <w:style w:type="character" w:styleId="Strong"><w:rPr><w:b/></w:rPr></w:style>
+        <w:style w:type="paragraph" w:styleId="Loop"><w:basedOn w:val="Loop"/></w:style>
+    </w:styles>`;
+
+    const document = `<w:document ${W}><w:body>
+        <w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Spring launch</w:t></w:r></w:p>
+        <w:p><w:r><w:t> </w:t></w:r></w:p>
+        <w:p>
+            <w:r><w:t xml:space="preserve">Now </w:t></w:r>
+            <w:r><w:rPr><w:rStyle w:val="Strong"/></w:rPr><w:t>shipping</w:t></w:r>
+            <w:r><w:rPr><w:rFonts w:ascii="Comic Sans MS"/><w:b w:val="0"/><w:color w:val="DC1E28"/></w:rPr><w:t>everywhere</w:t></w:r>
+        </w:p>
+        <w:p><w:pPr><w:pStyle w:val="Loop"/></w:pPr><w:r><w:t>Fine print</w:t></w:r></w:p>
+    </w:body></w:document>`;
+
+    const docx = async () => (await zipOf({
+        'word/document.xml': document,
+        'word/styles.xml': styles,
+        'word/theme/theme1.xml': THEME
+    })).generateAsync({ type: 'arraybuffer' });
+
+    it('resolves every run through its styles, the document defaults and the theme', async () => {
+        const result = await extractDOCXStyles(await docx());
+        expect(result.themeFonts).toEqual({ major: 'Acme Display', minor: 'Acme Text' });
+        expect(result.runs).toEqual([
+            // basedOn chain: Heading1 over Normal over the defaults
+            { paragraph: 1, text: 'Spring launch', font: 'Acme Display', size: 16, bold: true, color: '#0055FF' },
+            // The default paragraph style applies without a w:pStyle; blank paragraphs are not counted
+            { paragraph: 2, text: 'Now ', font: 'Acme Text', size: 11, color: '#333333' },
+            { paragraph: 2, text: 'shipping', font: 'Acme Text', size: 11, bold: true, color: '#333333' },
+            { paragraph: 2, text: 'everywhere', font: 'Comic Sans MS', size: 11, bold: false, color: '#DC1E28' },
+            // A style based on itself ends the chain instead of looping
+            { paragraph: 3, text: 'Fine print', font: 'Acme Text', size: 11 }
+        ]);
+    });
+
+    it('falls back to the theme body font without a styles part', async () => {
+        const zip = await zipOf({ 'word/document.xml': document, 'word/theme/theme1.xml': THEME });
+        const { runs } = await extractDOCXStyles(await zip.generateAsync({ type: 'arraybuffer' }));
+        expect(runs[0]).toEqual({ paragraph: 1, text: 'Spring launch', font: 'Acme Text' });
+    });
+});
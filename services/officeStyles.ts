@@ -0,0 +1,312 @@
+// Reads the fonts, sizes and colors actually used in PPTX and DOCX files.
+// Office files rarely put formatting on every run: a run inherits from its text
+// box, the slide layout, the slide master and the theme (PPTX), or from its
+// character and paragraph styles and the document defaults (DOCX). Each run is
+// resolved through that chain so the result can be checked against design tokens.
+import JSZip from 'jszip';
+import { DocumentStyles, StyledRun } from '../types';
+
+export type RunProps = Omit<StyledRun, 'slide' | 'paragraph' | 'text'>;
+
+export interface Theme {
+    major?: string;
+    minor?: string;
+    colors: Record<string, string>;
+}
+
+// --- XML helpers ---
+
+const isElement = (node: Node): node is Element => node.nodeType === 1;
+
+export const children = (el: Element | undefined, name: string): Element[] =>
+    el ? Array.from(el.childNodes).filter(isElement).filter(n => n.nodeName === name) : [];
+
+export const child = (el: Element | undefined, name: string): Element | undefined => children(el, name)[0];
+
+export const path = (el: Element | undefined, ...names: string[]): Element | undefined =>
+    names.reduce<Element | undefined>((current, name) => child(current, name), el);
+
+// Some DOM implementations return '' rather than null for missing attributes
+export const attr = (el: Element | undefined, name: string): string | undefined => el?.getAttribute(name) || undefined;
+
+export const closest = (el: Element, names: string[]): Element | undefined => {
+    let node = el.parentNode;
+    while (node && isElement(node)) {
+        if (names.includes(node.nodeName)) return node;
+        node = node.parentNode;
+    }
+    return undefined;
+};
+
+export const readXml = async (zip: JSZip, filePath: string): Promise<Document | undefined> => {
+    const file = zip.file(filePath);
+    if (!file) return undefined;
+    return new DOMParser().parseFromString(await file.async('text'), 'text/xml');
+};
+
+const toHex = (value?: string) => value && /^[0-9a-f]{6}$/i.test(value) ? `#${value.toUpperCase()}` : undefined;
+
+// Keeps the value of the first layer that sets each property
+const inherit = (...layers: RunProps[]): RunProps => Object.assign({}, ...layers.slice().reverse());
+
+/** Resolves a relationship target ("../slideLayouts/slideLayout2.xml") against the part that owns it. */
+export const resolveTarget = (partPath: string, target: string): string => {
+    if (target.startsWith('/')) return target.slice(1);
+    const parts = partPath.split('/').slice(0, -1);
+    target.split('/').forEach(segment => {
+        if (segment === '..') parts.pop();
+        else if (segment && segment !== '.') parts.push(segment);
+    });
+    return parts.join('/');
+};
+
+export const relatedPart = async (zip: JSZip, partPath: string, typeSuffix: string): Promise<string | undefined> => {
+    const segments = partPath.split('/');
+    const fileName = segments.pop();
+    const rels = await readXml(zip, `${segments.join('/')}/_rels/${fileName}.rels`);
+    if (!rels) return undefined;
+    const rel = Array.from(rels.getElementsByTagName('Relationship')).find(r => attr(r, 'Type')?.endsWith(typeSuffix));
+    const target = attr(rel, 'Target');
+    return target ? resolveTarget(partPath, target) : undefined;
+};
+
+// --- Theme (shared by PPTX and DOCX) ---
+
+const readTheme = (doc?: Document): Theme => {
+    if (!doc) return { colors: {} };
+    const latin = (tag: string) => attr(child(doc.getElementsByTagName(tag)[0], 'a:latin'), 'typeface');
+    const colors: Record<string, string> = {};
+    const scheme = doc.getElementsByTagName('a:clrScheme')[0];
+    if (scheme) {
+        Array.from(scheme.childNodes).filter(isElement).forEach(slot => {
+            const value = toHex(attr(child(slot, 'a:srgbClr'), 'val')) || toHex(attr(child(slot, 'a:sysClr'), 'lastClr'));
+            if (value) colors[slot.nodeName.replace(/^a:/, '')] = value;
+        });
+    }
+    return { major: latin('a:majorFont'), minor: latin('a:minorFont'), colors };
+};
+
+const toThemeFonts = (theme: Theme): DocumentStyles['themeFonts'] => ({ major: theme.major, minor: theme.minor });
+
+// --- PPTX ---
+
+// Scheme color names used in text that map onto theme slots
+const SCHEME_ALIASES: Record<string, string> = { tx1: 'dk1', bg1: 'lt1', tx2: 'dk2', bg2: 'lt2' };
+
+type PlaceholderKind = 'title' | 'body' | 'other';
+
+/** Color of an a:solidFill (explicit RGB or a theme slot). */
+export const readFillColor = (fill: Element | undefined, theme: Theme): string | undefined => {
+    const rgb = toHex(attr(child(fill, 'a:srgbClr'), 'val'));
+    if (rgb) return rgb;
+    const scheme = attr(child(fill, 'a:schemeClr'), 'val');
+    return scheme ? theme.colors[SCHEME_ALIASES[scheme] || scheme] : undefined;
+};
+
+// a:rPr (run) and a:defRPr (list style level) share the same attributes
+const readDrawingProps = (el: Element | undefined, theme: Theme): RunProps => {
+    if (!el) return {};
+    const props: RunProps = {};
+    const typeface = attr(child(el, 'a:latin'), 'typeface');
+    if (typeface) props.font = typeface === '+mj-lt' ? theme.major : typeface === '+mn-lt' ? theme.minor : typeface;
+    const size = attr(el, 'sz');
+    if (size) props.size = parseInt(size, 10) / 100;
+    const bold = attr(el, 'b');
+    if (bold) props.bold = bold === '1' || bold === 'true';
+    const color = readFillColor(child(el, 'a:solidFill'), theme);
+    if (color) props.color = color;
+    return props;
+};
+
+const listStyleProps = (lstStyle: Element | undefined, level: number, theme: Theme): RunProps =>
+    readDrawingProps(path(lstStyle, `a:lvl${level}pPr`, 'a:defRPr'), theme);
+
+export const placeholderOf = (shape: Element | undefined) => path(shape, 'p:nvSpPr', 'p:nvPr', 'p:ph');
+
+const placeholderKind = (ph: Element | undefined): PlaceholderKind => {
+    if (!ph) return 'other';
+    const type = attr(ph, 'type');
+    return type === 'title' || type === 'ctrTitle' ? 'title' : 'body';
+};
+
+// The layout placeholder a slide shape inherits from: same index, or same title/body type
+export const findLayoutPlaceholder = (layout: Document | undefined, ph: Element | undefined): Element | undefined => {
+    if (!layout || !ph) return undefined;
+    const shapes = Array.from(layout.getElementsByTagName('p:sp'));
+    const idx = attr(ph, 'idx');
+    const kind = placeholderKind(ph);
+    return shapes.find(s => idx !== undefined && attr(placeholderOf(s), 'idx') === idx)
+        || shapes.find(s => placeholderOf(s) && placeholderKind(placeholderOf(s)) === kind);
+};
+
+export interface SlideContext {
+    slidePath: string;
+    slide: Document;
+    layoutPath?: string;
+    layout?: Document;
+    masterPath?: string;
+    master?: Document;
+    theme: Theme;
+}
+
+/** Loads a slide with its layout, master and theme; parts shared by several slides are read once. */
+export const createSlideLoader = (zip: JSZip) => {
+    const docs = new Map<string, Promise<Document | undefined>>();
+    const themes = new Map<string, Theme>();
+    const load = (partPath?: string) => {
+        if (!partPath) return Promise.resolve(undefined);
+        if (!docs.has(partPath)) docs.set(partPath, readXml(zip, partPath));
+        return docs.get(partPath)!;
+    };
+
+    return async (slidePath: string): Promise<SlideContext | undefined> => {
+        const slide = await load(slidePath);
+        if (!slide) return undefined;
+        const layoutPath = await relatedPart(zip, slidePath, '/slideLayout');
+        const masterPath = layoutPath ? await relatedPart(zip, layoutPath, '/slideMaster') : undefined;
+        const themePath = (masterPath ? await relatedPart(zip, masterPath, '/theme') : undefined) || 'ppt/theme/theme1.xml';
+        if (!themes.has(themePath)) themes.set(themePath, readTheme(await load(themePath)));
+        return {
+            slidePath,
+            slide,
+            layoutPath,
+            layout: await load(layoutPath),
+            masterPath,
+            master: await load(masterPath),
+            theme: themes.get(themePath)!
+        };
+    };
+};
+
+/** Formatting of one a:r run after text box, layout, master and theme inheritance. */
+export const resolveRunProps = (run: Element, { layout, master, theme }: SlideContext): RunProps => {
+    const paragraph = closest(run, ['a:p']);
+    const level = parseInt(attr(child(paragraph, 'a:pPr'), 'lvl') || '0', 10) + 1;
+    const txBody = closest(run, ['p:txBody', 'a:txBody']);
+    const shape = closest(run, ['p:sp']);
+    const ph = placeholderOf(shape);
+    const kind = placeholderKind(ph);
+    const layoutShape = findLayoutPlaceholder(layout, ph);
+    const txStyles = master?.getElementsByTagName('p:txStyles')[0];
+    const masterStyle = child(txStyles, kind === 'title' ? 'p:titleStyle' : kind === 'body' ? 'p:bodyStyle' : 'p:otherStyle');
+
+    return inherit(
+        readDrawingProps(child(run, 'a:rPr'), theme),
+        listStyleProps(child(txBody, 'a:lstStyle'), level, theme),
+        listStyleProps(path(layoutShape, 'p:txBody', 'a:lstStyle'), level, theme),
+        listStyleProps(masterStyle, level, theme),
+        { font: kind === 'title' ? theme.major : theme.minor }
+    );
+};
+
+/** Fonts, sizes and colors of every text run, per slide. */
+export const extractPPTXStyles = async (zip: JSZip, slideFiles: string[]): Promise<DocumentStyles> => {
+    const loadSlide = createSlideLoader(zip);
+    const runs: StyledRun[] = [];
+    let firstTheme: Theme | undefined;
+
+    for (const [index, slidePath] of slideFiles.entries()) {
+        const context = await loadSlide(slidePath);
+        if (!context) continue;
+        firstTheme = firstTheme || context.theme;
+
+        Array.from(context.slide.getElementsByTagName('a:r')).forEach(run => {
+            const text = Array.from(run.getElementsByTagName('a:t')).map(t => t.textContent || '').join('');
+            if (!text.trim()) return;
+            runs.push({ slide: index + 1, text, ...resolveRunProps(run, context) });
+        });
+    }
+
+    const theme = firstTheme || readTheme(await readXml(zip, 'ppt/theme/theme1.xml'));
+    return { themeFonts: toThemeFonts(theme), themeColors: theme.colors, runs };
+};
+
+// --- DOCX ---
+
+// w:themeColor values that name a theme slot differently
+const WORD_THEME_COLORS: Record<string, string> = {
+    text1: 'dk1', background1: 'lt1', text2: 'dk2', background2: 'lt2', dark1: 'dk1', light1: 'lt1', dark2: 'dk2', light2: 'lt2'
+};
+
+const isOn = (el: Element | undefined) => !!el && !['0', 'false', 'off'].includes(attr(el, 'w:val') || '');
+
+const readWordProps = (rPr: Element | undefined, theme: Theme): RunProps => {
+    if (!rPr) return {};
+    const props: RunProps = {};
+    const fonts = child(rPr, 'w:rFonts');
+    const themeFont = attr(fonts, 'w:asciiTheme') || attr(fonts, 'w:hAnsiTheme');
+    const font = attr(fonts, 'w:ascii') || attr(fonts, 'w:hAnsi') || (themeFont ? (themeFont.startsWith('major') ? theme.major : theme.minor) : undefined);
+    if (font) props.font = font;
+    const size = attr(child(rPr, 'w:sz'), 'w:val');
+    if (size) props.size = parseInt(size, 10) / 2;
+    const bold = child(rPr, 'w:b');
+    if (bold) props.bold = isOn(bold);
+    const color = child(rPr, 'w:color');
+    const themeColor = attr(color, 'w:themeColor');
+    const value = toHex(attr(color, 'w:val')) || (themeColor ? theme.colors[WORD_THEME_COLORS[themeColor] || themeColor] : undefined);
+    if (value) props.color = value;
+    return props;
+};
+
+/** Fonts, sizes and colors of every text run, per paragraph. */
+export const extractDOCXStyles = async (arrayBuffer: ArrayBuffer): Promise<DocumentStyles> => {
+    const zip = await JSZip.loadAsync(arrayBuffer);
+    const theme = readTheme(await readXml(zip, 'word/theme/theme1.xml'));
+    const stylesDoc = await readXml(zip, 'word/styles.xml');
+    const document = await readXml(zip, 'word/document.xml');
+
+    const styleEls = new Map<string, Element>();
+    let defaultParagraphStyle: string | undefined;
+    if (stylesDoc) {
+        Array.from(stylesDoc.getElementsByTagName('w:style')).forEach(style => {
+            const id = attr(style, 'w:styleId');
+            if (!id) return;
+            styleEls.set(id, style);
+            if (attr(style, 'w:type') === 'paragraph' && ['1', 'true'].includes(attr(style, 'w:default') || '')) defaultParagraphStyle = id;
+        });
+    }
+    const docDefaults = readWordProps(
+        stylesDoc ? path(stylesDoc.getElementsByTagName('w:docDefaults')[0], 'w:rPrDefault', 'w:rPr') : undefined,
+        theme
+    );
+
+    // Style properties through the basedOn chain (guarded against cycles)
+    const resolved = new Map<string, RunProps>();
+    const styleProps = (id: string | undefined, seen: Set<string> = new Set()): RunProps => {
+        if (!id || seen.has(id) || !styleEls.has(id)) return {};
+        if (resolved.has(id)) return resolved.get(id)!;
+        seen.add(id);
+        const style = styleEls.get(id)!;
+        const props = inherit(readWordProps(child(style, 'w:rPr'), theme), styleProps(attr(child(style, 'w:basedOn'), 'w:val'), seen));
+        resolved.set(id, props);
+        return props;
+    };
+
+    const runs: StyledRun[] = [];
+    if (document) {
+        let paragraphNumber = 0;
+        Array.from(document.getElementsByTagName('w:p')).forEach(paragraph => {
+            const paragraphRuns = Array.from(paragraph.getElementsByTagName('w:r'))
+                .filter(run => closest(run, ['w:p']) === paragraph);
+            const texts = paragraphRuns.map(run => Array.from(run.getElementsByTagName('w:t')).map(t => t.textContent || '').join(''));
+            if (!texts.some(t => t.trim())) return;
+            paragraphNumber++;
+
+            const pStyle = attr(path(paragraph, 'w:pPr', 'w:pStyle'), 'w:val') || defaultParagraphStyle;
+            paragraphRuns.forEach((run, i) => {
+                if (!texts[i].trim()) return;
+                const rPr = child(run, 'w:rPr');
+                const props = inherit(
+                    readWordProps(rPr, theme),
+                    styleProps(attr(child(rPr, 'w:rStyle'), 'w:val')),
+                    styleProps(pStyle),
+                    docDefaults,
+                    { font: theme.minor }
+                );
+                runs.push({ paragraph: paragraphNumber, text: texts[i], ...props });
+            });
+        });
+    }
+
+    return { themeFonts: toThemeFonts(theme), themeColors: theme.colors, runs };
+};
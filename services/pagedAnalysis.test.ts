@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisRequest, GovernanceProvider, createLocalProvider } from './providers';
+import { AnalysisResult, AssetType, BrandSettings, CommunicationContext, Issue } from '../types';
+import { analyzeInPageWindows, splitPageWindows, textForWindow } from './pagedAnalysis';
+import { mergeRuleFindings, runRuleEngine } from './rules';
+import { applyPatches } from '../utils/textPatches';
+
+const settings: BrandSettings = {
+    brandName: 'Acme',
+    mission: '',
+    audience: '',
+    toneVoice: '',
+    styleGuide: '',
+    bannedTerms: [{ id: 'leverage', term: 'leverage', replacement: 'use', severity: 'High' }],
+    inclusiveLanguage: false
+};
+
+const pages = (count: number, text: (page: number) => string) =>
+    Array.from({ length: count }, (_, i) => `[Page ${i + 1}]\n${text(i + 1)}`).join('\n\n');
+
+// Answers analysis requests with `analyze`; everything else as the local provider
+const stubProvider = (analyze: (request: AnalysisRequest) => Promise<AnalysisResult>): GovernanceProvider => ({
+    ...createLocalProvider(),
+    id: 'stub',
+    label: 'Stub provider',
+    analyze
+});
+
+const issue = (id: string, fields: Partial<Issue> = {}): Issue => ({
+    id, category: 'Brand', subcategory: 'Imagery', description: 'Off-palette image.', rationale: '', fix: '',
+    severity: 'Low', blocking: false, fixType: 'Manual', ...fields
+});
+
+const request = (content: string, pageCount: number): AnalysisRequest => ({
+    content,
+    context: CommunicationContext.MARKETING,
+    region: 'Global',
+    assetType: AssetType.WHITE_PAPER,
+    settings,
+    fixIntensity: 'Medium',
+    visualSlides: Array.from({ length: pageCount }, () => ({ data: '', mimeType: 'image/png' }))
+});
+
+describe('page windows', () => {
+    it('splits pages into windows of five', () => {
+        expect(splitPageWindows(7)).toEqual([{ start: 1, end: 5 }, { start: 6, end: 7 }]);
+        expect(splitPageWindows(0)).toEqual([]);
+    });
+
+    it('sends every page of the text to exactly one window', () => {
+        const content = `Cover\n\n${pages(7, p => `Page ${p} text.`)}`;
+        const first = textForWindow(content, { start: 1, end: 5 }, true, false);
+        const last = textForWindow(content, { start: 6, end: 7 }, false, true);
+        expect(first.startsWith('Cover')).toBe(true);
+        expect(first).toContain('[Page 5]');
+        expect(first).not.toContain('[Page 6]');
+        expect(last.startsWith('[Page 6]')).toBe(true);
+        expect(last).toContain('[Page 7]');
+    });
+});
+
+describe('analyzeInPageWindows', () => {
+    it('leaves rule findings to the document-wide rule engine', async () => {
+        const content = pages(7, p => p === 6 ? 'We leverage data.' : `Page ${p} text.`);
+        const req = request(content, 7);
+        const ruleIssues = runRuleEngine(content, settings, { context: req.context, assetType: req.assetType, region: req.region });
+
+        const merged = mergeRuleFindings(await analyzeInPageWindows(createLocalProvider(), req), ruleIssues);
+
+        expect(merged.issues.filter(i => i.ruleId === 'banned-term:leverage').map(i => i.id)).toEqual([ruleIssues[0].id]);
+        expect(merged.brandScore).toBe(80);
+        expect(applyPatches(content, merged.issues)).toBe(content.replace('leverage', 'use'));
+    });
+
+    it('maps model page numbers to the document and keeps ids unique across windows', async () => {
+        const provider = stubProvider(async ({ visualSlides }) => ({
+            safetyStatus: visualSlides!.length === 2 ? 'Caution' : 'Safe',
+            brandScore: visualSlides!.length === 2 ? 90 : 100,
+            summary: 'Reviewed.',
+            issues: [issue('issue-1', { page_number: 2 })]
+        }));
+
+        const result = await analyzeInPageWindows(provider, request(pages(7, p => `Page ${p} text.`), 7));
+
+        expect(result.issues.map(i => [i.id, i.page_number])).toEqual([['p1-issue-1', 2], ['p6-issue-1', 7]]);
+        expect(result.brandScore).toBe(90);
+        expect(result.safetyStatus).toBe('Caution');
+        expect(result.coverage).toEqual({ analyzedPages: 7, totalPages: 7 });
+    });
+
+    it('rescores a window from the issues left after its rule findings are dropped', async () => {
+        // 140 points of rule findings and 20 of model findings: the provider clamps the window at 0
+        const ruleIssues = Array.from({ length: 7 }, (_, i) => issue(`rule-banned-${i}`, { source: 'rule', severity: 'High', blocking: true }));
+        const modelIssues = [issue('issue-1', { severity: 'Medium' }), issue('issue-2', { severity: 'Medium' })];
+        const provider = stubProvider(async () => ({ safetyStatus: 'Unsafe', brandScore: 0, summary: 'Reviewed.', issues: [...ruleIssues, ...modelIssues] }));
+
+        const result = await analyzeInPageWindows(provider, request(pages(2, p => `Page ${p} text.`), 2));
+
+        expect(result.issues.map(i => i.id)).toEqual(['issue-1', 'issue-2']);
+        expect(result.brandScore).toBe(80);
+        expect(result.safetyStatus).toBe('Caution');
+    });
+});
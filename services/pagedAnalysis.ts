@@ -0,0 +1,148 @@
+// Long documents are analyzed in windows of a few pages. One model call per
+// window keeps every request within the provider's size limits, and the windows
+// are merged back into a single result with document-wide page numbers.
+import { AnalysisResult, Issue, SafetyStatus } from '../types';
+import { AnalysisRequest, GovernanceProvider } from './providers';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { scoreIssues } from './rules';
+import { formatTimestamp } from './captions';
+
+// Pages per model call; the single-call limit this pipeline replaces
+export const PAGE_WINDOW = 5;
+const MAX_CONCURRENT_WINDOWS = 2;
+
+export interface PageWindow {
+    start: number; // 1-based, inclusive
+    end: number;
+}
+
+export const splitPageWindows = (pageCount: number, size = PAGE_WINDOW): PageWindow[] => {
+    const windows: PageWindow[] = [];
+    for (let start = 1; start <= pageCount; start += size) {
+        windows.push({ start, end: Math.min(pageCount, start + size - 1) });
+    }
+    return windows;
+};
+
+const PAGE_MARKER = /\[(?:Page|Slide) (\d+)\]/g;
+
+/**
+ * The part of the text that belongs to a window, using the "[Page N]" / "[Slide N]"
+ * markers written at ingestion. Text before the first marker (or unmarked text)
+ * goes with the first window, pages past the last window with the last one, so
+ * every part of the text is sent exactly once.
+ */
+export const textForWindow = (content: string, window: PageWindow, isFirst: boolean, isLast: boolean): string => {
+    const markers = [...content.matchAll(PAGE_MARKER)];
+    if (markers.length === 0) return isFirst ? content : '';
+
+    const parts: string[] = [];
+    const preamble = content.slice(0, markers[0].index).trim();
+    if (isFirst && preamble) parts.push(preamble);
+    markers.forEach((marker, i) => {
+        const page = parseInt(marker[1], 10);
+        if ((page >= window.start && page <= window.end) || (isLast && page > window.end)) {
+            parts.push(content.slice(marker.index, markers[i + 1]?.index ?? content.length).trim());
+        }
+    });
+    return parts.join('\n\n');
+};
+
+// Models answer with page numbers relative to the images they were shown
+const toDocumentPage = (page: number | undefined, window: PageWindow): number => {
+    const size = window.end - window.start + 1;
+    if (!page || page < 1) return window.start;
+    if (page <= size) return window.start + page - 1;
+    return page >= window.start && page <= window.end ? page : window.start;
+};
+
+const STATUS_RANK: Record<SafetyStatus, number> = { 'Safe': 0, 'Caution': 1, 'Unsafe': 2 };
+
+type WindowOutcome = { window: PageWindow; result?: AnalysisResult; error?: unknown };
+
+/**
+ * The rule engine runs on the whole document before the windows (see analyzeContent).
+ * A provider that runs it again sees only the window's text, so its rule findings
+ * repeat those with spans and patches into the wrong text. They are dropped. Such a
+ * provider scores its own issue list, so the window is rescored from what remains and
+ * the document-wide findings count once.
+ */
+const withoutRuleFindings = (result: AnalysisResult): AnalysisResult => {
+    const issues = result.issues.filter(issue => issue.source !== 'rule');
+    if (issues.length === result.issues.length) return result;
+    return { ...result, issues, ...scoreIssues(issues) };
+};
+
+/**
+ * Runs `provider.analyze` once per page window, at most MAX_CONCURRENT_WINDOWS at a
+ * time. A failed window does not fail the run: its pages are left out of the
+ * coverage instead. Only when every window fails is the first error rethrown.
+ */
+export async function analyzeInPageWindows(
+    provider: GovernanceProvider,
+    request: AnalysisRequest,
+    onProgress?: (progress: number) => void
+): Promise<AnalysisResult> {
+    const pages = request.visualSlides || [];
+    const windows = splitPageWindows(pages.length);
+    const progress = windows.map(() => 0);
+    const report = () => onProgress?.(Math.floor(progress.reduce((sum, p) => sum + p, 0) / windows.length));
+
+    const outcomes = await mapWithConcurrency<PageWindow, WindowOutcome>(windows, MAX_CONCURRENT_WINDOWS, async (window, index) => {
+        try {
+            const result = await provider.analyze({
+                ...request,
+                content: textForWindow(request.content, window, index === 0, index === windows.length - 1),
+                visualSlides: pages.slice(window.start - 1, window.end)
+            }, (p) => {
+                progress[index] = p;
+                report();
+            });
+            return { window, result: withoutRuleFindings(result) };
+        } catch (error) {
+            console.error(`Analysis of pages ${window.start}-${window.end} failed:`, error);
+            return { window, error };
+        } finally {
+            progress[index] = 100;
+            report();
+        }
+    });
+
+    const analyzed = outcomes.filter((o): o is WindowOutcome & { result: AnalysisResult } => !!o.result);
+    if (analyzed.length === 0) throw outcomes[0].error;
+    const failedPages = outcomes
+        .filter(o => !o.result)
+        .flatMap(({ window }) => Array.from({ length: window.end - window.start + 1 }, (_, i) => window.start + i));
+
+    const issues: Issue[] = analyzed.flatMap(({ window, result }) => result.issues.map(issue => ({
+        ...issue,
+        // Model ids are only unique within one call
+        id: windows.length > 1 ? `p${window.start}-${issue.id}` : issue.id,
+        page_number: toDocumentPage(issue.page_number, window)
+    })));
+
+    // Video frames are named by their time
+    const label = ({ start, end }: PageWindow) => {
+        const [from, to] = [pages[start - 1].time, pages[end - 1].time];
+        if (from !== undefined && to !== undefined) return start === end ? formatTimestamp(from) : `${formatTimestamp(from)}-${formatTimestamp(to)}`;
+        return start === end ? `Page ${start}` : `Pages ${start}-${end}`;
+    };
+    const summary = analyzed.length === 1 && windows.length === 1
+        ? analyzed[0].result.summary
+        : analyzed.map(({ window, result }) => `${label(window)}: ${result.summary}`).join('\n');
+
+    return {
+        // A document is only as safe as its weakest section
+        safetyStatus: analyzed.reduce<SafetyStatus>((worst, { result }) =>
+            STATUS_RANK[result.safetyStatus] > STATUS_RANK[worst] ? result.safetyStatus : worst, 'Safe'),
+        brandScore: Math.min(...analyzed.map(({ result }) => result.brandScore)),
+        summary,
+        issues,
+        correctedText: analyzed.find(({ result }) => result.correctedText)?.result.correctedText,
+        coverage: {
+            analyzedPages: pages.length - failedPages.length,
+            totalPages: pages.length,
+            ...(failedPages.length ? { failedPages } : {})
+        }
+    };
+}
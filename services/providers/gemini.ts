@@ -0,0 +1,422 @@
+import { GoogleGenAI, Type, Schema } from "@google/genai";
+import { CommunicationContext, AssetType } from '../../types';
+import { GovernanceProvider } from './types';
+import { cleanJson, buildAnalysisInstruction, normalizeAnalysis } from './shared';
+import { formatBannedTerms, parseBannedTerms } from '../rules';
+import { formatTimestamp } from '../captions';
+
+export interface GeminiProviderOptions {
+  apiKey?: string;
+  analysisModel?: string; // Streaming model used for full governance analysis
+  utilityModel?: string;  // Cheaper model for translation, detection and extraction
+}
+
+const DEFAULT_ANALYSIS_MODEL = 'gemini-2.0-flash-exp';
+const DEFAULT_UTILITY_MODEL = 'gemini-2.5-flash';
+
+// Helper to retry with exponential backoff for 503 errors
+const generateWithRetry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
+  try {
+    return await fn();
+  } catch (error: any) {
+    if (retries > 0 && (error?.status === 503 || error?.code === 503 || error?.message?.includes('overloaded'))) {
+      console.warn(`API Overloaded. Retrying in ${delay / 1000}s...`);
+      await new Promise(r => setTimeout(r, delay));
+      return generateWithRetry(fn, retries - 1, delay * 2);
+    }
+    throw error;
+  }
+};
+
+// Define the schema for the analysis response
+const analysisSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    safetyStatus: { type: Type.STRING, enum: ['Safe', 'Caution', 'Unsafe'], description: "Strict safety assessment based on issues." },
+    brandScore: { type: Type.NUMBER, description: "Overall 0-100 score. 100 = Perfect Alignment. Deduct points for every issue found." },
+    summary: { type: Type.STRING, description: "Executive summary of safety and brand alignment." },
+    issues: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          category: { type: Type.STRING, enum: ["Brand", "Compliance", "Cultural"] },
+          subcategory: { type: Type.STRING },
+          description: { type: Type.STRING, description: "What is the issue?" },
+          rationale: { type: Type.STRING, description: "Why is this an issue? Cite the rule." },
+          fix: { type: Type.STRING, description: "How to fix it precisely." },
+          severity: { type: Type.STRING, enum: ["Low", "Medium", "High"] },
+          blocking: { type: Type.BOOLEAN, description: "True if this prevents publication (Brand/Compliance)." },
+          fixType: { type: Type.STRING, enum: ["Deterministic", "Manual"] },
+          box_2d: {
+            type: Type.ARRAY,
+            description: "Bounding box in [ymin, xmin, ymax, xmax] format (0-1000 scale).",
+            items: { type: Type.NUMBER }
+          },
+          timestamp: { type: Type.NUMBER },
+          page_number: { type: Type.NUMBER, description: "Page number (1-indexed) where the issue occurs." }
+        },
+        required: ["id", "category", "subcategory", "description", "rationale", "fix", "severity", "blocking", "fixType"]
+      }
+    },
+    correctedText: { type: Type.STRING }
+  },
+  required: ["safetyStatus", "brandScore", "summary", "issues"]
+};
+
+const translationSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    translatedText: { type: Type.STRING },
+    notes: { type: Type.STRING },
+    stylisticScore: { type: Type.NUMBER, description: "0-100 score of how well brand voice was preserved in translation" },
+    complianceIssues: { type: Type.ARRAY, items: { type: Type.STRING }, description: "List of any compliance terms violated in the target language" }
+  },
+  required: ["translatedText", "notes", "stylisticScore"]
+};
+
+const contextDetectionSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    context: { type: Type.STRING, enum: Object.values(CommunicationContext) },
+    assetType: { type: Type.STRING, enum: Object.values(AssetType) },
+    confidence: { type: Type.NUMBER }
+  },
+  required: ["context", "assetType", "confidence"]
+};
+
+// Simplified schema for just detecting type
+const typeSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    assetType: { type: Type.STRING, enum: Object.values(AssetType) },
+    confidence: { type: Type.NUMBER }
+  },
+  required: ["assetType", "confidence"]
+};
+
+const settingsExtractionSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    brandName: { type: Type.STRING },
+    mission: { type: Type.STRING },
+    audience: { type: Type.STRING },
+    toneVoice: { type: Type.STRING },
+    styleGuide: { type: Type.STRING },
+    bannedTerms: { type: Type.STRING, description: "Comma-separated terms, with notes like (use 'x' instead) or (unless referring to y) in parentheses." },
+    inclusiveLanguage: { type: Type.BOOLEAN }
+  },
+  required: ["brandName", "toneVoice", "bannedTerms", "inclusiveLanguage"]
+};
+
+const transcriptionSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.NUMBER, description: "Start of the utterance in seconds from the beginning." },
+          end: { type: Type.NUMBER, description: "End of the utterance in seconds from the beginning." },
+          text: { type: Type.STRING, description: "Exactly what is said, verbatim." },
+          speaker: { type: Type.STRING, description: "Speaker name or label, if it can be told." }
+        },
+        required: ['start', 'end', 'text']
+      }
+    }
+  },
+  required: ['segments']
+};
+
+const GUIDELINE_FIELDS = ['brandName', 'mission', 'audience', 'toneVoice', 'styleGuide', 'bannedTerms', 'inclusiveLanguage'];
+
+const guidelineExtractionSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    proposals: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          field: { type: Type.STRING, enum: GUIDELINE_FIELDS },
+          value: { type: Type.STRING, description: "The guideline, rewritten as a concise rule. For inclusiveLanguage: 'true' or 'false'. For bannedTerms: comma-separated terms with notes in parentheses." },
+          sourcePassage: { type: Type.STRING, description: "The exact passage from the text this was taken from, copied verbatim." }
+        },
+        required: ['field', 'value', 'sourcePassage']
+      }
+    }
+  },
+  required: ['proposals']
+};
+
+export const createGeminiProvider = (options: GeminiProviderOptions = {}): GovernanceProvider => {
+  const analysisModel = options.analysisModel || DEFAULT_ANALYSIS_MODEL;
+  const utilityModel = options.utilityModel || DEFAULT_UTILITY_MODEL;
+
+  const getClient = () => {
+    // Debug log (safe: only keys, no values)
+    if (import.meta.env.PROD) {
+      const keys = Object.keys(import.meta.env).filter(k => k.startsWith('VITE_'));
+      console.log(`[Env Debug] Mode: ${import.meta.env.MODE}, Keys found: ${keys.join(', ') || 'none'}`);
+    }
+
+    if (!options.apiKey) {
+      throw new Error(`API Key not found in ${import.meta.env.MODE} mode. Please ensure VITE_GEMINI_API_KEY is set in GitHub Secrets for production or .env.local for development.`);
+    }
+    return new GoogleGenAI({ apiKey: options.apiKey });
+  };
+
+  return {
+    id: 'gemini',
+    label: `Google Gemini (${analysisModel})`,
+
+    analyze: async (request, onProgress) => {
+      const ai = getClient();
+      const { content, assetType, fileBase64, mimeType, additionalContext, visualSlides } = request;
+      const systemInstruction = buildAnalysisInstruction(request);
+
+      try {
+        const parts: any[] = [];
+
+        // When we have visualSlides (PDF pages, PPTX slides or video frames), prioritize visual analysis
+        if (visualSlides && visualSlides.length > 0) {
+          const isVideo = visualSlides.some(slide => slide.time !== undefined);
+          parts.push({
+            text: `VISUAL ANALYSIS MODE: You are analyzing ${visualSlides.length} ${isVideo
+              ? 'frames sampled from a video at scene changes and regular intervals; each frame is labeled with its time'
+              : 'slide/page images extracted from a presentation/document'}.
+
+CRITICAL REQUIREMENTS:
+1. Analyze EACH slide image visually for layout, design, text positioning, and brand alignment issues.
+2. For EVERY issue you find, you MUST provide:
+   - 'box_2d': [ymin, xmin, ymax, xmax] coordinates on a 0-1000 scale pointing to the EXACT visual location of the issue
+   - 'page_number': Which slide/page (1-indexed) the issue appears on
+3. Issues WITHOUT box_2d coordinates will be INVALID and ignored.
+4. Be precise about visual locations - point to SPECIFIC elements on the slide.
+
+Now analyze these slides:`
+          });
+
+          visualSlides.forEach((slide, index) => {
+            parts.push({ text: slide.time !== undefined
+              ? `=== SLIDE ${index + 1} IMAGE (video frame at ${formatTimestamp(slide.time)}) ===`
+              : `=== SLIDE ${index + 1} IMAGE ===` });
+            parts.push({
+              inlineData: {
+                mimeType: slide.mimeType,
+                data: slide.data
+              }
+            });
+          });
+
+          // Add text content as supplementary context only
+          if (content) {
+            parts.push({ text: `\n\nSUPPLEMENTARY TEXT CONTENT (for context):\n${content}` });
+          }
+        } else {
+          // Standard text/file analysis
+          parts.push({ text: content ? content : `Analyze this ${assetType} file visually.` });
+
+          if (fileBase64 && mimeType) {
+            parts.push({
+              inlineData: {
+                mimeType: mimeType,
+                data: fileBase64
+              }
+            });
+          }
+        }
+
+        if (additionalContext) {
+          parts.push({ text: `Additional User Context: ${additionalContext}` });
+        }
+
+        let currentProgress = 0;
+
+        // Smooth "Thinking" Simulation (0% -> 35% while waiting for first chunk)
+        // Runs every 200ms
+        const interval = setInterval(() => {
+          currentProgress += (35 - currentProgress) * 0.1;
+          if (onProgress) onProgress(Math.floor(currentProgress));
+        }, 200);
+
+        const result = await generateWithRetry(() => ai.models.generateContentStream({
+          model: analysisModel,
+          contents: { parts },
+          config: {
+            systemInstruction: systemInstruction,
+            responseMimeType: "application/json",
+            responseSchema: analysisSchema,
+            temperature: 0.2, // Lower temperature for precision
+          },
+        }));
+
+        let fullText = '';
+        let chunkCount = 0;
+
+        for await (const chunk of result) {
+          if (chunkCount === 0) clearInterval(interval); // Stop thinking, start streaming
+
+          const chunkText = chunk.text || "";
+          fullText += chunkText;
+          chunkCount++;
+
+          if (onProgress) {
+            // Smooth Streaming Simulation (Current -> 95%)
+            // We don't know total tokens, so we asymptotically approach 95% from wherever we are.
+            // Each chunk moves us 15% of the remaining distance.
+            currentProgress += (95 - currentProgress) * 0.15;
+            onProgress(Math.floor(currentProgress));
+          }
+        }
+
+        clearInterval(interval); // Safety clear
+
+        if (!fullText) throw new Error("No response text generated");
+
+        if (onProgress) onProgress(98); // Parsing
+
+        const json = normalizeAnalysis(JSON.parse(cleanJson(fullText)));
+
+        if (onProgress) onProgress(100);
+
+        return json;
+
+      } catch (error) {
+        console.error("Gemini Analysis Error:", error);
+        throw error;
+      }
+    },
+
+    translate: async (content, targetLanguage, settings) => {
+      const ai = getClient();
+      const prompt = `
+      Translate to ${targetLanguage} while maintaining this Tone: "${settings.toneVoice}".
+      Strictly avoid these banned terms: "${formatBannedTerms(settings.bannedTerms)}".
+
+      POST-TRANSLATION CHECK:
+      1. Calculate "Stylistic Alignment Score" (0-100): How well does the translated text capture the original brand voice?
+      2. Re-run Compliance: Did any banned terms slip through or appear due to localization? List them.
+
+      Text: "${content.substring(0, 5000)}"
+    `;
+      const response = await ai.models.generateContent({
+        model: utilityModel,
+        contents: prompt,
+        config: { responseMimeType: "application/json", responseSchema: translationSchema }
+      });
+      if (response.text) return JSON.parse(cleanJson(response.text));
+      throw new Error("Translation failed");
+    },
+
+    detectContext: async (content) => {
+      const ai = getClient();
+      // We only allow text-based inference.
+      const response = await ai.models.generateContent({
+        model: utilityModel,
+        contents: `Analyze text to determine 'Context' and 'AssetType'.
+    Contexts:
+    - Sales
+    - Marketing
+    - Internal or Operations
+    - HR
+    - Legal or Compliance
+    - Not sure
+
+    Rules:
+    - If ambiguous, choose "Not sure".
+    - If persuasive/promotional, choose Marketing or Sales.
+    - If policy/contract, choose Legal.
+    - If employee-focused, choose HR.
+
+    Provide a confidence score (0-100).
+    Text: ${content.substring(0, 1000)}`,
+        config: { responseMimeType: "application/json", responseSchema: contextDetectionSchema }
+      });
+      if (response.text) return JSON.parse(cleanJson(response.text));
+      return { context: CommunicationContext.NOT_SURE, assetType: AssetType.DOCUMENT, confidence: 0 };
+    },
+
+    detectVisualContext: async (fileBase64, mimeType) => {
+      // STRICT RULE: Visual assets must NOT have context inferred.
+      // We only detect AssetType (e.g. is it a Slide Deck or a Social Post?).
+      // Context defaults to NOT_SURE to force user selection.
+      const ai = getClient();
+
+      const parts = [
+        { text: `Analyze this image/video frame to determine the 'AssetType'. ignore context.` },
+        {
+          inlineData: {
+            mimeType: mimeType,
+            data: fileBase64
+          }
+        }
+      ];
+
+      try {
+        const response = await ai.models.generateContent({
+          model: utilityModel,
+          contents: { parts },
+          config: { responseMimeType: "application/json", responseSchema: typeSchema }
+        });
+
+        if (response.text) {
+          const res = JSON.parse(cleanJson(response.text));
+          return { context: CommunicationContext.NOT_SURE, assetType: res.assetType, confidence: res.confidence };
+        }
+      } catch (e) {
+        console.warn("Visual detection failed", e);
+      }
+
+      return { context: CommunicationContext.NOT_SURE, assetType: AssetType.IMAGE, confidence: 0 };
+    },
+
+    extractBrandSettings: async (content) => {
+      const ai = getClient();
+      const response = await ai.models.generateContent({
+        model: utilityModel,
+        contents: `Extract brand settings from: ${content.substring(0, 5000)}`,
+        config: { responseMimeType: "application/json", responseSchema: settingsExtractionSchema }
+      });
+      if (response.text) {
+        const settings = JSON.parse(cleanJson(response.text));
+        return { ...settings, bannedTerms: parseBannedTerms(settings.bannedTerms || '') };
+      }
+      throw new Error("Failed to extract settings");
+    },
+
+    extractGuidelines: async (chunk) => {
+      const ai = getClient();
+      const response = await generateWithRetry(() => ai.models.generateContent({
+        model: utilityModel,
+        contents: `You are reading one section of a brand manual. Extract every guideline it states that belongs to one of these fields:
+brandName (the brand's name), mission (purpose, philosophy, values), audience, toneVoice (voice, tone, writing style), styleGuide (visual identity: logo, colour, typography, imagery), bannedTerms (words or phrases to avoid), inclusiveLanguage (whether inclusive language is required).
+Only report what the text actually says. Quote the source passage verbatim. Return an empty list if the section contains no guidelines.
+
+=== MANUAL SECTION ===
+${chunk}`,
+        config: { responseMimeType: "application/json", responseSchema: guidelineExtractionSchema }
+      }));
+      if (!response.text) throw new Error("Failed to extract guidelines");
+      return JSON.parse(cleanJson(response.text)).proposals || [];
+    },
+
+    transcribe: async (fileBase64, mimeType) => {
+      const ai = getClient();
+      const response = await generateWithRetry(() => ai.models.generateContent({
+        model: utilityModel,
+        contents: {
+          parts: [
+            { text: `Transcribe all speech in this recording verbatim, one segment per sentence or short utterance, with start and end times in seconds. Return an empty list if nobody speaks.` },
+            { inlineData: { mimeType, data: fileBase64 } }
+          ]
+        },
+        config: { responseMimeType: "application/json", responseSchema: transcriptionSchema, temperature: 0 }
+      }));
+      if (!response.text) throw new Error("Transcription failed");
+      return JSON.parse(cleanJson(response.text)).segments || [];
+    }
+  };
+};
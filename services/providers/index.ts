@@ -0,0 +1,35 @@
+import { GovernanceProvider } from './types';
+import { createGeminiProvider } from './gemini';
+import { createLocalProvider } from './local';
+
+export type { GovernanceProvider, AnalysisRequest, TranslationResult, ContextDetection, GuidelineField, GuidelineProposal } from './types';
+export { createGeminiProvider } from './gemini';
+export { createLocalProvider } from './local';
+
+let activeProvider: GovernanceProvider | null = null;
+
+// VITE_GOVERNANCE_PROVIDER=local runs the whole upload -> results flow without network access
+const createDefaultProvider = (): GovernanceProvider => {
+  const providerId = import.meta.env.VITE_GOVERNANCE_PROVIDER || 'gemini';
+
+  if (providerId === 'local') return createLocalProvider();
+  if (providerId !== 'gemini') {
+    console.warn(`Unknown governance provider "${providerId}", falling back to Gemini.`);
+  }
+
+  return createGeminiProvider({
+    apiKey: import.meta.env.VITE_GEMINI_API_KEY,
+    analysisModel: import.meta.env.VITE_GEMINI_ANALYSIS_MODEL,
+    utilityModel: import.meta.env.VITE_GEMINI_UTILITY_MODEL
+  });
+};
+
+export const getGovernanceProvider = (): GovernanceProvider => {
+  if (!activeProvider) activeProvider = createDefaultProvider();
+  return activeProvider;
+};
+
+// Swap the vendor at runtime (tests, alternative vendors). Pass null to restore the env default.
+export const setGovernanceProvider = (provider: GovernanceProvider | null) => {
+  activeProvider = provider;
+};
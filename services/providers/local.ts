@@ -0,0 +1,146 @@
+import { CommunicationContext, AssetType, AnalysisResult, Issue } from '../../types';
+import { GovernanceProvider, ContextDetection, GuidelineField, GuidelineProposal } from './types';
+import { runRuleEngine, scoreIssues, tokenize, checkBannedTerms, parseBannedTerms } from '../rules';
+
+// Offline stand-in for a model vendor. Every answer is derived from the input
+// alone, so the same asset always produces the same result (tests, demos, air-gapped runs).
+
+const CONTEXT_KEYWORDS: { context: CommunicationContext; assetType: AssetType; keywords: string[] }[] = [
+  { context: CommunicationContext.LEGAL_COMPLIANCE, assetType: AssetType.CONTRACT, keywords: ['agreement', 'liability', 'hereby', 'indemnif', 'terms and conditions', 'governing law'] },
+  { context: CommunicationContext.HR, assetType: AssetType.HR_GUIDE, keywords: ['employee', 'benefits', 'onboarding', 'leave policy', 'candidate', 'performance review'] },
+  { context: CommunicationContext.SALES, assetType: AssetType.PROPOSAL, keywords: ['pricing', 'quote', 'proposal', 'discount', 'roi', 'contract value'] },
+  { context: CommunicationContext.MARKETING, assetType: AssetType.BLOG_POST, keywords: ['launch', 'discover', 'introducing', 'campaign', 'sign up', 'learn more'] },
+  { context: CommunicationContext.INTERNAL_OPS, assetType: AssetType.SOP, keywords: ['procedure', 'process', 'status', 'meeting', 'action items', 'roadmap'] }
+];
+
+// Splits a manual into labelled sections by keyword-bearing heading lines
+const findSection = (lines: string[], pattern: RegExp): { heading: string; body: string } | null => {
+  const start = lines.findIndex(line => line.length < 80 && pattern.test(line));
+  if (start === -1) return null;
+  const body: string[] = [];
+  for (let i = start + 1; i < lines.length; i++) {
+    if (lines[i].length < 80 && /^[\d.\s]*[A-Z][A-Z &/-]{3,}$/.test(lines[i].trim())) break;
+    body.push(lines[i]);
+  }
+  return { heading: lines[start].trim(), body: body.join('\n').trim() };
+};
+
+const extractSection = (lines: string[], pattern: RegExp): string => findSection(lines, pattern)?.body || '';
+
+const splitTerms = (text: string) =>
+  text.split(/[\n,;•]/).map(t => t.replace(/^[-*\s]+/, '').trim()).filter(Boolean).join(', ');
+
+const SECTION_PATTERNS: { field: GuidelineField; pattern: RegExp }[] = [
+  { field: 'mission', pattern: /mission|purpose|philosophy/i },
+  { field: 'audience', pattern: /audience/i },
+  { field: 'toneVoice', pattern: /tone|voice/i },
+  { field: 'styleGuide', pattern: /visual|style|typography|colou?r/i },
+  { field: 'bannedTerms', pattern: /banned|prohibited|avoid|restricted/i }
+];
+
+export const createLocalProvider = (): GovernanceProvider => ({
+  id: 'local',
+  label: 'Local deterministic engine',
+
+  analyze: async (request, onProgress) => {
+    const { content, settings, assetType, context } = request;
+    const issues: Issue[] = [];
+
+    if (!content.trim()) {
+      issues.push({
+        id: 'local-visual-review',
+        category: 'Brand',
+        subcategory: 'Visual Review',
+        description: `Visual review of this ${assetType} requires a model provider.`,
+        rationale: 'The local engine only evaluates extracted text.',
+        fix: 'Re-run the analysis with a model provider configured.',
+        severity: 'Low',
+        blocking: false,
+        fixType: 'Manual'
+      });
+    }
+
+    issues.push(...runRuleEngine(content, settings, { context, assetType, region: request.region }));
+
+    const { brandScore, safetyStatus } = scoreIssues(issues);
+    const result: AnalysisResult = {
+      safetyStatus,
+      brandScore,
+      summary: issues.length === 0
+        ? 'No rule violations found by the local engine.'
+        : `Local engine found ${issues.length} issue${issues.length > 1 ? 's' : ''}.`,
+      issues
+    };
+
+    if (onProgress) onProgress(100);
+    return result;
+  },
+
+  translate: async (content, targetLanguage, settings) => {
+    const hits = checkBannedTerms(content, tokenize(content), settings.bannedTerms);
+    return {
+      translatedText: content,
+      notes: `The local engine cannot translate to ${targetLanguage}; the original text is returned unchanged.`,
+      stylisticScore: 100,
+      complianceIssues: [...new Set(hits.map(h => h.description))]
+    };
+  },
+
+  detectContext: async (content) => {
+    const lower = content.substring(0, 1000).toLowerCase();
+    let best: ContextDetection = { context: CommunicationContext.NOT_SURE, assetType: AssetType.DOCUMENT, confidence: 0 };
+    let bestHits = 0;
+
+    CONTEXT_KEYWORDS.forEach(({ context, assetType, keywords }) => {
+      const hits = keywords.filter(k => lower.includes(k)).length;
+      if (hits > bestHits) {
+        bestHits = hits;
+        best = { context, assetType, confidence: Math.min(90, hits * 30) };
+      }
+    });
+
+    return best;
+  },
+
+  detectVisualContext: async (_fileBase64, mimeType) => ({
+    // Same strict rule as every provider: context is never inferred for visuals
+    context: CommunicationContext.NOT_SURE,
+    assetType: mimeType.startsWith('video/') ? AssetType.VIDEO : mimeType.startsWith('audio/') ? AssetType.AUDIO : AssetType.IMAGE,
+    confidence: 50
+  }),
+
+  extractBrandSettings: async (content) => {
+    const lines = content.split(/\r?\n/);
+    const banned = extractSection(lines, /banned|prohibited|avoid|restricted/i);
+
+    return {
+      brandName: lines.find(l => l.trim())?.trim().substring(0, 80) || '',
+      mission: extractSection(lines, /mission|purpose|philosophy/i),
+      audience: extractSection(lines, /audience/i),
+      toneVoice: extractSection(lines, /tone|voice/i),
+      styleGuide: extractSection(lines, /visual|style|typography|colou?r/i),
+      bannedTerms: parseBannedTerms(splitTerms(banned)),
+      inclusiveLanguage: /inclusiv/i.test(content)
+    };
+  },
+
+  extractGuidelines: async (chunk) => {
+    const lines = chunk.split(/\r?\n/);
+    const proposals: GuidelineProposal[] = [];
+
+    SECTION_PATTERNS.forEach(({ field, pattern }) => {
+      const section = findSection(lines, pattern);
+      if (!section?.body) return;
+      proposals.push({
+        field,
+        value: field === 'bannedTerms' ? splitTerms(section.body) : section.body,
+        sourcePassage: `${section.heading}\n${section.body}`.substring(0, 600)
+      });
+    });
+
+    const inclusive = chunk.split(/(?<=[.!?])\s+/).find(sentence => /inclusiv/i.test(sentence));
+    if (inclusive) proposals.push({ field: 'inclusiveLanguage', value: 'true', sourcePassage: inclusive.trim() });
+
+    return proposals;
+  }
+});
@@ -0,0 +1,151 @@
+// Vendor-neutral helpers shared by every GovernanceProvider implementation
+import { CommunicationContext, AnalysisResult, Issue } from '../../types';
+import { AnalysisRequest } from './types';
+import { formatBannedTerms, formatDesignTokens, formatGlossary, glossaryEntries, isBannedTermApplicable } from '../rules';
+
+// Helper to clean Markdown JSON blocks
+export const cleanJson = (text: string): string => {
+  if (!text) return "{}";
+  let cleaned = text.trim();
+  if (cleaned.startsWith('```json')) {
+    cleaned = cleaned.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+  } else if (cleaned.startsWith('```')) {
+    cleaned = cleaned.replace(/^```\s*/, '').replace(/\s*```$/, '');
+  }
+  return cleaned;
+};
+
+// Dynamic Weighting Logic
+export const getAnalysisWeights = (context: CommunicationContext, region: string) => {
+  let focusArea = "Balanced";
+  let complianceWeight = "40%";
+  let culturalWeight = "30%";
+  let brandWeight = "30%";
+
+  // Strict Precedence & Safety Mode
+  if (context === CommunicationContext.NOT_SURE || context === CommunicationContext.LEGAL_COMPLIANCE) {
+    focusArea = "COMPLIANCE & RISK (SAFETY MODE)";
+    complianceWeight = "70%";
+    culturalWeight = "20%";
+    brandWeight = "10%";
+  } else if (context === CommunicationContext.HR || context === CommunicationContext.INTERNAL_OPS) {
+    focusArea = "CLARITY & POLICY";
+    complianceWeight = "50%";
+    culturalWeight = "30%";
+    brandWeight = "20%";
+  } else if (context === CommunicationContext.MARKETING || context === CommunicationContext.SALES) {
+    focusArea = "IMPACT & BRAND ALIGNMENT";
+    brandWeight = "50%";
+    culturalWeight = "30%";
+    complianceWeight = "20%";
+    if (region !== "Global") {
+      culturalWeight = "50%";
+      brandWeight = "25%";
+      complianceWeight = "25%";
+      focusArea = "CULTURAL RESONANCE";
+    }
+  }
+
+  return { focusArea, complianceWeight, culturalWeight, brandWeight };
+};
+
+export const buildAnalysisInstruction = ({ context, region, settings, fixIntensity, knownIssues }: AnalysisRequest): string => {
+  const { focusArea, complianceWeight, culturalWeight, brandWeight } = getAnalysisWeights(context, region);
+
+  // Safety Mode Overrides
+  const isSafetyMode = context === CommunicationContext.NOT_SURE;
+  const safetyPrompt = isSafetyMode ?
+    `SAFETY MODE ACTIVE: This asset has ambiguous context. Assume maximum external visibility. Apply strictest interpretation of all rules. Treat all claims as requiring verification.` :
+    "";
+
+  const knownIssuesPrompt = knownIssues && knownIssues.length > 0 ?
+    `=== ALREADY DETECTED BY RULE ENGINE (do NOT report these again) ===
+    ${knownIssues.map(i => `- ${i.description}`).join('\n    ')}` :
+    "";
+
+  return `
+    You are "BrandAlign Core Engine", an enterprise-grade Governance AI.
+    Your goal is to analyze assets with "Ultra-Deep" precision against the provided Brand Guidelines.
+
+    === ANALYSIS CONFIGURATION ===
+    - **Focus Area**: ${focusArea}
+    - **Weighting**: Compliance(${complianceWeight}) | Cultural(${culturalWeight}) | Brand(${brandWeight})
+    - **Region**: ${region}
+    - **Context**: ${context}
+    - **Fix Intensity**: ${fixIntensity}
+    ${safetyPrompt}
+
+    === BRAND STANDARDS (Strict Enforcement) ===
+    1. **Mission**: "${settings.mission}"
+    2. **Voice**: "${settings.toneVoice}"
+    3. **Banned Terms**: "${formatBannedTerms(settings.bannedTerms.filter(t => isBannedTermApplicable(t, { context, region })))}" (FAIL if found; terms marked Low or Medium severity are not blocking).
+    4. **Inclusive Language**: ${settings.inclusiveLanguage ? "REQUIRED" : "Optional"}
+    5. **Approved Terminology**: "${formatGlossary(glossaryEntries(settings))}" (exact casing; trademark symbol on first use).
+    6. **Design Tokens**: "${settings.designTokens ? formatDesignTokens(settings.designTokens).replace(/\n/g, '; ') : ''}" (approved fonts and logo clear space apply to visuals; palette colors are measured by the rule engine).
+
+    ${knownIssuesPrompt}
+
+    === DEEP ANALYSIS PILLARS ===
+
+    1. **BRAND & VISUAL (Weight: ${brandWeight})**
+       - **Visual**: Assess layout, white space, hierarchy, and complexity. (Categorize as 'Brand')
+       - **Voice**: Check tone consistency.
+       - **Format**: Is the structure appropriate?
+
+    2. **CULTURAL & TONE (Weight: ${culturalWeight})**
+       - **Tone Drift**: Calculate specific % deviation from the Brand Voice.
+       - **Regional Fit**: If Region is not Global, strictly evaluate against local norms.
+       - **Symbolism**: Check for colors/phrases that might be offensive in ${region}.
+
+    3. **COMPLIANCE & GOVERNANCE (Weight: ${complianceWeight})**
+       - **Risk Assessment**:
+         - CRITICAL: Banned terms, legal liabilities, unverified claims.
+         - MEDIUM: Brand inconsistency, minor tone drift.
+         - LOW: Formatting nitpicks.
+       - **Claims**: Identify every factual claim.
+
+    === RESPONSE REQUIREMENTS ===
+    - **Scores**:
+      - Calculate 'brandScore' (0-100). Start at 100.
+      - Deduct 15-20 points for Critical/Blocking issues.
+      - Deduct 5-10 points for Medium issues.
+      - Deduct 1-2 points for Low issues.
+      - Be strict. Average content should be ~75.
+    - **Issues**: Provide specific actionable advice.
+    - **Visual Annotation**: For ALL visual content (Images, Videos, PDFs, Presentations):
+      - You MUST provide precise bounding box coordinates in 'box_2d' field.
+      - Format: [ymin, xmin, ymax, xmax]
+      - Scale: 0 to 1000. (e.g. [100, 100, 500, 500] is the center area)
+      - Be extremely pixel-accurate. Point to exact location of the issue.
+      - IMPORTANT: Every issue in visual content MUST have a valid box_2d array.
+    - **Page/Slide Numbers**: For multi-page documents (PDF, PPTX):
+      - You MUST provide 'page_number' (1-indexed) for EVERY issue.
+      - Match issues to the specific slide/page image provided.
+    - **Timestamps**: For Video/Audio content, provide 'timestamp' (in seconds).
+    - **Categories**: Use ONLY: 'Brand', 'Compliance', 'Cultural'. (Map visual/layout issues to 'Brand').
+    - **Corrected Text**: Rewrite content to match Brand Voice.
+
+    Return valid JSON matching the schema.
+  `;
+};
+
+// Validating & Transforming 0-1000 scale back to % for UI
+export const normalizeAnalysis = (rawJson: any): AnalysisResult => {
+  const issues: Issue[] = (rawJson.issues || []).map((issue: any) => {
+    if (issue.box_2d && Array.isArray(issue.box_2d) && issue.box_2d.length === 4) {
+      const [ymin, xmin, ymax, xmax] = issue.box_2d;
+      return {
+        ...issue,
+        boundingBox: {
+          y: (ymin / 1000) * 100,
+          x: (xmin / 1000) * 100,
+          height: ((ymax - ymin) / 1000) * 100,
+          width: ((xmax - xmin) / 1000) * 100
+        }
+      };
+    }
+    return issue;
+  });
+
+  return { ...rawJson, issues };
+};
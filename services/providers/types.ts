@@ -0,0 +1,56 @@
+import { CommunicationContext, Region, AnalysisResult, BrandSettings, AssetType, FixIntensity, Issue, TimedSegment } from '../../types';
+
+// Everything a provider needs to run a single governance analysis
+export interface AnalysisRequest {
+  content: string;
+  context: CommunicationContext;
+  region: Region;
+  assetType: AssetType;
+  settings: BrandSettings;
+  fixIntensity: FixIntensity;
+  fileBase64?: string;
+  mimeType?: string;
+  additionalContext?: string;
+  visualSlides?: { data: string; mimeType: string; time?: number }[]; // `time` is set on video frames
+  knownIssues?: Issue[]; // Already raised by the local rule engine; the model should not repeat them
+}
+
+export interface TranslationResult {
+  translatedText: string;
+  notes: string;
+  stylisticScore: number;
+  complianceIssues?: string[];
+}
+
+// BrandSettings fields that can be read out of a brand manual
+export type GuidelineField = 'brandName' | 'mission' | 'audience' | 'toneVoice' | 'styleGuide' | 'bannedTerms' | 'inclusiveLanguage';
+
+// One guideline statement found in a chunk of a manual
+export interface GuidelineProposal {
+  field: GuidelineField;
+  value: string; // For inclusiveLanguage: "true" or "false"
+  sourcePassage: string; // Verbatim text the value was taken from
+}
+
+export interface ContextDetection {
+  context: CommunicationContext;
+  assetType: AssetType;
+  confidence: number;
+}
+
+/**
+ * Contract every model vendor implements. The exports in services/gemini.ts
+ * delegate to the active provider, so components never talk to a vendor SDK.
+ */
+export interface GovernanceProvider {
+  id: string;
+  label: string;
+  analyze: (request: AnalysisRequest, onProgress?: (progress: number) => void) => Promise<AnalysisResult>;
+  translate: (content: string, targetLanguage: string, settings: BrandSettings) => Promise<TranslationResult>;
+  detectContext: (content: string) => Promise<ContextDetection>;
+  detectVisualContext: (fileBase64: string, mimeType: string) => Promise<ContextDetection>;
+  extractBrandSettings: (content: string) => Promise<BrandSettings>;
+  extractGuidelines: (chunk: string) => Promise<GuidelineProposal[]>;
+  // Speech in video or audio with timings; optional, media without captions stay untimed otherwise
+  transcribe?: (fileBase64: string, mimeType: string) => Promise<TimedSegment[]>;
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { BannedTerm, CommunicationContext } from '../../types';
+import { checkBannedTerms, compileTermPattern, isBannedTermApplicable, parseBannedTerms } from './bannedTerms';
+import { tokenize } from './tokenize';
+
+const term = (fields: Partial<BannedTerm>): BannedTerm => ({ id: 'term', term: 'leverage', severity: 'High', ...fields });
+
+const check = (content: string, entries: BannedTerm[], scope = {}) => checkBannedTerms(content, tokenize(content), entries, scope);
+
+describe('parseBannedTerms', () => {
+    it('turns the legacy comma string into entries with their notes', () => {
+        expect(parseBannedTerms("Leverage (use 'use' instead), disruptive (unless referring to Tech); synergy\nguru (avoid in job ads)")).toEqual([
+            { id: 'leverage-0', term: 'leverage', severity: 'High', replacement: 'use' },
+            { id: 'disruptive-1', term: 'disruptive', severity: 'High', exceptionReferent: 'tech' },
+            { id: 'synergy-2', term: 'synergy', severity: 'High' },
+            { id: 'guru-3', term: 'guru', severity: 'High', note: 'avoid in job ads' }
+        ]);
+    });
+
+    it('keeps commas inside notes and skips empty entries', () => {
+        const [entry, ...rest] = parseBannedTerms('rockstar (hiring, events), , ');
+        expect(entry).toMatchObject({ term: 'rockstar', note: 'hiring, events' });
+        expect(rest).toEqual([]);
+        expect(parseBannedTerms('')).toEqual([]);
+    });
+});
+
+describe('isBannedTermApplicable', () => {
+    const scoped = term({ regions: ['EMEA'], contexts: [CommunicationContext.SALES] });
+
+    it('applies entries without a scope everywhere', () => {
+        expect(isBannedTermApplicable(term({}), { context: CommunicationContext.HR, region: 'APAC' })).toBe(true);
+    });
+
+    it('limits entries to their regions, case-insensitively', () => {
+        expect(isBannedTermApplicable(scoped, { context: CommunicationContext.SALES, region: 'emea' })).toBe(true);
+        expect(isBannedTermApplicable(scoped, { context: CommunicationContext.SALES, region: 'APAC' })).toBe(false);
+    });
+
+    it('applies region-specific entries to Global assets', () => {
+        expect(isBannedTermApplicable(scoped, { context: CommunicationContext.SALES, region: 'Global' })).toBe(true);
+    });
+
+    it('limits entries to their contexts unless the context is unknown', () => {
+        expect(isBannedTermApplicable(scoped, { context: CommunicationContext.HR, region: 'EMEA' })).toBe(false);
+        expect(isBannedTermApplicable(scoped, { context: CommunicationContext.NOT_SURE, region: 'EMEA' })).toBe(true);
+        expect(isBannedTermApplicable(scoped, {})).toBe(true);
+    });
+});
+
+describe('checkBannedTerms', () => {
+    it('skips entries out of scope', () => {
+        const entries = [term({ regions: ['EMEA'] })];
+        expect(check('We leverage data.', entries, { region: 'APAC' })).toEqual([]);
+        expect(check('We leverage data.', entries, { region: 'Global' })).toHaveLength(1);
+    });
+
+    describe('patterns', () => {
+        const pattern = term({ id: 'Free trial pattern', term: 'free\\s+trials?', isRegex: true, replacement: 'trial' });
+
+        it('matches case-insensitively and maps the match onto its tokens', () => {
+            const content = 'Start your FREE  trial today.';
+            const [issue] = check(content, [pattern]);
+            expect(content.slice(issue.span!.start, issue.span!.end)).toBe('FREE  trial');
+            expect(issue.id).toBe('rule-banned-free-trial-pattern-11');
+            expect(issue.patch?.replacement).toBe('trial');
+        });
+
+        it('ignores an invalid pattern instead of failing the check', () => {
+            const broken = term({ term: 'free(trial', isRegex: true });
+            expect(compileTermPattern(broken)).toBeNull();
+            expect(check('A free(trial offer.', [broken])).toEqual([]);
+        });
+    });
+
+    describe('exception referents', () => {
+        const disruptive = term({ term: 'disruptive', exceptionReferent: 'tech', severity: 'Medium' });
+
+        it('allows the term next to a word about the referent', () => {
+            expect(check('Our disruptive cloud platform.', [disruptive])).toEqual([]);
+            expect(check('Technology that is disruptive.', [disruptive])).toEqual([]);
+        });
+
+        it('does not look across a sentence end', () => {
+            expect(check('We sell software. Disruptive ideas win.', [disruptive])).toHaveLength(1);
+            expect(check('Disruptive ideas win. We sell software.', [disruptive])).toHaveLength(1);
+        });
+
+        it('only looks a few words away', () => {
+            expect(check('A disruptive idea for every one of our many loyal customers and their software.', [disruptive])).toHaveLength(1);
+        });
+
+        it('reads an unknown referent from the words of the note', () => {
+            const aggressive = term({ term: 'aggressive', exceptionReferent: 'growth targets' });
+            expect(check('Aggressive growth plans.', [aggressive])).toEqual([]);
+            expect(check('An aggressive tone.', [aggressive])).toHaveLength(1);
+        });
+    });
+});
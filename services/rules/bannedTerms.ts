@@ -0,0 +1,206 @@
+import { BannedTerm, CommunicationContext, Issue, Region } from '../../types';
+import { Token, PhraseMatch, findPhrase } from './tokenize';
+import { matchForm } from './inclusiveLanguage';
+
+export interface BannedTermScope {
+    context?: CommunicationContext;
+    region?: Region;
+}
+
+// Words that count as "referring to" a referent named in an exception note
+const REFERENT_LEXICON: Record<string, string[]> = {
+    tech: ['tech', 'technology', 'technologies', 'technological', 'technical', 'software', 'hardware', 'platform', 'ai', 'digital', 'cloud', 'algorithm', 'automation', 'device', 'devices', 'saas', 'api', 'startup', 'innovation', 'chip', 'network'],
+    finance: ['finance', 'financial', 'capital', 'debt', 'equity', 'loan', 'investment', 'portfolio', 'interest', 'funding'],
+    networking: ['network', 'networking', 'connection', 'throughput', 'latency', 'mbps', 'gbps', 'bandwidth']
+};
+
+// Plain-English substitutes for common jargon, used when the blocklist entry names none
+const COMMON_REPLACEMENTS: Record<string, string> = {
+    'synergy': 'collaboration',
+    'synergies': 'collaboration',
+    'paradigm shift': 'fundamental change',
+    'leverage': 'use',
+    'bandwidth': 'capacity',
+    'rockstar': 'expert',
+    'ninja': 'expert',
+    'guru': 'expert',
+    'disruptive': 'innovative',
+    'best-in-class': 'leading',
+    'game-changer': 'breakthrough'
+};
+
+// How many tokens either side of a match are inspected for an exception referent
+const EXCEPTION_WINDOW = 6;
+
+// Split on commas that are not inside parentheses
+const splitTopLevel = (value: string): string[] => {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of value) {
+        if (char === '(') depth++;
+        if (char === ')') depth = Math.max(0, depth - 1);
+        if ((char === ',' || char === '\n' || char === ';') && depth === 0) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    parts.push(current);
+    return parts.map(p => p.trim()).filter(Boolean);
+};
+
+const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'term';
+
+/**
+ * Parses a free-text blocklist ("leverage, disruptive (unless referring to tech)")
+ * into dictionary entries. Used for pre-dictionary guidelines and text imports.
+ */
+export function parseBannedTerms(bannedTerms: string): BannedTerm[] {
+    return splitTopLevel(bannedTerms || '').map((entry, index) => {
+        const notes = [...entry.matchAll(/\(([^)]*)\)/g)].map(m => m[1].trim());
+        const term = entry.replace(/\(.*?\)/g, '').trim().toLowerCase();
+        const rule: BannedTerm = { id: `${slug(term)}-${index}`, term, severity: 'High' };
+
+        notes.forEach(note => {
+            const unless = note.match(/^unless\s+(?:referring|referencing|relating|related)\s+to\s+(.+)$/i);
+            const use = note.match(/^use\s+['"‘“]?([^'"’”]+?)['"’”]?\s+instead$/i);
+            if (unless) rule.exceptionReferent = unless[1].trim().toLowerCase();
+            else if (use) rule.replacement = use[1].trim();
+            else rule.note = note;
+        });
+
+        return rule;
+    }).filter(rule => rule.term.length > 0);
+}
+
+const referentWords = (referent: string): string[] => {
+    const known = REFERENT_LEXICON[referent];
+    if (known) return known;
+    // Unknown referent: accept the words of the note itself
+    return referent.split(/\s+/).filter(w => w.length > 2);
+};
+
+// Sentence punctuation between two tokens ends the exception window
+const crossesSentence = (content: string, from: Token, to: Token): boolean =>
+    /[.!?]\s|\n\s*\n/.test(content.slice(from.end, to.start));
+
+const isExcepted = (content: string, tokens: Token[], firstToken: number, lastToken: number, referent: string): boolean => {
+    const words = referentWords(referent);
+    const matches = (token: Token) => words.some(w => token.lower === w || (w.length >= 4 && token.lower.startsWith(w)));
+
+    for (let i = firstToken - 1; i >= Math.max(0, firstToken - EXCEPTION_WINDOW); i--) {
+        if (crossesSentence(content, tokens[i], tokens[i + 1])) break;
+        if (matches(tokens[i])) return true;
+    }
+    for (let i = lastToken + 1; i <= Math.min(tokens.length - 1, lastToken + EXCEPTION_WINDOW); i++) {
+        if (crossesSentence(content, tokens[i - 1], tokens[i])) break;
+        if (matches(tokens[i])) return true;
+    }
+    return false;
+};
+
+/** Human-readable form of an entry, as used in prompts and version diffs. */
+export const formatBannedTerm = (entry: BannedTerm): string => {
+    const details = [
+        entry.isRegex ? 'pattern' : '',
+        entry.variants?.length ? `also ${entry.variants.join(', ')}` : '',
+        entry.replacement ? `use '${entry.replacement}' instead` : '',
+        entry.exceptionReferent ? `unless referring to ${entry.exceptionReferent}` : '',
+        entry.regions?.length ? `regions: ${entry.regions.join(', ')}` : '',
+        entry.contexts?.length ? `contexts: ${entry.contexts.join(', ')}` : '',
+        entry.severity !== 'High' ? `${entry.severity} severity` : '',
+        entry.note || ''
+    ].filter(Boolean);
+    return details.length ? `${entry.term} (${details.join('; ')})` : entry.term;
+};
+
+export const formatBannedTerms = (entries: BannedTerm[]): string =>
+    entries.map(formatBannedTerm).join(', ');
+
+/**
+ * Region-specific entries also apply to Global assets, which reach every region.
+ * An asset with no known context is checked against every entry.
+ */
+export const isBannedTermApplicable = (entry: BannedTerm, scope: BannedTermScope = {}): boolean => {
+    if (entry.contexts?.length && scope.context && scope.context !== CommunicationContext.NOT_SURE && !entry.contexts.includes(scope.context)) return false;
+    if (entry.regions?.length && scope.region && scope.region !== 'Global') {
+        const region = scope.region.toLowerCase();
+        if (!entry.regions.some(r => r.toLowerCase() === region)) return false;
+    }
+    return true;
+};
+
+/** The entry's pattern, or null when it is not a valid regular expression. */
+export const compileTermPattern = (entry: BannedTerm): RegExp | null => {
+    try {
+        return new RegExp(entry.term, 'giu');
+    } catch {
+        return null;
+    }
+};
+
+// Regex matches are mapped back onto the tokens they cover so exceptions work the same way
+const findPattern = (content: string, tokens: Token[], pattern: RegExp): PhraseMatch[] => {
+    const matches: PhraseMatch[] = [];
+    for (const match of content.matchAll(pattern)) {
+        if (!match[0]) continue;
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        const covered = tokens.filter(t => t.end > start && t.start < end);
+        if (covered.length === 0) continue;
+        matches.push({ start, end, firstToken: covered[0].index, lastToken: covered[covered.length - 1].index });
+    }
+    return matches;
+};
+
+const findEntry = (content: string, tokens: Token[], entry: BannedTerm): { match: PhraseMatch; form: string }[] => {
+    if (entry.isRegex) {
+        const pattern = compileTermPattern(entry);
+        return pattern ? findPattern(content, tokens, pattern).map(match => ({ match, form: entry.term })) : [];
+    }
+    const found = new Map<number, { match: PhraseMatch; form: string }>();
+    [entry.term, ...(entry.variants || [])].forEach(form => {
+        findPhrase(tokens, form).forEach(match => {
+            if (!found.has(match.start)) found.set(match.start, { match, form: form.toLowerCase() });
+        });
+    });
+    return [...found.values()];
+};
+
+export function checkBannedTerms(content: string, tokens: Token[], bannedTerms: BannedTerm[], scope: BannedTermScope = {}): Issue[] {
+    const issues: Issue[] = [];
+
+    bannedTerms.filter(entry => entry.term.trim() && isBannedTermApplicable(entry, scope)).forEach(rule => {
+        findEntry(content, tokens, rule).forEach(({ match, form }) => {
+            if (rule.exceptionReferent && isExcepted(content, tokens, match.firstToken, match.lastToken, rule.exceptionReferent)) return;
+
+            const found = content.slice(match.start, match.end);
+            const suggestion = rule.replacement || COMMON_REPLACEMENTS[rule.term.toLowerCase()];
+            const replacement = suggestion ? (rule.isRegex ? suggestion : matchForm(found, form, suggestion)) : undefined;
+            const guidance = [
+                rule.exceptionReferent ? `Allowed only when referring to ${rule.exceptionReferent}.` : '',
+                rule.note || ''
+            ].filter(Boolean).join(' ');
+
+            issues.push({
+                id: `rule-banned-${rule.isRegex ? slug(rule.id) : rule.term.replace(/\s+/g, '-')}-${match.start}`,
+                category: 'Compliance',
+                subcategory: 'Banned Term',
+                description: `Banned term "${found}" used.`,
+                rationale: `"${rule.isRegex ? found : rule.term}" is on the restricted terminology blocklist.${guidance ? ` ${guidance}` : ''}`,
+                fix: replacement ? `Replace "${found}" with "${replacement}".` : `Remove or rephrase "${found}".`,
+                severity: rule.severity,
+                blocking: rule.severity === 'High',
+                fixType: replacement ? 'Deterministic' : 'Manual',
+                span: { start: match.start, end: match.end },
+                patch: replacement ? { span: { start: match.start, end: match.end }, replacement } : undefined,
+                source: 'rule',
+                ruleId: `banned-term:${rule.term.toLowerCase()}`
+            });
+        });
+    });
+
+    return issues;
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { CampaignAsset, checkCampaign } from './campaign';
+
+const asset = (id: number, name: string, text: string): CampaignAsset => ({ id, name, text });
+
+const issuesOf = (assets: CampaignAsset[], ruleId: string) => {
+    const found = checkCampaign(assets, 'spring');
+    return assets.map(a => (found.get(a.id) || []).filter(i => i.ruleId === ruleId));
+};
+
+describe('checkCampaign', () => {
+    it('needs at least two assets', () => {
+        expect(checkCampaign([asset(1, 'Email', 'Save 20% on all plans.')], 'spring').size).toBe(0);
+    });
+
+    describe('figures', () => {
+        it('reports different values for the same thing on every asset involved', () => {
+            const assets = [asset(1, 'Email', 'Save 20% on all plans.'), asset(2, 'Banner', 'Save 25% on all plans today.')];
+            const [email, banner] = issuesOf(assets, 'campaign:figure');
+            expect(email).toHaveLength(1);
+            expect(email[0].description).toContain('"25% on all plans" in Banner');
+            expect(assets[0].text.slice(email[0].span!.start, email[0].span!.end)).toBe('20%');
+            expect(banner[0].description).toContain('in Email');
+            expect(email[0].id).toBe('rule-campaign-spring-1-1');
+        });
+
+        it('treats differently written equal figures as the same', () => {
+            const assets = [asset(1, 'Email', 'Only €1.299,00 per seat.'), asset(2, 'Banner', 'Only €1299 per seat.')];
+            expect(issuesOf(assets, 'campaign:figure').flat()).toEqual([]);
+        });
+
+        it('does not compare figures that count different things, or years', () => {
+            const assets = [
+                asset(1, 'Email', 'Start a 14-day trial. Launched in 2023.'),
+                asset(2, 'Banner', 'Backed by a 30-day guarantee. Launched in 2024.')
+            ];
+            expect(issuesOf(assets, 'campaign:figure').flat()).toEqual([]);
+        });
+    });
+
+    describe('product names', () => {
+        it('reports spellings that differ from the one most assets use', () => {
+            const assets = [
+                asset(1, 'Email', 'Meet PowerSync.'),
+                asset(2, 'Banner', 'PowerSync is here.'),
+                asset(3, 'Post', 'Try Power Sync now.')
+            ];
+            const [email, banner, post] = issuesOf(assets, 'campaign:product-name');
+            expect(email).toEqual([]);
+            expect(banner).toEqual([]);
+            expect(post[0].description).toBe('The product is written "Power Sync" here, but "PowerSync" in Email and Banner.');
+        });
+
+        it('ignores names written in capitals', () => {
+            const assets = [asset(1, 'Email', 'Meet PowerSync.'), asset(2, 'Banner', 'POWERSYNC IS HERE.')];
+            expect(issuesOf(assets, 'campaign:product-name').flat()).toEqual([]);
+        });
+    });
+
+    describe('calls to action', () => {
+        it('reports assets that lead with a different call to action than most', () => {
+            const assets = [
+                asset(1, 'Email', 'Book a demo today.'),
+                asset(2, 'Banner', 'Book a demo.'),
+                asset(3, 'Post', 'Sign up now. Sign up now!')
+            ];
+            const [email, banner, post] = issuesOf(assets, 'campaign:cta');
+            expect(email).toEqual([]);
+            expect(banner).toEqual([]);
+            expect(post[0].description).toBe('The call to action is "Sign up now", while Email and Banner ask readers to "Book a demo".');
+            expect(post[0].fix).toContain('Lead with "Book a demo"');
+        });
+
+        it('does not report an asset that also offers the common call to action', () => {
+            const assets = [
+                asset(1, 'Email', 'Book a demo.'),
+                asset(2, 'Banner', 'Book a demo.'),
+                asset(3, 'Post', 'Learn more. Learn more. Or book a demo.')
+            ];
+            expect(issuesOf(assets, 'campaign:cta').flat()).toEqual([]);
+        });
+
+        it('reports every asset when no call to action leads', () => {
+            const assets = [asset(1, 'Email', 'Book a demo.'), asset(2, 'Banner', 'Learn more.')];
+            const [email, banner] = issuesOf(assets, 'campaign:cta');
+            expect(email[0].description).toBe('The call to action is "Book a demo", while Banner asks readers to "Learn more".');
+            expect(banner[0].description).toBe('The call to action is "Learn more", while Email asks readers to "Book a demo".');
+            expect(email[0].fix).toContain('Agree on one call to action');
+        });
+    });
+
+    describe('taglines', () => {
+        it('reports a line reworded in another asset', () => {
+            const assets = [
+                asset(1, 'Email', 'Work smarter with every team you have.'),
+                asset(2, 'Banner', 'Work smarter with every team you lead.')
+            ];
+            const [email, banner] = issuesOf(assets, 'campaign:tagline');
+            expect(email[0].description).toBe('"Work smarter with every team you have" is worded differently in Banner ("Work smarter with every team you lead").');
+            expect(banner).toHaveLength(1);
+        });
+
+        it('leaves identical lines, unrelated lines and changed numbers alone', () => {
+            const assets = [
+                asset(1, 'Email', 'Work smarter with every team you have. Join 500 teams already on board.'),
+                asset(2, 'Banner', 'Work smarter with every team you have. Join 600 teams already on board. Your data stays yours forever.')
+            ];
+            expect(issuesOf(assets, 'campaign:tagline').flat()).toEqual([]);
+        });
+    });
+});
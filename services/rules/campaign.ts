@@ -0,0 +1,288 @@
+import { Issue, TextSpan } from '../../types';
+import { tokenize } from './tokenize';
+
+/** One analyzed asset of a campaign, as the cross-asset check sees it. */
+export interface CampaignAsset {
+    id: number; // HistoryItem id
+    name: string; // Shown when other assets point at this one
+    text: string;
+}
+
+// Prices, percentages and multipliers ("$49", "€1,299.00", "20%", "3x") and plain numbers.
+// Numbers inside words ("B2B", "H2O") are not figures.
+const FIGURE_PATTERN = /(?<![\p{L}\p{N}.,])(?:[$€£¥]\s?\d+(?:[.,]\d+)*|\d+(?:[.,]\d+)*(?:\s?%|\s?[x×](?![\p{L}\p{N}]))?)/gu;
+// Plain years say when, not how much
+const YEAR_PATTERN = /^(?:19|20)\d{2}$/;
+// Words that do not tell two figures apart ("20% off all plans" vs "20% off the plan")
+const STOP_WORDS = new Set(['a', 'an', 'the', 'of', 'on', 'in', 'for', 'to', 'and', 'or', 'at', 'by', 'with', 'from', 'your', 'our', 'all', 'up', 'per', 'is', 'are', 'just', 'only']);
+
+// What readers are asked to do, in its common phrasings
+const CTA_PATTERN = /\b(?:buy now|shop now|order now|sign up(?: now| today| for free)?|start (?:your )?free trial|try (?:it )?(?:for )?free|get started|learn more|find out more|book a demo|request a demo|get a demo|contact sales|talk to sales|download now|subscribe now|register now|join now|claim (?:your )?offer)\b/gi;
+
+// Product names: CamelCase words ("PowerSync") and names with a trademark sign ("Aerion Pulse™")
+const CAMEL_CASE_PATTERN = /\b[A-Z][a-z]+[A-Z][A-Za-z0-9]*\b/g;
+const MARKED_NAME_PATTERN = /((?:[A-Z][\w-]*\s){0,2}[A-Z][\w-]*)\s?[™®]/g;
+
+// Taglines and headlines: short lines, compared by word overlap
+const MIN_LINE_WORDS = 4;
+const MAX_LINE_WORDS = 12;
+const MAX_LINES = 200; // Per asset, to bound the pairwise comparison
+const SIMILAR_LINES = 0.75;
+
+type IssueFields = Pick<Issue, 'category' | 'subcategory' | 'description' | 'rationale' | 'fix' | 'severity' | 'ruleId' | 'span'>;
+
+const quote = (text: string) => text.length > 60 ? `"${text.slice(0, 60)}…"` : `"${text}"`;
+
+const listNames = (names: string[]) => names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// "€1.299,00" and "€1299" are the same price; "20.0%" and "20%" the same share
+const normalizeFigure = (figure: string) => figure
+    .replace(/\s/g, '')
+    .replace('×', 'x')
+    .replace(/[.,](?=\d{3}(?!\d))/g, '')
+    .replace(/[.,]0+(?=\D*$)/, '');
+
+interface Mention {
+    quote: string;
+    span: TextSpan;
+}
+
+interface FigureMentions {
+    values: Set<string>;
+    first: Mention;
+}
+
+/**
+ * Figures of an asset, keyed by what they count: the words after the figure, or
+ * before it when the sentence ends there. A price, share or multiplier carries its
+ * unit in its sign, so one word is enough ("$49 a month", "20% off"); plain numbers
+ * take two, since "14-day trial" and "30-day guarantee" count different things.
+ */
+const extractFigures = (text: string): Map<string, FigureMentions> => {
+    const figures = new Map<string, FigureMentions>();
+    for (const match of text.matchAll(FIGURE_PATTERN)) {
+        const figure = match[0];
+        if (YEAR_PATTERN.test(figure)) continue;
+        const start = match.index ?? 0;
+        const end = start + figure.length;
+        const marked = /[$€£¥%x×]/.test(figure);
+        const wordCount = marked ? 1 : 2;
+
+        const sentenceEnd = text.slice(end).search(/[.!?;\n](?!\d)/);
+        const after = text.slice(end, sentenceEnd === -1 ? undefined : end + sentenceEnd);
+        let words = tokenize(after).filter(t => !STOP_WORDS.has(t.lower) && !/\d/.test(t.lower)).slice(0, wordCount);
+        let side = '>';
+        let mention: Mention = words.length
+            ? { quote: text.slice(start, end + words[words.length - 1].end).trim(), span: { start, end } }
+            : { quote: figure, span: { start, end } };
+        if (!words.length) {
+            const sentenceStart = Math.max(...['.', '!', '?', ';', '\n'].map(mark => text.lastIndexOf(mark, start - 1))) + 1;
+            const before = text.slice(sentenceStart, start);
+            words = tokenize(before).filter(t => !STOP_WORDS.has(t.lower) && !/\d/.test(t.lower)).slice(-wordCount);
+            side = '<';
+            if (words.length) mention = { quote: text.slice(sentenceStart + words[0].start, end).trim(), span: { start, end } };
+        }
+        if (!words.length) continue;
+
+        const kind = figure.match(/[$€£¥]/)?.[0] || (figure.includes('%') ? '%' : /[x×]$/.test(figure) ? 'x' : '#');
+        const key = `${kind}${side}${words.map(w => w.lower).join(' ')}`;
+        const entry = figures.get(key);
+        if (entry) entry.values.add(normalizeFigure(figure));
+        else figures.set(key, { values: new Set([normalizeFigure(figure)]), first: mention });
+    }
+    return figures;
+};
+
+// Every spelling of a product name in an asset: "PowerSync", "Power Sync", "Power-Sync", "Powersync"
+const extractNameForms = (text: string, parts: string[]): Map<string, TextSpan> => {
+    const forms = new Map<string, TextSpan>();
+    const pattern = new RegExp(`\\b${parts.map(escapeRegExp).join('[\\s-]?')}\\b`, 'gi');
+    for (const match of text.matchAll(pattern)) {
+        const form = match[0];
+        // Headlines in capitals are a style choice, not a spelling
+        if (form === form.toUpperCase()) continue;
+        if (!forms.has(form)) forms.set(form, { start: match.index ?? 0, end: (match.index ?? 0) + form.length });
+    }
+    return forms;
+};
+
+const productNames = (assets: CampaignAsset[]): { parts: string[]; form: string }[] => {
+    const names = new Map<string, { parts: string[]; form: string }>();
+    assets.forEach(({ text }) => {
+        const candidates = [...text.matchAll(CAMEL_CASE_PATTERN)].map(m => m[0])
+            .concat([...text.matchAll(MARKED_NAME_PATTERN)].map(m => m[1]));
+        candidates.forEach(form => {
+            const parts = form.split(/[\s-]+|(?<=[a-z])(?=[A-Z])/).filter(Boolean);
+            // One-word names are usually ordinary words too ("Pulse"); only compound names have spellings
+            const key = parts.join('').toLowerCase();
+            if (parts.length > 1 && !names.has(key)) names.set(key, { parts, form });
+        });
+    });
+    return [...names.values()];
+};
+
+// The CTA an asset leads with: its most repeated one, the first on a tie
+const extractCtas = (text: string): { primary?: Mention & { cta: string }; all: Set<string> } => {
+    const counts = new Map<string, Mention & { cta: string; count: number }>();
+    for (const match of text.matchAll(CTA_PATTERN)) {
+        const cta = match[0].toLowerCase().replace(/\s+/g, ' ');
+        const entry = counts.get(cta);
+        if (entry) entry.count++;
+        else counts.set(cta, { cta, count: 1, quote: match[0], span: { start: match.index ?? 0, end: (match.index ?? 0) + match[0].length } });
+    }
+    const primary = [...counts.values()].reduce<(Mention & { cta: string; count: number }) | undefined>(
+        (best, entry) => !best || entry.count > best.count ? entry : best, undefined);
+    return { primary, all: new Set(counts.keys()) };
+};
+
+interface Line extends Mention {
+    normalized: string;
+    words: Set<string>;
+}
+
+const extractLines = (text: string): Line[] => {
+    const lines: Line[] = [];
+    for (const match of text.matchAll(/[^\n.!?]+/g)) {
+        const words = tokenize(match[0]).map(t => t.lower);
+        // Calls to action are compared on their own
+        if (words.length < MIN_LINE_WORDS || words.length > MAX_LINE_WORDS || match[0].search(CTA_PATTERN) !== -1) continue;
+        const offset = match[0].length - match[0].trimStart().length;
+        const start = (match.index ?? 0) + offset;
+        const line = match[0].trim();
+        lines.push({ quote: line, span: { start, end: start + line.length }, normalized: words.join(' '), words: new Set(words) });
+        if (lines.length >= MAX_LINES) break;
+    }
+    return lines;
+};
+
+// Near-identical wording: most words shared, and not just a different number (the figure check reports those)
+const isVariantOf = (a: Line, b: Line): boolean => {
+    if (a.normalized === b.normalized) return false;
+    const shared = [...a.words].filter(w => b.words.has(w)).length;
+    if (2 * shared / (a.words.size + b.words.size) < SIMILAR_LINES) return false;
+    const differing = [...a.words].filter(w => !b.words.has(w)).concat([...b.words].filter(w => !a.words.has(w)));
+    return differing.some(w => !/^\d/.test(w));
+};
+
+/**
+ * Compares the assets of a campaign with each other: the figures they state
+ * (prices, discounts, numeric claims), the spelling of product names, the call
+ * to action they lead with and the wording of their taglines. Differing figures and
+ * taglines are reported on every asset involved, naming the others; a product
+ * spelling or call to action only on the assets that depart from the one most
+ * assets use, or on all of them when no call to action leads. Returns the issues
+ * by asset id; ids are scoped to the campaign so a new check can replace them.
+ */
+export function checkCampaign(assets: CampaignAsset[], campaignId: string): Map<number, Issue[]> {
+    if (assets.length < 2) return new Map();
+    const found = new Map<number, IssueFields[]>(assets.map(a => [a.id, []]));
+    const report = (asset: CampaignAsset, fields: IssueFields) => found.get(asset.id)!.push(fields);
+
+    // Figures: two assets contradict when they give different values for the same thing
+    const figures = assets.map(asset => ({ asset, figures: extractFigures(asset.text) }));
+    figures.forEach(({ asset, figures: own }) => {
+        own.forEach((mentions, key) => {
+            const conflicting = figures.filter(other => {
+                const theirs = other.asset !== asset ? other.figures.get(key) : undefined;
+                return theirs && ![...theirs.values].some(v => mentions.values.has(v));
+            });
+            if (!conflicting.length) return;
+            const elsewhere = conflicting.map(other => `${quote(other.figures.get(key)!.first.quote)} in ${other.asset.name}`);
+            report(asset, {
+                category: 'Compliance', subcategory: 'Campaign Consistency', severity: 'Medium', ruleId: 'campaign:figure',
+                description: `This asset states ${quote(mentions.first.quote)}, but the campaign also says ${listNames(elsewhere)}.`,
+                rationale: 'Prices, discounts and claims that differ between assets of one campaign confuse customers and can be misleading.',
+                fix: 'Use the same figure in every asset of the campaign, correcting whichever asset is out of date.',
+                span: mentions.first.span
+            });
+        });
+    });
+
+    // Product names: the spelling most assets use is the campaign's
+    productNames(assets).forEach(({ parts, form: detected }) => {
+        const forms = assets.map(asset => ({ asset, forms: extractNameForms(asset.text, parts) }));
+        const usage = new Map<string, CampaignAsset[]>();
+        forms.forEach(({ asset, forms: own }) => own.forEach((_, form) => usage.set(form, [...(usage.get(form) || []), asset])));
+        if (usage.size < 2) return;
+        const [canonical, canonicalAssets] = [...usage.entries()].reduce((best, entry) =>
+            entry[1].length > best[1].length || (entry[1].length === best[1].length && entry[0] === detected) ? entry : best);
+
+        forms.forEach(({ asset, forms: own }) => {
+            const others = canonicalAssets.filter(a => a !== asset);
+            if (!others.length) return;
+            own.forEach((span, form) => {
+                if (form === canonical) return;
+                report(asset, {
+                    category: 'Brand', subcategory: 'Product Naming', severity: 'Low', ruleId: 'campaign:product-name',
+                    description: `The product is written "${form}" here, but "${canonical}" in ${listNames(others.map(a => a.name))}.`,
+                    rationale: 'A product name spelled differently across a campaign reads as two products and weakens recognition.',
+                    fix: `Write "${canonical}" as in the rest of the campaign.`,
+                    span
+                });
+            });
+        });
+    });
+
+    // Calls to action: assets should lead to the same next step
+    const ctas = assets.map(asset => ({ asset, ...extractCtas(asset.text) })).filter(c => c.primary);
+    const leading = new Map<string, CampaignAsset[]>();
+    ctas.forEach(({ asset, primary }) => leading.set(primary!.cta, [...(leading.get(primary!.cta) || []), asset]));
+    if (leading.size > 1) {
+        const labelOf = (cta: string) => ctas.find(c => c.primary!.cta === cta)!.primary!.quote;
+        const askedBy = ([cta, users]: [string, CampaignAsset[]]) =>
+            `${listNames(users.map(a => a.name))} ${users.length > 1 ? 'ask' : 'asks'} readers to ${quote(labelOf(cta))}`;
+        // The CTA most assets lead with is the campaign's; on a tie there is none, and every asset is reported
+        const top = Math.max(...[...leading.values()].map(users => users.length));
+        const majority = [...leading.entries()].filter(([, users]) => users.length === top);
+        const canonical = majority.length === 1 ? majority[0][0] : undefined;
+        ctas.forEach(({ asset, primary, all }) => {
+            if (canonical && (primary!.cta === canonical || all.has(canonical))) return;
+            const others = [...leading.entries()].filter(([cta]) => canonical ? cta === canonical : cta !== primary!.cta && !all.has(cta));
+            if (!others.length) return;
+            report(asset, {
+                category: 'Brand', subcategory: 'Call to Action', severity: 'Low', ruleId: 'campaign:cta',
+                description: `The call to action is ${quote(primary!.quote)}, while ${listNames(others.map(askedBy))}.`,
+                rationale: 'Assets of one campaign that ask for different next steps split the audience and blur what the campaign wants.',
+                fix: canonical
+                    ? `Lead with ${quote(labelOf(canonical))} as the rest of the campaign does, unless this asset deliberately serves a different step.`
+                    : 'Agree on one call to action for the campaign and lead with it in every asset, unless an asset deliberately serves a different step.',
+                span: primary!.span
+            });
+        });
+    }
+
+    // Taglines and headlines: the same line, reworded
+    const lines = assets.map(asset => ({ asset, lines: extractLines(asset.text) }));
+    lines.forEach(({ asset, lines: own }) => {
+        const ownText = new Set(own.map(l => l.normalized));
+        own.forEach(line => {
+            const variants = lines
+                .filter(other => other.asset !== asset && !other.lines.some(l => l.normalized === line.normalized))
+                .map(other => ({ asset: other.asset, line: other.lines.find(l => !ownText.has(l.normalized) && isVariantOf(line, l)) }))
+                .filter((v): v is { asset: CampaignAsset; line: Line } => !!v.line);
+            if (!variants.length) return;
+            report(asset, {
+                category: 'Brand', subcategory: 'Campaign Messaging', severity: 'Low', ruleId: 'campaign:tagline',
+                description: `${quote(line.quote)} is worded differently in ${listNames(variants.map(v => `${v.asset.name} (${quote(v.line.quote)})`))}.`,
+                rationale: 'A tagline or key message repeated with small changes looks like an error and dilutes the campaign line.',
+                fix: 'Agree on one wording and use it verbatim in every asset.',
+                span: line.span
+            });
+        });
+    });
+
+    return new Map([...found.entries()].map(([assetId, fields]) => [
+        assetId,
+        fields
+            .sort((a, b) => (a.span?.start ?? Infinity) - (b.span?.start ?? Infinity))
+            .map((f, index): Issue => ({
+                ...f,
+                id: `rule-campaign-${campaignId}-${assetId}-${index + 1}`,
+                blocking: false,
+                fixType: 'Manual',
+                source: 'rule'
+            }))
+    ]));
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { BannedTerm, BrandSettings } from '../../types';
+import { detectGuidelineConflicts } from './conflicts';
+
+const banned = (term: string, fields: Partial<BannedTerm> = {}): BannedTerm => ({ id: term, term, severity: 'High', ...fields });
+
+const settings = (fields: Partial<BrandSettings>): BrandSettings => ({
+    brandName: 'Acme',
+    mission: '',
+    audience: '',
+    toneVoice: '',
+    styleGuide: '',
+    bannedTerms: [],
+    inclusiveLanguage: false,
+    ...fields
+});
+
+const conflicts = (fields: Partial<BrandSettings>) => detectGuidelineConflicts(settings(fields));
+
+describe('detectGuidelineConflicts', () => {
+    it('finds nothing in consistent guidelines', () => {
+        expect(conflicts({ mission: 'Help teams ship.', bannedTerms: [banned('synergy')], styleGuide: 'Use white space. Never use gradients.' })).toEqual([]);
+    });
+
+    describe('banned terms in the guidelines', () => {
+        it('reports a banned term used in the mission or tone', () => {
+            const found = conflicts({
+                mission: 'We leverage data for every team.',
+                toneVoice: 'Confident and disruptive.',
+                bannedTerms: [banned('leverage'), banned('disruptive')]
+            });
+            expect(found.map(c => [c.kind, c.fields])).toEqual([
+                ['banned-in-guidelines', ['mission', 'bannedTerms']],
+                ['banned-in-guidelines', ['toneVoice', 'bannedTerms']]
+            ]);
+            expect(found[0].message).toBe('Banned term "leverage" appears in Identity & Mission: "We leverage data for every team."');
+        });
+
+        it('ignores a banned term the guidelines only name', () => {
+            expect(conflicts({ toneVoice: 'Plain words. Never say leverage.', bannedTerms: [banned('leverage')] })).toEqual([]);
+        });
+    });
+
+    describe('contradictory visual rules', () => {
+        it('reports something both required and prohibited', () => {
+            const [found] = conflicts({ styleGuide: 'Headlines are set in Helvetica Neue. Never use Helvetica Neue.' });
+            expect(found).toMatchObject({ kind: 'contradictory-rules', severity: 'High', fields: ['styleGuide'] });
+            expect(found.message).toContain('both requires and prohibits "Helvetica Neue"');
+        });
+
+        it('reports opposing directives stated in different sentences', () => {
+            const [found] = conflicts({ styleGuide: 'Layouts are minimal. Dashboards are dense with data.' });
+            expect(found).toMatchObject({ kind: 'contradictory-rules', severity: 'Medium' });
+            expect(found.message).toContain('both "minimal" and "dense"');
+        });
+
+        it('reports a name that is approved and retired at once', () => {
+            const found = conflicts({
+                glossary: [
+                    { id: 'sync', term: 'PowerSync', kind: 'product' },
+                    { id: 'suite', term: 'Acme Suite', kind: 'product', deprecatedNames: ['PowerSync'] }
+                ]
+            });
+            expect(found.map(c => c.id)).toEqual(['glossary-retired-sync']);
+        });
+    });
+
+    describe('overlapping terms', () => {
+        it('reports a term listed twice, as Medium when the guidance differs', () => {
+            expect(conflicts({ bannedTerms: [banned('synergy'), banned('Synergy')] })).toMatchObject([{ kind: 'overlapping-terms', severity: 'Low' }]);
+            expect(conflicts({ bannedTerms: [banned('synergy'), banned('synergy', { replacement: 'teamwork' })] }))
+                .toMatchObject([{ kind: 'overlapping-terms', severity: 'Medium' }]);
+        });
+
+        it('reports a phrase covered by a shorter term, and an exception that never applies', () => {
+            const [found] = conflicts({ bannedTerms: [banned('disruptive'), banned('disruptive innovation', { exceptionReferent: 'tech' })] });
+            expect(found.message).toBe('"disruptive innovation" is already covered by "disruptive", so its exception for tech never applies.');
+        });
+
+        it('does not compare patterns', () => {
+            expect(conflicts({ bannedTerms: [banned('free'), banned('free\\s+trial', { isRegex: true })] })).toEqual([]);
+        });
+    });
+
+    describe('unsatisfiable rules', () => {
+        it('reports an invalid pattern', () => {
+            expect(conflicts({ bannedTerms: [banned('free(trial', { id: 'trial', isRegex: true })] }).map(c => c.id)).toEqual(['invalid-pattern-trial']);
+        });
+
+        it('reports a replacement that is banned itself', () => {
+            const found = conflicts({ bannedTerms: [banned('leverage', { replacement: 'utilize' }), banned('utilize'), banned('guru', { replacement: 'guru' })] });
+            expect(found.map(c => c.message)).toEqual([
+                'The replacement for "leverage" ("utilize") is itself banned as "utilize".',
+                '"guru" is replaced with itself.'
+            ]);
+        });
+
+        it('reports a brand name or approved name containing a banned term', () => {
+            const found = conflicts({
+                brandName: 'Synergy Labs',
+                glossary: [{ id: 'hub', term: 'Synergy Hub', kind: 'product' }],
+                bannedTerms: [banned('synergy')]
+            });
+            expect(found.map(c => c.fields)).toEqual([['brandName', 'bannedTerms'], ['glossary', 'bannedTerms']]);
+        });
+
+        it('reports palette colors that are not hex values', () => {
+            const found = conflicts({ designTokens: { palette: [{ id: 'blue', name: 'Acme Blue', hex: 'blue', tolerance: 2 }], allowNeutrals: true, fonts: [] } });
+            expect(found).toMatchObject([{ id: 'palette-invalid-blue', severity: 'Medium', fields: ['designTokens'] }]);
+        });
+
+        it('reports a required disclaimer that breaks the rules or has no text', () => {
+            const found = conflicts({
+                bannedTerms: [banned('guaranteed')],
+                requiredDisclaimers: [
+                    { id: 'returns', label: 'Returns', text: 'Returns are not guaranteed.' },
+                    { id: 'empty', label: 'Empty', text: ' ' }
+                ]
+            });
+            expect(found.map(c => [c.id, c.severity])).toEqual([['disclaimer-returns-16', 'High'], ['disclaimer-empty-empty', 'Medium']]);
+            expect(found[0].message).toBe('Required disclaimer "Returns" contains "guaranteed", which it would flag itself (Banned Term).');
+        });
+    });
+
+    it('sorts the most severe conflicts first', () => {
+        const found = conflicts({ bannedTerms: [banned('synergy'), banned('synergy'), banned('free(', { isRegex: true })] });
+        expect(found.map(c => c.severity)).toEqual(['High', 'Low']);
+    });
+});
@@ -0,0 +1,283 @@
+// Checks a guideline set against itself before it is published: rules that
+// contradict each other, overlap, or can never be met by any asset.
+import { BannedTerm, BrandSettings } from '../../types';
+import { Token, tokenize, findPhrase } from './tokenize';
+import { checkBannedTerms, compileTermPattern } from './bannedTerms';
+import { checkInclusiveLanguage } from './inclusiveLanguage';
+import { normalizeHex } from './palette';
+
+export type GuidelineConflictKind = 'banned-in-guidelines' | 'contradictory-rules' | 'overlapping-terms' | 'unsatisfiable';
+
+export interface GuidelineConflict {
+    id: string;
+    kind: GuidelineConflictKind;
+    severity: 'High' | 'Medium' | 'Low';
+    fields: (keyof BrandSettings)[];
+    message: string;
+}
+
+// Guideline prose that is itself written in the brand voice
+const PROSE_FIELDS: { field: keyof BrandSettings; label: string }[] = [
+    { field: 'mission', label: 'Identity & Mission' },
+    { field: 'audience', label: 'Audience' },
+    { field: 'toneVoice', label: 'Voice & Tone' },
+    { field: 'styleGuide', label: 'Visual System' }
+];
+
+// A banned term right after one of these is being named, not used ("never say synergy")
+const NEGATION_WORDS = new Set(['avoid', 'never', 'not', "don't", 'dont', 'no', 'ban', 'banned', 'instead', 'without', 'prohibit', 'prohibited', 'replace']);
+const NEGATION_WINDOW = 4;
+
+// Visual directives that cannot both be required
+const OPPOSING_VISUAL_RULES: [string[], string[]][] = [
+    [['minimal', 'minimalist', 'white space', 'whitespace', 'clean layout'], ['dense', 'high density', 'busy', 'information-rich', 'packed']],
+    [['light background', 'white background', 'light mode'], ['dark background', 'black background', 'dark mode']],
+    [['rounded corners'], ['square corners', 'sharp corners']],
+    [['flat colour', 'flat color', 'flat design'], ['gradient', 'gradients']],
+    [['serif'], ['sans-serif', 'sans serif']],
+    [['monochrome', 'black and white'], ['full colour', 'full color', 'vibrant']]
+];
+
+const PROHIBITION = /\b(never|avoid|don['’]?t|do not|must not|should not|no longer|not allowed|prohibited)\b/i;
+const PROHIBITED_OBJECT = /\b(?:never use|avoid(?: using)?|don['’]?t use|do not use|must not use|should not use)\s+([^.;,\n]+)/gi;
+
+const isNegated = (tokens: Token[], firstToken: number): boolean => {
+    for (let i = firstToken - 1; i >= Math.max(0, firstToken - NEGATION_WINDOW); i--) {
+        if (NEGATION_WORDS.has(tokens[i].lower)) return true;
+    }
+    return false;
+};
+
+const splitSentences = (text: string): string[] =>
+    text.split(/(?<=[.!?])\s+|\n+/).map(s => s.trim()).filter(Boolean);
+
+const excerpt = (text: string, start: number, end: number) => {
+    const from = Math.max(0, start - 30);
+    const to = Math.min(text.length, end + 30);
+    return `${from > 0 ? '…' : ''}${text.slice(from, to).replace(/\s+/g, ' ').trim()}${to < text.length ? '…' : ''}`;
+};
+
+const mentions = (sentence: string, phrases: string[]): string | undefined => {
+    const tokens = tokenize(sentence);
+    return phrases.find(phrase => findPhrase(tokens, phrase).length > 0);
+};
+
+// The guidelines would be flagged by their own blocklist
+const findBannedInGuidelines = (settings: BrandSettings): GuidelineConflict[] =>
+    PROSE_FIELDS.flatMap(({ field, label }) => {
+        const text = String(settings[field] || '');
+        const tokens = tokenize(text);
+        return checkBannedTerms(text, tokens, settings.bannedTerms)
+            .filter(issue => {
+                const first = tokens.findIndex(t => t.start === issue.span!.start);
+                return first === -1 || !isNegated(tokens, first);
+            })
+            .map(issue => ({
+                id: `banned-in-${field}-${issue.span!.start}`,
+                kind: 'banned-in-guidelines' as const,
+                severity: 'Medium' as const,
+                fields: [field, 'bannedTerms' as const],
+                message: `Banned term "${text.slice(issue.span!.start, issue.span!.end)}" appears in ${label}: "${excerpt(text, issue.span!.start, issue.span!.end)}"`
+            }));
+    });
+
+const findContradictoryVisualRules = (styleGuide: string): GuidelineConflict[] => {
+    const sentences = splitSentences(styleGuide || '');
+    const required = sentences.filter(s => !PROHIBITION.test(s));
+    const conflicts: GuidelineConflict[] = [];
+
+    // "Always use Helvetica" vs "Never use Helvetica"
+    sentences.forEach(sentence => {
+        for (const match of sentence.matchAll(PROHIBITED_OBJECT)) {
+            const object = match[1].trim().replace(/^(the|a|an)\s+/i, '');
+            const clash = required.find(r => findPhrase(tokenize(r), object).length > 0);
+            if (clash) {
+                conflicts.push({
+                    id: `visual-prohibited-${object.toLowerCase().replace(/\W+/g, '-')}`,
+                    kind: 'contradictory-rules',
+                    severity: 'High',
+                    fields: ['styleGuide'],
+                    message: `Visual System both requires and prohibits "${object}": "${clash}" vs "${sentence}"`
+                });
+            }
+        }
+    });
+
+    // Opposing directives that are each stated as required
+    OPPOSING_VISUAL_RULES.forEach(([sideA, sideB]) => {
+        const withA = required.map(s => ({ s, hit: mentions(s, sideA) })).find(x => x.hit);
+        const withB = required.map(s => ({ s, hit: mentions(s, sideB) })).find(x => x.hit && x.s !== withA?.s);
+        if (withA && withB) {
+            conflicts.push({
+                id: `visual-opposing-${withA.hit}-${withB.hit}`.replace(/\W+/g, '-'),
+                kind: 'contradictory-rules',
+                severity: 'Medium',
+                fields: ['styleGuide'],
+                message: `Visual System asks for both "${withA.hit}" and "${withB.hit}": "${withA.s}" vs "${withB.s}"`
+            });
+        }
+    });
+
+    return conflicts;
+};
+
+const findOverlappingTerms = (bannedTerms: BannedTerm[]): GuidelineConflict[] => {
+    const rules = bannedTerms.filter(rule => rule.term.trim());
+    const conflicts: GuidelineConflict[] = [];
+
+    rules.forEach((rule, i) => {
+        rules.slice(i + 1).forEach(other => {
+            const term = rule.term.toLowerCase();
+            if (term === other.term.toLowerCase()) {
+                const differs = rule.replacement !== other.replacement || rule.exceptionReferent !== other.exceptionReferent || rule.severity !== other.severity;
+                conflicts.push({
+                    id: `duplicate-term-${term}`,
+                    kind: 'overlapping-terms',
+                    severity: differs ? 'Medium' : 'Low',
+                    fields: ['bannedTerms'],
+                    message: differs
+                        ? `"${rule.term}" is listed twice with different guidance; both entries flag the same text.`
+                        : `"${rule.term}" is listed twice.`
+                });
+                return;
+            }
+            // Patterns can overlap in ways that are not decidable by looking at them
+            if (rule.isRegex || other.isRegex) return;
+            const [shorter, longer] = rule.term.length <= other.term.length ? [rule, other] : [other, rule];
+            if (findPhrase(tokenize(longer.term), shorter.term).length > 0) {
+                conflicts.push({
+                    id: `overlapping-term-${shorter.term}-${longer.term}`.replace(/\s+/g, '-'),
+                    kind: 'overlapping-terms',
+                    severity: 'Low',
+                    fields: ['bannedTerms'],
+                    message: `"${longer.term}" is already covered by "${shorter.term}"${longer.exceptionReferent && !shorter.exceptionReferent ? `, so its exception for ${longer.exceptionReferent} never applies` : ''}.`
+                });
+            }
+        });
+    });
+
+    return conflicts;
+};
+
+// Rules that every compliant asset would still break
+const findUnsatisfiableRules = (settings: BrandSettings): GuidelineConflict[] => {
+    const rules = settings.bannedTerms.filter(rule => rule.term.trim());
+    const conflicts: GuidelineConflict[] = [];
+
+    rules.filter(rule => rule.isRegex && !compileTermPattern(rule)).forEach(rule => {
+        conflicts.push({
+            id: `invalid-pattern-${rule.id}`,
+            kind: 'unsatisfiable',
+            severity: 'High',
+            fields: ['bannedTerms'],
+            message: `The pattern "${rule.term}" is not a valid regular expression, so it never matches.`
+        });
+    });
+
+    rules.forEach(rule => {
+        if (!rule.replacement) return;
+        const banned = checkBannedTerms(rule.replacement, tokenize(rule.replacement), rules)[0];
+        if (banned) {
+            const bannedTerm = banned.ruleId!.replace(/^banned-term:/, '');
+            conflicts.push({
+                id: `replacement-banned-${rule.term}`.replace(/\s+/g, '-'),
+                kind: 'unsatisfiable',
+                severity: 'High',
+                fields: ['bannedTerms'],
+                message: bannedTerm === rule.term.toLowerCase()
+                    ? `"${rule.term}" is replaced with itself.`
+                    : `The replacement for "${rule.term}" ("${rule.replacement}") is itself banned as "${bannedTerm}".`
+            });
+        }
+    });
+
+    checkBannedTerms(settings.brandName || '', tokenize(settings.brandName || ''), rules).forEach(issue => {
+        conflicts.push({
+            id: `brand-name-banned-${issue.ruleId}`.replace(/\s+/g, '-'),
+            kind: 'unsatisfiable',
+            severity: 'High',
+            fields: ['brandName', 'bannedTerms'],
+            message: `The brand name "${settings.brandName}" contains the banned term "${issue.ruleId!.replace(/^banned-term:/, '')}".`
+        });
+    });
+
+    (settings.glossary || []).filter(entry => entry.term.trim()).forEach(entry => {
+        checkBannedTerms(entry.term, tokenize(entry.term), rules).forEach(issue => {
+            conflicts.push({
+                id: `glossary-banned-${entry.id}-${issue.ruleId}`.replace(/\s+/g, '-'),
+                kind: 'unsatisfiable',
+                severity: 'High',
+                fields: ['glossary', 'bannedTerms'],
+                message: `The approved name "${entry.term}" contains the banned term "${issue.ruleId!.replace(/^banned-term:/, '')}".`
+            });
+        });
+        // A name cannot be both approved and retired
+        const retiredBy = (settings.glossary || []).find(other => other !== entry &&
+            [...(other.deprecatedNames || []), ...(other.variants || [])].some(n => n.toLowerCase() === entry.term.toLowerCase()));
+        if (retiredBy) {
+            conflicts.push({
+                id: `glossary-retired-${entry.id}`,
+                kind: 'contradictory-rules',
+                severity: 'High',
+                fields: ['glossary'],
+                message: `"${entry.term}" is an approved name but is also listed as a retired name or misspelling of "${retiredBy.term}".`
+            });
+        }
+    });
+
+    (settings.designTokens?.palette || []).forEach(color => {
+        if (!normalizeHex(color.hex)) {
+            conflicts.push({
+                id: `palette-invalid-${color.id}`,
+                kind: 'unsatisfiable',
+                severity: 'Medium',
+                fields: ['designTokens'],
+                message: `Palette color "${color.name || color.id}" has the value "${color.hex}", which is not a hex color, so it is never matched.`
+            });
+        }
+    });
+
+    // A mandatory disclaimer that fails the other checks fails on every asset it is added to
+    (settings.requiredDisclaimers || []).forEach(disclaimer => {
+        const tokens = tokenize(disclaimer.text);
+        const findings = [
+            ...checkBannedTerms(disclaimer.text, tokens, settings.bannedTerms),
+            ...(settings.inclusiveLanguage ? checkInclusiveLanguage(disclaimer.text, tokens) : [])
+        ];
+        findings.forEach(issue => {
+            conflicts.push({
+                id: `disclaimer-${disclaimer.id}-${issue.span?.start ?? 0}`,
+                kind: 'unsatisfiable',
+                severity: 'High',
+                fields: ['requiredDisclaimers'],
+                message: `Required disclaimer "${disclaimer.label}" contains "${issue.span ? disclaimer.text.slice(issue.span.start, issue.span.end) : disclaimer.label}", which it would flag itself (${issue.subcategory}).`
+            });
+        });
+        if (!disclaimer.text.trim()) {
+            conflicts.push({
+                id: `disclaimer-${disclaimer.id}-empty`,
+                kind: 'unsatisfiable',
+                severity: 'Medium',
+                fields: ['requiredDisclaimers'],
+                message: `Required disclaimer "${disclaimer.label || disclaimer.id}" has no text, so it is never checked: assets are not asked to include it.`
+            });
+        }
+    });
+
+    return conflicts;
+};
+
+const SEVERITY_ORDER = { 'High': 0, 'Medium': 1, 'Low': 2 };
+
+/** All internal conflicts in a guideline set, most severe first. */
+export function detectGuidelineConflicts(settings: BrandSettings): GuidelineConflict[] {
+    return [
+        ...findUnsatisfiableRules(settings),
+        ...findContradictoryVisualRules(settings.styleGuide),
+        ...findBannedInGuidelines(settings),
+        ...findOverlappingTerms(settings.bannedTerms)
+    ]
+        // Duplicate blocklist entries report the same occurrence twice
+        .filter((conflict, index, all) => all.findIndex(c => c.id === conflict.id) === index)
+        .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
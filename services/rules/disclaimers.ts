@@ -0,0 +1,44 @@
+import { Issue, RequiredDisclaimer, CommunicationContext, AssetType } from '../../types';
+
+const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const appliesTo = (disclaimer: RequiredDisclaimer, content: string, context: CommunicationContext, assetType: AssetType): boolean => {
+    if (disclaimer.contexts?.length && !disclaimer.contexts.includes(context)) return false;
+    if (disclaimer.assetTypes?.length && !disclaimer.assetTypes.includes(assetType)) return false;
+    if (disclaimer.triggers?.length) {
+        const lower = content.toLowerCase();
+        return disclaimer.triggers.some(t => lower.includes(t.toLowerCase()));
+    }
+    return true;
+};
+
+export function checkRequiredDisclaimers(
+    content: string,
+    disclaimers: RequiredDisclaimer[],
+    context: CommunicationContext,
+    assetType: AssetType
+): Issue[] {
+    const haystack = normalize(content);
+
+    return disclaimers
+        .filter(d => d.text.trim() && appliesTo(d, content, context, assetType))
+        .filter(d => !haystack.includes(normalize(d.text)))
+        .map(d => ({
+            id: `rule-disclaimer-${d.id}`,
+            category: 'Compliance' as const,
+            subcategory: 'Missing Disclaimer',
+            description: `Required disclaimer missing: ${d.label}.`,
+            rationale: `Assets of this type must include: "${d.text}"`,
+            fix: `Add the disclaimer "${d.text}" to the asset.`,
+            severity: 'High' as const,
+            blocking: true,
+            fixType: 'Deterministic' as const,
+            source: 'rule' as const,
+            ruleId: `disclaimer:${d.id}`,
+            // Appended as its own paragraph at the end of the text
+            patch: {
+                span: { start: content.length, end: content.length },
+                replacement: `${content.endsWith('\n') ? '\n' : '\n\n'}${d.text}`
+            }
+        }));
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { AudienceScope, EmailMessage, WebElement } from '../../types';
+import { checkEmail } from './email';
+
+const copy = (ref: string, text: string, href?: string): WebElement => ({ ref, kind: href ? 'link' : 'copy', text, href });
+
+const email = (body: WebElement[], fields: Partial<EmailMessage> = {}): EmailMessage => ({
+    subject: 'Your spring update',
+    preheader: 'What is new this month.',
+    senderName: 'Acme News',
+    senderAddress: 'news@acme.example',
+    htmlBody: false,
+    elements: [copy('subject', 'Your spring update'), copy('sender', 'Acme News <news@acme.example>'), ...body],
+    attachments: [],
+    ...fields
+});
+
+const FOOTER = copy('b3', '© 2025 Acme Inc., 1 Main Street. Privacy policy.');
+const UNSUBSCRIBE = copy('b4', 'Unsubscribe', 'https://acme.example/unsubscribe');
+
+const ruleIds = (message: EmailMessage, scope = AudienceScope.EXTERNAL) => checkEmail(message, scope, 'Acme').map(i => i.ruleId);
+
+describe('checkEmail', () => {
+    it('passes an external mailing with an unsubscribe link and a legal footer', () => {
+        expect(ruleIds(email([copy('b1', 'Hello.'), FOOTER, UNSUBSCRIBE]))).toEqual([]);
+    });
+
+    describe('unsubscribe', () => {
+        it('is required in external mailings and pinned to the end of the body', () => {
+            const issues = checkEmail(email([copy('b1', 'Hello.'), FOOTER]), AudienceScope.EXTERNAL, 'Acme');
+            expect(issues.map(i => i.ruleId)).toEqual(['email:unsubscribe']);
+            expect(issues[0].elementRef).toBe('b3');
+            expect(issues[0].severity).toBe('High');
+        });
+
+        it('is satisfied by a List-Unsubscribe header, an opt-out link target or another language', () => {
+            expect(ruleIds(email([FOOTER], { listUnsubscribe: '<mailto:leave@acme.example>' }))).toEqual([]);
+            expect(ruleIds(email([FOOTER, copy('b4', 'Stop these emails', 'https://acme.example/opt-out')]))).toEqual([]);
+            expect(ruleIds(email([FOOTER, copy('b4', 'Newsletter abbestellen')]))).toEqual([]);
+        });
+
+        it('is not required internally', () => {
+            expect(ruleIds(email([copy('b1', 'Team update.')]), AudienceScope.INTERNAL)).toEqual([]);
+        });
+    });
+
+    describe('legal footer', () => {
+        it('is required in external mailings', () => {
+            const issues = checkEmail(email([copy('b1', 'Hello.'), UNSUBSCRIBE]), AudienceScope.EXTERNAL, 'Acme');
+            expect(issues.map(i => i.ruleId)).toEqual(['email:legal-footer']);
+            expect(issues[0].fix).toContain('footer of Acme');
+        });
+
+        it('accepts a copyright line, a privacy notice or a company suffix', () => {
+            expect(ruleIds(email([UNSUBSCRIBE, copy('b3', '(c) 2025 Acme')]))).toEqual([]);
+            expect(ruleIds(email([UNSUBSCRIBE, copy('b3', 'Read our privacy notice.')]))).toEqual([]);
+            expect(ruleIds(email([UNSUBSCRIBE, copy('b3', 'Acme GmbH, Berlin')]))).toEqual([]);
+        });
+
+        it('does not count the header fields as the footer', () => {
+            const message = email([UNSUBSCRIBE], { senderName: 'Acme Ltd', elements: [copy('sender', 'Acme Ltd <news@acme.example>'), UNSUBSCRIBE] });
+            expect(ruleIds(message)).toEqual(['email:legal-footer']);
+        });
+    });
+
+    it('checks the subject and sender for every audience', () => {
+        const message = email([], { subject: 'FREE UPGRADE INSIDE!!', senderName: undefined });
+        expect(ruleIds(message, AudienceScope.INTERNAL)).toEqual(['email:subject-caps', 'email:subject-punctuation', 'email:subject-spam', 'email:sender-name']);
+    });
+});
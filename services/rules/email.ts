@@ -0,0 +1,143 @@
+import { AudienceScope, EmailMessage, Issue, WebElement } from '../../types';
+import { HEADER_REFS } from '../email';
+import { checkImagesAndLinks } from './webPage';
+
+// Longer subjects are cut off in most inboxes, on mobile even earlier
+const MAX_SUBJECT_LENGTH = 60;
+
+// Phrases spam filters and wary readers react to
+const SPAM_PHRASES = /\b(?:free|act now|limited time|urgent|guarantee[ds]?|risk[- ]free|winner|you(?:'ve| have) won|no obligation|click here|buy now|cash|100% (?:free|satisfied))\b|\${2,}/i;
+
+// Ways to opt out of a mailing, in the languages of our regions
+const UNSUBSCRIBE = /\b(?:unsubscribe|opt[- ]out|manage (?:your )?(?:email )?(?:preferences|subscriptions?)|abmelden|abbestellen|se désinscrire|désabonner|darse de baja|cancelar (?:a )?subscrição|disiscriviti)\b/i;
+
+// What a legal footer names: the sender's legal entity, copyright or privacy notice
+const LEGAL_FOOTER = /©|\(c\)\s*\d{4}|\b(?:copyright|all rights reserved|privacy (?:policy|notice|statement)|registered (?:office|address|in)|company (?:no|number|registration)|(?:inc|ltd|llc|gmbh|plc)\b\.?)/i;
+
+type IssueFields = Pick<Issue, 'category' | 'subcategory' | 'description' | 'rationale' | 'fix' | 'severity' | 'ruleId'>;
+
+const makeIssue = (id: string, fields: IssueFields, element?: WebElement): Issue => ({
+    ...fields,
+    id: `rule-email-${id}`,
+    blocking: false,
+    fixType: 'Manual',
+    source: 'rule',
+    elementRef: element?.ref,
+    span: element?.span
+});
+
+const quote = (text: string) => text.length > 50 ? `"${text.slice(0, 50)}…"` : `"${text}"`;
+
+// Subjects in capitals read as shouting: mostly capitals, or two words of four or more
+const isShouting = (subject: string) => {
+    const letters = subject.replace(/[^A-Za-zÀ-ÿ]/g, '');
+    const capitals = letters.replace(/[^A-ZÀ-Þ]/g, '').length;
+    return (letters.length >= 10 && capitals / letters.length > 0.6) || (subject.match(/\b[A-ZÀ-Þ]{4,}\b/g) || []).length >= 2;
+};
+
+/**
+ * Checks what an email shows before it is opened (subject, preheader, sender) and,
+ * for external mailings, the unsubscribe link and legal footer. HTML bodies also get
+ * the image and link checks of web pages.
+ */
+export function checkEmail(email: EmailMessage | undefined, scope: AudienceScope | undefined, brandName?: string): Issue[] {
+    if (!email) return [];
+    const issues: Issue[] = [];
+    const field = (ref: string) => email.elements.find(e => e.ref === ref);
+    const external = scope === AudienceScope.EXTERNAL;
+
+    const { subject } = email;
+    if (!subject) {
+        issues.push(makeIssue('subject-missing', {
+            category: 'Brand', subcategory: 'Subject Line', severity: 'Medium', ruleId: 'email:subject-missing',
+            description: 'The email has no subject line.',
+            rationale: 'Emails without a subject are often ignored or filtered as spam.',
+            fix: 'Add a subject that says what the email is about.'
+        }));
+    } else {
+        const element = field(HEADER_REFS.subject);
+        if (subject.length > MAX_SUBJECT_LENGTH) {
+            issues.push(makeIssue('subject-length', {
+                category: 'Brand', subcategory: 'Subject Line', severity: 'Low', ruleId: 'email:subject-length',
+                description: `The subject line is ${subject.length} characters long.`,
+                rationale: `Inboxes cut subjects off after about ${MAX_SUBJECT_LENGTH} characters, so the point may not be seen.`,
+                fix: `Shorten the subject to ${MAX_SUBJECT_LENGTH} characters or fewer, with the key message first.`
+            }, element));
+        }
+        if (isShouting(subject)) {
+            issues.push(makeIssue('subject-caps', {
+                category: 'Brand', subcategory: 'Tone of Voice', severity: 'Low', ruleId: 'email:subject-caps',
+                description: `The subject line ${quote(subject)} is written in capitals.`,
+                rationale: 'Capitals read as shouting and make spam filters more suspicious.',
+                fix: 'Use sentence case; keep capitals for names and acronyms.'
+            }, element));
+        }
+        if (/[!?]{2,}/.test(subject) || (subject.match(/!/g) || []).length > 1) {
+            issues.push(makeIssue('subject-punctuation', {
+                category: 'Brand', subcategory: 'Tone of Voice', severity: 'Low', ruleId: 'email:subject-punctuation',
+                description: `The subject line ${quote(subject)} uses repeated exclamation or question marks.`,
+                rationale: 'Repeated punctuation sounds pushy and is a common spam signal.',
+                fix: 'Use at most one exclamation mark, or none.'
+            }, element));
+        }
+        const spam = subject.match(SPAM_PHRASES);
+        if (spam) {
+            issues.push(makeIssue('subject-spam', {
+                category: 'Brand', subcategory: 'Tone of Voice', severity: 'Medium', ruleId: 'email:subject-spam',
+                description: `The subject line uses the sales phrase ${quote(spam[0])}.`,
+                rationale: 'Spam filters weigh phrases like this, and readers distrust them.',
+                fix: 'Describe the actual content or offer instead.'
+            }, element));
+        }
+    }
+
+    const sender = field(HEADER_REFS.sender);
+    if (!email.senderName) {
+        issues.push(makeIssue('sender-name', {
+            category: 'Brand', subcategory: 'Sender', severity: 'Low', ruleId: 'email:sender-name',
+            description: email.senderAddress ? `The sender ${quote(email.senderAddress)} has no display name.` : 'The email has no sender.',
+            rationale: 'Inboxes show the bare address, which is harder to recognize and trust.',
+            fix: brandName ? `Send as "${brandName}" or "<Team> at ${brandName}".` : 'Add a display name that names the brand or team.'
+        }, sender));
+    } else if (external && brandName && !email.senderName.toLowerCase().includes(brandName.toLowerCase())) {
+        issues.push(makeIssue('sender-brand', {
+            category: 'Brand', subcategory: 'Sender', severity: 'Low', ruleId: 'email:sender-brand',
+            description: `The sender name ${quote(email.senderName)} does not mention ${brandName}.`,
+            rationale: 'Recipients decide whether to open an email by who sent it.',
+            fix: `Use a sender name such as "${brandName}" or "${email.senderName} at ${brandName}".`
+        }, sender));
+    }
+
+    if (external && email.htmlBody && !email.preheader) {
+        issues.push(makeIssue('preheader', {
+            category: 'Brand', subcategory: 'Preheader', severity: 'Low', ruleId: 'email:preheader',
+            description: 'The email has no preheader.',
+            rationale: 'Without one, inboxes show the first text of the body next to the subject, often "View in browser".',
+            fix: 'Add a hidden preheader at the top of the body that continues the subject line.'
+        }, field(HEADER_REFS.subject)));
+    }
+
+    if (external) {
+        const body = email.elements.filter(e => !Object.values<string>(HEADER_REFS).includes(e.ref));
+        const last = body[body.length - 1];
+        const bodyText = body.map(e => `${e.text} ${e.href || ''}`).join('\n');
+        if (!email.listUnsubscribe && !UNSUBSCRIBE.test(bodyText)) {
+            issues.push(makeIssue('unsubscribe', {
+                category: 'Compliance', subcategory: 'Unsubscribe', severity: 'High', ruleId: 'email:unsubscribe',
+                description: 'The email has no unsubscribe link.',
+                rationale: 'Commercial email must let recipients opt out (CAN-SPAM, GDPR/ePrivacy, CASL).',
+                fix: 'Add an unsubscribe link to the footer and a List-Unsubscribe header.'
+            }, last));
+        }
+        if (!LEGAL_FOOTER.test(bodyText)) {
+            issues.push(makeIssue('legal-footer', {
+                category: 'Compliance', subcategory: 'Legal Footer', severity: 'Medium', ruleId: 'email:legal-footer',
+                description: 'The email has no legal footer.',
+                rationale: 'External email must identify the sender: legal entity, postal address and privacy notice.',
+                fix: `Add the standard footer${brandName ? ` of ${brandName}` : ''}: company name and address, copyright and a link to the privacy policy.`
+            }, last));
+        }
+    }
+
+    return email.htmlBody ? [...issues, ...checkImagesAndLinks(email.elements)] : issues;
+}
@@ -0,0 +1,161 @@
+import { BrandSettings, GlossaryEntry, Issue, TextSpan } from '../../types';
+import { Token, PhraseMatch, tokenize, findPhrase } from './tokenize';
+
+// Symbols accepted right after a trademarked term ("AERION™", "AERION (R)")
+const TRADEMARK_FORMS = /^\s?(™|®|\(tm\)|\(r\))/i;
+
+const KIND_LABELS: Record<GlossaryEntry['kind'], string> = {
+    brand: 'brand name',
+    product: 'product name',
+    term: 'approved term'
+};
+
+// Only plain names can be enforced; portal-synced names like "Brand Portal (v2.2)" cannot
+const isEnforceableName = (name: string) => /^[\p{L}\p{N}][\p{L}\p{N} &.'’-]*$/u.test(name.trim());
+
+/** The configured glossary plus the brand name, which is always enforced. */
+export const glossaryEntries = (settings: BrandSettings): GlossaryEntry[] => {
+    const entries = (settings.glossary || []).filter(e => e.term.trim());
+    const brandName = (settings.brandName || '').trim();
+    const listed = entries.some(e => e.term.toLowerCase() === brandName.toLowerCase());
+    return brandName && !listed && isEnforceableName(brandName)
+        ? [{ id: 'brand-name', term: brandName, kind: 'brand' }, ...entries]
+        : entries;
+};
+
+export const formatGlossaryEntry = (entry: GlossaryEntry): string => {
+    const details = [
+        entry.trademark ? `${entry.trademark} on first use` : '',
+        entry.variants?.length ? `not ${entry.variants.join(', ')}` : '',
+        entry.deprecatedNames?.length ? `replaces ${entry.deprecatedNames.join(', ')}` : ''
+    ].filter(Boolean);
+    return details.length ? `${entry.term} (${details.join('; ')})` : entry.term;
+};
+
+export const formatGlossary = (entries: GlossaryEntry[]): string =>
+    entries.map(formatGlossaryEntry).join(', ');
+
+const overlaps = (a: TextSpan, b: TextSpan) => a.start < b.end && b.start < a.end;
+
+const isSentenceStart = (content: string, start: number) =>
+    /(^|[.!?:]\s+|\n\s*)$/.test(content.slice(Math.max(0, start - 4), start));
+
+// Rewrites each matched token with the casing of the term, keeping spacing and plural suffixes
+const withTermCasing = (content: string, tokens: Token[], match: PhraseMatch, words: Token[]): string => {
+    let result = '';
+    let cursor = match.start;
+    for (let i = match.firstToken; i <= match.lastToken; i++) {
+        const token = tokens[i];
+        const word = words[i - match.firstToken].text;
+        result += content.slice(cursor, token.start) + word + token.text.slice(word.length);
+        cursor = token.end;
+    }
+    return result;
+};
+
+const makeIssue = (entry: GlossaryEntry, span: TextSpan, fields: Omit<Issue, 'id' | 'span' | 'patch' | 'source' | 'ruleId' | 'fixType' | 'blocking'> & { replacement: string; key: string }): Issue => {
+    const { replacement, key, ...rest } = fields;
+    return {
+        ...rest,
+        id: `rule-glossary-${key}-${entry.id}-${span.start}`,
+        blocking: false,
+        fixType: 'Deterministic',
+        span,
+        patch: { span, replacement },
+        source: 'rule',
+        ruleId: `glossary:${entry.term.toLowerCase()}`
+    };
+};
+
+export function checkGlossary(content: string, tokens: Token[], settings: BrandSettings): Issue[] {
+    const issues: Issue[] = [];
+    const claimed: TextSpan[] = [];
+    // Longer names first, so "AERION Cloud" is not also read as the brand "AERION"
+    const entries = [...glossaryEntries(settings)].sort((a, b) => tokenize(b.term).length - tokenize(a.term).length);
+
+    entries.forEach(entry => {
+        const words = tokenize(entry.term);
+        const label = KIND_LABELS[entry.kind];
+        const matches = findPhrase(tokens, entry.term).filter(m => !claimed.some(c => overlaps(c, m)));
+        claimed.push(...matches);
+
+        matches.forEach((match, index) => {
+            const found = content.slice(match.start, match.end);
+            const corrected = withTermCasing(content, tokens, match, words);
+
+            // Sentence case is fine for ordinary terms ("E-commerce is...")
+            const onlyFirstLetter = corrected.slice(1) === found.slice(1) && found[0] === found[0].toUpperCase();
+            if (corrected !== found && !(entry.kind === 'term' && onlyFirstLetter && isSentenceStart(content, match.start))) {
+                issues.push(makeIssue(entry, { start: match.start, end: match.end }, {
+                    key: 'casing',
+                    category: 'Brand',
+                    subcategory: 'Capitalization',
+                    description: `"${found}" should be written "${corrected}".`,
+                    rationale: `The ${label} "${entry.term}" has a fixed capitalization.`,
+                    fix: `Replace "${found}" with "${corrected}".`,
+                    severity: entry.kind === 'term' ? 'Low' : 'Medium',
+                    replacement: corrected
+                }));
+            }
+
+            if (index === 0 && entry.trademark) {
+                const after = content.slice(match.end, match.end + 5).match(TRADEMARK_FORMS);
+                const hasRequired = after && (after[1] === entry.trademark || after[1].toLowerCase() === (entry.trademark === '™' ? '(tm)' : '(r)'));
+                if (!hasRequired) {
+                    // Replace a wrong symbol, or insert the right one right after the name
+                    const span = after ? { start: match.end, end: match.end + after[0].length } : { start: match.end, end: match.end };
+                    issues.push(makeIssue(entry, span, {
+                        key: 'trademark',
+                        category: 'Compliance',
+                        subcategory: 'Trademark',
+                        description: after
+                            ? `First use of "${entry.term}" carries "${after[1]}" instead of "${entry.trademark}".`
+                            : `First use of "${entry.term}" is missing the ${entry.trademark} symbol.`,
+                        rationale: `The ${label} "${entry.term}" must carry ${entry.trademark} on its first use in every asset.`,
+                        fix: `Write "${entry.term}${entry.trademark}" on first use.`,
+                        severity: 'Medium',
+                        replacement: entry.trademark
+                    }));
+                }
+            }
+        });
+    });
+
+    // Misspellings and retired names, outside the spans already read as approved names
+    entries.forEach(entry => {
+        const label = KIND_LABELS[entry.kind];
+        const forms: { name: string; deprecated: boolean }[] = [
+            ...(entry.variants || []).map(name => ({ name, deprecated: false })),
+            ...(entry.deprecatedNames || []).map(name => ({ name, deprecated: true }))
+        ].filter(f => f.name.trim() && f.name.toLowerCase() !== entry.term.toLowerCase());
+
+        forms.forEach(({ name, deprecated }) => {
+            findPhrase(tokens, name).filter(m => !claimed.some(c => overlaps(c, m))).forEach(match => {
+                claimed.push(match);
+                const found = content.slice(match.start, match.end);
+                const span = { start: match.start, end: match.end };
+                issues.push(makeIssue(entry, span, deprecated ? {
+                    key: 'deprecated',
+                    category: 'Brand',
+                    subcategory: 'Deprecated Name',
+                    description: `"${found}" is a retired name.`,
+                    rationale: `"${name}" has been replaced by the ${label} "${entry.term}".`,
+                    fix: `Replace "${found}" with "${entry.term}".`,
+                    severity: 'Medium',
+                    replacement: entry.term
+                } : {
+                    key: 'spelling',
+                    category: 'Brand',
+                    subcategory: 'Preferred Spelling',
+                    description: `"${found}" is not the approved spelling.`,
+                    rationale: `The ${label} is spelled "${entry.term}".`,
+                    fix: `Replace "${found}" with "${entry.term}".`,
+                    severity: 'Low',
+                    replacement: entry.term
+                }));
+            });
+        });
+    });
+
+    return issues;
+}
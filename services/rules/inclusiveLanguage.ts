@@ -0,0 +1,67 @@
+import { Issue } from '../../types';
+import { Token, findPhrase } from './tokenize';
+
+interface InclusiveTerm {
+    term: string;
+    replacement: string;
+    reason: string;
+}
+
+// Baseline list applied when BrandSettings.inclusiveLanguage is on
+export const INCLUSIVE_TERMS: InclusiveTerm[] = [
+    { term: 'chairman', replacement: 'chair', reason: 'Gendered job title.' },
+    { term: 'salesman', replacement: 'salesperson', reason: 'Gendered job title.' },
+    { term: 'businessman', replacement: 'businessperson', reason: 'Gendered job title.' },
+    { term: 'spokesman', replacement: 'spokesperson', reason: 'Gendered job title.' },
+    { term: 'manpower', replacement: 'workforce', reason: 'Gendered collective noun.' },
+    { term: 'man-hours', replacement: 'person-hours', reason: 'Gendered unit of effort.' },
+    { term: 'mankind', replacement: 'humankind', reason: 'Gendered collective noun.' },
+    { term: 'guys', replacement: 'everyone', reason: 'Gendered form of address.' },
+    { term: 'whitelist', replacement: 'allowlist', reason: 'Racially coded terminology.' },
+    { term: 'blacklist', replacement: 'blocklist', reason: 'Racially coded terminology.' },
+    { term: 'master and slave', replacement: 'primary and replica', reason: 'References slavery.' },
+    { term: 'grandfathered', replacement: 'legacy', reason: 'Originates in discriminatory voting laws.' },
+    { term: 'sanity check', replacement: 'quick check', reason: 'Ableist language.' },
+    { term: 'crippled', replacement: 'impaired', reason: 'Ableist language.' },
+    { term: 'tone-deaf', replacement: 'out of touch', reason: 'Ableist language.' },
+    { term: 'dummy value', replacement: 'placeholder value', reason: 'Ableist language.' }
+];
+
+// Keep the original capitalisation of the first letter when suggesting a replacement
+export const matchCase = (found: string, replacement: string): string =>
+    found[0] === found[0].toUpperCase() ? replacement[0].toUpperCase() + replacement.slice(1) : replacement;
+
+// Carry a plural suffix matched by findPhrase ("gurus") over to the replacement ("experts")
+export const matchForm = (found: string, term: string, replacement: string): string => {
+    const suffix = found.toLowerCase().startsWith(term) ? found.slice(term.length) : '';
+    return matchCase(found, replacement + (/^(s|es)$/i.test(suffix) ? suffix.toLowerCase() : ''));
+};
+
+export function checkInclusiveLanguage(content: string, tokens: Token[]): Issue[] {
+    const issues: Issue[] = [];
+
+    INCLUSIVE_TERMS.forEach(entry => {
+        findPhrase(tokens, entry.term).forEach(match => {
+            const found = content.slice(match.start, match.end);
+            const replacement = matchForm(found, entry.term, entry.replacement);
+
+            issues.push({
+                id: `rule-inclusive-${entry.term.replace(/\s+/g, '-')}-${match.start}`,
+                category: 'Cultural',
+                subcategory: 'Inclusive Language',
+                description: `Non-inclusive term "${found}" used.`,
+                rationale: `${entry.reason} The Inclusive Language Protocol is active.`,
+                fix: `Replace "${found}" with "${replacement}".`,
+                severity: 'Medium',
+                blocking: false,
+                fixType: 'Deterministic',
+                span: { start: match.start, end: match.end },
+                patch: { span: { start: match.start, end: match.end }, replacement },
+                source: 'rule',
+                ruleId: `inclusive:${entry.term}`
+            });
+        });
+    });
+
+    return issues;
+}
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisResult, AssetType, BrandSettings, CommunicationContext, Issue, WebPage } from '../../types';
+import { checkWebPage, mergeRuleFindings, runRuleEngine, scoreIssues } from './index';
+
+const settings: BrandSettings = {
+    brandName: 'Acme',
+    mission: '',
+    audience: '',
+    toneVoice: '',
+    styleGuide: '',
+    bannedTerms: [
+        { id: 'leverage', term: 'leverage', variants: ['leveraging'], replacement: 'use', severity: 'High' },
+        { id: 'disruptive', term: 'disruptive', severity: 'Medium', exceptionReferent: 'tech' }
+    ],
+    inclusiveLanguage: false,
+    requiredDisclaimers: [
+        { id: 'results', label: 'Results disclaimer', text: 'Individual results may vary.', triggers: ['guaranteed'] }
+    ]
+};
+
+const options = { context: CommunicationContext.MARKETING, assetType: AssetType.BLOG_POST };
+
+const issue = (fields: Partial<Issue>): Issue => ({
+    id: 'model-1',
+    category: 'Compliance',
+    subcategory: 'Banned Term',
+    description: '',
+    rationale: '',
+    fix: '',
+    severity: 'High',
+    blocking: false,
+    fixType: 'Manual',
+    ...fields
+});
+
+const result = (issues: Issue[], brandScore = 100): AnalysisResult => ({ safetyStatus: 'Safe', summary: '', brandScore, issues });
+
+describe('runRuleEngine', () => {
+    it('flags banned terms and their variants with a patch in the same case', () => {
+        const content = 'Leveraging our network.';
+        const [found] = runRuleEngine(content, settings, options);
+        expect(found.ruleId).toBe('banned-term:leverage');
+        expect(content.slice(found.span!.start, found.span!.end)).toBe('Leveraging');
+        expect(found.patch?.replacement).toBe('Use');
+        expect(found.blocking).toBe(true);
+    });
+
+    it('skips a term used about its exception referent', () => {
+        expect(runRuleEngine('A disruptive cloud platform.', settings, options)).toEqual([]);
+        expect(runRuleEngine('A disruptive idea.', settings, options)).toHaveLength(1);
+    });
+
+    it('returns findings in reading order', () => {
+        const issues = runRuleEngine('Disruptive ideas. Leverage them.', settings, options);
+        expect(issues.map(i => i.ruleId)).toEqual(['banned-term:disruptive', 'banned-term:leverage']);
+    });
+
+    it('returns nothing for empty content', () => {
+        expect(runRuleEngine('  ', settings, options)).toEqual([]);
+    });
+});
+
+describe('required disclaimers', () => {
+    it('appends a missing disclaimer as its own paragraph', () => {
+        const content = 'Results guaranteed.';
+        const [missing] = runRuleEngine(content, settings, options);
+        expect(missing.ruleId).toBe('disclaimer:results');
+        expect(missing.patch).toEqual({
+            span: { start: content.length, end: content.length },
+            replacement: '\n\nIndividual results may vary.'
+        });
+    });
+
+    it('needs one newline only after text that ends in one', () => {
+        const [missing] = runRuleEngine('Results guaranteed.\n', settings, options);
+        expect(missing.patch?.replacement).toBe('\nIndividual results may vary.');
+    });
+
+    it('accepts the disclaimer with different spacing and case', () => {
+        expect(runRuleEngine('Results guaranteed.  individual results\nmay vary.', settings, options)).toEqual([]);
+    });
+
+    it('is not required without a trigger', () => {
+        expect(runRuleEngine('Results are good.', settings, options)).toEqual([]);
+    });
+});
+
+describe('scoreIssues', () => {
+    it('deducts per severity and turns unsafe on blocking issues', () => {
+        expect(scoreIssues([])).toEqual({ brandScore: 100, safetyStatus: 'Safe' });
+        expect(scoreIssues([issue({ severity: 'Medium' }), issue({ severity: 'Low' })])).toEqual({ brandScore: 85, safetyStatus: 'Caution' });
+        expect(scoreIssues([issue({ severity: 'Low', blocking: true })]).safetyStatus).toBe('Unsafe');
+    });
+
+    it('never goes below zero', () => {
+        expect(scoreIssues(Array.from({ length: 6 }, () => issue({}))).brandScore).toBe(0);
+    });
+});
+
+describe('mergeRuleFindings', () => {
+    const ruleIssues = runRuleEngine('We leverage data.', settings, options);
+
+    it('drops model issues that repeat a rule finding, without a second penalty', () => {
+        const model = issue({ description: 'The banned term "leverage" is used.', severity: 'High' });
+        const merged = mergeRuleFindings(result([model], 80), ruleIssues);
+        expect(merged.issues.map(i => i.id)).toEqual([ruleIssues[0].id]);
+        expect(merged.brandScore).toBe(80);
+    });
+
+    it('penalizes rule findings the model missed and marks blocking ones unsafe', () => {
+        const other = issue({ id: 'model-2', category: 'Brand', subcategory: 'Tone', description: 'Too formal.', severity: 'Low' });
+        const merged = mergeRuleFindings(result([other], 95), ruleIssues);
+        expect(merged.issues.map(i => i.id)).toEqual([ruleIssues[0].id, 'model-2']);
+        expect(merged.brandScore).toBe(75);
+        expect(merged.safetyStatus).toBe('Unsafe');
+        expect(merged.issues[1].source).toBe('model');
+    });
+
+    it('keeps model issues that only mention the brand a glossary finding is about', () => {
+        const glossaryIssues = runRuleEngine('Welcome to ACME.', settings, options);
+        const logo = issue({ id: 'model-logo', category: 'Brand', subcategory: 'Logo Usage', description: 'The Acme logo is stretched.' });
+        const claim = issue({ id: 'model-claim', category: 'Compliance', subcategory: 'Claims', description: 'Unsubstantiated claim that Acme is the fastest.' });
+        const casing = issue({ id: 'model-casing', category: 'Brand', subcategory: 'Capitalization', description: 'The brand name "ACME" should be written "Acme".', severity: 'Medium' });
+
+        const merged = mergeRuleFindings(result([logo, claim, casing], 50), glossaryIssues);
+
+        expect(glossaryIssues.map(i => i.ruleId)).toEqual(['glossary:acme']);
+        expect(merged.issues.map(i => i.id)).toEqual([glossaryIssues[0].id, 'model-logo', 'model-claim']);
+        expect(merged.brandScore).toBe(50);
+    });
+
+    it('drops a model disclaimer issue only when it names the same disclaimer', () => {
+        const disclaimerIssues = runRuleEngine('Results guaranteed.', settings, options);
+        const same = issue({ id: 'model-same', subcategory: 'Missing Disclaimers', description: 'Add "Individual results may vary."' });
+        const other = issue({ id: 'model-other', subcategory: 'Missing Disclaimer', description: 'The investment risk disclaimer is missing.' });
+
+        const merged = mergeRuleFindings(result([same, other], 60), disclaimerIssues);
+
+        expect(merged.issues.map(i => i.id)).toEqual([disclaimerIssues[0].id, 'model-other']);
+        expect(merged.brandScore).toBe(60);
+    });
+
+    it('keeps model issues about other headings and links on a web page', () => {
+        const page: WebPage = {
+            title: 'Acme pricing',
+            description: 'Plans for every team.',
+            lang: 'en',
+            elements: [
+                { ref: 'e1', kind: 'heading', text: 'Pricing', level: 2 },
+                { ref: 'e2', kind: 'link', text: 'Old pricing page', href: 'http://acme.example/pricing' }
+            ]
+        };
+        const pageIssues = checkWebPage(page);
+        const outline = issue({ id: 'model-outline', subcategory: 'Heading Structure', description: 'The H1 of the hero repeats the page title.', severity: 'Low' });
+        const target = issue({ id: 'model-target', category: 'Brand', subcategory: 'Broken Link', description: 'https://acme.example/plans returns a 404.', severity: 'Low' });
+        const insecure = issue({ id: 'model-insecure', category: 'Brand', subcategory: 'Insecure Links', description: 'The pricing link is not served over https://.', severity: 'Low' });
+
+        const merged = mergeRuleFindings(result([outline, target, insecure], 90), pageIssues);
+
+        expect(pageIssues.map(i => i.ruleId)).toEqual(['accessibility:h1', 'web:https']);
+        expect(merged.issues.map(i => i.id)).toEqual([...pageIssues.map(i => i.id), 'model-outline', 'model-target']);
+        expect(merged.brandScore).toBe(85);
+    });
+
+    it('keeps a rule finding the provider already returned once', () => {
+        const merged = mergeRuleFindings(result(ruleIssues, 80), ruleIssues);
+        expect(merged.issues).toHaveLength(1);
+        expect(merged.brandScore).toBe(80);
+    });
+});
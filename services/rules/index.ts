@@ -0,0 +1,103 @@
+// Deterministic rule engine. Runs locally before the model call so that
+// blocklist, inclusive-language and disclaimer checks are reproducible.
+import { AnalysisResult, AssetType, BrandSettings, CommunicationContext, Issue, Region, SafetyStatus } from '../../types';
+import { tokenize } from './tokenize';
+import { checkBannedTerms } from './bannedTerms';
+import { checkInclusiveLanguage } from './inclusiveLanguage';
+import { checkRequiredDisclaimers } from './disclaimers';
+import { checkGlossary } from './glossary';
+
+export { tokenize, findPhrase } from './tokenize';
+export { parseBannedTerms, checkBannedTerms, formatBannedTerm, formatBannedTerms, isBannedTermApplicable, compileTermPattern } from './bannedTerms';
+export { checkGlossary, glossaryEntries, formatGlossary, formatGlossaryEntry } from './glossary';
+export { checkPaletteUsage, measurePalette, matchPaletteColor, normalizeHex, formatDesignTokens, DEFAULT_TOLERANCE } from './palette';
+export { checkDocumentStyles } from './typography';
+export { checkSpreadsheet, cellCurrencies, decimalMark, REGION_CONVENTIONS } from './spreadsheet';
+export { checkWebPage, checkImagesAndLinks } from './webPage';
+export { checkEmail } from './email';
+export { checkCampaign } from './campaign';
+export type { CampaignAsset } from './campaign';
+export type { PixelData, MeasuredColor, PaletteMeasurement } from './palette';
+export { detectGuidelineConflicts } from './conflicts';
+export type { GuidelineConflict, GuidelineConflictKind } from './conflicts';
+
+export interface RuleEngineOptions {
+    context: CommunicationContext;
+    assetType: AssetType;
+    region?: Region; // Scopes region-specific banned terms
+}
+
+// Deductive Scoring Model, mirrors ScoreDashboard
+const PENALTY_VALUES = { 'High': 20, 'Medium': 10, 'Low': 5 };
+
+/** Scores an issue list from scratch: 100 minus the penalty of every issue. */
+export function scoreIssues(issues: Issue[]): { brandScore: number; safetyStatus: SafetyStatus } {
+    const brandScore = Math.max(0, issues.reduce((score, issue) => score - (PENALTY_VALUES[issue.severity] || 5), 100));
+    const safetyStatus: SafetyStatus = issues.some(i => i.blocking) || brandScore < 50 ? 'Unsafe' : brandScore === 100 ? 'Safe' : 'Caution';
+    return { brandScore, safetyStatus };
+}
+
+export function runRuleEngine(content: string, settings: BrandSettings, options: RuleEngineOptions): Issue[] {
+    if (!content || !content.trim()) return [];
+
+    const tokens = tokenize(content);
+    const issues: Issue[] = [
+        ...checkBannedTerms(content, tokens, settings.bannedTerms, { context: options.context, region: options.region }),
+        ...checkGlossary(content, tokens, settings),
+        ...(settings.inclusiveLanguage ? checkInclusiveLanguage(content, tokens) : []),
+        ...checkRequiredDisclaimers(content, settings.requiredDisclaimers || [], options.context, options.assetType)
+    ];
+
+    // Reading order keeps the issue list aligned with the document
+    return issues.sort((a, b) => (a.span?.start ?? Infinity) - (b.span?.start ?? Infinity));
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Rules whose subcategory covers many findings, told apart by the term they name
+const TERM_KINDS = new Set(['banned-term', 'inclusive', 'glossary']);
+
+// "Banned Terms" and "banned term" are the same heading
+const headingOf = (issue: Issue) => `${issue.category}:${normalize(issue.subcategory).replace(/s$/, '')}`;
+
+// True when a model issue reports the same finding as a rule issue: it is raised under
+// the same category and subcategory and, for term rules and disclaimers, names the same
+// term or disclaimer text. Mentioning the term elsewhere ("the AERION logo") is not enough.
+const isDuplicateOf = (modelIssue: Issue, ruleIssue: Issue): boolean => {
+    if (!ruleIssue.ruleId || headingOf(modelIssue) !== headingOf(ruleIssue)) return false;
+    const [kind, key] = ruleIssue.ruleId.split(':');
+    const text = normalize(`${modelIssue.description} ${modelIssue.rationale} ${modelIssue.fix}`);
+
+    if (kind === 'disclaimer') return !!ruleIssue.patch && text.includes(normalize(ruleIssue.patch.replacement));
+    return !TERM_KINDS.has(kind) || new RegExp(`\\b${escapeRegExp(key)}`, 'i').test(text);
+};
+
+/**
+ * Folds rule engine findings into a model result. Model issues that repeat a
+ * rule finding are dropped (the rule issue carries the exact span), and the
+ * score/status are tightened for findings the model missed.
+ */
+export function mergeRuleFindings(result: AnalysisResult, ruleIssues: Issue[]): AnalysisResult {
+    const modelIssues = result.issues.map(issue => ({ ...issue, source: issue.source || 'model' as const }));
+    const ruleIds = new Set(ruleIssues.map(i => i.id));
+
+    let penalty = 0;
+    ruleIssues.forEach(ruleIssue => {
+        const seenByModel = modelIssues.some(m => m.source === 'model' && isDuplicateOf(m, ruleIssue));
+        if (!seenByModel && !result.issues.some(i => i.id === ruleIssue.id)) {
+            penalty += PENALTY_VALUES[ruleIssue.severity] || 5;
+        }
+    });
+
+    const remaining = modelIssues.filter(m =>
+        !ruleIds.has(m.id) && !(m.source === 'model' && ruleIssues.some(r => isDuplicateOf(m, r)))
+    );
+    const issues = [...ruleIssues, ...remaining];
+
+    const brandScore = Math.max(0, (result.brandScore ?? 100) - penalty);
+    const safetyStatus: SafetyStatus = issues.some(i => i.blocking) ? 'Unsafe' : result.safetyStatus;
+
+    return { ...result, issues, brandScore, safetyStatus };
+}
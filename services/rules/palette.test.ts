@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { DesignTokens, PaletteColor } from '../../types';
+import { checkPaletteUsage, matchPaletteColor, measurePalette, normalizeHex, PixelData } from './palette';
+
+type Rgb = [number, number, number];
+
+const BLUE: PaletteColor = { id: 'blue', name: 'Acme Blue', hex: '#0055FF', tolerance: 5 };
+
+const tokens = (fields: Partial<DesignTokens> = {}): DesignTokens => ({ palette: [BLUE], allowNeutrals: true, fonts: [], ...fields });
+
+// A width x height image in one color, with rectangles painted over it
+const image = (width: number, height: number, background: Rgb | null, ...rects: [number, number, number, number, Rgb][]): PixelData => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    const paint = (x: number, y: number, [r, g, b]: Rgb) => data.set([r, g, b, 255], (y * width + x) * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (background) paint(x, y, background);
+        }
+    }
+    rects.forEach(([left, top, w, h, color]) => {
+        for (let y = top; y < top + h; y++) {
+            for (let x = left; x < left + w; x++) paint(x, y, color);
+        }
+    });
+    return { width, height, data };
+};
+
+const WHITE: Rgb = [255, 255, 255];
+const RED: Rgb = [220, 30, 40];
+
+describe('normalizeHex', () => {
+    it('expands and upper-cases hex values and rejects anything else', () => {
+        expect(normalizeHex(' abc ')).toBe('#AABBCC');
+        expect(normalizeHex('#0055ff')).toBe('#0055FF');
+        expect(normalizeHex('blue')).toBeUndefined();
+        expect(normalizeHex('#12345')).toBeUndefined();
+    });
+});
+
+describe('matchPaletteColor', () => {
+    it('accepts a shade within the tolerance of its nearest palette color', () => {
+        expect(matchPaletteColor('#0055FF', tokens())).toMatchObject({ nearest: BLUE, distance: 0, onPalette: true });
+        expect(matchPaletteColor('#0058FF', tokens())).toMatchObject({ nearest: BLUE, onPalette: true });
+        expect(matchPaletteColor('#0060FF', tokens())).toMatchObject({ nearest: BLUE, onPalette: false });
+    });
+
+    it('widens the match with a larger tolerance', () => {
+        expect(matchPaletteColor('#0060FF', tokens({ palette: [{ ...BLUE, tolerance: 10 }] }))?.onPalette).toBe(true);
+    });
+
+    it('accepts greys only when neutrals are allowed', () => {
+        expect(matchPaletteColor('#777777', tokens())?.onPalette).toBe(true);
+        expect(matchPaletteColor('#777777', tokens({ allowNeutrals: false }))?.onPalette).toBe(false);
+    });
+
+    it('skips palette entries that are not hex values', () => {
+        const broken: PaletteColor = { id: 'broken', name: 'Broken', hex: 'blue', tolerance: 5 };
+        expect(matchPaletteColor('#0055FF', tokens({ palette: [broken, BLUE] }))?.nearest).toEqual(BLUE);
+        expect(matchPaletteColor('not a color', tokens())).toBeUndefined();
+    });
+});
+
+describe('measurePalette', () => {
+    it('measures the share of off-palette pixels and the dominant colors', () => {
+        // 100 x 100: white, a blue band and a red square
+        const pixels = image(100, 100, WHITE, [0, 0, 100, 30, [0, 85, 255]], [20, 60, 20, 20, RED]);
+        const { dominantColors, offPaletteShare } = measurePalette(pixels, tokens());
+
+        expect(offPaletteShare).toBeCloseTo(0.04);
+        expect(dominantColors.map(c => [c.hex, c.share, c.onPalette])).toEqual([
+            ['#FFFFFF', 0.66, true],
+            ['#0055FF', 0.3, true],
+            ['#DC1E28', 0.04, false]
+        ]);
+    });
+
+    it('reports each off-palette area with its bounding box in percent of the image', () => {
+        const pixels = image(100, 100, WHITE, [20, 60, 20, 20, RED], [80, 0, 10, 10, RED]);
+        const { regions } = measurePalette(pixels, tokens());
+
+        expect(regions.map(r => [r.box, r.area, r.color.hex])).toEqual([
+            [{ x: 20, y: 60, width: 20, height: 20 }, 0.04, '#DC1E28'],
+            [{ x: 80, y: 0, width: 10, height: 10 }, 0.01, '#DC1E28']
+        ]);
+    });
+
+    it('rounds an area out to whole raster cells and clamps it to the image', () => {
+        // 50 x 50: cells are 3 x 3 pixels, and the last column is cut off
+        const { regions } = measurePalette(image(50, 50, WHITE, [44, 44, 6, 6, RED]), tokens());
+        expect(regions).toHaveLength(1);
+        expect(regions[0].box).toEqual({ x: 84, y: 84, width: 16, height: 16 });
+    });
+
+    it('ignores transparent pixels', () => {
+        const { dominantColors, offPaletteShare, regions } = measurePalette(image(40, 40, null, [0, 0, 20, 20, [0, 85, 255]]), tokens());
+        expect(dominantColors.map(c => [c.hex, c.share])).toEqual([['#0055FF', 1]]);
+        expect(offPaletteShare).toBe(0);
+        expect(regions).toEqual([]);
+    });
+
+    it('does not report sparse off-palette pixels as an area', () => {
+        // One red pixel in every 5 x 5 cell stays below the cell threshold
+        const dots = Array.from({ length: 400 }, (_, i): [number, number, number, number, Rgb] => [(i % 20) * 5, Math.floor(i / 20) * 5, 1, 1, RED]);
+        const { offPaletteShare, regions } = measurePalette(image(100, 100, WHITE, ...dots), tokens());
+        expect(offPaletteShare).toBeCloseTo(0.04);
+        expect(regions).toEqual([]);
+    });
+});
+
+describe('checkPaletteUsage', () => {
+    it('files one finding per off-palette area, naming the closest brand color', () => {
+        const pixels = image(100, 100, WHITE, [0, 0, 50, 40, RED], [80, 80, 10, 10, RED]);
+        const issues = checkPaletteUsage(pixels, tokens(), 3);
+
+        expect(issues.map(i => [i.id, i.severity, i.page_number, i.ruleId])).toEqual([
+            ['rule-palette-3-0', 'Medium', 3, 'palette:dc1e28'],
+            ['rule-palette-3-1', 'Low', 3, 'palette:dc1e28']
+        ]);
+        expect(issues[0].boundingBox).toEqual({ x: 0, y: 0, width: 50, height: 40 });
+        expect(issues[0].description).toBe('#DC1E28 covers about 20% of the visual and is not a brand color.');
+        expect(issues[0].fix).toBe('Replace #DC1E28 with Acme Blue (#0055FF).');
+        expect(issues[0].rationale).toMatch(/^The closest palette color is Acme Blue \(#0055FF\), ΔE [\d.]+ away \(tolerance 5\)\.$/);
+    });
+
+    it('does nothing without a usable palette', () => {
+        const pixels = image(10, 10, RED);
+        expect(checkPaletteUsage(pixels, undefined, 1)).toEqual([]);
+        expect(checkPaletteUsage(pixels, tokens({ palette: [{ ...BLUE, hex: 'blue' }] }), 1)).toEqual([]);
+    });
+});
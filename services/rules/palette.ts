@@ -0,0 +1,272 @@
+import { DesignTokens, Issue, PaletteColor } from '../../types';
+
+// Decoded RGBA pixels, the shape of a canvas ImageData
+export interface PixelData {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+}
+
+export interface MeasuredColor {
+    hex: string;
+    share: number; // Fraction of the opaque pixels, 0-1
+    nearest?: PaletteColor;
+    distance: number; // ΔE to the nearest palette color
+    onPalette: boolean;
+}
+
+export interface PaletteMeasurement {
+    dominantColors: MeasuredColor[];
+    offPaletteShare: number;
+    regions: { box: NonNullable<Issue['boundingBox']>; color: MeasuredColor; area: number }[];
+}
+
+type Lab = [number, number, number];
+
+// The image is split into a GRID x GRID raster; a cell counts as off-palette
+// once OFF_CELL_SHARE of its opaque pixels are outside every tolerance
+const GRID = 20;
+const OFF_CELL_SHARE = 0.3;
+// Below this chroma a color reads as white, grey or black
+const NEUTRAL_CHROMA = 8;
+const MAX_REGIONS = 5;
+const DOMINANT_COLORS = 6;
+
+export const DEFAULT_TOLERANCE = 10;
+
+const HEX_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/** "#abc" / "AABBCC" to "#AABBCC", or undefined when the value is not a hex color. */
+export const normalizeHex = (value: string): string | undefined => {
+    const match = value.trim().match(HEX_PATTERN);
+    if (!match) return undefined;
+    const digits = match[1].length === 3 ? match[1].split('').map(d => d + d).join('') : match[1];
+    return `#${digits.toUpperCase()}`;
+};
+
+const toHex = (r: number, g: number, b: number) =>
+    `#${[r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+
+const hexToRgb = (hex: string): [number, number, number] => {
+    const value = parseInt(hex.slice(1), 16);
+    return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// sRGB (D65) to CIELAB
+const rgbToLab = (r: number, g: number, b: number): Lab => {
+    const [lr, lg, lb] = [r, g, b].map(v => {
+        const c = v / 255;
+        return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    });
+    const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+    const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+    const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+    const f = (t: number) => t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116;
+    const [fx, fy, fz] = [f(x), f(y), f(z)];
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+// CIE76 color difference
+const deltaE = (a: Lab, b: Lab) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+const chroma = (lab: Lab) => Math.hypot(lab[1], lab[2]);
+
+/** Palette entries with a valid hex value, ready for matching. */
+export const compilePalette = (palette: PaletteColor[]) => palette.flatMap(color => {
+    const hex = normalizeHex(color.hex);
+    if (!hex) return [];
+    return [{ color: { ...color, hex }, lab: rgbToLab(...hexToRgb(hex)) }];
+});
+
+const classifier = (tokens: DesignTokens) => {
+    const palette = compilePalette(tokens.palette);
+    return (lab: Lab) => {
+        let nearest: PaletteColor | undefined;
+        let distance = Infinity;
+        palette.forEach(p => {
+            const d = deltaE(lab, p.lab);
+            if (d < distance) {
+                distance = d;
+                nearest = p.color;
+            }
+        });
+        const onPalette = (!!nearest && distance <= (nearest.tolerance || DEFAULT_TOLERANCE))
+            || (tokens.allowNeutrals && chroma(lab) < NEUTRAL_CHROMA);
+        return { nearest, distance, onPalette };
+    };
+};
+
+/** Nearest palette color for a single hex value, e.g. a text color. */
+export const matchPaletteColor = (hex: string, tokens: DesignTokens) => {
+    const normalized = normalizeHex(hex);
+    return normalized ? classifier(tokens)(rgbToLab(...hexToRgb(normalized))) : undefined;
+};
+
+// 4 bits per channel: close shades fall into the same bucket
+const bucketOf = (r: number, g: number, b: number) => ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+
+/**
+ * Measures an image against the brand palette: its dominant colors, and the
+ * connected areas where off-palette colors dominate, in percent of the image.
+ */
+export function measurePalette(pixels: PixelData, tokens: DesignTokens): PaletteMeasurement {
+    const { width, height, data } = pixels;
+    const classify = classifier(tokens);
+    const cellW = Math.max(1, Math.ceil(width / GRID));
+    const cellH = Math.max(1, Math.ceil(height / GRID));
+    const cols = Math.ceil(width / cellW);
+    const rows = Math.ceil(height / cellH);
+
+    // First pass: per-cell color buckets and the mean color of every bucket
+    const opaqueByCell = new Uint32Array(cols * rows);
+    const bucketsByCell = new Map<number, Map<number, number>>(); // cell -> bucket -> count
+    const sums = new Map<number, [number, number, number, number]>(); // bucket -> r, g, b, count
+    let opaque = 0;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            if (data[i + 3] < 128) continue;
+            const bucket = bucketOf(data[i], data[i + 1], data[i + 2]);
+            const cell = Math.floor(y / cellH) * cols + Math.floor(x / cellW);
+            opaque++;
+            opaqueByCell[cell]++;
+            const cellBuckets = bucketsByCell.get(cell) || new Map<number, number>();
+            cellBuckets.set(bucket, (cellBuckets.get(bucket) || 0) + 1);
+            bucketsByCell.set(cell, cellBuckets);
+            const sum = sums.get(bucket) || [0, 0, 0, 0];
+            sum[0] += data[i]; sum[1] += data[i + 1]; sum[2] += data[i + 2]; sum[3]++;
+            sums.set(bucket, sum);
+        }
+    }
+
+    // Pixels of one bucket are classified once, by the bucket's mean color
+    const means = new Map<number, [number, number, number]>();
+    const verdicts = new Map<number, ReturnType<typeof classify>>();
+    sums.forEach(([r, g, b, count], bucket) => {
+        const mean: [number, number, number] = [r / count, g / count, b / count];
+        means.set(bucket, mean);
+        verdicts.set(bucket, classify(rgbToLab(...mean)));
+    });
+
+    const offByCell = new Uint32Array(cols * rows);
+    let off = 0;
+    bucketsByCell.forEach((cellBuckets, cell) => cellBuckets.forEach((count, bucket) => {
+        if (verdicts.get(bucket)!.onPalette) return;
+        offByCell[cell] += count;
+        off += count;
+    }));
+
+    const measure = (bucket: number, count: number, total: number): MeasuredColor => {
+        const verdict = verdicts.get(bucket)!;
+        return {
+            hex: toHex(...means.get(bucket)!),
+            share: total ? count / total : 0,
+            nearest: verdict.nearest,
+            distance: Math.round(verdict.distance * 10) / 10,
+            onPalette: verdict.onPalette
+        };
+    };
+
+    const dominantColors = [...sums.entries()]
+        .sort((a, b) => b[1][3] - a[1][3])
+        .slice(0, DOMINANT_COLORS)
+        .map(([bucket, sum]) => measure(bucket, sum[3], opaque));
+
+    // Connected areas of off-palette cells (4-neighbourhood)
+    const isOff = (cell: number) => opaqueByCell[cell] > 0 && offByCell[cell] / opaqueByCell[cell] >= OFF_CELL_SHARE;
+    const visited = new Uint8Array(cols * rows);
+    const regions: PaletteMeasurement['regions'] = [];
+
+    for (let start = 0; start < cols * rows; start++) {
+        if (visited[start] || !isOff(start)) continue;
+        const stack = [start];
+        visited[start] = 1;
+        let [minX, minY, maxX, maxY] = [cols, rows, 0, 0];
+        let pixelCount = 0;
+        const tally = new Map<number, number>();
+
+        while (stack.length) {
+            const cell = stack.pop()!;
+            const cx = cell % cols;
+            const cy = Math.floor(cell / cols);
+            minX = Math.min(minX, cx); maxX = Math.max(maxX, cx);
+            minY = Math.min(minY, cy); maxY = Math.max(maxY, cy);
+            pixelCount += opaqueByCell[cell];
+            bucketsByCell.get(cell)?.forEach((count, bucket) => {
+                if (!verdicts.get(bucket)!.onPalette) tally.set(bucket, (tally.get(bucket) || 0) + count);
+            });
+
+            [[cx - 1, cy], [cx + 1, cy], [cx, cy - 1], [cx, cy + 1]].forEach(([nx, ny]) => {
+                if (nx < 0 || ny < 0 || nx >= cols || ny >= rows) return;
+                const next = ny * cols + nx;
+                if (!visited[next] && isOff(next)) {
+                    visited[next] = 1;
+                    stack.push(next);
+                }
+            });
+        }
+
+        const [bucket, count] = [...tally.entries()].sort((a, b) => b[1] - a[1])[0];
+        const left = (minX * cellW) / width;
+        const top = (minY * cellH) / height;
+        regions.push({
+            box: {
+                x: Math.round(left * 1000) / 10,
+                y: Math.round(top * 1000) / 10,
+                width: Math.round((Math.min(1, ((maxX + 1) * cellW) / width) - left) * 1000) / 10,
+                height: Math.round((Math.min(1, ((maxY + 1) * cellH) / height) - top) * 1000) / 10
+            },
+            color: measure(bucket, count, pixelCount),
+            area: opaque ? pixelCount / opaque : 0
+        });
+    }
+
+    return {
+        dominantColors,
+        offPaletteShare: opaque ? off / opaque : 0,
+        regions: regions.sort((a, b) => b.area - a.area).slice(0, MAX_REGIONS)
+    };
+}
+
+/** Off-palette findings for one image; pageNumber is 1-based, like Issue.page_number. */
+export function checkPaletteUsage(pixels: PixelData, tokens: DesignTokens | undefined, pageNumber: number): Issue[] {
+    if (!tokens || compilePalette(tokens.palette).length === 0) return [];
+
+    const { regions } = measurePalette(pixels, tokens);
+    return regions.map((region, index) => {
+        const { color } = region;
+        const nearest = color.nearest ? `${color.nearest.name} (${color.nearest.hex})` : undefined;
+        const percent = Math.max(1, Math.round(region.area * 100));
+        return {
+            id: `rule-palette-${pageNumber}-${index}`,
+            category: 'Brand' as const,
+            subcategory: 'Off-Palette Color',
+            description: `${color.hex} covers about ${percent}% of the visual and is not a brand color.`,
+            rationale: nearest
+                ? `The closest palette color is ${nearest}, ΔE ${color.distance} away (tolerance ${color.nearest!.tolerance || DEFAULT_TOLERANCE}).`
+                : 'Only the colors of the brand palette may be used.',
+            fix: nearest ? `Replace ${color.hex} with ${nearest}.` : `Replace ${color.hex} with a palette color.`,
+            severity: region.area > 0.1 ? 'Medium' as const : 'Low' as const,
+            blocking: false,
+            fixType: 'Manual' as const,
+            boundingBox: region.box,
+            page_number: pageNumber,
+            source: 'rule' as const,
+            ruleId: `palette:${color.hex.slice(1).toLowerCase()}`
+        };
+    });
+}
+
+export const formatDesignTokens = (tokens: DesignTokens): string => {
+    const lines = [
+        tokens.palette.length
+            ? `Palette: ${tokens.palette.map(c => `${c.name} ${c.hex} (±ΔE ${c.tolerance || DEFAULT_TOLERANCE})`).join(', ')}${tokens.allowNeutrals ? '; neutrals allowed' : ''}`
+            : '',
+        tokens.fonts.length
+            ? `Fonts: ${tokens.fonts.map(f => f.weights.length ? `${f.family} ${f.weights.join('/')}` : f.family).join(', ')}`
+            : '',
+        tokens.logoClearSpace ? `Logo clear space: at least ${tokens.logoClearSpace}× the logo height` : ''
+    ];
+    return lines.filter(Boolean).join('\n');
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { Issue, SheetCell, Workbook } from '../../types';
+import { cellCurrencies, checkSpreadsheet, decimalMark } from './spreadsheet';
+import { mergeRuleFindings } from './index';
+
+const cell = (text: string, fields: Partial<SheetCell> = {}): SheetCell => ({ ref: 'A1', text, ...fields });
+
+const workbook = (...texts: string[]): Workbook => ({
+    sheets: [{ name: 'Prices', cells: texts.map((text, i) => cell(text, { ref: `B${i + 1}` })) }]
+});
+
+describe('cellCurrencies', () => {
+    it('reads symbols and ISO codes on either side of the amount', () => {
+        expect(cellCurrencies(cell('€1.200,00'))).toEqual(['EUR']);
+        expect(cellCurrencies(cell('1.200,00 €'))).toEqual(['EUR']);
+        expect(cellCurrencies(cell('CHF 99'))).toEqual(['CHF']);
+        expect(cellCurrencies(cell('99 GBP'))).toEqual(['GBP']);
+    });
+
+    it('reads the longest symbol and keeps ambiguous ones open', () => {
+        expect(cellCurrencies(cell('US$ 10'))).toEqual(['USD']);
+        expect(cellCurrencies(cell('$10'))).toContain('CAD');
+    });
+
+    it('does not take other capitals for a currency code', () => {
+        expect(cellCurrencies(cell('SKU 12'))).toEqual([]);
+        expect(cellCurrencies(cell('SKU 12, now €5'))).toEqual(['EUR']);
+    });
+
+    it('prefers a declared currency, then the number format', () => {
+        expect(cellCurrencies(cell('5', { currency: 'SEK' }))).toEqual(['SEK']);
+        expect(cellCurrencies(cell('1200', { raw: true, format: '[$€-407]#,##0.00' }))).toEqual(['EUR']);
+        expect(cellCurrencies(cell('1200', { raw: true, format: '"£"#,##0' }))).toEqual(['GBP']);
+        expect(cellCurrencies(cell('1200', { raw: true, format: '#,##0.00' }))).toEqual([]);
+    });
+});
+
+describe('decimalMark', () => {
+    it('tells decimals from grouping', () => {
+        expect(decimalMark(cell('1.200,50'))).toBe(',');
+        expect(decimalMark(cell('1,200.50'))).toBe('.');
+        expect(decimalMark(cell('12,50 €'))).toBe(',');
+        expect(decimalMark(cell('1,200'))).toBeUndefined();
+        expect(decimalMark(cell('1.200.000'))).toBeUndefined();
+    });
+
+    it('ignores unformatted numbers and text', () => {
+        expect(decimalMark(cell('12.5', { raw: true }))).toBeUndefined();
+        expect(decimalMark(cell('Version 2.1 notes'))).toBeUndefined();
+    });
+});
+
+describe('checkSpreadsheet', () => {
+    const ruleIds = (book: Workbook, region?: string) => checkSpreadsheet(book, region).map(i => i.ruleId);
+
+    it('flags currencies the region does not use', () => {
+        const issues = checkSpreadsheet(workbook('€10', '€20', 'Prices exclude VAT.'), 'North America');
+        expect(issues.map(i => i.ruleId)).toEqual(['currency:eur']);
+        expect(issues[0].cellRef).toBe('Prices!B1');
+    });
+
+    it('reads an ambiguous symbol as the region’s currency', () => {
+        expect(ruleIds(workbook('$10', 'Prices exclude tax.'), 'North America')).toEqual([]);
+    });
+
+    it('flags mixed currencies on the minority cells', () => {
+        const issues = checkSpreadsheet(workbook('€10', '€20', '£5', 'Prices incl. VAT.'), 'Europe');
+        const mixed = issues.find(i => i.ruleId === 'currency-mix:gbp');
+        expect(mixed?.cellRef).toBe('Prices!B3');
+    });
+
+    it('flags decimal marks foreign to the region', () => {
+        expect(ruleIds(workbook('12,50', 'Valid until June.'), 'Asia Pacific')).toEqual(['number-format:decimal']);
+    });
+
+    it('flags a mix of decimal marks where the region has no single convention', () => {
+        const issues = checkSpreadsheet(workbook('12,50', '13,50', '14.50'), 'Europe');
+        expect(issues.map(i => i.ruleId)).toEqual(['number-format:decimal']);
+        expect(issues[0].cellRef).toBe('Prices!B3');
+    });
+
+    it('asks priced sheets for a tax or validity statement', () => {
+        expect(ruleIds(workbook('€10'), 'Europe')).toEqual(['pricing:terms']);
+        expect(ruleIds(workbook('SKU 12', 'Widget'), 'Europe')).toEqual([]);
+    });
+
+    it('leaves model issues about other disclaimers in place', () => {
+        const modelIssue: Issue = {
+            id: 'model-1', category: 'Compliance', subcategory: 'Missing Disclaimer', description: 'The investment risk disclaimer is missing.',
+            rationale: '', fix: '', severity: 'High', blocking: true, fixType: 'Manual'
+        };
+        const merged = mergeRuleFindings({ safetyStatus: 'Unsafe', summary: '', brandScore: 80, issues: [modelIssue] }, checkSpreadsheet(workbook('€10'), 'Europe'));
+        expect(merged.issues.map(i => i.id)).toEqual(['rule-pricing-terms', 'model-1']);
+        expect(merged.brandScore).toBe(70);
+    });
+});
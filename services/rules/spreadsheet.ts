@@ -0,0 +1,186 @@
+import { Issue, Region, SheetCell, Workbook } from '../../types';
+
+interface RegionConvention {
+    currencies: string[]; // ISO 4217 codes prices may be quoted in
+    decimal?: '.' | ','; // Unset where the region's countries differ
+}
+
+// Regions are broad, so these are the currencies and decimal marks common to the
+// whole region rather than any one country's rules
+export const REGION_CONVENTIONS: Record<string, RegionConvention> = {
+    'North America': { currencies: ['USD', 'CAD', 'MXN'], decimal: '.' },
+    'Europe': { currencies: ['EUR', 'GBP', 'CHF', 'SEK', 'NOK', 'DKK', 'PLN', 'CZK', 'HUF', 'RON'] },
+    'Asia Pacific': { currencies: ['AUD', 'NZD', 'JPY', 'CNY', 'INR', 'SGD', 'HKD', 'KRW', 'TWD', 'IDR', 'MYR', 'PHP', 'THB', 'VND'], decimal: '.' },
+    'Latin America': { currencies: ['BRL', 'MXN', 'ARS', 'CLP', 'COP', 'PEN', 'UYU', 'USD'] },
+    'Middle East & Africa': { currencies: ['AED', 'SAR', 'QAR', 'KWD', 'BHD', 'OMR', 'ILS', 'EGP', 'ZAR', 'NGN', 'KES', 'MAD', 'TRY', 'USD', 'EUR'] }
+};
+
+// Longest first, so "US$" is not read as "$"
+const CURRENCY_SYMBOLS: [string, string[]][] = [
+    ['HK$', ['HKD']], ['NZ$', ['NZD']], ['US$', ['USD']], ['A$', ['AUD']], ['C$', ['CAD']], ['S$', ['SGD']], ['R$', ['BRL']],
+    ['$', ['USD', 'CAD', 'MXN', 'AUD', 'NZD', 'SGD', 'HKD', 'ARS', 'CLP', 'COP', 'UYU']],
+    ['€', ['EUR']], ['£', ['GBP']], ['¥', ['JPY', 'CNY']], ['₹', ['INR']], ['₩', ['KRW']], ['₪', ['ILS']],
+    ['₺', ['TRY']], ['₫', ['VND']], ['₱', ['PHP']], ['zł', ['PLN']], ['Kč', ['CZK']], ['kr', ['SEK', 'NOK', 'DKK']]
+];
+
+const KNOWN_CODES = new Set([
+    ...Object.values(REGION_CONVENTIONS).flatMap(c => c.currencies),
+    ...CURRENCY_SYMBOLS.flatMap(([, codes]) => codes)
+]);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Symbols, and the ISO codes of the regions' currencies; other capitals ("SKU 12") are not currencies
+const CURRENCY_TOKENS = [...CURRENCY_SYMBOLS.map(([s]) => escapeRegExp(s)), ...[...KNOWN_CODES].map(code => `\\b${code}`)].join('|');
+
+// A symbol or ISO code written next to an amount: "$1,200", "1.200,00 €", "EUR 99"
+const CURRENCY_PATTERN = new RegExp(`(?:(${CURRENCY_TOKENS})\\s?-?\\d)|(?:\\d\\s?(${CURRENCY_TOKENS})(?![A-Za-z]))`);
+
+// Statements a price list is expected to carry: tax treatment or validity
+const PRICING_STATEMENT = /\b(?:vat|gst|hst|iva|mwst|taxe?s?|excl(?:\.|uding)?|incl(?:\.|uding)?|subject to change|valid (?:until|through|from)|prices? (?:are )?valid)\b/i;
+
+const MAX_LISTED_CELLS = 6;
+
+type CellAt = { sheet: string; cell: SheetCell };
+
+const address = ({ sheet, cell }: CellAt) => `${sheet}!${cell.ref}`;
+
+/** "Prices!B2, Prices!B3 and 4 more" */
+const describeCells = (cells: CellAt[]): string => {
+    const listed = cells.slice(0, MAX_LISTED_CELLS).map(address);
+    const more = cells.length - listed.length;
+    if (more) return `${listed.join(', ')} and ${more} more`;
+    return listed.length > 1 ? `${listed.slice(0, -1).join(', ')} and ${listed[listed.length - 1]}` : listed[0];
+};
+
+const codesFor = (token: string): string[] => {
+    const symbol = CURRENCY_SYMBOLS.find(([s]) => s === token);
+    if (symbol) return symbol[1];
+    return KNOWN_CODES.has(token) ? [token] : [];
+};
+
+/** Currencies a cell may be in: declared (ODS), from its number format (XLSX) or written in its text. */
+export const cellCurrencies = (cell: SheetCell): string[] => {
+    if (cell.currency) return [cell.currency];
+    // Format codes quote literals ("$"), use locale blocks ([$€-407], [$USD]) and
+    // pad with _x and *x, which are dropped here
+    const source = cell.format
+        ? cell.format.replace(/\[\$([^\]-]*)[^\]]*\]/g, ' $1 1').replace(/[_*]./g, '').replace(/["\\]/g, '').replace(/[#0,.]+/g, '1')
+        : cell.text;
+    const match = source.match(CURRENCY_PATTERN);
+    return match ? codesFor(match[1] || match[2]) : [];
+};
+
+/** The decimal mark a displayed number uses, when it can be told apart from grouping. */
+export const decimalMark = (cell: SheetCell): '.' | ',' | undefined => {
+    if (cell.raw) return undefined;
+    // Only cells that hold one amount, with at most a short currency or unit around it
+    const number = cell.text.trim().match(/^\D{0,4}(\d(?:[\d.,'\s\u00a0]*\d)?)\D{0,4}$/)?.[1];
+    if (!number) return undefined;
+    const marks = number.match(/[.,]/g) || [];
+    if (marks.length === 0) return undefined;
+    const last = marks[marks.length - 1] as '.' | ',';
+    // Both marks: the last one separates the decimals ("1.200,50", "1,200.50")
+    if (marks.some(m => m !== last)) return last;
+    // One kind only: "12,50" has decimals, "1,200" or "1.200.000" has grouping
+    const digitsAfter = number.length - number.lastIndexOf(last) - 1;
+    return marks.length === 1 && digitsAfter !== 3 ? last : undefined;
+};
+
+const groupBy = <K>(cells: CellAt[], keyOf: (at: CellAt) => K | undefined) => {
+    const groups = new Map<K, CellAt[]>();
+    cells.forEach(at => {
+        const key = keyOf(at);
+        if (key !== undefined) groups.set(key, [...(groups.get(key) || []), at]);
+    });
+    return groups;
+};
+
+const makeIssue = (id: string, cells: CellAt[], fields: Pick<Issue, 'subcategory' | 'description' | 'rationale' | 'fix' | 'severity' | 'ruleId'>): Issue => ({
+    ...fields,
+    id: `rule-${id}`,
+    category: 'Compliance',
+    blocking: false,
+    fixType: 'Manual',
+    source: 'rule',
+    cellRef: cells[0] && address(cells[0]),
+    span: cells[0]?.cell.span
+});
+
+/**
+ * Checks the prices in a spreadsheet: currencies the region does not use, mixed
+ * currencies, decimal marks foreign to the region (or mixed, where the region has
+ * no single convention), and priced sheets without a tax or validity statement.
+ */
+export function checkSpreadsheet(workbook: Workbook | undefined, region: Region | undefined): Issue[] {
+    if (!workbook) return [];
+    const cells: CellAt[] = workbook.sheets.flatMap(sheet => sheet.cells.map(cell => ({ sheet: sheet.name, cell })));
+    const convention = region ? REGION_CONVENTIONS[region] : undefined;
+    const issues: Issue[] = [];
+
+    // Ambiguous symbols ("$") count as the region's currency when it has one
+    const priced = groupBy(cells, ({ cell }) => {
+        const codes = cellCurrencies(cell);
+        if (codes.length === 0) return undefined;
+        return codes.find(code => convention?.currencies.includes(code)) || codes.join('/');
+    });
+
+    if (convention) {
+        priced.forEach((at, currency) => {
+            if (convention.currencies.includes(currency)) return;
+            issues.push(makeIssue(`currency-${currency.toLowerCase().replace(/\//g, '-')}`, at, {
+                subcategory: 'Currency',
+                description: `Prices in ${currency} in ${describeCells(at)}.`,
+                rationale: `${region} price lists are quoted in ${convention.currencies.join(', ')}.`,
+                fix: `Quote these prices in the local currency for ${region}.`,
+                severity: 'Medium',
+                ruleId: `currency:${currency.toLowerCase()}`
+            }));
+        });
+    }
+
+    if (priced.size > 1) {
+        const [main, ...others] = [...priced.entries()].sort(([, a], [, b]) => b.length - a.length);
+        const minority = others.flatMap(([, at]) => at);
+        issues.push(makeIssue('currency-mixed', minority, {
+            subcategory: 'Currency',
+            description: `Prices are given in ${priced.size} currencies: ${[main, ...others].map(([c, at]) => `${c} (${at.length})`).join(', ')}.`,
+            rationale: 'A price list quotes every price in one currency so prices can be compared.',
+            fix: `Convert ${describeCells(minority)} to ${main[0]}, or split the currencies into separate sheets.`,
+            severity: 'Low',
+            // Keyed on a currency code: merging matches the key against model findings
+            ruleId: `currency-mix:${others[0][0].toLowerCase()}`
+        }));
+    }
+
+    const byMark = groupBy(cells, ({ cell }) => decimalMark(cell));
+    const expected = convention?.decimal
+        || ((byMark.get('.')?.length || 0) >= (byMark.get(',')?.length || 0) ? '.' : ',');
+    const offMark = byMark.get(expected === '.' ? ',' : '.') || [];
+    if (offMark.length) {
+        const name = (mark: string) => mark === '.' ? 'decimal point' : 'decimal comma';
+        issues.push(makeIssue('number-format-decimal', offMark, {
+            subcategory: 'Number Format',
+            description: `Numbers with a ${name(expected === '.' ? ',' : '.')} in ${describeCells(offMark)}.`,
+            rationale: convention?.decimal
+                ? `${region} writes numbers with a ${name(expected)}.`
+                : `The rest of the sheet uses a ${name(expected)}; mixing both makes amounts ambiguous.`,
+            fix: `Write these numbers with a ${name(expected)}.`,
+            severity: 'Low',
+            ruleId: 'number-format:decimal'
+        }));
+    }
+
+    if (priced.size > 0 && !cells.some(({ cell }) => PRICING_STATEMENT.test(cell.text))) {
+        issues.push(makeIssue('pricing-terms', [], {
+            subcategory: 'Pricing Terms',
+            description: 'The price list does not say whether prices include tax or how long they are valid.',
+            rationale: 'Published prices must state their tax treatment and validity so they are not binding beyond what was intended.',
+            fix: 'Add a note such as "Prices exclude VAT and are valid until <date>; subject to change without notice."',
+            severity: 'Medium',
+            ruleId: 'pricing:terms'
+        }));
+    }
+
+    return issues;
+}
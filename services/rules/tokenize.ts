@@ -0,0 +1,52 @@
+import { TextSpan } from '../../types';
+
+export interface Token extends TextSpan {
+    text: string;
+    lower: string;
+    index: number; // Position in the token stream
+}
+
+// Words, numbers and internal apostrophes/hyphens ("eco-friendly", "don't") form one token
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+export function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    for (const match of text.matchAll(TOKEN_PATTERN)) {
+        const start = match.index ?? 0;
+        tokens.push({
+            text: match[0],
+            lower: match[0].toLowerCase(),
+            start,
+            end: start + match[0].length,
+            index: tokens.length
+        });
+    }
+    return tokens;
+}
+
+export interface PhraseMatch extends TextSpan {
+    firstToken: number;
+    lastToken: number;
+}
+
+/**
+ * Finds every occurrence of a (possibly multi-word) phrase in a token stream.
+ * A token matches a phrase word exactly or with a plural suffix ("ninjas").
+ */
+export function findPhrase(tokens: Token[], phrase: string): PhraseMatch[] {
+    const words = tokenize(phrase).map(t => t.lower);
+    if (words.length === 0) return [];
+
+    const matches: PhraseMatch[] = [];
+    for (let i = 0; i <= tokens.length - words.length; i++) {
+        const isMatch = words.every((word, offset) => {
+            const token = tokens[i + offset].lower;
+            return token === word || token === `${word}s` || token === `${word}es`;
+        });
+        if (isMatch) {
+            const last = tokens[i + words.length - 1];
+            matches.push({ start: tokens[i].start, end: last.end, firstToken: i, lastToken: last.index });
+        }
+    }
+    return matches;
+}
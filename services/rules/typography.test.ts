@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { DesignTokens, DocumentStyles, StyledRun } from '../../types';
+import { checkDocumentStyles } from './typography';
+
+const tokens = (fields: Partial<DesignTokens> = {}): DesignTokens => ({
+    palette: [{ id: 'blue', name: 'Acme Blue', hex: '#0055FF', tolerance: 5 }],
+    allowNeutrals: true,
+    fonts: [{ family: 'Acme Sans', weights: [400, 700] }],
+    ...fields
+});
+
+const styles = (...runs: StyledRun[]): DocumentStyles => ({ themeFonts: {}, themeColors: {}, runs });
+
+const run = (slide: number, text: string, fields: Partial<StyledRun> = {}): StyledRun => ({ slide, text, font: 'Acme Sans', size: 18, ...fields });
+
+describe('checkDocumentStyles', () => {
+    it('passes runs in approved fonts, weights and colors', () => {
+        const found = checkDocumentStyles(styles(
+            run(1, 'Title', { font: 'acme sans ', bold: true, color: '#0055FF' }),
+            run(2, 'Body', { color: '#222222' })
+        ), tokens());
+        expect(found).toEqual([]);
+    });
+
+    it('does nothing without runs or tokens', () => {
+        expect(checkDocumentStyles(undefined, tokens())).toEqual([]);
+        expect(checkDocumentStyles(styles(run(1, 'Title', { font: 'Arial' })), undefined)).toEqual([]);
+        expect(checkDocumentStyles(styles(), tokens())).toEqual([]);
+    });
+
+    describe('fonts', () => {
+        it('groups runs in an unapproved font and lists where they occur', () => {
+            const [issue, ...rest] = checkDocumentStyles(styles(
+                run(4, 'Footnote', { font: 'Comic Sans MS' }),
+                run(1, 'A very long opening line that goes on well past forty characters', { font: 'Comic Sans MS' }),
+                run(4, 'Again', { font: 'Comic Sans MS' })
+            ), tokens());
+
+            expect(rest).toEqual([]);
+            expect(issue).toMatchObject({
+                id: 'rule-font-comic-sans-ms',
+                ruleId: 'typography:comic sans ms',
+                subcategory: 'Typography',
+                severity: 'Medium',
+                page_number: 4,
+                rationale: 'Approved typefaces: Acme Sans.',
+                fix: 'Set these text runs in Acme Sans.'
+            });
+            expect(issue.description).toBe('The font "Comic Sans MS" is used on slides 1 and 4, e.g. "Footnote".');
+        });
+
+        it('shortens long location lists and samples', () => {
+            const runs = Array.from({ length: 10 }, (_, i) => run(i + 1, `${'x'.repeat(50)} ${i}`, { font: 'Arial' }));
+            const [issue] = checkDocumentStyles(styles(...runs), tokens());
+            expect(issue.description).toBe(`The font "Arial" is used on slides 1, 2, 3, 4, 5, 6, 7, 8 and 2 more, e.g. "${'x'.repeat(40)}…".`);
+        });
+
+        it('reports weights outside the approved ones', () => {
+            const found = checkDocumentStyles(styles(run(2, 'Bold', { bold: true }), run(3, 'Regular')), tokens({ fonts: [{ family: 'Acme Sans', weights: [400] }] }));
+            expect(found).toMatchObject([{
+                id: 'rule-font-weight-acme-sans-700',
+                severity: 'Low',
+                description: 'Acme Sans at weight 700 is used on slide 2, e.g. "Bold".',
+                fix: 'Use Acme Sans 400.'
+            }]);
+        });
+
+        it('accepts any weight when none are listed, and any font when none are approved', () => {
+            expect(checkDocumentStyles(styles(run(1, 'Bold', { bold: true })), tokens({ fonts: [{ family: 'Acme Sans', weights: [] }] }))).toEqual([]);
+            expect(checkDocumentStyles(styles(run(1, 'Title', { font: 'Arial' })), tokens({ fonts: [] }))).toEqual([]);
+        });
+    });
+
+    describe('text colors', () => {
+        it('reports off-palette colors with the closest brand color', () => {
+            const [issue] = checkDocumentStyles(styles(run(2, 'Sale', { color: '#DC1E28' })), tokens());
+            expect(issue).toMatchObject({
+                id: 'rule-text-color-dc1e28',
+                ruleId: 'palette:dc1e28',
+                subcategory: 'Off-Palette Color',
+                fix: 'Change the text color to Acme Blue (#0055FF).'
+            });
+            expect(issue.rationale).toMatch(/^The closest palette color is Acme Blue \(#0055FF\), ΔE [\d.]+ away \(tolerance 5\)\.$/);
+        });
+
+        it('accepts shades within tolerance and greys when neutrals are allowed', () => {
+            expect(checkDocumentStyles(styles(run(1, 'Link', { color: '#0058FF' })), tokens())).toEqual([]);
+            expect(checkDocumentStyles(styles(run(1, 'Body', { color: '#333333' })), tokens({ allowNeutrals: false })))
+                .toMatchObject([{ ruleId: 'palette:333333' }]);
+        });
+    });
+
+    it('numbers DOCX findings by paragraph without a page', () => {
+        const paragraph: StyledRun = { paragraph: 3, text: 'Intro', font: 'Arial' };
+        const [issue] = checkDocumentStyles(styles(paragraph), tokens());
+        expect(issue.page_number).toBeUndefined();
+        expect(issue.description).toBe('The font "Arial" is used on paragraph 3, e.g. "Intro".');
+    });
+
+    it('orders findings by slide', () => {
+        const found = checkDocumentStyles(styles(run(5, 'Late', { font: 'Arial' }), run(2, 'Early', { color: '#DC1E28' })), tokens());
+        expect(found.map(i => i.page_number)).toEqual([2, 5]);
+    });
+});
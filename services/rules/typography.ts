@@ -0,0 +1,117 @@
+import { DesignTokens, DocumentStyles, Issue, StyledRun } from '../../types';
+import { DEFAULT_TOLERANCE, compilePalette, matchPaletteColor } from './palette';
+
+const MAX_LISTED_LOCATIONS = 8;
+
+const familyKey = (family: string) => family.trim().toLowerCase();
+
+// Office files only record bold; anything else renders at the regular weight
+const weightOf = (run: StyledRun) => run.bold ? 700 : 400;
+
+const locationOf = (run: StyledRun) => run.slide ?? run.paragraph ?? 0;
+
+/** "slides 2, 5 and 7" / "paragraph 3" */
+const describeLocations = (runs: StyledRun[]): string => {
+    const bySlide = runs.some(r => r.slide !== undefined);
+    const numbers = [...new Set(runs.map(locationOf))].sort((a, b) => a - b);
+    const noun = bySlide ? 'slide' : 'paragraph';
+    const listed = numbers.slice(0, MAX_LISTED_LOCATIONS);
+    const more = numbers.length - listed.length;
+    const list = listed.length > 1
+        ? `${listed.slice(0, -1).join(', ')}${more ? `, ${listed[listed.length - 1]}` : ` and ${listed[listed.length - 1]}`}`
+        : `${listed[0]}`;
+    return `${noun}${numbers.length > 1 ? 's' : ''} ${list}${more ? ` and ${more} more` : ''}`;
+};
+
+const groupBy = (runs: StyledRun[], keyOf: (run: StyledRun) => string | undefined) => {
+    const groups = new Map<string, StyledRun[]>();
+    runs.forEach(run => {
+        const key = keyOf(run);
+        if (!key) return;
+        groups.set(key, [...(groups.get(key) || []), run]);
+    });
+    return groups;
+};
+
+const sample = (runs: StyledRun[]) => {
+    const text = runs[0].text.trim();
+    return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+};
+
+const makeIssue = (key: string, runs: StyledRun[], fields: Pick<Issue, 'subcategory' | 'description' | 'rationale' | 'fix' | 'severity' | 'ruleId'>): Issue => {
+    const first = runs[0];
+    return {
+        ...fields,
+        id: `rule-${key}`,
+        category: 'Brand',
+        blocking: false,
+        fixType: 'Manual',
+        // Slides line up with the rendered pages; DOCX paragraphs do not
+        page_number: first.slide,
+        source: 'rule'
+    };
+};
+
+/**
+ * Checks the fonts, weights and text colors of an Office file against the design
+ * tokens. Findings are grouped per font or color and list every slide they occur on.
+ */
+export function checkDocumentStyles(styles: DocumentStyles | undefined, tokens: DesignTokens | undefined): Issue[] {
+    if (!styles || !tokens || styles.runs.length === 0) return [];
+    const issues: Issue[] = [];
+
+    const approved = new Map(tokens.fonts.filter(f => f.family.trim()).map(f => [familyKey(f.family), f]));
+    if (approved.size > 0) {
+        const approvedList = [...approved.values()].map(f => f.family).join(', ');
+        groupBy(styles.runs, run => run.font && familyKey(run.font)).forEach((runs, key) => {
+            const family = runs[0].font!;
+            const token = approved.get(key);
+            const slug = key.replace(/\s+/g, '-');
+
+            if (!token) {
+                issues.push(makeIssue(`font-${slug}`, runs, {
+                    subcategory: 'Typography',
+                    description: `The font "${family}" is used on ${describeLocations(runs)}, e.g. "${sample(runs)}".`,
+                    rationale: `Approved typefaces: ${approvedList}.`,
+                    fix: `Set these text runs in ${[...approved.values()][0].family}.`,
+                    severity: 'Medium',
+                    ruleId: `typography:${key}`
+                }));
+                return;
+            }
+
+            if (token.weights.length === 0) return;
+            groupBy(runs, run => token.weights.includes(weightOf(run)) ? undefined : String(weightOf(run))).forEach((offRuns, weight) => {
+                issues.push(makeIssue(`font-weight-${slug}-${weight}`, offRuns, {
+                    subcategory: 'Typography',
+                    description: `${token.family} at weight ${weight} is used on ${describeLocations(offRuns)}, e.g. "${sample(offRuns)}".`,
+                    rationale: `${token.family} is approved in weights ${token.weights.join(', ')} only.`,
+                    fix: `Use ${token.family} ${token.weights.join(' or ')}.`,
+                    severity: 'Low',
+                    ruleId: `typography:${key}`
+                }));
+            });
+        });
+    }
+
+    if (compilePalette(tokens.palette).length > 0) {
+        groupBy(styles.runs, run => run.color).forEach((runs, hex) => {
+            const match = matchPaletteColor(hex, tokens);
+            if (!match || match.onPalette) return;
+            const nearest = match.nearest ? `${match.nearest.name} (${match.nearest.hex})` : undefined;
+            issues.push(makeIssue(`text-color-${hex.slice(1).toLowerCase()}`, runs, {
+                subcategory: 'Off-Palette Color',
+                description: `Text in ${hex} is used on ${describeLocations(runs)}, e.g. "${sample(runs)}".`,
+                rationale: nearest
+                    ? `The closest palette color is ${nearest}, ΔE ${Math.round(match.distance * 10) / 10} away (tolerance ${match.nearest!.tolerance || DEFAULT_TOLERANCE}).`
+                    : 'Only the colors of the brand palette may be used.',
+                fix: nearest ? `Change the text color to ${nearest}.` : 'Change the text color to a palette color.',
+                severity: 'Low',
+                ruleId: `palette:${hex.slice(1).toLowerCase()}`
+            }));
+        });
+    }
+
+    // Slide order; DOCX findings have no page and keep the order found
+    return issues.sort((a, b) => (a.page_number ?? 0) - (b.page_number ?? 0));
+}
@@ -0,0 +1,166 @@
+import { Issue, WebElement, WebPage } from '../../types';
+
+// Longer titles and descriptions are cut off in search results
+const MAX_TITLE_LENGTH = 60;
+const MAX_DESCRIPTION_LENGTH = 160;
+
+// Link text that says nothing about the target when read out of context
+const GENERIC_LINK_TEXT = new Set(['click here', 'here', 'read more', 'more', 'learn more', 'link', 'this link', 'click', 'details', 'go']);
+
+// Alt text that describes the file rather than the picture
+const PLACEHOLDER_ALT = /^(?:image|img|photo|picture|graphic|banner|icon|logo|untitled|spacer)\s*\d*$|\.(?:png|jpe?g|gif|svg|webp|avif)$/i;
+
+type IssueFields = Pick<Issue, 'category' | 'subcategory' | 'description' | 'rationale' | 'fix' | 'severity' | 'ruleId'>;
+
+const makeIssue = (id: string, fields: IssueFields, element?: WebElement): Issue => ({
+    ...fields,
+    id: `rule-web-${id}`,
+    blocking: false,
+    fixType: 'Manual',
+    source: 'rule',
+    elementRef: element?.ref,
+    span: element?.span
+});
+
+const quote = (text: string) => text.length > 50 ? `"${text.slice(0, 50)}…"` : `"${text}"`;
+
+/**
+ * Checks the structure of a web page: title and meta description, page language,
+ * heading hierarchy, image alt text and link text and targets. Brand rules run on
+ * the page text like on any other asset.
+ */
+export function checkWebPage(page: WebPage | undefined): Issue[] {
+    if (!page) return [];
+    const issues: Issue[] = [];
+
+    if (!page.title) {
+        issues.push(makeIssue('title-missing', {
+            category: 'Compliance', subcategory: 'Page Title', severity: 'Medium', ruleId: 'accessibility:page-title',
+            description: 'The page has no <title>.',
+            rationale: 'Screen readers announce the title first, and browsers and search results show it (WCAG 2.4.2).',
+            fix: 'Add a <title> that names the page and the brand.'
+        }));
+    } else if (page.title.length > MAX_TITLE_LENGTH) {
+        issues.push(makeIssue('title-length', {
+            category: 'Brand', subcategory: 'Page Title', severity: 'Low', ruleId: 'seo:title-length',
+            description: `The page title is ${page.title.length} characters long: ${quote(page.title)}.`,
+            rationale: `Search results cut titles off after about ${MAX_TITLE_LENGTH} characters.`,
+            fix: `Shorten the title to ${MAX_TITLE_LENGTH} characters or fewer.`
+        }));
+    }
+
+    if (!page.description) {
+        issues.push(makeIssue('description-missing', {
+            category: 'Brand', subcategory: 'Meta Description', severity: 'Low', ruleId: 'seo:meta-description',
+            description: 'The page has no meta description.',
+            rationale: 'Without one, search engines pick a snippet of the page to show under the title.',
+            fix: 'Add <meta name="description"> with a one-sentence summary in the brand voice.'
+        }));
+    } else if (page.description.length > MAX_DESCRIPTION_LENGTH) {
+        issues.push(makeIssue('description-length', {
+            category: 'Brand', subcategory: 'Meta Description', severity: 'Low', ruleId: 'seo:description-length',
+            description: `The meta description is ${page.description.length} characters long.`,
+            rationale: `Search results cut descriptions off after about ${MAX_DESCRIPTION_LENGTH} characters.`,
+            fix: `Shorten the description to ${MAX_DESCRIPTION_LENGTH} characters or fewer.`
+        }));
+    }
+
+    if (!page.lang) {
+        issues.push(makeIssue('lang-missing', {
+            category: 'Compliance', subcategory: 'Accessibility', severity: 'Low', ruleId: 'accessibility:lang-attribute',
+            description: 'The page does not declare its language.',
+            rationale: 'Screen readers pick their pronunciation from the lang attribute (WCAG 3.1.1).',
+            fix: 'Add a lang attribute to the <html> element, e.g. <html lang="en">.'
+        }));
+    }
+
+    const headings = page.elements.filter(e => e.kind === 'heading');
+    const h1s = headings.filter(h => h.level === 1);
+    if (h1s.length === 0) {
+        issues.push(makeIssue('h1-missing', {
+            category: 'Compliance', subcategory: 'Main Heading', severity: 'Low', ruleId: 'accessibility:h1',
+            description: 'The page has no <h1> heading.',
+            rationale: 'The main heading tells screen reader users and search engines what the page is about.',
+            fix: 'Mark the main headline of the page up as <h1>.'
+        }, headings[0]));
+    }
+    h1s.slice(1).forEach((h1, i) => issues.push(makeIssue(`h1-extra-${i}`, {
+        category: 'Compliance', subcategory: 'Main Heading', severity: 'Low', ruleId: 'accessibility:h1',
+        description: `Additional <h1> heading ${quote(h1.text)}.`,
+        rationale: 'One <h1> per page keeps the outline clear for screen reader users.',
+        fix: 'Use <h2> or lower for this heading.'
+    }, h1)));
+    headings.forEach((heading, i) => {
+        const previous = headings[i - 1];
+        if (!previous || !heading.level || !previous.level || heading.level <= previous.level + 1) return;
+        issues.push(makeIssue(`heading-skip-${i}`, {
+            category: 'Compliance', subcategory: 'Heading Structure', severity: 'Low', ruleId: 'accessibility:heading-order',
+            description: `Heading ${quote(heading.text)} jumps from <h${previous.level}> to <h${heading.level}>.`,
+            rationale: 'Skipped heading levels break the outline screen reader users navigate by (WCAG 1.3.1).',
+            fix: `Use <h${previous.level + 1}> for this heading, or restyle it instead of changing its level.`
+        }, heading));
+    });
+
+    return [...issues, ...checkImagesAndLinks(page.elements)];
+}
+
+/** Alt text of images and text and targets of links; also run on HTML email bodies. */
+export function checkImagesAndLinks(elements: WebElement[]): Issue[] {
+    const issues: Issue[] = [];
+
+    elements.filter(e => e.kind === 'image').forEach((image, i) => {
+        const file = image.href?.split(/[/?#]/).filter(Boolean).pop();
+        if (!image.hasAlt) {
+            issues.push(makeIssue(`alt-missing-${i}`, {
+                category: 'Compliance', subcategory: 'Alt Text', severity: 'Medium', ruleId: 'accessibility:alt-text',
+                description: `Image ${file ? quote(file) : i + 1} has no alt text.`,
+                rationale: 'Screen readers cannot describe images without alt text (WCAG 1.1.1).',
+                fix: 'Describe the image in its alt attribute, or set alt="" if it is purely decorative.'
+            }, image));
+        } else if (PLACEHOLDER_ALT.test(image.text)) {
+            issues.push(makeIssue(`alt-placeholder-${i}`, {
+                category: 'Compliance', subcategory: 'Alt Text', severity: 'Low', ruleId: 'accessibility:alt-text',
+                description: `Image alt text ${quote(image.text)} does not describe the image.`,
+                rationale: 'Alt text should say what the image shows or does, not what the file is.',
+                fix: 'Replace the alt text with a short description of the image.'
+            }, image));
+        }
+    });
+
+    elements.filter(e => e.kind === 'link').forEach((link, i) => {
+        const href = (link.href || '').trim();
+        if (!link.text) {
+            issues.push(makeIssue(`link-empty-${i}`, {
+                category: 'Compliance', subcategory: 'Link Text', severity: 'Medium', ruleId: 'accessibility:link-text',
+                description: `A link to ${quote(href)} has no text.`,
+                rationale: 'Screen readers announce empty links by their address, or not at all (WCAG 2.4.4).',
+                fix: 'Give the link visible text, or an aria-label when it is an icon.'
+            }, link));
+        } else if (GENERIC_LINK_TEXT.has(link.text.toLowerCase().replace(/[.…!»›>]+$/, '').trim())) {
+            issues.push(makeIssue(`link-generic-${i}`, {
+                category: 'Compliance', subcategory: 'Link Text', severity: 'Low', ruleId: 'accessibility:link-text',
+                description: `Link text ${quote(link.text)} does not say where the link goes.`,
+                rationale: 'Screen reader users often browse a list of links, where "read more" means nothing (WCAG 2.4.4).',
+                fix: 'Name the destination in the link text, e.g. "Read the pricing guide".'
+            }, link));
+        }
+
+        if (!href || href === '#' || /^javascript:/i.test(href)) {
+            issues.push(makeIssue(`link-target-${i}`, {
+                category: 'Brand', subcategory: 'Broken Link', severity: 'Low', ruleId: 'web:link-target',
+                description: `Link ${quote(link.text || href)} has no destination.`,
+                rationale: 'Links without a real target lead nowhere once scripts are blocked or fail.',
+                fix: 'Point the link at the page it should open.'
+            }, link));
+        } else if (/^http:\/\//i.test(href)) {
+            issues.push(makeIssue(`link-insecure-${i}`, {
+                category: 'Brand', subcategory: 'Insecure Link', severity: 'Low', ruleId: 'web:https',
+                description: `Link ${quote(link.text || href)} uses an insecure http:// address.`,
+                rationale: 'Browsers warn visitors about unencrypted pages.',
+                fix: `Use ${href.replace(/^http:/i, 'https:')} if the site supports it.`
+            }, link));
+        }
+    });
+
+    return issues;
+}
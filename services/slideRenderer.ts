@@ -0,0 +1,505 @@
+// Renders PPTX slides to PNG so visual analysis and annotations see the slide the
+// audience sees, not the media files embedded in it. This is a layout pass, not a
+// full PowerPoint engine: backgrounds, solid fills and outlines of basic shapes,
+// pictures, tables and wrapped text are drawn; gradients, effects, charts and
+// SmartArt are drawn as plain boxes or skipped.
+import JSZip from 'jszip';
+import {
+    SlideContext, Theme, attr, child, children, createSlideLoader, findLayoutPlaceholder,
+    path, placeholderOf, readFillColor, readXml, resolveRunProps, resolveTarget
+} from './officeStyles';
+
+const RENDER_WIDTH = 1280;
+const EMU_PER_PT = 12700;
+const DEFAULT_SLIDE_SIZE = { cx: 12192000, cy: 6858000 }; // 16:9
+const DEFAULT_FONT_SIZE = 18; // Points, PowerPoint's default for text boxes
+const LINE_HEIGHT = 1.2;
+// a:bodyPr insets when not set, in EMU
+const DEFAULT_INSETS = { l: 91440, t: 45720, r: 91440, b: 45720 };
+
+interface Box {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+// Maps a group's child coordinate space onto the slide (all values in EMU)
+interface Transform {
+    offX: number;
+    offY: number;
+    scaleX: number;
+    scaleY: number;
+}
+
+const IDENTITY: Transform = { offX: 0, offY: 0, scaleX: 1, scaleY: 1 };
+
+interface RenderState {
+    ctx: CanvasRenderingContext2D;
+    zip: JSZip;
+    context: SlideContext;
+    scale: number; // Pixels per EMU
+}
+
+// Parts whose shapes are drawn: the relationship ids of each resolve against it
+interface Part {
+    path: string;
+    doc: Document;
+    rels: Map<string, string>;
+}
+
+const num = (value: string | undefined, fallback = 0) => value === undefined ? fallback : parseInt(value, 10) || 0;
+
+const readRelationships = async (zip: JSZip, partPath: string): Promise<Map<string, string>> => {
+    const segments = partPath.split('/');
+    const fileName = segments.pop();
+    const rels = await readXml(zip, `${segments.join('/')}/_rels/${fileName}.rels`);
+    const map = new Map<string, string>();
+    Array.from(rels?.getElementsByTagName('Relationship') || []).forEach(rel => {
+        const id = attr(rel, 'Id');
+        const target = attr(rel, 'Target');
+        if (id && target && attr(rel, 'TargetMode') !== 'External') map.set(id, resolveTarget(partPath, target));
+    });
+    return map;
+};
+
+const readBox = (xfrm: Element | undefined): Box | undefined => {
+    const off = child(xfrm, 'a:off');
+    const ext = child(xfrm, 'a:ext');
+    if (!off || !ext) return undefined;
+    return { x: num(attr(off, 'x')), y: num(attr(off, 'y')), w: num(attr(ext, 'cx')), h: num(attr(ext, 'cy')) };
+};
+
+const applyTransform = (box: Box, t: Transform): Box => ({
+    x: t.offX + box.x * t.scaleX,
+    y: t.offY + box.y * t.scaleY,
+    w: box.w * t.scaleX,
+    h: box.h * t.scaleY
+});
+
+const toPixels = (box: Box, scale: number): Box => ({ x: box.x * scale, y: box.y * scale, w: box.w * scale, h: box.h * scale });
+
+// Runs `draw` rotated about the center of `box` (a:xfrm rot is in 60000ths of a degree)
+const withRotation = async (ctx: CanvasRenderingContext2D, box: Box, xfrm: Element | undefined, draw: () => void | Promise<void>) => {
+    const rotation = num(attr(xfrm, 'rot')) / 60000;
+    ctx.save();
+    if (rotation) {
+        ctx.translate(box.x + box.w / 2, box.y + box.h / 2);
+        ctx.rotate((rotation * Math.PI) / 180);
+        ctx.translate(-(box.x + box.w / 2), -(box.y + box.h / 2));
+    }
+    await draw();
+    ctx.restore();
+};
+
+// --- Fills and outlines ---
+
+const shapeFill = (spPr: Element | undefined, style: Element | undefined, theme: Theme): string | undefined => {
+    if (child(spPr, 'a:noFill')) return undefined;
+    const solid = child(spPr, 'a:solidFill');
+    if (solid) return readFillColor(solid, theme);
+    // Gradients are approximated by their first stop
+    const firstStop = path(spPr, 'a:gradFill', 'a:gsLst', 'a:gs');
+    if (firstStop) return readFillColor(firstStop, theme);
+    const fillRef = child(style, 'a:fillRef');
+    return fillRef && attr(fillRef, 'idx') !== '0' ? readFillColor(fillRef, theme) : undefined;
+};
+
+const shapeOutline = (spPr: Element | undefined, style: Element | undefined, theme: Theme): { color: string; width: number } | undefined => {
+    const ln = child(spPr, 'a:ln');
+    if (child(ln, 'a:noFill')) return undefined;
+    const color = readFillColor(child(ln, 'a:solidFill'), theme)
+        || (child(style, 'a:lnRef') && attr(child(style, 'a:lnRef'), 'idx') !== '0' ? readFillColor(child(style, 'a:lnRef'), theme) : undefined);
+    return color ? { color, width: num(attr(ln, 'w'), EMU_PER_PT) } : undefined;
+};
+
+const tracePath = (ctx: CanvasRenderingContext2D, box: Box, geometry: string | undefined) => {
+    ctx.beginPath();
+    if (geometry === 'ellipse') {
+        ctx.ellipse(box.x + box.w / 2, box.y + box.h / 2, Math.abs(box.w / 2), Math.abs(box.h / 2), 0, 0, Math.PI * 2);
+    } else if (geometry === 'roundRect') {
+        const r = Math.min(Math.abs(box.w), Math.abs(box.h)) * 0.16667;
+        ctx.roundRect(box.x, box.y, box.w, box.h, r);
+    } else {
+        ctx.rect(box.x, box.y, box.w, box.h);
+    }
+};
+
+// --- Text ---
+
+interface Fragment {
+    text: string;
+    font: string;
+    color: string;
+    sizePx: number;
+}
+
+interface Line {
+    fragments: (Fragment & { width: number })[];
+    width: number;
+    height: number;
+    align: CanvasTextAlign;
+}
+
+const ALIGNMENTS: Record<string, CanvasTextAlign> = { l: 'left', ctr: 'center', r: 'right', just: 'left' };
+
+const cssFont = (family: string | undefined, sizePx: number, bold?: boolean, italic?: boolean) =>
+    `${italic ? 'italic ' : ''}${bold ? 'bold ' : ''}${Math.max(1, sizePx)}px "${family || 'Arial'}", sans-serif`;
+
+// Splits paragraphs into fragments and wraps them into lines no wider than `maxWidth`
+const layoutText = (state: RenderState, txBody: Element, maxWidth: number, wrap: boolean, fontScale: number): Line[] => {
+    const { ctx, context, scale } = state;
+    const defaultColor = context.theme.colors.dk1 || '#000000';
+    const lines: Line[] = [];
+
+    children(txBody, 'a:p').forEach(paragraph => {
+        const pPr = child(paragraph, 'a:pPr');
+        const align = ALIGNMENTS[attr(pPr, 'algn') || 'l'] || 'left';
+        const bullet = attr(child(pPr, 'a:buChar'), 'char');
+        const fragments: Fragment[] = [];
+        const breaks = new Set<number>(); // Fragment indexes that start a new line (a:br)
+
+        Array.from(paragraph.childNodes).forEach(node => {
+            const el = node as Element;
+            if (el.nodeName === 'a:br') {
+                breaks.add(fragments.length);
+                return;
+            }
+            if (el.nodeName !== 'a:r' && el.nodeName !== 'a:fld') return;
+            const text = Array.from(el.getElementsByTagName('a:t')).map(t => t.textContent || '').join('');
+            if (!text) return;
+            const props = resolveRunProps(el, context);
+            const rPr = child(el, 'a:rPr');
+            const sizePx = (props.size || DEFAULT_FONT_SIZE) * fontScale * EMU_PER_PT * scale;
+            fragments.push({
+                text,
+                sizePx,
+                color: props.color || defaultColor,
+                font: cssFont(props.font, sizePx, props.bold, ['1', 'true'].includes(attr(rPr, 'i') || ''))
+            });
+        });
+
+        if (bullet && fragments.length) fragments[0] = { ...fragments[0], text: `${bullet} ${fragments[0].text}` };
+
+        // Empty paragraphs still take up a line
+        const emptySize = num(attr(child(paragraph, 'a:endParaRPr'), 'sz'), DEFAULT_FONT_SIZE * 100) / 100;
+        let line: Line = { fragments: [], width: 0, height: 0, align };
+        const pushLine = () => {
+            if (line.height === 0) line.height = emptySize * fontScale * EMU_PER_PT * scale * LINE_HEIGHT;
+            lines.push(line);
+            line = { fragments: [], width: 0, height: 0, align };
+        };
+
+        fragments.forEach((fragment, index) => {
+            if (breaks.has(index) && line.fragments.length) pushLine();
+            ctx.font = fragment.font;
+            // Keep the spaces attached to words so measured widths add up
+            (wrap ? fragment.text.split(/(?<=\s)/) : [fragment.text]).forEach(word => {
+                const width = ctx.measureText(word).width;
+                if (wrap && line.width + width > maxWidth && line.fragments.length && word.trim()) pushLine();
+                line.fragments.push({ ...fragment, text: word, width });
+                line.width += width;
+                line.height = Math.max(line.height, fragment.sizePx * LINE_HEIGHT);
+            });
+        });
+        pushLine();
+    });
+
+    return lines;
+};
+
+// a:bodyPr of a placeholder's layout and master counterparts, which fill in what the slide leaves unset
+const inheritedBodyPr = (state: RenderState, shape: Element): Element[] => {
+    const ph = placeholderOf(shape);
+    if (!ph) return [];
+    const { layout, master } = state.context;
+    return [findLayoutPlaceholder(layout, ph), findLayoutPlaceholder(master, ph)]
+        .map(placeholder => path(placeholder, 'p:txBody', 'a:bodyPr'))
+        .filter((el): el is Element => !!el);
+};
+
+const drawText = (state: RenderState, txBody: Element | undefined, box: Box, inherited: Element[] = []) => {
+    if (!txBody || !txBody.getElementsByTagName('a:t').length) return;
+    const { ctx, scale } = state;
+    const bodyPr = child(txBody, 'a:bodyPr');
+    const chain = [bodyPr, ...inherited];
+    const bodyAttr = (name: string) => chain.map(el => attr(el, name)).find(value => value !== undefined);
+    const insets = {
+        l: num(bodyAttr('lIns'), DEFAULT_INSETS.l) * scale,
+        t: num(bodyAttr('tIns'), DEFAULT_INSETS.t) * scale,
+        r: num(bodyAttr('rIns'), DEFAULT_INSETS.r) * scale,
+        b: num(bodyAttr('bIns'), DEFAULT_INSETS.b) * scale
+    };
+    const inner = { x: box.x + insets.l, y: box.y + insets.t, w: box.w - insets.l - insets.r, h: box.h - insets.t - insets.b };
+    // normAutofit fontScale is in thousandths of a percent
+    const fontScale = num(attr(child(bodyPr, 'a:normAutofit'), 'fontScale'), 100000) / 100000;
+    const lines = layoutText(state, txBody, inner.w, bodyAttr('wrap') !== 'none', fontScale);
+
+    const total = lines.reduce((sum, l) => sum + l.height, 0);
+    const anchor = bodyAttr('anchor') || 't';
+    let y = anchor === 'ctr' ? inner.y + (inner.h - total) / 2 : anchor === 'b' ? inner.y + inner.h - total : inner.y;
+
+    ctx.save();
+    ctx.textBaseline = 'alphabetic';
+    ctx.textAlign = 'left';
+    lines.forEach(line => {
+        let x = line.align === 'center' ? inner.x + (inner.w - line.width) / 2 : line.align === 'right' ? inner.x + inner.w - line.width : inner.x;
+        // Baseline sits at ~80% of the line box
+        const baseline = y + line.height * 0.8;
+        line.fragments.forEach(fragment => {
+            ctx.font = fragment.font;
+            ctx.fillStyle = fragment.color;
+            ctx.fillText(fragment.text, x, baseline);
+            x += fragment.width;
+        });
+        y += line.height;
+    });
+    ctx.restore();
+};
+
+// --- Pictures ---
+
+const MIME_TYPES: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', bmp: 'image/bmp', svg: 'image/svg+xml', webp: 'image/webp' };
+
+const loadImage = async (zip: JSZip, mediaPath: string): Promise<ImageBitmap | undefined> => {
+    const file = zip.file(mediaPath);
+    const mime = MIME_TYPES[mediaPath.split('.').pop()?.toLowerCase() || ''];
+    if (!file || !mime) return undefined; // EMF/WMF and other vector formats cannot be decoded
+    try {
+        return await createImageBitmap(new Blob([await file.async('uint8array')], { type: mime }));
+    } catch {
+        return undefined;
+    }
+};
+
+const drawPicture = async (state: RenderState, part: Part, pic: Element, box: Box) => {
+    const { ctx, zip } = state;
+    const embed = attr(path(pic, 'p:blipFill', 'a:blip'), 'r:embed');
+    const mediaPath = embed ? part.rels.get(embed) : undefined;
+    const image = mediaPath ? await loadImage(zip, mediaPath) : undefined;
+    if (!image) {
+        ctx.fillStyle = '#E2E8F0';
+        ctx.fillRect(box.x, box.y, box.w, box.h);
+        return;
+    }
+
+    // a:srcRect crops are in thousandths of a percent of the image
+    const crop = path(pic, 'p:blipFill', 'a:srcRect');
+    const l = num(attr(crop, 'l')) / 100000;
+    const t = num(attr(crop, 't')) / 100000;
+    const r = num(attr(crop, 'r')) / 100000;
+    const b = num(attr(crop, 'b')) / 100000;
+    ctx.drawImage(
+        image,
+        image.width * l, image.height * t, image.width * (1 - l - r), image.height * (1 - t - b),
+        box.x, box.y, box.w, box.h
+    );
+    image.close?.();
+};
+
+// --- Tables ---
+
+const drawTable = (state: RenderState, table: Element, box: Box) => {
+    const { ctx, scale, context } = state;
+    const columns = children(child(table, 'a:tblGrid'), 'a:gridCol').map(c => num(attr(c, 'w')) * scale);
+    let y = box.y;
+    children(table, 'a:tr').forEach(row => {
+        const height = num(attr(row, 'h')) * scale;
+        let x = box.x;
+        children(row, 'a:tc').forEach((cell, i) => {
+            const span = num(attr(cell, 'gridSpan'), 1);
+            const width = columns.slice(i, i + span).reduce((sum, w) => sum + w, 0) || columns[i] || 0;
+            const cellBox = { x, y, w: width, h: height };
+            const fill = readFillColor(path(cell, 'a:tcPr', 'a:solidFill'), context.theme);
+            if (fill) {
+                ctx.fillStyle = fill;
+                ctx.fillRect(cellBox.x, cellBox.y, cellBox.w, cellBox.h);
+            }
+            ctx.strokeStyle = '#CBD5E1';
+            ctx.lineWidth = 1;
+            ctx.strokeRect(cellBox.x, cellBox.y, cellBox.w, cellBox.h);
+            drawText(state, child(cell, 'a:txBody'), cellBox);
+            x += width;
+        });
+        y += height;
+    });
+};
+
+// --- Shape tree ---
+
+// Placeholders without their own position take the one of their layout, then master, placeholder
+const placeholderXfrm = (state: RenderState, shape: Element): Element | undefined => {
+    const ph = placeholderOf(shape);
+    if (!ph) return undefined;
+    const { layout, master } = state.context;
+    const fromLayout = path(findLayoutPlaceholder(layout, ph), 'p:spPr', 'a:xfrm');
+    return fromLayout || path(findLayoutPlaceholder(master, ph), 'p:spPr', 'a:xfrm');
+};
+
+const drawShapeTree = async (state: RenderState, part: Part, tree: Element, transform: Transform, placeholders: boolean) => {
+    const { ctx, scale, context } = state;
+
+    for (const node of Array.from(tree.childNodes)) {
+        const el = node as Element;
+        try {
+            switch (el.nodeName) {
+                case 'p:sp': {
+                    // Layout and master placeholders only hold prompt text ("Click to add title")
+                    if (!placeholders && placeholderOf(el)) break;
+                    const spPr = child(el, 'p:spPr');
+                    const xfrm = child(spPr, 'a:xfrm') || placeholderXfrm(state, el);
+                    const emuBox = readBox(xfrm);
+                    if (!emuBox) break;
+                    const box = toPixels(applyTransform(emuBox, transform), scale);
+                    const style = child(el, 'p:style');
+                    const geometry = attr(child(spPr, 'a:prstGeom'), 'prst');
+                    await withRotation(ctx, box, xfrm, () => {
+                        const fill = shapeFill(spPr, style, context.theme);
+                        const outline = shapeOutline(spPr, style, context.theme);
+                        if (fill || outline) tracePath(ctx, box, geometry);
+                        if (fill) {
+                            ctx.fillStyle = fill;
+                            ctx.fill();
+                        }
+                        if (outline) {
+                            ctx.strokeStyle = outline.color;
+                            ctx.lineWidth = Math.max(1, outline.width * scale);
+                            ctx.stroke();
+                        }
+                        drawText(state, child(el, 'p:txBody'), box, inheritedBodyPr(state, el));
+                    });
+                    break;
+                }
+                case 'p:pic': {
+                    if (!placeholders && placeholderOf(el)) break;
+                    const xfrm = path(el, 'p:spPr', 'a:xfrm');
+                    const emuBox = readBox(xfrm);
+                    if (!emuBox) break;
+                    const box = toPixels(applyTransform(emuBox, transform), scale);
+                    await withRotation(ctx, box, xfrm, () => drawPicture(state, part, el, box));
+                    break;
+                }
+                case 'p:cxnSp': {
+                    const xfrm = path(el, 'p:spPr', 'a:xfrm');
+                    const emuBox = readBox(xfrm);
+                    const outline = shapeOutline(child(el, 'p:spPr'), child(el, 'p:style'), context.theme);
+                    if (!emuBox || !outline) break;
+                    const box = toPixels(applyTransform(emuBox, transform), scale);
+                    const flipH = attr(xfrm, 'flipH') === '1';
+                    const flipV = attr(xfrm, 'flipV') === '1';
+                    ctx.beginPath();
+                    ctx.moveTo(flipH ? box.x + box.w : box.x, flipV ? box.y + box.h : box.y);
+                    ctx.lineTo(flipH ? box.x : box.x + box.w, flipV ? box.y : box.y + box.h);
+                    ctx.strokeStyle = outline.color;
+                    ctx.lineWidth = Math.max(1, outline.width * scale);
+                    ctx.stroke();
+                    break;
+                }
+                case 'p:graphicFrame': {
+                    const emuBox = readBox(child(el, 'p:xfrm'));
+                    if (!emuBox) break;
+                    const box = toPixels(applyTransform(emuBox, transform), scale);
+                    const table = el.getElementsByTagName('a:tbl')[0];
+                    if (table) {
+                        drawTable(state, table, box);
+                    } else {
+                        // Charts, SmartArt and OLE objects: keep their footprint visible
+                        ctx.strokeStyle = '#CBD5E1';
+                        ctx.lineWidth = 1;
+                        ctx.strokeRect(box.x, box.y, box.w, box.h);
+                    }
+                    break;
+                }
+                case 'p:grpSp': {
+                    const xfrm = path(el, 'p:grpSpPr', 'a:xfrm');
+                    const outer = readBox(xfrm);
+                    const chOff = child(xfrm, 'a:chOff');
+                    const chExt = child(xfrm, 'a:chExt');
+                    let groupTransform = transform;
+                    if (outer && chOff && chExt) {
+                        const scaleX = num(attr(chExt, 'cx')) ? outer.w / num(attr(chExt, 'cx')) : 1;
+                        const scaleY = num(attr(chExt, 'cy')) ? outer.h / num(attr(chExt, 'cy')) : 1;
+                        const local: Transform = {
+                            offX: outer.x - num(attr(chOff, 'x')) * scaleX,
+                            offY: outer.y - num(attr(chOff, 'y')) * scaleY,
+                            scaleX,
+                            scaleY
+                        };
+                        groupTransform = {
+                            offX: transform.offX + local.offX * transform.scaleX,
+                            offY: transform.offY + local.offY * transform.scaleY,
+                            scaleX: transform.scaleX * local.scaleX,
+                            scaleY: transform.scaleY * local.scaleY
+                        };
+                    }
+                    await drawShapeTree(state, part, el, groupTransform, placeholders);
+                    break;
+                }
+            }
+        } catch (error) {
+            // One unreadable shape must not lose the rest of the slide
+            console.warn(`Slide render: skipped ${el.nodeName} in ${part.path}`, error);
+        }
+    }
+};
+
+// The first of slide, layout and master that defines a background
+const backgroundColor = (context: SlideContext): string => {
+    for (const doc of [context.slide, context.layout, context.master]) {
+        const bg = doc?.getElementsByTagName('p:bg')[0];
+        if (!bg) continue;
+        const bgPr = child(bg, 'p:bgPr');
+        const color = shapeFill(bgPr, undefined, context.theme) || readFillColor(child(bg, 'p:bgRef'), context.theme);
+        if (color) return color;
+    }
+    return context.theme.colors.lt1 || '#FFFFFF';
+};
+
+const showsMasterShapes = (doc?: Document) => attr(doc?.documentElement, 'showMasterSp') !== '0';
+
+const spTreeOf = (doc: Document) => doc.getElementsByTagName('p:spTree')[0];
+
+const renderSlide = async (zip: JSZip, context: SlideContext, size: { cx: number; cy: number }): Promise<string> => {
+    const scale = RENDER_WIDTH / size.cx;
+    const canvas = document.createElement('canvas');
+    canvas.width = RENDER_WIDTH;
+    canvas.height = Math.round(size.cy * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+    const state: RenderState = { ctx, zip, context, scale };
+
+    ctx.fillStyle = backgroundColor(context);
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    // Master decoration, then layout decoration, then the slide itself
+    const parts: { path?: string; doc?: Document; placeholders: boolean }[] = [
+        { path: context.masterPath, doc: showsMasterShapes(context.slide) && showsMasterShapes(context.layout) ? context.master : undefined, placeholders: false },
+        { path: context.layoutPath, doc: showsMasterShapes(context.slide) ? context.layout : undefined, placeholders: false },
+        { path: context.slidePath, doc: context.slide, placeholders: true }
+    ];
+    for (const part of parts) {
+        if (!part.path || !part.doc || !spTreeOf(part.doc)) continue;
+        const rels = await readRelationships(zip, part.path);
+        await drawShapeTree(state, { path: part.path, doc: part.doc, rels }, spTreeOf(part.doc), IDENTITY, part.placeholders);
+    }
+
+    return canvas.toDataURL('image/png').split(',')[1];
+};
+
+/** One PNG per slide, in the order of `slideFiles`, for visual analysis and annotation. */
+export const renderPPTXSlides = async (zip: JSZip, slideFiles: string[]): Promise<{ data: string; mimeType: string }[]> => {
+    const presentation = await readXml(zip, 'ppt/presentation.xml');
+    const sldSz = presentation?.getElementsByTagName('p:sldSz')[0];
+    const size = sldSz
+        ? { cx: num(attr(sldSz, 'cx'), DEFAULT_SLIDE_SIZE.cx), cy: num(attr(sldSz, 'cy'), DEFAULT_SLIDE_SIZE.cy) }
+        : DEFAULT_SLIDE_SIZE;
+
+    const loadSlide = createSlideLoader(zip);
+    const rendered: { data: string; mimeType: string }[] = [];
+    for (const slidePath of slideFiles) {
+        const context = await loadSlide(slidePath);
+        if (!context) throw new Error(`Missing slide part ${slidePath}`);
+        rendered.push({ data: await renderSlide(zip, context, size), mimeType: 'image/png' });
+    }
+    return rendered;
+};
@@ -0,0 +1,235 @@
+// Reads XLSX, ODS and CSV files into sheets of cells. The cells are written out
+// as text for the text checks (a "[Sheet Name]" line, then one line per row) and
+// every cell keeps its span in that text, so findings can name the cell.
+import JSZip from 'jszip';
+import { Sheet, SheetCell, Workbook } from '../types';
+import { attr, readXml, resolveTarget } from './officeStyles';
+
+// Cells beyond this are dropped; a price list has a few thousand at most
+const MAX_CELLS = 20000;
+
+const CELL_SEPARATOR = ' | ';
+
+// Matches elements whatever prefix the file uses for its namespace
+const byName = (el: Element | Document | undefined, localName: string): Element[] =>
+    el ? Array.from(el.getElementsByTagNameNS('*', localName)) : [];
+
+const toInt = (value: string | undefined, fallback: number) => {
+    const n = parseInt(value || '', 10);
+    return Number.isFinite(n) ? n : fallback;
+};
+
+/** A1-style address of a 0-based column and 1-based row: (1, 4) -> "B4" */
+export const cellRef = (column: number, row: number): string => {
+    let letters = '';
+    for (let n = column + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        letters = String.fromCharCode(65 + (n - 1) % 26) + letters;
+    }
+    return `${letters}${row}`;
+};
+
+/** Inverse of cellRef: "B4" -> { column: 1, row: 4 } */
+export const parseCellRef = (ref: string): { column: number; row: number } => {
+    const [, letters = 'A', digits = '1'] = ref.match(/^([A-Z]+)(\d+)$/i) || [];
+    const column = letters.toUpperCase().split('').reduce((n, letter) => n * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+    return { column, row: parseInt(digits, 10) };
+};
+
+// --- XLSX ---
+
+const REL_ID = 'r:id';
+
+export const parseXLSX = async (arrayBuffer: ArrayBuffer): Promise<Workbook> => {
+    const zip = await new JSZip().loadAsync(arrayBuffer);
+    const workbook = await readXml(zip, 'xl/workbook.xml');
+    if (!workbook) throw new Error('Not an XLSX workbook');
+
+    const rels = await readXml(zip, 'xl/_rels/workbook.xml.rels');
+    const targets = new Map(byName(rels, 'Relationship').map(rel => [attr(rel, 'Id'), attr(rel, 'Target')]));
+
+    // Phonetic guides (rPh) repeat the text in another script
+    const sharedStrings = byName(await readXml(zip, 'xl/sharedStrings.xml'), 'si').map(si =>
+        byName(si, 't').filter(t => (t.parentNode as Element | null)?.localName !== 'rPh').map(t => t.textContent || '').join('')
+    );
+
+    // Cell style index -> custom number format; built-in formats carry no currency
+    const styles = await readXml(zip, 'xl/styles.xml');
+    const customFormats = new Map(byName(styles, 'numFmt').map(f => [attr(f, 'numFmtId'), attr(f, 'formatCode')]));
+    const cellFormats = byName(byName(styles, 'cellXfs')[0], 'xf').map(xf => customFormats.get(attr(xf, 'numFmtId')));
+
+    let budget = MAX_CELLS;
+    const sheets: Sheet[] = [];
+    for (const sheet of byName(workbook, 'sheet')) {
+        const target = targets.get(attr(sheet, REL_ID));
+        const doc = target ? await readXml(zip, resolveTarget('xl/workbook.xml', target)) : undefined;
+        if (!doc) continue;
+
+        const cells: SheetCell[] = [];
+        let rowNumber = 0;
+        for (const row of byName(doc, 'row')) {
+            rowNumber = toInt(attr(row, 'r'), rowNumber + 1);
+            let column = -1;
+            for (const c of byName(row, 'c')) {
+                const ref = attr(c, 'r');
+                column = ref ? parseCellRef(ref).column : column + 1;
+                const value = byName(c, 'v')[0]?.textContent ?? '';
+                const type = attr(c, 't');
+
+                let cell: SheetCell;
+                if (type === 's') cell = { ref: '', text: sharedStrings[toInt(value, -1)] ?? '' };
+                else if (type === 'inlineStr') cell = { ref: '', text: byName(c, 't').map(t => t.textContent || '').join('') };
+                else if (type === 'b') cell = { ref: '', text: value === '1' ? 'TRUE' : 'FALSE' };
+                else if (type === 'str' || type === 'e') cell = { ref: '', text: value };
+                else cell = { ref: '', text: value, raw: true, format: cellFormats[toInt(attr(c, 's'), 0)] };
+
+                if (!cell.text.trim() || budget-- <= 0) continue;
+                cells.push({ ...cell, ref: cellRef(column, rowNumber) });
+            }
+        }
+        sheets.push({ name: attr(sheet, 'name') || `Sheet${sheets.length + 1}`, cells });
+    }
+    return { sheets };
+};
+
+// --- ODS ---
+
+export const parseODS = async (arrayBuffer: ArrayBuffer): Promise<Workbook> => {
+    const zip = await new JSZip().loadAsync(arrayBuffer);
+    const doc = await readXml(zip, 'content.xml');
+    if (!doc) throw new Error('Not an ODS spreadsheet');
+
+    let budget = MAX_CELLS;
+    const sheets: Sheet[] = byName(doc, 'table').map((table, index) => {
+        const cells: SheetCell[] = [];
+        let rowNumber = 1;
+        for (const row of byName(table, 'table-row')) {
+            // Empty rows and columns are stored once with a repeat count
+            const rowRepeat = toInt(attr(row, 'table:number-rows-repeated'), 1);
+            const rowCells: (SheetCell & { column: number })[] = [];
+            let column = 0;
+            Array.from(row.childNodes).forEach(node => {
+                const cell = node as Element;
+                if (cell.localName !== 'table-cell' && cell.localName !== 'covered-table-cell') return;
+                const repeat = toInt(attr(cell, 'table:number-columns-repeated'), 1);
+                const text = byName(cell, 'p').map(p => p.textContent || '').join('\n');
+                if (text.trim()) {
+                    for (let i = 0; i < repeat && rowCells.length < budget; i++) {
+                        rowCells.push({ ref: '', column: column + i, text, currency: attr(cell, 'office:currency') });
+                    }
+                }
+                column += repeat;
+            });
+            for (let i = 0; i < rowRepeat && rowCells.length && budget > 0; i++) {
+                rowCells.slice(0, budget).forEach(({ column: c, ...cell }) => cells.push({ ...cell, ref: cellRef(c, rowNumber + i) }));
+                budget -= rowCells.length;
+            }
+            rowNumber += rowRepeat;
+        }
+        return { name: attr(table, 'table:name') || `Sheet${index + 1}`, cells };
+    });
+    return { sheets };
+};
+
+// --- CSV / TSV ---
+
+// The most frequent candidate in the first line wins
+const detectDelimiter = (text: string): string => {
+    const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+    const counts = [',', ';', '\t'].map(d => ({ d, n: firstLine.split(d).length - 1 }));
+    const best = counts.reduce((a, b) => b.n > a.n ? b : a);
+    return best.n > 0 ? best.d : ',';
+};
+
+/** RFC 4180 fields: quoted fields may hold delimiters, newlines and doubled quotes. */
+export const parseDelimited = (text: string, name: string, delimiter = detectDelimiter(text)): Workbook => {
+    const cells: SheetCell[] = [];
+    let row = 1, column = 0, field = '', quoted = false;
+
+    const endField = () => {
+        if (field.trim() && cells.length < MAX_CELLS) cells.push({ ref: cellRef(column, row), text: field });
+        field = '';
+        column++;
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (ch === '"') quoted = false;
+            else field += ch;
+        } else if (ch === '"' && !field) quoted = true;
+        else if (ch === delimiter) endField();
+        else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            endField();
+            row++;
+            column = 0;
+        } else field += ch;
+    }
+    if (field || column > 0) endField();
+
+    return { sheets: [{ name, cells }] };
+};
+
+// --- Output ---
+
+const escapeHtml = (value: string) => value
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const rowsOf = (sheet: Sheet) => {
+    const rows = new Map<number, SheetCell[]>();
+    sheet.cells.forEach(cell => {
+        const { row } = parseCellRef(cell.ref);
+        rows.set(row, [...(rows.get(row) || []), cell]);
+    });
+    return [...rows.entries()].sort(([a], [b]) => a - b);
+};
+
+/**
+ * Writes the workbook out as text: "[Sheet Name]", then one line per row with
+ * its cells separated by " | ". Returns the workbook with each cell's span set,
+ * and an HTML preview with spreadsheet-style row and column headings.
+ */
+export const renderWorkbook = (workbook: Workbook): { text: string; html: string; workbook: Workbook } => {
+    let text = '';
+    let html = '<div class="sheet-preview space-y-8">';
+
+    const sheets = workbook.sheets.map(sheet => {
+        const rows = rowsOf(sheet);
+        const cells: SheetCell[] = [];
+        if (text) text += '\n\n';
+        text += `[Sheet ${sheet.name}]`;
+        rows.forEach(([, rowCells]) => {
+            text += '\n';
+            rowCells.forEach((cell, i) => {
+                if (i > 0) text += CELL_SEPARATOR;
+                // Line breaks inside a cell would read as new rows
+                const start = text.length;
+                text += cell.text.replace(/\r?\n/g, ' ');
+                cells.push({ ...cell, span: { start, end: text.length } });
+            });
+        });
+
+        const columns = Math.max(0, ...sheet.cells.map(c => parseCellRef(c.ref).column + 1));
+        html += `
+            <div class="sheet bg-white border border-slate-200 p-6 rounded shadow-sm text-black overflow-x-auto">
+                <h4 class="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4 border-b pb-2">${escapeHtml(sheet.name)}</h4>
+                <table class="text-xs border-collapse">
+                    <tr><th class="border border-slate-200 bg-slate-50 px-2"></th>${Array.from({ length: columns }, (_, c) =>
+                        `<th class="border border-slate-200 bg-slate-50 px-2 font-semibold text-slate-500">${cellRef(c, 1).replace(/\d+$/, '')}</th>`).join('')}</tr>
+                    ${rows.map(([row, rowCells]) => {
+                        const byColumn = new Map(rowCells.map(cell => [parseCellRef(cell.ref).column, cell]));
+                        return `<tr><th class="border border-slate-200 bg-slate-50 px-2 font-semibold text-slate-500">${row}</th>${Array.from({ length: columns }, (_, c) => {
+                            const cell = byColumn.get(c);
+                            return `<td class="border border-slate-200 px-2 py-1 whitespace-pre-wrap"${cell ? ` title="${escapeHtml(sheet.name)}!${cell.ref}"` : ''}>${cell ? escapeHtml(cell.text) : ''}</td>`;
+                        }).join('')}</tr>`;
+                    }).join('')}
+                </table>
+            </div>
+        `;
+        return { ...sheet, cells };
+    });
+
+    html += '</div>';
+    return { text, html, workbook: { sheets } };
+};
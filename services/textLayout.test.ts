@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { Issue, PositionedText } from '../types';
+import { locateSpan, locateTextIssues, textItemBox } from './textLayout';
+
+const issue = (id: string, fields: Partial<Issue> = {}): Issue => ({
+    id,
+    category: 'Brand',
+    subcategory: 'Tone',
+    description: '',
+    rationale: '',
+    fix: '',
+    severity: 'Low',
+    blocking: false,
+    fixType: 'Manual',
+    ...fields
+});
+
+const item = (page: number, start: number, end: number, x: number, y: number, width = 50, height = 2): PositionedText =>
+    ({ page, span: { start, end }, box: { x, y, width, height } });
+
+const CONTENT = '[Page 1]\nWe leverage best in class tools.\nBest in class support.\n\n[Page 2]\nBest in class again.';
+const LAYOUT = [
+    item(1, 9, 41, 10, 10, 64), // "We leverage best in class tools."
+    item(1, 42, 64, 10, 14, 44), // "Best in class support."
+    item(2, 75, 95, 10, 10, 40) // "Best in class again."
+];
+
+describe('textItemBox', () => {
+    // An unrotated 600 x 800 pt page: pdf.js flips y so the origin is at the top left
+    const viewport = { width: 600, height: 800, convertToViewportPoint: (x: number, y: number) => [x, 800 - y] };
+
+    it('flips the PDF baseline into a box measured from the top of the page', () => {
+        // Baseline 700 pt above the bottom, 12 pt text
+        const box = textItemBox({ transform: [12, 0, 0, 12, 60, 700], width: 120, height: 12 }, viewport);
+        expect(box.x).toBeCloseTo(10);
+        expect(box.y).toBeCloseTo(11);
+        expect(box.width).toBeCloseTo(20);
+        expect(box.height).toBeCloseTo(1.8);
+    });
+
+    it('takes the height from the font matrix when pdf.js reports none', () => {
+        const box = textItemBox({ transform: [0, 10, -10, 0, 60, 400], width: 120, height: 0 }, viewport);
+        expect(box.y).toBeCloseTo((400 - 10) / 8);
+        expect(box.height).toBeCloseTo(1.5);
+    });
+});
+
+describe('locateSpan', () => {
+    it('narrows a span inside one item in proportion to its characters', () => {
+        // "leverage" is characters 3-11 of a 32-character item
+        expect(locateSpan(LAYOUT, { start: 12, end: 20 })).toEqual({ page: 1, box: { x: 16, y: 10, width: 16, height: 2 } });
+    });
+
+    it('unites the parts of every item a span covers', () => {
+        // "tools.\nBest": the last 6 characters of the first line and the first 4 of the second
+        const location = locateSpan(LAYOUT, { start: 35, end: 46 });
+        expect(location?.page).toBe(1);
+        expect(location?.box.x).toBeCloseTo(10);
+        expect(location?.box.y).toBe(10);
+        expect(location?.box.width).toBeCloseTo(64);
+        expect(location?.box.height).toBe(6);
+    });
+
+    it('keeps the first page of a span over a page break', () => {
+        expect(locateSpan(LAYOUT, { start: 60, end: 80 })?.page).toBe(1);
+    });
+
+    it('finds nothing outside the text items', () => {
+        expect(locateSpan(LAYOUT, { start: 0, end: 8 })).toBeUndefined();
+    });
+});
+
+describe('locateTextIssues', () => {
+    it('places rule findings by their span', () => {
+        const [found] = locateTextIssues([issue('rule-banned-leverage-12', { source: 'rule', span: { start: 12, end: 20 } })], CONTENT, LAYOUT);
+        expect(found).toMatchObject({ page_number: 1, boundingBox: { x: 16, y: 10, width: 16, height: 2 } });
+    });
+
+    it('places model findings on the first phrase they quote, replacing the model box', () => {
+        const modelBox = { x: 0, y: 90, width: 10, height: 5 };
+        const [found] = locateTextIssues([issue('model-1', { description: 'Avoid “best in class”.', boundingBox: modelBox })], CONTENT, LAYOUT);
+        expect(found.page_number).toBe(1);
+        expect(found.boundingBox).toEqual({ x: 34, y: 10, width: 26, height: 2 });
+    });
+
+    it('prefers an occurrence on the page the model named', () => {
+        const [found] = locateTextIssues([issue('model-1', { description: 'Avoid "best in class".', page_number: 2 })], CONTENT, LAYOUT);
+        expect(found).toMatchObject({ page_number: 2, boundingBox: { x: 10, y: 10, width: 26, height: 2 } });
+    });
+
+    it('tries the next quote when the first is not in the text', () => {
+        const [found] = locateTextIssues([issue('model-1', { description: 'Say "world-class" rather than "leverage".' })], CONTENT, LAYOUT);
+        expect(found.boundingBox).toEqual({ x: 16, y: 10, width: 16, height: 2 });
+    });
+
+    it('leaves findings it cannot place unchanged', () => {
+        const unplaced = [
+            issue('model-1', { description: 'Too formal overall.', page_number: 3 }),
+            issue('rule-tone', { source: 'rule', description: 'Avoid "leverage".' })
+        ];
+        expect(locateTextIssues(unplaced, CONTENT, LAYOUT)).toEqual(unplaced);
+        expect(locateTextIssues(unplaced, CONTENT, undefined)).toBe(unplaced);
+    });
+});
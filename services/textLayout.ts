@@ -0,0 +1,139 @@
+// Maps text findings onto the page using the positions pdf.js reported for each
+// text item, so they are drawn where the words are rather than where the model
+// guessed (box_2d). Spreadsheet, web page and email findings are mapped to their
+// cell or element the same way, and findings in a transcript to the time of their cue.
+import { Issue, PositionedText, TextSpan, Transcript, WebElement, Workbook } from '../types';
+
+type Box = NonNullable<Issue['boundingBox']>;
+
+// The parts of a pdf.js page viewport and text item the box is computed from
+type Viewport = { width: number; height: number; convertToViewportPoint(x: number, y: number): number[] };
+type TextItem = { transform: number[]; width: number; height: number };
+
+// Phrases the model quotes in its descriptions, e.g. 'Avoid "best in class"'
+const QUOTED = /["“]([^"“”]{3,}?)["”]/g;
+
+/** Box of a pdf.js text item in percent of the page, measured from the top left. */
+export const textItemBox = (item: TextItem, viewport: Viewport): Box => {
+    // transform[4..5] is the baseline origin in PDF space (y up)
+    const [left, baseline] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]);
+    const height = item.height || Math.hypot(item.transform[2], item.transform[3]);
+    return {
+        x: left / viewport.width * 100,
+        // Ascent above the baseline plus a little room for descenders
+        y: (baseline - height) / viewport.height * 100,
+        width: item.width / viewport.width * 100,
+        height: height * 1.2 / viewport.height * 100
+    };
+};
+
+/**
+ * Page and box of a span of the extracted text: the union of the parts of the
+ * text items it covers. A span that runs over a page break keeps its first page.
+ */
+export const locateSpan = (layout: PositionedText[], span: TextSpan): { page: number; box: Box } | undefined => {
+    const covered = layout.filter(item => item.span.start < span.end && item.span.end > span.start);
+    if (covered.length === 0) return undefined;
+    const page = covered[0].page;
+
+    const boxes = covered.filter(item => item.page === page).map(({ span: itemSpan, box }) => {
+        // Characters are assumed to be equally wide within an item
+        const length = itemSpan.end - itemSpan.start;
+        const from = (Math.max(span.start, itemSpan.start) - itemSpan.start) / length;
+        const to = (Math.min(span.end, itemSpan.end) - itemSpan.start) / length;
+        return { ...box, x: box.x + box.width * from, width: box.width * (to - from) };
+    });
+
+    const left = Math.min(...boxes.map(b => b.x));
+    const top = Math.min(...boxes.map(b => b.y));
+    const right = Math.max(...boxes.map(b => b.x + b.width));
+    const bottom = Math.max(...boxes.map(b => b.y + b.height));
+    return { page, box: { x: left, y: top, width: right - left, height: bottom - top } };
+};
+
+// Every occurrence in the text of each phrase the model quotes, quote by quote
+const quotedOccurrences = (issue: Issue, content: string): TextSpan[][] => {
+    const haystack = content.toLowerCase();
+    return [...issue.description.matchAll(QUOTED)].map(([, quote]) => {
+        const needle = quote.trim().toLowerCase();
+        const spans: TextSpan[] = [];
+        for (let start = haystack.indexOf(needle); start !== -1; start = haystack.indexOf(needle, start + 1)) {
+            spans.push({ start, end: start + needle.length });
+        }
+        return spans;
+    });
+};
+
+// First occurrence of a quoted phrase, preferring the page the model named
+const findQuote = (issue: Issue, content: string, layout: PositionedText[]) => {
+    for (const spans of quotedOccurrences(issue, content)) {
+        let first: ReturnType<typeof locateSpan>;
+        for (const span of spans) {
+            const location = locateSpan(layout, span);
+            if (!location) continue;
+            if (!issue.page_number || location.page === issue.page_number) return location;
+            first = first || location;
+        }
+        if (first) return first;
+    }
+    return undefined;
+};
+
+/**
+ * Places text findings on their page. Rule findings are located by their span;
+ * model findings by the first phrase they quote, replacing the model's box.
+ * Findings that cannot be found in the text layer are returned unchanged.
+ */
+export const locateTextIssues = (issues: Issue[], content: string, layout: PositionedText[] | undefined): Issue[] => {
+    if (!layout?.length) return issues;
+    return issues.map(issue => {
+        const location = issue.span
+            ? locateSpan(layout, issue.span)
+            : issue.source !== 'rule' ? findQuote(issue, content, layout) : undefined;
+        return location ? { ...issue, page_number: location.page, boundingBox: location.box } : issue;
+    });
+};
+
+type Located = { ref: string; span?: TextSpan };
+
+// Labels span-bearing findings with the ref of the part of the asset their span falls in
+const labelBySpan = (issues: Issue[], parts: Located[], field: 'cellRef' | 'elementRef'): Issue[] => issues.map(issue => {
+    const { span } = issue;
+    if (issue[field] || !span) return issue;
+    const part = parts.find(p => p.span && p.span.start < Math.max(span.end, span.start + 1) && p.span.end > span.start);
+    return part ? { ...issue, [field]: part.ref } : issue;
+});
+
+/**
+ * Times findings in a transcript to the start of their cue. Rule findings are timed
+ * by their span; model findings by the first phrase they quote, taking the
+ * occurrence closest to the time the model gave.
+ */
+export const locateTimedIssues = (issues: Issue[], content: string, transcript: Transcript | undefined): Issue[] => {
+    if (!transcript?.segments.length) return issues;
+    const segmentAt = (offset: number) => transcript.segments.find(s => s.span && s.span.start <= offset && offset < s.span.end);
+    return issues.map(issue => {
+        let segment = issue.span ? segmentAt(issue.span.start) : undefined;
+        if (!issue.span && issue.source !== 'rule') {
+            const candidates = quotedOccurrences(issue, content)
+                .map(spans => spans.map(span => segmentAt(span.start)).filter((s): s is NonNullable<typeof s> => !!s))
+                .find(found => found.length > 0) || [];
+            const near = issue.timestamp ?? candidates[0]?.start ?? 0;
+            segment = candidates.sort((a, b) => Math.abs(a.start - near) - Math.abs(b.start - near))[0];
+        }
+        return segment ? { ...issue, timestamp: segment.start } : issue;
+    });
+};
+
+/** Names the cell of text findings in a spreadsheet, e.g. a banned term in "Prices!C7". */
+export const locateCellIssues = (issues: Issue[], workbook: Workbook | undefined): Issue[] => {
+    if (!workbook) return issues;
+    const cells = workbook.sheets.flatMap(sheet => sheet.cells.map(cell => ({ ref: `${sheet.name}!${cell.ref}`, span: cell.span })));
+    return labelBySpan(issues, cells, 'cellRef');
+};
+
+/** Pins text findings in a web page or email to the heading, paragraph, image, link or header field they are in. */
+export const locateElementIssues = (issues: Issue[], page: { elements: WebElement[] } | undefined): Issue[] => {
+    if (!page) return issues;
+    return labelBySpan(issues, page.elements, 'elementRef');
+};
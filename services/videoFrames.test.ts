@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Issue } from '../types';
+import { locateFrameIssues, sampleKeyframes } from './videoFrames';
+
+// A synthetic clip: how bright the whole picture is at each time (0-1)
+interface Clip {
+    duration: number;
+    brightness: (time: number) => number;
+    broken?: boolean;
+}
+
+// Decoding needs a browser; these stand in for the video element and the 2D canvas
+class FakeVideo extends EventTarget {
+    muted = false;
+    playsInline = false;
+    preload = '';
+    error = null;
+    videoWidth = 1280;
+    videoHeight = 720;
+    duration: number;
+    private time = 0;
+
+    constructor(private clip: Clip) {
+        super();
+        this.duration = clip.duration;
+    }
+
+    get currentTime() {
+        return this.time;
+    }
+
+    set currentTime(time: number) {
+        this.time = time;
+        setTimeout(() => this.dispatchEvent(new Event('seeked')));
+    }
+
+    set src(_url: string) {
+        setTimeout(() => this.dispatchEvent(new Event(this.clip.broken ? 'error' : 'loadedmetadata')));
+    }
+
+    removeAttribute() {}
+    load() {}
+}
+
+const fakeCanvas = (clip: Clip) => {
+    let drawnAt = 0;
+    return {
+        width: 0,
+        height: 0,
+        getContext: () => ({
+            drawImage: (video: FakeVideo) => { drawnAt = video.currentTime; },
+            getImageData: (_x: number, _y: number, width: number, height: number) => ({
+                data: new Uint8ClampedArray(width * height * 4).fill(Math.round(clip.brightness(drawnAt) * 255))
+            })
+        }),
+        toDataURL: () => `data:image/jpeg;base64,frame-at-${drawnAt}`
+    };
+};
+
+const sample = (clip: Clip) => {
+    vi.stubGlobal('document', { createElement: (tag: string) => tag === 'video' ? new FakeVideo(clip) : fakeCanvas(clip) });
+    return sampleKeyframes(new File([], 'clip.mp4', { type: 'video/mp4' }));
+};
+
+describe('sampleKeyframes', () => {
+    beforeEach(() => {
+        vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:clip');
+        vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('takes the first frame, every scene change and one frame per interval of a long shot', async () => {
+        // A dark shot cut to a bright one at 3 s; probes every 0.5 s, at least one frame every 2 s
+        const frames = await sample({ duration: 10, brightness: time => time < 3 ? 0.1 : 0.9 });
+
+        expect(frames.map(f => f.time)).toEqual([0, 2, 3, 5, 7, 9]);
+        expect(frames[2]).toEqual({ data: 'frame-at-3', mimeType: 'image/jpeg', time: 3 });
+        expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:clip');
+    });
+
+    it('ignores changes below the scene threshold', async () => {
+        const frames = await sample({ duration: 4, brightness: time => 0.5 + (time % 1 ? 0.1 : 0) });
+        expect(frames.map(f => f.time)).toEqual([0, 2]);
+    });
+
+    it('keeps the strongest scene changes when there are too many', async () => {
+        // Small cuts on every probe for 20 s, one hard cut at 20 s, then a still shot
+        const brightness = (time: number) => time >= 20 ? 1 : (time * 2) % 2 ? 0.25 : 0;
+        const frames = await sample({ duration: 30, brightness });
+
+        const smallCuts = Array.from({ length: 18 }, (_, i) => (i + 1) / 2);
+        expect(frames.map(f => f.time)).toEqual([0, ...smallCuts, 20]);
+    });
+
+    it('returns no frames when the video cannot be decoded or has no length', async () => {
+        const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+        expect(await sample({ duration: 10, brightness: () => 0, broken: true })).toEqual([]);
+        expect(error).toHaveBeenCalledWith('Video Sampling Failed:', expect.any(Error));
+        expect(await sample({ duration: Infinity, brightness: () => 0 })).toEqual([]);
+    });
+});
+
+describe('locateFrameIssues', () => {
+    const issue = (id: string, fields: Partial<Issue> = {}): Issue => ({
+        id, category: 'Brand', subcategory: 'Imagery', description: '', rationale: '', fix: '',
+        severity: 'Low', blocking: false, fixType: 'Manual', ...fields
+    });
+    const frames = [{ time: 0 }, { time: 3 }, { time: 7.5 }];
+
+    it('moves findings from their frame number to the frame time', () => {
+        const [found] = locateFrameIssues([issue('logo', { page_number: 3 })], frames);
+        expect(found.timestamp).toBe(7.5);
+        expect(found).not.toHaveProperty('page_number');
+    });
+
+    it('leaves findings without a known frame alone', () => {
+        const unplaced = [issue('tone'), issue('late', { page_number: 9 })];
+        expect(locateFrameIssues(unplaced, frames)).toEqual(unplaced);
+    });
+
+    it('leaves page findings of documents alone', () => {
+        const issues = [issue('logo', { page_number: 2 })];
+        expect(locateFrameIssues(issues, [{}, {}])).toBe(issues);
+        expect(locateFrameIssues(issues, undefined)).toBe(issues);
+    });
+});
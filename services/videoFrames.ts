@@ -0,0 +1,156 @@
+// Videos are reviewed as a set of still frames rather than sent whole: a frame
+// wherever the picture changes (a cut or a new scene), topped up with frames at a
+// fixed interval so long static shots are seen too. Each frame keeps its time, so
+// findings on it can be placed on the video timeline.
+import { Issue } from '../types';
+
+export interface VideoFrame {
+    data: string; // Base64 JPEG
+    mimeType: string;
+    time: number; // Seconds into the video
+}
+
+// Frames sent for review; four page windows (see services/pagedAnalysis)
+const MAX_FRAMES = 20;
+// Frames compared for scene changes, and the shortest gap between them
+const MAX_PROBES = 240;
+const MIN_PROBE_STEP = 0.5;
+// Shortest fixed interval between frames of a static shot
+const MIN_INTERVAL = 2;
+// Mean brightness change (0-1) between neighbouring probes that counts as a new scene
+const SCENE_CHANGE = 0.18;
+// Probes are compared as small thumbnails; frames are sent at most this wide
+const PROBE_WIDTH = 32;
+const PROBE_HEIGHT = 18;
+const FRAME_WIDTH = 1024;
+
+const waitFor = (video: HTMLVideoElement, event: 'loadedmetadata' | 'seeked') => new Promise<void>((resolve, reject) => {
+    const done = () => {
+        video.removeEventListener('error', failed);
+        resolve();
+    };
+    const failed = () => {
+        video.removeEventListener(event, done);
+        reject(video.error || new Error(`Video could not be read (${event})`));
+    };
+    video.addEventListener(event, done, { once: true });
+    video.addEventListener('error', failed, { once: true });
+});
+
+const seek = (video: HTMLVideoElement, time: number) => {
+    const seeked = waitFor(video, 'seeked');
+    video.currentTime = time;
+    return seeked;
+};
+
+// Brightness of each pixel of the current frame as a thumbnail
+const probe = (video: HTMLVideoElement, ctx: CanvasRenderingContext2D): Float32Array => {
+    ctx.drawImage(video, 0, 0, PROBE_WIDTH, PROBE_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, PROBE_WIDTH, PROBE_HEIGHT);
+    const luma = new Float32Array(PROBE_WIDTH * PROBE_HEIGHT);
+    for (let i = 0; i < luma.length; i++) {
+        luma[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+    }
+    return luma;
+};
+
+const difference = (a: Float32Array, b: Float32Array) => {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+    return sum / a.length;
+};
+
+/**
+ * Times to take frames at: the first frame, every scene change and, within long
+ * shots, one frame per interval. When there are more than MAX_FRAMES, the
+ * strongest scene changes are kept.
+ */
+const pickFrameTimes = async (video: HTMLVideoElement, duration: number): Promise<number[]> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = PROBE_WIDTH;
+    canvas.height = PROBE_HEIGHT;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return [0];
+
+    const step = Math.max(MIN_PROBE_STEP, duration / MAX_PROBES);
+    const interval = Math.max(MIN_INTERVAL, duration / MAX_FRAMES);
+    const picks: { time: number; change: number }[] = [];
+    let previous: Float32Array | undefined;
+    let lastPick = 0;
+
+    for (let time = 0; time < duration; time += step) {
+        await seek(video, time);
+        const luma = probe(video, ctx);
+        // The first frame always counts, as the strongest change
+        const change = previous ? difference(previous, luma) : 1;
+        if (change >= SCENE_CHANGE || time - lastPick >= interval) {
+            picks.push({ time, change });
+            lastPick = time;
+        }
+        previous = luma;
+    }
+
+    return picks
+        .sort((a, b) => b.change - a.change)
+        .slice(0, MAX_FRAMES)
+        .map(p => p.time)
+        .sort((a, b) => a - b);
+};
+
+/**
+ * Samples keyframes of a video file in the browser. Returns no frames when the
+ * browser cannot decode the video.
+ */
+export const sampleKeyframes = async (file: File): Promise<VideoFrame[]> => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    const frames: VideoFrame[] = [];
+
+    try {
+        const loaded = waitFor(video, 'loadedmetadata');
+        video.src = url;
+        await loaded;
+        // Streams and some WebM files do not report a length
+        if (!Number.isFinite(video.duration) || !video.videoWidth) return [];
+
+        const times = await pickFrameTimes(video, video.duration);
+        const canvas = document.createElement('canvas');
+        const width = Math.min(video.videoWidth, FRAME_WIDTH);
+        canvas.width = width;
+        canvas.height = Math.round(video.videoHeight * width / video.videoWidth);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return [];
+
+        for (const time of times) {
+            await seek(video, time);
+            ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+            frames.push({ data: canvas.toDataURL('image/jpeg', 0.8).split(',')[1], mimeType: 'image/jpeg', time });
+        }
+        console.log(`Video Sampling: ${frames.length} frames from ${Math.round(video.duration)}s`);
+    } catch (e) {
+        console.error("Video Sampling Failed:", e);
+    } finally {
+        video.removeAttribute('src');
+        video.load();
+        URL.revokeObjectURL(url);
+    }
+
+    return frames;
+};
+
+/**
+ * Findings on a sampled frame come back with the frame's page number; this moves
+ * them to the frame's time, where the timeline shows them.
+ */
+export const locateFrameIssues = (issues: Issue[], frames: { time?: number }[] | undefined): Issue[] => {
+    if (!frames?.some(f => f.time !== undefined)) return issues;
+    return issues.map(issue => {
+        const time = issue.page_number ? frames[issue.page_number - 1]?.time : undefined;
+        if (time === undefined) return issue;
+        const { page_number, ...rest } = issue;
+        return { ...rest, timestamp: time };
+    });
+};
@@ -0,0 +1,129 @@
+// Reads HTML pages into their checked parts: title and meta description,
+// headings, blocks of visible copy, images and links. Every part is tagged with a
+// data-check-ref attribute in the preview HTML, so findings can be pinned to the
+// element in the rendered page, and keeps its span in the extracted text.
+import { WebElement, WebPage } from '../types';
+
+export const REF_ATTRIBUTE = 'data-check-ref';
+
+// Never rendered, or not part of the copy
+const SKIPPED = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'IFRAME', 'OBJECT', 'EMBED', 'CANVAS', 'HEAD']);
+
+// Elements that start a new block of copy
+const BLOCKS = 'p,li,h1,h2,h3,h4,h5,h6,blockquote,figcaption,figure,td,th,dt,dd,div,section,article,header,footer,main,nav,aside,ul,ol,dl,table,tr,form,fieldset,button,details,summary';
+
+const collapse = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+const isHidden = (el: Element) => {
+    const style = (el.getAttribute('style') || '').replace(/\s+/g, '').toLowerCase();
+    return el.hasAttribute('hidden') || style.includes('display:none') || style.includes('visibility:hidden');
+};
+
+const isSkipped = (el: Element) => SKIPPED.has(el.tagName.toUpperCase()) || isHidden(el);
+
+// Text a visitor can see: skips scripts, styles and hidden elements
+const visibleText = (node: Node): string => {
+    if (node.nodeType === 3) return node.textContent || '';
+    if (node.nodeType !== 1 || isSkipped(node as Element)) return '';
+    return Array.from(node.childNodes).map(visibleText).join(' ');
+};
+
+const isVisible = (el: Element) => {
+    for (let node: Element | null = el; node; node = node.parentElement) {
+        if (isSkipped(node)) return false;
+    }
+    return true;
+};
+
+/**
+ * Parses an HTML page. Returns the checked parts, the page as text for the text
+ * checks ("[H1] Welcome", "[Image alt] ...", "[Link] Read more -> /pricing"),
+ * and the preview HTML with scripts and inline event handlers removed.
+ */
+export const parseHTMLPage = (source: string): { text: string; html: string; webPage: WebPage } => {
+    const doc = new DOMParser().parseFromString(source, 'text/html');
+    const found: Omit<WebElement, 'ref' | 'span'>[] = [];
+    const tagged: Element[] = [];
+
+    const add = (el: Element, element: Omit<WebElement, 'ref' | 'span'>) => {
+        found.push(element);
+        tagged.push(el);
+    };
+
+    // Copy is collected per innermost block; text next to nested blocks goes with its parent
+    const walk = (el: Element) => {
+        if (isSkipped(el)) return;
+        // Links are checked on their own below
+        if (el.tagName.toUpperCase() === 'A' && el.hasAttribute('href')) return;
+        const heading = el.tagName.match(/^H([1-6])$/i);
+        if (heading) {
+            add(el, { kind: 'heading', level: parseInt(heading[1], 10), text: collapse(visibleText(el)) });
+            return;
+        }
+        if (!el.querySelector(BLOCKS)) {
+            const text = collapse(visibleText(el));
+            if (text) add(el, { kind: 'copy', text });
+            return;
+        }
+        const own = collapse(Array.from(el.childNodes).filter(n => n.nodeType === 3).map(n => n.textContent).join(' '));
+        if (own) add(el, { kind: 'copy', text: own });
+        Array.from(el.children).forEach(walk);
+    };
+    if (doc.body) walk(doc.body);
+
+    Array.from(doc.querySelectorAll('img')).filter(isVisible).forEach(img => {
+        add(img, { kind: 'image', text: collapse(img.getAttribute('alt') || ''), hasAlt: img.hasAttribute('alt'), href: img.getAttribute('src') || undefined });
+    });
+
+    Array.from(doc.querySelectorAll('a[href]')).filter(isVisible).forEach(a => {
+        const text = collapse(visibleText(a)) || collapse(a.getAttribute('aria-label') || '')
+            || collapse(Array.from(a.querySelectorAll('img[alt]')).map(img => img.getAttribute('alt')).join(' '));
+        add(a, { kind: 'link', text, href: a.getAttribute('href') || '' });
+    });
+
+    // Document order, so the text reads like the page
+    const order = tagged.map((_, i) => i).sort((a, b) => {
+        if (tagged[a] === tagged[b]) return a - b;
+        return tagged[a].compareDocumentPosition(tagged[b]) & 4 ? -1 : 1;
+    });
+
+    const title = collapse(doc.title || '') || undefined;
+    const description = collapse(doc.querySelector('meta[name="description" i]')?.getAttribute('content') || '') || undefined;
+    const lang = doc.documentElement.getAttribute('lang') || undefined;
+
+    let text = '';
+    const line = (label: string, value: string) => {
+        if (text) text += '\n';
+        text += label ? `${label} ` : '';
+        const start = text.length;
+        text += value;
+        return { start, end: text.length };
+    };
+    if (title) line('[Title]', title);
+    if (description) line('[Meta description]', description);
+
+    const elements: WebElement[] = order.map((index, position) => {
+        const element = found[index];
+        const ref = `e${position + 1}`;
+        tagged[index].setAttribute(REF_ATTRIBUTE, ref);
+        // Link text inside a block of copy is already in the text
+        const inCopy = element.kind === 'link'
+            && tagged.some((el, i) => (found[i].kind === 'copy' || found[i].kind === 'heading') && el.contains(tagged[index]));
+        if (!element.text || inCopy) return { ...element, ref };
+        const label = element.kind === 'heading' ? `[H${element.level}]` : element.kind === 'image' ? '[Image alt]' : element.kind === 'link' ? '[Link]' : '';
+        const span = line(label, element.text);
+        if (element.kind === 'link' && element.href) text += ` -> ${element.href}`;
+        return { ...element, ref, span };
+    });
+
+    // The preview never runs the page's code
+    doc.querySelectorAll('script, iframe, object, embed, base').forEach(el => el.remove());
+    doc.querySelectorAll('*').forEach(el => {
+        Array.from(el.attributes).forEach(({ name, value }) => {
+            if (/^on/i.test(name) || /^\s*javascript:/i.test(value)) el.removeAttribute(name);
+        });
+    });
+    const html = `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+
+    return { text, html, webPage: { title, description, lang, elements } };
+};
@@ -11,7 +11,9 @@ export enum AppView {
   BRAND_GUIDELINES = 'BRAND_GUIDELINES',
   KNOWLEDGE_BASE = 'KNOWLEDGE_BASE',
   USER_MANAGEMENT = 'USER_MANAGEMENT',
-  ANALYTICS = 'ANALYTICS'
+  ANALYTICS = 'ANALYTICS',
+  BATCH = 'BATCH',
+  CAMPAIGNS = 'CAMPAIGNS'
 }
 
 // Replaces 'Purpose' with strict Context enum
@@ -159,21 +161,115 @@ export enum AssetType {
   AUDIO = 'Audio Clip'
 }
 
+// A phrase that must be present in matching assets (checked by the rule engine)
+export interface RequiredDisclaimer {
+  id: string;
+  label: string;
+  text: string;
+  contexts?: CommunicationContext[]; // Empty = every context
+  assetTypes?: AssetType[]; // Empty = every asset type
+  triggers?: string[]; // Only required when one of these appears in the content
+}
+
+// One entry of the restricted terminology dictionary
+export interface BannedTerm {
+  id: string;
+  term: string; // A phrase, or a case-insensitive pattern when isRegex is set
+  variants?: string[]; // Other spellings/inflections matched like the term ("leveraging")
+  isRegex?: boolean;
+  replacement?: string; // Preferred wording, offered as a deterministic fix
+  severity: 'Low' | 'Medium' | 'High'; // High is blocking
+  regions?: Region[]; // Empty = every region
+  contexts?: CommunicationContext[]; // Empty = every context
+  exceptionReferent?: string; // Allowed when the text refers to this ("tech")
+  note?: string; // Extra guidance shown in the rationale
+}
+
+// Approved spelling of a brand, product or term
+export interface GlossaryEntry {
+  id: string;
+  term: string; // Canonical form with exact casing, without the trademark symbol
+  kind: 'brand' | 'product' | 'term';
+  trademark?: '™' | '®'; // Required after the first use in an asset
+  variants?: string[]; // Known misspellings, replaced by the term ("Aerion-Cloud")
+  deprecatedNames?: string[]; // Retired names, replaced by the term
+}
+
+export interface PaletteColor {
+  id: string;
+  name: string;
+  hex: string; // "#RRGGBB"
+  tolerance: number; // Largest accepted CIE76 color difference (ΔE); ~2 is just noticeable
+}
+
+export interface FontToken {
+  family: string;
+  weights: number[]; // Empty = any weight
+}
+
+// Machine-checkable part of the visual identity; styleGuide keeps the prose
+export interface DesignTokens {
+  palette: PaletteColor[];
+  allowNeutrals: boolean; // White, black and greys are always accepted
+  fonts: FontToken[];
+  logoClearSpace?: number; // Minimum clear space around the logo, as a fraction of logo height
+}
+
 export interface BrandSettings {
   brandName: string;
   mission: string;
   audience: string;
   toneVoice: string;
   styleGuide: string;
-  bannedTerms: string;
+  bannedTerms: BannedTerm[];
+  glossary?: GlossaryEntry[]; // brandName is always enforced, even without an entry
+  designTokens?: DesignTokens;
   inclusiveLanguage: boolean;
+  requiredDisclaimers?: RequiredDisclaimer[];
+}
+
+// Immutable snapshot created on every save of the brand guidelines
+export interface BrandSettingsVersion {
+  id: string; // "v<number>", stamped on every analysis
+  number: number;
+  settings: BrandSettings;
+  author: string;
+  createdAt: string;
+  note: string;
+  restoredFrom?: string; // Set when the version was created by a rollback
+}
+
+// A governed brand (sub-brand or partner line). Its display name is the
+// brandName of the version in force.
+export interface BrandProfile {
+  id: string;
+  versions: BrandSettingsVersion[]; // Oldest first
 }
 
 export enum Modality {
   TEXT_DOMINANT = 'Text Dominant',
   VISUAL_DOMINANT = 'Visual Dominant',
   MIXED = 'Mixed', // Slides, Docs with layout
-  VIDEO = 'Video'
+  VIDEO = 'Video',
+  AUDIO = 'Audio'
+}
+
+// Formatting of one text run as authored in a PPTX or DOCX file, after theme,
+// master, layout and style inheritance is resolved
+export interface StyledRun {
+  slide?: number; // 1-based (PPTX)
+  paragraph?: number; // 1-based (DOCX, which has no stable page numbers)
+  text: string;
+  font?: string;
+  size?: number; // Points
+  color?: string; // "#RRGGBB"
+  bold?: boolean;
+}
+
+export interface DocumentStyles {
+  themeFonts: { major?: string; minor?: string };
+  themeColors: Record<string, string>; // Scheme slot ("accent1", "dk1") -> "#RRGGBB"
+  runs: StyledRun[];
 }
 
 export interface IngestedAsset {
@@ -182,20 +278,125 @@ export interface IngestedAsset {
     uploadTime: number;
     owner: string; // "General User" for now
     originalFormat: string;
+    duration?: number; // Seconds (audio)
   };
   modality: Modality;
-  content: string | ArrayBuffer; // Raw text or Base64
+  content: string | ArrayBuffer; // Raw text or Base64; for PDFs the text layer
   rawFile: File;
   htmlPreview?: string; // Specific for DOCX
-  visualSlides?: { data: string; mimeType: string }[]; // Extracted slide/page images with MIME type
+  fileBase64?: string; // Original file when content holds its extracted text (PDF), video that could not be sampled into frames, or audio without a transcript
+  textLayout?: PositionedText[]; // Where each run of `content` sits on its page (PDF)
+  workbook?: Workbook; // Sheets and cells of spreadsheets (XLSX, ODS, CSV)
+  webPage?: WebPage; // Structure of HTML pages; htmlPreview is the page itself
+  email?: EmailMessage; // Headers, body parts and attachments of emails (EML)
+  transcript?: Transcript; // Timed speech of video and audio; `content` is its text
+  waveform?: Waveform; // Loudness outline of audio, for the timeline in the results view
+  visualSlides?: { data: string; mimeType: string; time?: number }[]; // Extracted slide/page images with MIME type; for video, sampled frames with their time in seconds
+  documentStyles?: DocumentStyles; // Fonts and colors used in Office files
   flags: {
     isScreenshot: boolean;
   };
 }
 
+// Character offsets into the analyzed text (end exclusive)
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+// One non-empty spreadsheet cell
+export interface SheetCell {
+  ref: string; // A1-style address within its sheet, e.g. "B4"
+  text: string; // As displayed (CSV, ODS, text cells) or the stored number (XLSX numbers, see `raw`)
+  raw?: boolean; // XLSX stores numbers unformatted; their look depends on `format` and the viewer's locale
+  format?: string; // Number format code, e.g. '"$"#,##0.00' or '[$€-407]#,##0.00'
+  currency?: string; // ISO code the file declares for the cell (ODS)
+  span?: TextSpan; // Where the cell is in the extracted text
+}
+
+export interface Sheet {
+  name: string;
+  cells: SheetCell[]; // Row by row, left to right
+}
+
+export interface Workbook {
+  sheets: Sheet[];
+}
+
+// One checked part of a web page
+export interface WebElement {
+  ref: string; // data-check-ref of the element in the preview HTML
+  kind: 'heading' | 'copy' | 'image' | 'link';
+  text: string; // Visible text; alt text for images
+  level?: number; // Headings: 1-6
+  href?: string; // Links: target; images: src
+  hasAlt?: boolean; // Images: whether an alt attribute is present (alt="" marks decoration)
+  span?: TextSpan; // Where the text is in the extracted text
+}
+
+export interface WebPage {
+  title?: string;
+  description?: string; // <meta name="description">
+  lang?: string; // <html lang>
+  elements: WebElement[]; // Document order
+}
+
+// A file attached to an email
+export interface EmailAttachment {
+  fileName: string;
+  mimeType: string;
+  size: number; // Bytes
+  asset?: IngestedAsset; // The attachment ingested like an upload; unset when it cannot be read
+}
+
+export interface EmailMessage {
+  subject?: string;
+  preheader?: string; // Preview text mail clients show after the subject
+  senderName?: string; // Display name of the From header
+  senderAddress?: string;
+  listUnsubscribe?: string; // List-Unsubscribe header, which mail clients show as an unsubscribe button
+  htmlBody: boolean; // Whether the body was read from HTML (otherwise plain text)
+  elements: WebElement[]; // Header fields and body parts, tagged in the preview like web page elements
+  attachments: EmailAttachment[];
+}
+
+// A stretch of speech, e.g. one caption cue
+export interface TimedSegment {
+  start: number; // Seconds
+  end: number;
+  text: string;
+  speaker?: string;
+  span?: TextSpan; // Where the segment is in the extracted text
+}
+
+export interface Transcript {
+  source: 'captions' | 'transcription'; // A sidecar SRT/VTT file, or transcribed by the provider
+  segments: TimedSegment[];
+}
+
+export interface Waveform {
+  duration: number; // Seconds
+  peaks: number[]; // Loudest sample (0-1, relative to the loudest of the file) per bar, evenly spread over the duration
+}
+
+// A run of text placed on a page, e.g. one pdf.js text item
+export interface PositionedText {
+  page: number; // 1-based
+  span: TextSpan; // Offsets into the extracted text
+  box: { x: number; y: number; width: number; height: number }; // Percent of the page, like Issue.boundingBox
+}
+
+// Machine-applicable fix: replace the text at `span` with `replacement`
+export interface TextPatch {
+  span: TextSpan;
+  replacement: string;
+}
+
+export type IssueCategory = 'Brand' | 'Compliance' | 'Cultural';
+
 export interface Issue {
   id: string;
-  category: 'Brand' | 'Compliance' | 'Cultural';
+  category: IssueCategory;
   subcategory: string;
   description: string; // The "What"
   rationale: string; // The "Why"
@@ -204,8 +405,16 @@ export interface Issue {
   blocking: boolean; // New: determines safety status
   fixType: 'Deterministic' | 'Manual'; // New
   boundingBox?: { x: number; y: number; width: number; height: number; };
-  timestamp?: number;
+  timestamp?: number; // Seconds into video or audio; exact for findings in a transcript or on a sampled frame
   page_number?: number; // Added for multi-page document annotations
+  span?: TextSpan; // Exact location in the analyzed text (rule engine findings)
+  source?: 'rule' | 'model'; // Who raised the issue
+  ruleId?: string; // Stable rule identifier, e.g. "banned-term:leverage"
+  patch?: TextPatch; // Present on Deterministic fixes that can be applied automatically
+  brandId?: string; // Profile the issue was raised against (co-branded runs)
+  cellRef?: string; // Spreadsheet findings: "Prices!B4"
+  elementRef?: string; // Web page findings: WebElement.ref of the element
+  attachment?: string; // Email findings raised in an attachment: its file name
 }
 
 export interface CulturalInsight {
@@ -223,12 +432,19 @@ export interface Claim {
 
 export type SafetyStatus = 'Safe' | 'Caution' | 'Unsafe';
 
+export interface AnalysisCoverage {
+  analyzedPages: number;
+  totalPages: number;
+  failedPages?: number[]; // 1-based; their analysis failed and they carry no model findings
+}
+
 export interface AnalysisResult {
   safetyStatus: SafetyStatus;
   summary: string;
   brandScore: number; // 0-100
   issues: Issue[];
   correctedText?: string;
+  coverage?: AnalysisCoverage; // Set for page-based assets (PDF pages, slide images)
 }
 
 export interface UploadState {
@@ -245,9 +461,12 @@ export interface UploadState {
   detectedConfidence: number;
   htmlPreview?: string;
   audienceScope: AudienceScope; // New (Section B)
+  brandId?: string; // Brand profile to check against (defaults to the active workspace)
+  partnerBrandId?: string; // Second profile for co-branded assets
 }
 
 export interface HistoryItem {
+  id: number;
   box_2d?: number[];
   page_number?: number;
   filename: string;
@@ -258,7 +477,77 @@ export interface HistoryItem {
   region: Region;
   issuesCount: number; // Renamed from issues for clarity
   topIssues?: string[];
+  categoryCounts?: Partial<Record<IssueCategory, number>>; // Exact per-category issue counts
+  hasRecord?: boolean; // A full AnalysisRecord is stored and the run can be reopened
+  brandId?: string; // Missing on entries from before multi-brand workspaces
+  partnerBrandId?: string;
   contextSnapshot?: any;
 }
 
+// Upload metadata kept with a stored run (the File itself is not serializable)
+export interface StoredUploadState {
+  fileName?: string;
+  textInput: string;
+  sharePointUrl?: string;
+  context: CommunicationContext;
+  region: Region;
+  assetType: AssetType;
+  mimeType?: string;
+  additionalContext: string;
+  detectedConfidence: number;
+  audienceScope: AudienceScope;
+  brandId?: string;
+  partnerBrandId?: string;
+}
+
+// Optional previews so a reopened run can show the annotated asset
+export interface StoredAssetPreview {
+  fileBase64?: string;
+  htmlPreview?: string;
+  visualSlides?: { data: string; mimeType: string; time?: number }[];
+  documentStyles?: DocumentStyles;
+  textLayout?: PositionedText[];
+  workbook?: Workbook;
+  webPage?: WebPage;
+  email?: EmailMessage; // Attachments are listed without their ingested assets
+  transcript?: Transcript;
+  waveform?: Waveform;
+}
+
+// Everything needed to reopen a past run in the dashboard
+export interface AnalysisRecord {
+  id: number; // Same id as the HistoryItem
+  createdAt: string;
+  result: AnalysisResult;
+  upload: StoredUploadState;
+  brandSettingsVersion: string;
+  preview?: StoredAssetPreview;
+}
+
+// Assets launched together (banner, landing page, email...), checked against each other
+export interface Campaign {
+  id: string;
+  name: string;
+  brandId: string;
+  memberIds: number[]; // HistoryItem ids, in the order they were added
+  createdAt: string;
+  checkedAt?: string; // Last cross-asset consistency check
+}
+
+export type BatchJobStatus = 'queued' | 'ingesting' | 'analyzing' | 'done' | 'failed' | 'cancelled';
+
+// One file of a batch upload, analyzed and saved like a single upload
+export interface BatchJob {
+  id: string;
+  file: File;
+  sidecars: File[]; // Caption files that go with it
+  status: BatchJobStatus;
+  progress: number; // 0-100, of the analysis
+  assetType?: AssetType; // Detected once the file is read
+  context?: CommunicationContext;
+  historyItem?: HistoryItem; // The saved run, once analyzed
+  brandScore?: number;
+  error?: string;
+}
+
 export type FixIntensity = 'Low' | 'Medium' | 'High';
@@ -110,7 +110,7 @@ export const EXTERNAL_ASSETS: Record<string, AssetOption[]> = {
 
 // --- FORMAT COMPATIBILITY MAP ---
 // Defines which asset types are valid for which physical file format categories.
-// Categories: DOC (Docs/PDF), PRES (PPTX), VIDEO (MP4/MOV), IMAGE (JPG/PNG), AUDIO (MP3/WAV)
+// Categories: DOC (Docs/PDF), PRES (PPTX), SHEET (XLSX/ODS/CSV), WEB (HTML), EMAIL (EML), VIDEO (MP4/MOV), IMAGE (JPG/PNG), AUDIO (MP3/WAV)
 
 const FORMAT_COMPATIBILITY: Record<string, Set<AssetType>> = {
     DOC: new Set([
@@ -140,6 +140,25 @@ const FORMAT_COMPATIBILITY: Record<string, Set<AssetType>> = {
         // Generic
         AssetType.PRESENTATION
     ]),
+    SHEET: new Set([
+        AssetType.PRICE_LIST, AssetType.PROPOSAL, AssetType.STATUS_REPORT, AssetType.PROJECT_REPORT,
+        AssetType.ORG_CHART, AssetType.RESELLER_KIT,
+        // Generic
+        AssetType.DOCUMENT
+    ]),
+    WEB: new Set([
+        AssetType.WEB_CONTENT, AssetType.landing_page, AssetType.BLOG_POST, AssetType.NEWSLETTER,
+        AssetType.EMAIL_TEMPLATE, AssetType.PRESS_RELEASE, AssetType.CASE_STUDY, AssetType.AD_CAMPAIGN,
+        AssetType.USER_GUIDE, AssetType.API_DOCS, AssetType.RELEASE_NOTES, AssetType.PRIVACY_POLICY, AssetType.TERMS,
+        // Generic
+        AssetType.DOCUMENT
+    ]),
+    EMAIL: new Set([
+        AssetType.NEWSLETTER, AssetType.MEMO, AssetType.EMAIL_TEMPLATE, AssetType.PRESS_RELEASE,
+        AssetType.AD_CAMPAIGN, AssetType.PROPOSAL, AssetType.STATUS_REPORT, AssetType.MEETING_MINUTES,
+        // Generic
+        AssetType.DOCUMENT
+    ]),
     VIDEO: new Set([
         AssetType.ONBOARDING_VIDEO, AssetType.TRAINING_SLIDES,
         AssetType.LEADERSHIP_VLOG, AssetType.MEETING_REC, AssetType.ELEARNING,
@@ -180,19 +199,25 @@ export const TEXT_ONLY_TYPES = new Set([
     AssetType.DOCUMENT, AssetType.PRESENTATION, AssetType.USER_GUIDE
 ]);
 
+// Format category of a file (see FORMAT_COMPATIBILITY) from its extension
+export function getFormatCategory(fileName: string): string {
+    const ext = fileName.split('.').pop()?.toLowerCase();
+    if (['ppt', 'pptx'].includes(ext || '')) return 'PRES';
+    if (['xlsx', 'xlsm', 'ods', 'csv', 'tsv'].includes(ext || '')) return 'SHEET';
+    if (['html', 'htm'].includes(ext || '')) return 'WEB';
+    if (ext === 'eml') return 'EMAIL';
+    if (['mp4', 'mov', 'avi', 'kv', 'webm', 'mkv'].includes(ext || '')) return 'VIDEO';
+    if (['srt', 'vtt'].includes(ext || '')) return 'VIDEO'; // Captions stand in for their video
+    if (['jpg', 'jpeg', 'png', 'webp', 'gif', 'svg'].includes(ext || '')) return 'IMAGE';
+    if (['mp3', 'wav', 'm4a', 'ogg', 'aac'].includes(ext || '')) return 'AUDIO';
+    return 'DOC'; // PDF, DOC, DOCX and anything else
+}
+
 export function getAvailableAssets(scope: AudienceScope | null, inputMethod: InputMethod, fileName?: string): Record<string, AssetOption[]> {
     const source = scope === AudienceScope.INTERNAL ? INTERNAL_ASSETS : EXTERNAL_ASSETS;
 
     // Detect Format Category from Extension
-    let formatCategory = 'DOC'; // Default fallback
-    if (fileName) {
-        const ext = fileName.split('.').pop()?.toLowerCase();
-        if (['ppt', 'pptx'].includes(ext || '')) formatCategory = 'PRES';
-        else if (['mp4', 'mov', 'avi', 'kv', 'webm', 'mkv'].includes(ext || '')) formatCategory = 'VIDEO';
-        else if (['jpg', 'jpeg', 'png', 'webp', 'gif', 'svg'].includes(ext || '')) formatCategory = 'IMAGE';
-        else if (['mp3', 'wav', 'm4a', 'ogg', 'aac'].includes(ext || '')) formatCategory = 'AUDIO';
-        // PDF, DOC, DOCX default to DOC
-    }
+    const formatCategory = fileName ? getFormatCategory(fileName) : 'DOC';
 
     // Deep copy to avoid mutating source
     const result: Record<string, AssetOption[]> = {};
@@ -233,3 +258,27 @@ export function inferContextFromAssetType(type: AssetType): CommunicationContext
     }
     return CommunicationContext.NOT_SURE;
 }
+
+// Generic type of each format, used when nothing more specific is known
+const FORMAT_DEFAULTS: Record<string, AssetType> = {
+    DOC: AssetType.DOCUMENT,
+    PRES: AssetType.PRESENTATION,
+    SHEET: AssetType.DOCUMENT,
+    WEB: AssetType.DOCUMENT,
+    EMAIL: AssetType.DOCUMENT,
+    VIDEO: AssetType.VIDEO,
+    IMAGE: AssetType.IMAGE,
+    AUDIO: AssetType.AUDIO
+};
+
+/**
+ * Asset type for a file uploaded without picking one (batch uploads): the suggested
+ * type when the file's format and the scope allow it, otherwise the format's generic type.
+ */
+export function detectAssetOption(scope: AudienceScope, fileName: string, suggested?: AssetType): AssetOption {
+    const options = Object.values(getAvailableAssets(scope, InputMethod.FILE, fileName)).flat();
+    const fallback = FORMAT_DEFAULTS[getFormatCategory(fileName)];
+    return options.find(o => o.value === suggested)
+        || options.find(o => o.value === fallback)
+        || { label: fallback, value: fallback, context: inferContextFromAssetType(fallback) };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { Issue } from '../types';
+import { applyPatches, applyPatchesToSegments } from './textPatches';
+
+const patch = (id: string, start: number, end: number, replacement: string): Issue => ({
+    id,
+    category: 'Compliance',
+    subcategory: 'Banned Term',
+    description: '',
+    rationale: '',
+    fix: '',
+    severity: 'High',
+    blocking: false,
+    fixType: 'Deterministic',
+    patch: { span: { start, end }, replacement }
+});
+
+describe('applyPatchesToSegments', () => {
+    it('splits the text around replacements, in text order', () => {
+        const text = 'We leverage synergy.';
+        const segments = applyPatchesToSegments(text, [patch('b', 12, 19, 'collaboration'), patch('a', 3, 11, 'use')]);
+        expect(segments).toEqual([
+            { text: 'We ' },
+            { text: 'use', issueId: 'a' },
+            { text: ' ' },
+            { text: 'collaboration', issueId: 'b' },
+            { text: '.' }
+        ]);
+    });
+
+    it('skips a patch that overlaps an earlier one', () => {
+        const text = 'paradigm shift';
+        const segments = applyPatchesToSegments(text, [patch('whole', 0, 14, 'fundamental change'), patch('part', 9, 14, 'move')]);
+        expect(segments).toEqual([{ text: 'fundamental change', issueId: 'whole' }]);
+    });
+
+    it('applies adjacent patches and inserts at the end', () => {
+        const text = 'ab';
+        expect(applyPatches(text, [patch('a', 0, 1, 'A'), patch('b', 1, 2, 'B'), patch('end', 2, 2, '!')])).toBe('AB!');
+    });
+
+    it('ignores issues without a patch and patches outside the text', () => {
+        const { patch: _, ...manual } = patch('manual', 0, 1, 'x');
+        expect(applyPatches('text', [manual, patch('out', 2, 10, 'x'), patch('reversed', 3, 1, 'x')])).toBe('text');
+    });
+});
@@ -0,0 +1,49 @@
+import { Issue, TextPatch } from '../types';
+
+export interface PatchedSegment {
+    text: string;
+    issueId?: string; // Set when this segment is a replacement
+}
+
+/**
+ * Applies non-overlapping patches to `text` and returns the result as segments,
+ * so callers can highlight what changed. When two patches overlap the one that
+ * starts first wins; the other is skipped.
+ */
+export function applyPatchesToSegments(text: string, issues: Issue[]): PatchedSegment[] {
+    const patched = issues
+        .filter((i): i is Issue & { patch: TextPatch } => !!i.patch)
+        .filter(i => i.patch.span.start >= 0 && i.patch.span.end <= text.length && i.patch.span.start <= i.patch.span.end)
+        .sort((a, b) => a.patch.span.start - b.patch.span.start);
+
+    const segments: PatchedSegment[] = [];
+    let cursor = 0;
+
+    patched.forEach(issue => {
+        const { span, replacement } = issue.patch;
+        if (span.start < cursor) return; // Overlaps an earlier patch
+        if (span.start > cursor) segments.push({ text: text.slice(cursor, span.start) });
+        segments.push({ text: replacement, issueId: issue.id });
+        cursor = span.end;
+    });
+
+    if (cursor < text.length) segments.push({ text: text.slice(cursor) });
+    return segments;
+}
+
+export function applyPatches(text: string, issues: Issue[]): string {
+    return applyPatchesToSegments(text, issues).map(s => s.text).join('');
+}
+
+/** Triggers a browser download of plain text content. */
+export function downloadText(content: string, fileName: string): void {
+    const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', fileName);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { Issue } from '../types';
+import { DiffHunk, DiffSegment, buildFinalText, diffWords } from './wordDiff';
+
+const hunks = (segments: DiffSegment[]): DiffHunk[] =>
+    segments.flatMap(s => s.type === 'change' ? [s.hunk] : []);
+
+const acceptAll = (segments: DiffSegment[]) =>
+    Object.fromEntries(hunks(segments).map(h => [h.id, 'accept' as const]));
+
+describe('diffWords', () => {
+    it('handles empty input', () => {
+        expect(diffWords('', '')).toEqual([]);
+
+        const added = diffWords('', 'New text.');
+        expect(hunks(added)).toMatchObject([{ start: 0, end: 0, removed: '', added: 'New text.' }]);
+
+        const removed = diffWords('Old text.', '');
+        expect(hunks(removed)).toMatchObject([{ start: 0, end: 9, removed: 'Old text.', added: '' }]);
+    });
+
+    it('returns identical text as one unchanged segment', () => {
+        const text = 'Nothing to change here.';
+        expect(diffWords(text, text)).toEqual([{ type: 'equal', text }]);
+    });
+
+    it('separates insertions, deletions and replacements with offsets into the original', () => {
+        const original = 'We leverage data to grow fast.';
+        const corrected = 'We use data to grow. Truly fast.';
+        const segments = diffWords(original, corrected);
+
+        expect(hunks(segments).map(({ removed, added }) => ({ removed, added }))).toEqual([
+            { removed: 'leverage', added: 'use' },
+            { removed: '', added: '. Truly' }
+        ]);
+        hunks(segments).forEach(h => expect(original.slice(h.start, h.end)).toBe(h.removed));
+    });
+
+    it('folds changes separated only by whitespace into one hunk', () => {
+        const segments = diffWords('a paradigm shift now', 'a fundamental change now');
+        expect(hunks(segments)).toHaveLength(1);
+        expect(hunks(segments)[0]).toMatchObject({ removed: 'paradigm shift', added: 'fundamental change' });
+    });
+
+    it('links a hunk to the issues whose span it touches', () => {
+        const issue: Issue = {
+            id: 'rule-banned-leverage-3', category: 'Compliance', subcategory: 'Banned Term', description: '', rationale: '', fix: '',
+            severity: 'High', blocking: true, fixType: 'Deterministic', span: { start: 3, end: 11 }
+        };
+        const [hunk] = hunks(diffWords('We leverage data.', 'We use data.', [issue]));
+        expect(hunk.issueIds).toEqual([issue.id]);
+    });
+});
+
+describe('buildFinalText', () => {
+    const original = 'Leverage synergy. Remove this sentence. Keep this.';
+    const corrected = 'Use collaboration. Keep this.';
+    const segments = diffWords(original, corrected);
+
+    it('rebuilds either text from all-accept or all-reject', () => {
+        expect(buildFinalText(segments, acceptAll(segments))).toBe(corrected);
+        expect(buildFinalText(segments, {})).toBe(original);
+    });
+
+    it('applies hunks one by one', () => {
+        const [first, ...rest] = hunks(segments);
+        const decisions = { [first.id]: 'accept' as const, ...Object.fromEntries(rest.map(h => [h.id, 'reject' as const])) };
+        const result = buildFinalText(segments, decisions);
+        expect(result.startsWith(first.added)).toBe(true);
+        expect(result.endsWith(original.slice(first.end))).toBe(true);
+    });
+});
@@ -0,0 +1,173 @@
+import { Issue } from '../types';
+
+type DiffOp = { type: 'equal' | 'delete' | 'insert'; token: string };
+
+export interface DiffHunk {
+    id: string;
+    start: number; // Offsets into the original text
+    end: number;
+    removed: string;
+    added: string;
+    issueIds: string[]; // Issues that motivated this change
+}
+
+export type DiffSegment =
+    | { type: 'equal'; text: string }
+    | { type: 'change'; hunk: DiffHunk };
+
+export type HunkDecision = 'accept' | 'reject';
+
+// Past this many tokens the middle of the text is treated as one replacement
+const MAX_DIFF_TOKENS = 20000;
+
+// Words (with inner apostrophes/hyphens), whitespace runs, and single punctuation marks
+const splitWords = (text: string): string[] =>
+    text.match(/\s+|[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*|[^\s\p{L}\p{N}]/gu) || [];
+
+/**
+ * Myers O(ND) diff over token arrays. Keeps one snapshot of the frontier per
+ * edit distance (O(D²) memory) so long documents with few edits stay cheap.
+ */
+const myers = (a: string[], b: string[]): DiffOp[] => {
+    const n = a.length;
+    const m = b.length;
+    const max = n + m;
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    const trace: Int32Array[] = [];
+
+    const at = (snapshot: Int32Array, d: number, k: number) => snapshot[k + d];
+
+    outer:
+    for (let d = 0; d <= max; d++) {
+        for (let k = -d; k <= d; k += 2) {
+            let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+                ? v[offset + k + 1]
+                : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                trace.push(v.slice(offset - d, offset + d + 1));
+                break outer;
+            }
+        }
+        trace.push(v.slice(offset - d, offset + d + 1));
+    }
+
+    const ops: DiffOp[] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d > 0; d--) {
+        const prev = trace[d - 1];
+        const k = x - y;
+        const prevK = (k === -d || (k !== d && at(prev, d - 1, k - 1) < at(prev, d - 1, k + 1))) ? k + 1 : k - 1;
+        const prevX = at(prev, d - 1, prevK);
+        const prevY = prevX - prevK;
+
+        while (x > prevX && y > prevY) { ops.push({ type: 'equal', token: a[--x] }); y--; }
+        if (x === prevX) ops.push({ type: 'insert', token: b[--y] });
+        else ops.push({ type: 'delete', token: a[--x] });
+    }
+    while (x > 0 && y > 0) { ops.push({ type: 'equal', token: a[--x] }); y--; }
+
+    return ops.reverse();
+};
+
+const diffTokens = (a: string[], b: string[]): DiffOp[] => {
+    // Common prefix/suffix never needs the full algorithm
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+    const midA = a.slice(prefix, a.length - suffix);
+    const midB = b.slice(prefix, b.length - suffix);
+    const middle: DiffOp[] = midA.length + midB.length > MAX_DIFF_TOKENS
+        ? [...midA.map(token => ({ type: 'delete' as const, token })), ...midB.map(token => ({ type: 'insert' as const, token }))]
+        : myers(midA, midB);
+
+    return [
+        ...a.slice(0, prefix).map(token => ({ type: 'equal' as const, token })),
+        ...middle,
+        ...a.slice(a.length - suffix).map(token => ({ type: 'equal' as const, token }))
+    ];
+};
+
+// Quoted phrases in an issue ("Banned term "leverage" used.") name the text it is about
+const quotedPhrases = (issue: Issue): string[] =>
+    [...`${issue.description} ${issue.fix}`.matchAll(/["“'‘]([^"”'’]{2,80})["”'’]/g)].map(m => m[1].toLowerCase());
+
+const linkIssues = (hunk: DiffHunk, issues: Issue[]): string[] => {
+    const removed = hunk.removed.toLowerCase();
+    return issues.filter(issue => {
+        if (issue.span) {
+            const overlaps = issue.span.start < hunk.end && issue.span.end > hunk.start;
+            const touches = hunk.start === hunk.end && issue.span.start <= hunk.start && hunk.start <= issue.span.end;
+            if (overlaps || touches) return true;
+        }
+        return removed.length > 0 && quotedPhrases(issue).some(phrase => removed.includes(phrase));
+    }).map(issue => issue.id);
+};
+
+/**
+ * Word-level diff between the original and the rewritten text. Adjacent changes
+ * separated only by whitespace are folded into one hunk so a rewritten phrase
+ * reads as a single decision.
+ */
+export function diffWords(original: string, corrected: string, issues: Issue[] = []): DiffSegment[] {
+    const ops = diffTokens(splitWords(original), splitWords(corrected));
+
+    type Run = { type: 'equal'; text: string } | { type: 'change'; removed: string; added: string; start: number; end: number };
+    const runs: Run[] = [];
+    let position = 0;
+
+    ops.forEach(op => {
+        const last = runs[runs.length - 1];
+        if (op.type === 'equal') {
+            if (last?.type === 'equal') last.text += op.token;
+            else runs.push({ type: 'equal', text: op.token });
+            position += op.token.length;
+            return;
+        }
+        const change = last?.type === 'change' ? last : { type: 'change' as const, removed: '', added: '', start: position, end: position };
+        if (change !== last) runs.push(change);
+        if (op.type === 'delete') {
+            change.removed += op.token;
+            position += op.token.length;
+            change.end = position;
+        } else {
+            change.added += op.token;
+        }
+    });
+
+    // Fold change / whitespace / change into a single change
+    const merged: Run[] = [];
+    runs.forEach(run => {
+        const prev = merged[merged.length - 1];
+        const beforePrev = merged[merged.length - 2];
+        if (run.type === 'change' && prev?.type === 'equal' && beforePrev?.type === 'change' && /^\s+$/.test(prev.text)) {
+            beforePrev.removed += prev.text + run.removed;
+            beforePrev.added += prev.text + run.added;
+            beforePrev.end = run.end;
+            merged.pop();
+        } else {
+            merged.push(run);
+        }
+    });
+
+    return merged.map((run, index) => {
+        if (run.type === 'equal') return run;
+        const hunk: DiffHunk = { id: `hunk-${index}-${run.start}`, start: run.start, end: run.end, removed: run.removed, added: run.added, issueIds: [] };
+        hunk.issueIds = linkIssues(hunk, issues);
+        return { type: 'change', hunk };
+    });
+}
+
+/** Builds the final text: accepted hunks take the rewrite, everything else keeps the original. */
+export function buildFinalText(segments: DiffSegment[], decisions: Record<string, HunkDecision>): string {
+    return segments.map(segment => {
+        if (segment.type === 'equal') return segment.text;
+        return decisions[segment.hunk.id] === 'accept' ? segment.hunk.added : segment.hunk.removed;
+    }).join('');
+}